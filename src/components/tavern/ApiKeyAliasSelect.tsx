@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { KeyRound } from 'lucide-react';
+import KeyVaultDialog from './KeyVaultDialog';
+import { useKeyVault } from '@/hooks/useKeyVault';
+
+interface ApiKeyAliasSelectProps {
+  value?: string;
+  onChange: (alias: string) => void;
+  className?: string;
+  id?: string;
+}
+
+// API Key 选择器：只选择密钥库中的别名，密钥本身在密钥库对话框中管理
+const ApiKeyAliasSelect: React.FC<ApiKeyAliasSelectProps> = ({ value, onChange, className, id }) => {
+  const { status, aliases } = useKeyVault();
+  const [isVaultOpen, setIsVaultOpen] = useState(false);
+  const isMissing = !!value && !aliases.some(info => info.alias === value);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={value || undefined} onValueChange={onChange}>
+        <SelectTrigger id={id} className={className}>
+          <SelectValue placeholder={aliases.length > 0 ? '选择密钥' : '密钥库中暂无密钥'} />
+        </SelectTrigger>
+        <SelectContent>
+          {aliases.map(info => (
+            <SelectItem key={info.alias} value={info.alias}>
+              {info.alias} {info.hint}
+            </SelectItem>
+          ))}
+          {isMissing && (
+            <SelectItem value={value}>{value}（未找到）</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setIsVaultOpen(true)}
+        title={status === 'locked' ? '解锁密钥库' : '管理密钥'}
+        className="shrink-0"
+      >
+        <KeyRound className="w-4 h-4" />
+      </Button>
+      <KeyVaultDialog isOpen={isVaultOpen} onClose={() => setIsVaultOpen(false)} />
+    </div>
+  );
+};
+
+export default ApiKeyAliasSelect;
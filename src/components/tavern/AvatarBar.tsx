@@ -3,6 +3,8 @@ import { AICharacter } from '@/types/tavern';
 import CharacterAvatar from './CharacterAvatar';
 import { Button } from '@/components/ui/button'; // Shadcn Button
 import { Play, Pause } from 'lucide-react'; // Icons
+import NarratorControls from './NarratorControls';
+import { NarratorConfig } from '@/types/narrator';
 
 interface AvatarBarProps {
   characters: AICharacter[];
@@ -11,6 +13,11 @@ interface AvatarBarProps {
   onAvatarClick?: (characterId: string) => void;
   isAutoConversationActive: boolean; // New prop for pause state
   onToggleAutoConversation: () => void; // New prop for toggling pause
+  // 旁白设置，未传入时不显示
+  narratorConfig?: NarratorConfig;
+  isNarrating?: boolean;
+  onNarratorConfigChange?: (changes: Partial<NarratorConfig>) => void;
+  onNarrateNow?: () => void;
 }
 
 const AvatarBar: React.FC<AvatarBarProps> = ({
@@ -20,6 +27,10 @@ const AvatarBar: React.FC<AvatarBarProps> = ({
   onAvatarClick,
   isAutoConversationActive,
   onToggleAutoConversation,
+  narratorConfig,
+  isNarrating = false,
+  onNarratorConfigChange,
+  onNarrateNow,
 }) => {
   return (
     <div className="bg-tavern-panel-bg p-3 flex items-center justify-between rounded-b-lg shadow-md mt-2">
@@ -34,7 +45,15 @@ const AvatarBar: React.FC<AvatarBarProps> = ({
           />
         ))}
       </div>
-      <div className="ml-2 flex-shrink-0"> {/* Ensure button does not cause overflow if avatars take full width */}
+      <div className="ml-2 flex-shrink-0 flex items-center"> {/* Ensure button does not cause overflow if avatars take full width */}
+        {narratorConfig && onNarratorConfigChange && onNarrateNow && (
+          <NarratorControls
+            config={narratorConfig}
+            isNarrating={isNarrating}
+            onConfigChange={onNarratorConfigChange}
+            onNarrateNow={onNarrateNow}
+          />
+        )}
         <Button
           variant="ghost"
           size="icon"
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { GitBranch, GitMerge, Pencil, Trash2, Check, X } from 'lucide-react';
+import { MessageTree } from '@/types/session';
+import { getBranchOutline } from '@/lib/conversationTree';
+
+interface BranchNavigatorProps {
+  messageTree: MessageTree;
+  disabled?: boolean; // 有角色正在回复时禁止切换分支
+  onSwitchBranch: (branchId: string) => void;
+  onRenameBranch: (branchId: string, name: string) => void;
+  onMergeBranch: (sourceId: string, targetId: string) => void;
+  onPruneBranch: (branchId: string) => void;
+}
+
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({
+  messageTree,
+  disabled = false,
+  onSwitchBranch,
+  onRenameBranch,
+  onMergeBranch,
+  onPruneBranch,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  const outline = getBranchOutline(messageTree);
+  const branchNames = new Map(messageTree.branches.map(branch => [branch.id, branch.name]));
+
+  const startRenaming = (branchId: string) => {
+    setDraftName(branchNames.get(branchId) || '');
+    setRenamingId(branchId);
+    setMergingId(null);
+  };
+
+  const saveRenaming = () => {
+    if (renamingId && draftName.trim()) {
+      onRenameBranch(renamingId, draftName);
+    }
+    setRenamingId(null);
+  };
+
+  const handlePrune = (branchId: string) => {
+    if (window.confirm(`确定删除分支「${branchNames.get(branchId)}」吗？只属于该分支的消息会一并删除。`)) {
+      onPruneBranch(branchId);
+    }
+  };
+
+  return (
+    <Card className="border border-tavern-accent/30 bg-tavern-bg">
+      <CardHeader className="p-3 pb-2">
+        <CardTitle className="text-sm font-medium text-tavern-accent flex items-center gap-1">
+          <GitBranch size={14} />
+          对话分支
+        </CardTitle>
+        <p className="text-xs text-tavern-text opacity-60">在消息上点击分支图标，可从该消息分出新的剧情</p>
+      </CardHeader>
+      <CardContent className="p-3 pt-0 space-y-1">
+        {outline.map(({ branch, depth, messageCount, isActive }) => (
+          <div key={branch.id} style={{ paddingLeft: depth * 12 }}>
+            <div
+              className={`rounded px-2 py-1.5 text-xs border ${
+                isActive ? 'border-tavern-accent bg-tavern-accent/10' : 'border-transparent hover:border-tavern-accent/30'
+              }`}
+            >
+              {renamingId === branch.id ? (
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveRenaming();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="h-6 text-xs bg-tavern-panel-bg border-tavern-accent/30 text-tavern-text"
+                    autoFocus
+                  />
+                  <button onClick={saveRenaming} className="text-tavern-accent" aria-label="保存分支名称">
+                    <Check size={12} />
+                  </button>
+                  <button onClick={() => setRenamingId(null)} className="text-tavern-text opacity-60" aria-label="取消重命名">
+                    <X size={12} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onSwitchBranch(branch.id)}
+                    disabled={disabled || isActive}
+                    className="flex-1 min-w-0 text-left disabled:cursor-default"
+                    title={isActive ? '当前分支' : '切换到该分支'}
+                  >
+                    <span className={`truncate ${isActive ? 'text-tavern-accent font-semibold' : 'text-tavern-text'}`}>
+                      {depth > 0 && '└ '}{branch.name}
+                    </span>
+                    <span className="ml-1 text-tavern-text opacity-50">{messageCount}条</span>
+                  </button>
+                  <button onClick={() => startRenaming(branch.id)} className="text-tavern-text opacity-60 hover:text-tavern-accent hover:opacity-100" aria-label="重命名分支" title="重命名">
+                    <Pencil size={11} />
+                  </button>
+                  {outline.length > 1 && (
+                    <button
+                      onClick={() => setMergingId(mergingId === branch.id ? null : branch.id)}
+                      disabled={disabled}
+                      className="text-tavern-text opacity-60 hover:text-tavern-accent hover:opacity-100 disabled:opacity-30"
+                      aria-label="合并分支"
+                      title="合并到其他分支"
+                    >
+                      <GitMerge size={11} />
+                    </button>
+                  )}
+                  {!isActive && (
+                    <button
+                      onClick={() => handlePrune(branch.id)}
+                      disabled={disabled}
+                      className="text-red-400 opacity-60 hover:opacity-100 disabled:opacity-30"
+                      aria-label="删除分支"
+                      title="删除分支"
+                    >
+                      <Trash2 size={11} />
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {mergingId === branch.id && (
+                <div className="mt-1 flex flex-wrap items-center gap-1">
+                  <span className="text-tavern-text opacity-60">合并到：</span>
+                  {messageTree.branches
+                    .filter(target => target.id !== branch.id)
+                    .map(target => (
+                      <Button
+                        key={target.id}
+                        onClick={() => {
+                          onMergeBranch(branch.id, target.id);
+                          setMergingId(null);
+                        }}
+                        variant="outline"
+                        size="sm"
+                        className="h-5 px-1.5 text-xs border-tavern-accent/30 text-tavern-accent hover:bg-tavern-accent/10"
+                      >
+                        {target.name}
+                      </Button>
+                    ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BranchNavigator;
@@ -3,39 +3,88 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
 import { AICharacter, ModelConfig } from '@/types/tavern';
+import { CharacterRelationshipSeed, RelationshipDimensions, RelationType, RELATION_TYPE_LABELS } from '@/types/relationship';
 import { Textarea } from '@/components/ui/textarea';
+import ApiKeyAliasSelect from './ApiKeyAliasSelect';
+
+// 初始关系中可以直接设定的维度，其余维度取关系类型的默认值
+const SEED_DIMENSION_FIELDS: { key: keyof RelationshipDimensions; label: string }[] = [
+  { key: 'trust', label: '信任' },
+  { key: 'intimacy', label: '亲密' },
+  { key: 'respect', label: '尊重' }
+];
+
+const seedInputClassName = 'h-7 text-xs bg-tavern-bg border-tavern-text focus:border-tavern-accent';
 
 interface CharacterConfigDialogProps {
   character: AICharacter | null;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (characterId: string, config: ModelConfig) => void;
+  onSave: (characterId: string, config: ModelConfig, relationshipSeeds: CharacterRelationshipSeed[]) => void;
+  otherCharacterNames?: string[];   // 场景中其他角色的名字，用于设定初始关系
 }
 
-const CharacterConfigDialog: React.FC<CharacterConfigDialogProps> = ({ character, isOpen, onClose, onSave }) => {
+const CharacterConfigDialog: React.FC<CharacterConfigDialogProps> = ({
+  character,
+  isOpen,
+  onClose,
+  onSave,
+  otherCharacterNames = []
+}) => {
   const [baseUrl, setBaseUrl] = useState('');
-  const [apiKey, setApiKey] = useState('');
+  const [apiKeyAlias, setApiKeyAlias] = useState('');
   const [modelName, setModelName] = useState('');
   const [prompt, setPrompt] = useState('');
+  const [relationshipSeeds, setRelationshipSeeds] = useState<CharacterRelationshipSeed[]>([]);
 
   useEffect(() => {
     if (character && character.modelConfig) {
       setBaseUrl(character.modelConfig.baseUrl || '');
-      setApiKey(character.modelConfig.apiKey || '');
+      setApiKeyAlias(character.modelConfig.apiKeyAlias || '');
       setModelName(character.modelConfig.modelName || '');
       setPrompt(character.modelConfig.prompt || '');
     } else {
       setBaseUrl('');
-      setApiKey('');
+      setApiKeyAlias('');
       setModelName('');
       setPrompt('');
     }
+    setRelationshipSeeds(character?.relationshipSeeds || []);
   }, [character]);
 
+  const updateSeed = (index: number, changes: Partial<CharacterRelationshipSeed>) => {
+    setRelationshipSeeds(seeds => seeds.map((seed, i) => (i === index ? { ...seed, ...changes } : seed)));
+  };
+
+  // 维度留空时取关系类型的默认值
+  const updateSeedDimension = (index: number, key: keyof RelationshipDimensions, text: string) => {
+    const seed = relationshipSeeds[index];
+    const dimensions = { ...seed.dimensions };
+    const value = parseFloat(text);
+    if (text.trim() === '' || Number.isNaN(value)) {
+      delete dimensions[key];
+    } else {
+      dimensions[key] = Math.max(0, Math.min(1, value));
+    }
+    updateSeed(index, { dimensions: Object.keys(dimensions).length > 0 ? dimensions : undefined });
+  };
+
+  const addSeed = () => {
+    const seededNames = new Set(relationshipSeeds.map(seed => seed.characterName));
+    const characterName = otherCharacterNames.find(name => !seededNames.has(name)) || otherCharacterNames[0] || '';
+    setRelationshipSeeds(seeds => [...seeds, { characterName, type: RelationType.ACQUAINTANCE }]);
+  };
+
   const handleSave = () => {
     if (character) {
-      onSave(character.id, { baseUrl, apiKey, modelName, prompt });
+      onSave(
+        character.id,
+        { ...character.modelConfig, baseUrl, apiKeyAlias, modelName, prompt },
+        relationshipSeeds.filter(seed => seed.characterName.trim() && seed.characterName !== character.name)
+      );
     }
   };
 
@@ -43,12 +92,12 @@ const CharacterConfigDialog: React.FC<CharacterConfigDialogProps> = ({ character
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[425px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto bg-tavern-panel-bg text-tavern-text border-tavern-accent">
         <DialogHeader>
-          <DialogTitle>配置 {character.name} 的AI模型</DialogTitle>
+          <DialogTitle>配置 {character.name} 的AI模型与关系</DialogTitle>
           <DialogDescription>
-            为 {character.name} 设置特定的API端点和模型。
-            请注意：API密钥将存储在浏览器本地，请谨慎操作。
+            为 {character.name} 设置特定的API端点和模型，以及与其他角色的初始关系。
+            API密钥加密保存在本地密钥库中，这里只选择密钥别名。
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
@@ -68,14 +117,14 @@ const CharacterConfigDialog: React.FC<CharacterConfigDialogProps> = ({ character
             <Label htmlFor="apiKey" className="text-right col-span-1">
               API Key
             </Label>
-            <Input
-              id="apiKey"
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              className="col-span-3 bg-tavern-bg border-tavern-text focus:border-tavern-accent"
-              placeholder="您的API密钥"
-            />
+            <div className="col-span-3">
+              <ApiKeyAliasSelect
+                id="apiKey"
+                value={apiKeyAlias}
+                onChange={setApiKeyAlias}
+                className="bg-tavern-bg border-tavern-text focus:border-tavern-accent"
+              />
+            </div>
           </div>
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="modelName" className="text-right col-span-1">
@@ -102,6 +151,74 @@ const CharacterConfigDialog: React.FC<CharacterConfigDialogProps> = ({ character
               rows={4}
             />
           </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>与其他角色的初始关系</Label>
+              <Button variant="ghost" size="sm" onClick={addSeed} className="h-6 px-2 text-xs text-tavern-accent">
+                <Plus className="w-3 h-3 mr-1" />
+                添加
+              </Button>
+            </div>
+            <p className="text-xs opacity-60">
+              对话开始时 {character.name} 与这些角色就已是该关系，双方共享；信任、亲密、尊重取值 0-1，留空按关系类型取默认值。关系在对话中变化后不再被这里的设定覆盖。
+            </p>
+            {relationshipSeeds.map((seed, index) => (
+              <div key={index} className="rounded border border-tavern-accent/30 p-2 space-y-1">
+                <div className="grid grid-cols-[1fr_110px_auto] gap-1 items-center">
+                  <Input
+                    value={seed.characterName}
+                    onChange={(e) => updateSeed(index, { characterName: e.target.value })}
+                    className={seedInputClassName}
+                    placeholder="角色名"
+                    list="character-config-names"
+                  />
+                  <Select value={seed.type} onValueChange={(type) => updateSeed(index, { type: type as RelationType })}>
+                    <SelectTrigger className={seedInputClassName}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(RelationType).map(type => (
+                        <SelectItem key={type} value={type}>{RELATION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <button
+                    onClick={() => setRelationshipSeeds(seeds => seeds.filter((_, i) => i !== index))}
+                    className="text-tavern-text/60 hover:text-red-400"
+                    aria-label="删除初始关系"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-1">
+                  {SEED_DIMENSION_FIELDS.map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-1">
+                      <span className="text-xs opacity-70 shrink-0">{label}</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.1}
+                        value={seed.dimensions?.[key] ?? ''}
+                        onChange={(e) => updateSeedDimension(index, key, e.target.value)}
+                        className={seedInputClassName}
+                        placeholder="默认"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <Input
+                  value={seed.note || ''}
+                  onChange={(e) => updateSeed(index, { note: e.target.value })}
+                  className={seedInputClassName}
+                  placeholder="关系背景（可选），例如：同父异母的兄妹"
+                />
+              </div>
+            ))}
+            <datalist id="character-config-names">
+              {otherCharacterNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </div>
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={onClose} className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20">取消</Button>
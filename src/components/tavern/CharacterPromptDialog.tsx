@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -10,22 +10,65 @@ import {
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { AICharacter } from '@/types/tavern';
+import { AICharacter, Message } from '@/types/tavern';
+import { ChapterSummary } from '@/types/summary';
+import { downloadTavernCard, TavernCardExportFormat } from '@/utils/tavernCardExporter';
+import { PROMPT_TEMPLATE_MACROS, validatePromptTemplate } from '@/lib/promptTemplate';
+import { previewCharacterRequest, CharacterPromptContext } from '@/lib/characterPrompt';
+import { PROMPT_BLOCK_LABELS, PROMPT_BLOCK_ROLE_LABELS } from '@/lib/promptPipeline';
+import { usePersonas } from '@/hooks/usePersonas';
+import { useLorebook } from '@/hooks/useLorebook';
+import { usePromptPipeline } from '@/hooks/usePromptPipeline';
 
 interface CharacterPromptDialogProps {
   character: AICharacter | null;
   isOpen: boolean;
   onClose: () => void;
   onSave: (characterId: string, prompt: string) => void;
+  // 预览用的当前对话，与下一次请求使用相同的数据
+  messages?: Message[];
+  summaries?: ChapterSummary[];
+  sceneContext?: Omit<CharacterPromptContext, 'messages' | 'persona'>;
+  onOpenCharacterConfig?: () => void;   // 打开该角色的模型与初始关系配置
 }
 
 const CharacterPromptDialog: React.FC<CharacterPromptDialogProps> = ({ 
   character, 
   isOpen, 
   onClose, 
-  onSave 
+  onSave,
+  messages = [],
+  summaries = [],
+  sceneContext,
+  onOpenCharacterConfig
 }) => {
   const [prompt, setPrompt] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+  const { activePersona } = usePersonas();
+  const { lorebook } = useLorebook();
+  const { activePreset } = usePromptPipeline();
+  const sceneDescription = sceneContext?.sceneDescription;
+  const sceneTimeOfDay = sceneContext?.sceneTimeOfDay;
+  const participants = sceneContext?.participants;
+  const describeRelationship = sceneContext?.describeRelationship;
+
+  const templateErrors = useMemo(() => validatePromptTemplate(prompt), [prompt]);
+
+  // 按编辑中的 Prompt 和当前管线预设组装下一次请求
+  const preview = useMemo(() => {
+    if (!character || !isOpen) return null;
+    return previewCharacterRequest(
+      { ...character, modelConfig: { ...character.modelConfig, prompt } },
+      { messages, persona: activePersona, sceneDescription, sceneTimeOfDay, participants, describeRelationship },
+      activePreset,
+      summaries,
+      lorebook
+    );
+  }, [character, isOpen, prompt, messages, activePersona, sceneDescription, sceneTimeOfDay, participants, describeRelationship, activePreset, summaries, lorebook]);
+
+  // 不在系统提示词中的内容块（作为 user 消息或按深度插入）
+  const injectedBlocks = preview?.blocks.filter(block => block.content && block.role !== 'system') || [];
 
   useEffect(() => {
     if (character && character.modelConfig) {
@@ -35,46 +78,148 @@ const CharacterPromptDialog: React.FC<CharacterPromptDialogProps> = ({
     }
   }, [character]);
 
+  // 在光标处插入宏
+  const insertMacro = (macro: string) => {
+    const textarea = promptRef.current;
+    const start = textarea?.selectionStart ?? prompt.length;
+    const end = textarea?.selectionEnd ?? prompt.length;
+    setPrompt(prompt.slice(0, start) + macro + prompt.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + macro.length, start + macro.length);
+    });
+  };
+
   const handleSave = () => {
     if (character) {
       onSave(character.id, prompt);
     }
   };
 
+  // 以当前编辑中的 Prompt 导出角色卡
+  const handleExport = async (format: TavernCardExportFormat) => {
+    if (!character) return;
+    setIsExporting(true);
+    try {
+      await downloadTavernCard(
+        { ...character, modelConfig: { ...character.modelConfig, prompt } },
+        format
+      );
+    } catch (error) {
+      console.error('❌ 导出角色卡失败:', error);
+      alert('导出角色卡失败，请重试');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   if (!character) return null;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+      <DialogContent className="sm:max-w-[960px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
         <DialogHeader>
           <DialogTitle>编辑 {character.name} 的角色设定</DialogTitle>
           <DialogDescription>
             为 {character.name} 设置专属的角色Prompt，定义其性格、语气和行为特点。
+            可以使用宏引用场景、情感和关系，右侧实时预览渲染后的系统提示词。
             <br />
             <span className="text-yellow-500 text-xs">💡 提示：模型配置（API参数）请在右侧面板中设置</span>
           </DialogDescription>
         </DialogHeader>
-        <div className="grid gap-4 py-4">
+        <div className="grid grid-cols-2 gap-4 py-4">
           <div className="space-y-2">
             <Label htmlFor="prompt" className="text-sm font-medium">
               角色专属Prompt
             </Label>
             <Textarea
               id="prompt"
+              ref={promptRef}
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
               className="bg-tavern-bg border-tavern-text focus:border-tavern-accent min-h-[200px]"
-              placeholder={`例如：你是${character.name}，是一位经验丰富的酒保。你性格开朗友善，喜欢与客人聊天，对各种酒类和当地传说都非常了解。你说话时带有一种温暖的关怀，经常用"朋友"来称呼客人。你有着敏锐的观察力，能够察觉客人的情绪变化...`}
-              rows={8}
+              placeholder={`例如：你是{{char}}，是一位经验丰富的酒保。你性格开朗友善，喜欢与客人聊天，对各种酒类和当地传说都非常了解。{{#if emotion}}你现在{{emotion}}。{{/if}}你经常用"朋友"来称呼{{user}}...`}
+              rows={12}
             />
+            {templateErrors.length > 0 && (
+              <div className="text-xs text-red-400">
+                {templateErrors.map(error => <p key={error}>⚠️ {error}</p>)}
+              </div>
+            )}
+            <div className="text-xs text-tavern-text opacity-70 space-y-1">
+              <p>可用的宏（点击插入）：</p>
+              <div className="flex flex-wrap gap-1">
+                {PROMPT_TEMPLATE_MACROS.map(({ macro, description }) => (
+                  <button
+                    key={macro}
+                    type="button"
+                    title={description}
+                    onClick={() => insertMacro(macro)}
+                    className="rounded border border-tavern-accent/40 px-1.5 py-0.5 font-mono hover:bg-tavern-accent/20"
+                  >
+                    {macro}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
-          <div className="text-xs text-tavern-text opacity-70">
-            <p>• 描述角色的性格特点、背景故事、说话方式</p>
-            <p>• 设定角色的专业知识和兴趣爱好</p>
-            <p>• 定义角色与其他人物的关系</p>
+          <div className="space-y-2 min-w-0">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium">系统提示词预览</Label>
+              {preview && (
+                <span className="text-xs text-tavern-accent">约 {preview.systemTokens} tokens</span>
+              )}
+            </div>
+            <pre className="whitespace-pre-wrap break-words rounded border border-tavern-accent/30 bg-tavern-bg p-2 text-xs max-h-[360px] overflow-y-auto">
+              {preview?.systemPrompt}
+            </pre>
+            {injectedBlocks.length > 0 && (
+              <div className="text-xs space-y-1">
+                <p className="opacity-70">另外注入的内容块（管线预设「{activePreset.name}」）：</p>
+                {injectedBlocks.map(block => (
+                  <details key={block.id} className="rounded border border-tavern-accent/30 px-2 py-1">
+                    <summary className="cursor-pointer">
+                      {PROMPT_BLOCK_LABELS[block.id]} · {PROMPT_BLOCK_ROLE_LABELS[block.role]}{block.role === 'depth' ? ` @${block.depth}` : ''} · {block.tokens} tokens
+                    </summary>
+                    <pre className="whitespace-pre-wrap break-words mt-1">{block.content}</pre>
+                  </details>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-tavern-text opacity-60">
+              按当前对话、玩家角色「{activePersona.name}」、情感状态、前情提要、世界设定和管线预设组装，即 {character.name} 下一次发言时发送的内容；整个请求约 {preview?.totalTokens} tokens
+              {preview?.lorebook && preview.lorebook.injected.length > 0 && `（触发设定：${preview.lorebook.injected.map(item => item.title).join('、')}）`}
+            </p>
           </div>
         </div>
         <DialogFooter>
+          <div className="flex gap-2 mr-auto">
+            <Button
+              variant="outline"
+              onClick={() => handleExport('png')}
+              disabled={isExporting}
+              className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+            >
+              📤 导出PNG卡
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleExport('json')}
+              disabled={isExporting}
+              className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+            >
+              导出JSON
+            </Button>
+            {onOpenCharacterConfig && (
+              <Button
+                variant="outline"
+                onClick={onOpenCharacterConfig}
+                className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+              >
+                ⚙️ 模型与关系
+              </Button>
+            )}
+          </div>
           <Button 
             variant="outline" 
             onClick={onClose} 
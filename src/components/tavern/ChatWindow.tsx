@@ -1,31 +1,87 @@
 
 import React, { useRef, useEffect } from 'react';
 import { Message } from '@/types/tavern';
+import { PlayerPersona } from '@/types/persona';
 import MessageBubble from './MessageBubble';
+import { Square } from 'lucide-react';
 
 interface ChatWindowProps {
   messages: Message[];
+  streamingMessage?: Message | null; // 正在流式生成的回复
+  onCancelStreaming?: () => void;
+  regeneratingMessageId?: string | null; // 正在重新生成的消息，流式回复显示在它的位置
+  regenerableMessageId?: string | null;  // 可以重新生成和切换候选的消息（最新一条角色回复）
+  isBusy?: boolean;                      // 有角色正在回复时禁用消息操作
+  onRegenerateMessage?: (messageId: string) => void;
+  onSelectAlternate?: (messageId: string, index: number) => void;
+  onEditMessage?: (messageId: string, text: string) => void;
+  onDeleteFromMessage?: (messageId: string) => void;
+  onForkFromMessage?: (messageId: string) => void;
+  personas?: PlayerPersona[];            // 用于显示玩家消息的头像
 }
 
-const ChatWindow: React.FC<ChatWindowProps> = ({ messages }) => {
+const ChatWindow: React.FC<ChatWindowProps> = ({
+  messages,
+  streamingMessage,
+  onCancelStreaming,
+  regeneratingMessageId,
+  regenerableMessageId,
+  isBusy = false,
+  onRegenerateMessage,
+  onSelectAlternate,
+  onEditMessage,
+  onDeleteFromMessage,
+  onForkFromMessage,
+  personas = [],
+}) => {
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingMessage?.text]);
+
+  const streamingBubble = streamingMessage && (
+    <div>
+      <MessageBubble message={streamingMessage} isStreaming />
+      {onCancelStreaming && (
+        <button
+          onClick={onCancelStreaming}
+          className="-mt-2 mb-3 inline-flex items-center gap-1 text-xs text-tavern-text opacity-70 hover:opacity-100 hover:text-red-400"
+        >
+          <Square size={10} />
+          停止生成
+        </button>
+      )}
+    </div>
+  );
 
   return (
     <div className="flex-grow bg-tavern-bg p-4 overflow-y-auto h-96 border border-tavern-panel-bg rounded-md shadow-inner">
-      {messages.length === 0 && (
+      {messages.length === 0 && !streamingMessage && (
         <p className="text-center text-tavern-text opacity-70">酒馆里很安静……暂时是这样。</p>
       )}
-      {messages.map((msg) => (
-        <MessageBubble key={msg.id} message={msg} />
-      ))}
+      {messages.map((msg) => {
+        if (streamingMessage && msg.id === regeneratingMessageId) {
+          return <React.Fragment key={msg.id}>{streamingBubble}</React.Fragment>;
+        }
+        const isLatestReply = !isBusy && msg.id === regenerableMessageId;
+        return (
+          <MessageBubble
+            key={msg.id}
+            message={msg}
+            persona={msg.isPlayer ? personas.find(persona => persona.id === msg.personaId) : undefined}
+            onRegenerate={isLatestReply && onRegenerateMessage ? () => onRegenerateMessage(msg.id) : undefined}
+            onSelectAlternate={isLatestReply && onSelectAlternate ? (index) => onSelectAlternate(msg.id, index) : undefined}
+            onEdit={!isBusy && onEditMessage ? (text) => onEditMessage(msg.id, text) : undefined}
+            onDeleteFrom={!isBusy && onDeleteFromMessage ? () => onDeleteFromMessage(msg.id) : undefined}
+            onFork={!isBusy && onForkFromMessage ? () => onForkFromMessage(msg.id) : undefined}
+          />
+        );
+      })}
+      {streamingMessage && !messages.some(msg => msg.id === regeneratingMessageId) && streamingBubble}
       <div ref={chatEndRef} />
     </div>
   );
 };
 
 export default ChatWindow;
-
@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import ProviderSelect from './ProviderSelect';
+import ApiKeyAliasSelect from './ApiKeyAliasSelect';
+import { LLMProviderType } from '@/types/llm';
+import { EmotionAnalysisResult, EmotionType } from '@/types/emotion';
+import { LLM_PROVIDERS, resolveProviderType } from '@/lib/llmProviders';
+import { emotionClassifier } from '@/lib/emotionClassifier';
+import { EmotionCalibrationReport, EmotionCalibrationStats, runEmotionCalibration } from '@/lib/emotionCalibration';
+import { EMOTION_CALIBRATION_CATEGORY_LABELS } from '@/data/emotionCalibrationSamples';
+import { useEmotionClassifier } from '@/hooks/useEmotionClassifier';
+
+interface EmotionClassifierDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EMOTION_ICONS: Record<EmotionType, string> = {
+  [EmotionType.HAPPY]: '😊',
+  [EmotionType.EXCITED]: '🤩',
+  [EmotionType.SAD]: '😢',
+  [EmotionType.ANGRY]: '😡',
+  [EmotionType.STRESSED]: '😰',
+  [EmotionType.CALM]: '😌',
+  [EmotionType.RELAXED]: '😎',
+  [EmotionType.BORED]: '😑',
+  [EmotionType.NEUTRAL]: '😐'
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// 校准表格中的单个分类结果，与标注不一致时标红
+const ResultCell: React.FC<{ result: EmotionAnalysisResult | null; expected: EmotionType }> = ({ result, expected }) => {
+  if (!result) return <span className="text-gray-500">—</span>;
+  const matched = result.detectedEmotion === expected;
+  return (
+    <span className={matched ? 'text-green-400' : 'text-red-400'}>
+      {EMOTION_ICONS[result.detectedEmotion]} {result.valence.toFixed(1)}
+    </span>
+  );
+};
+
+const StatsColumn: React.FC<{ stats: EmotionCalibrationStats | null }> = ({ stats }) => {
+  if (!stats) {
+    return <td className="p-1 text-center text-gray-500">不可用</td>;
+  }
+  return (
+    <td className="p-1 text-center">
+      <div>{formatPercent(stats.typeAccuracy)}</div>
+      <div className="text-gray-400">倾向 {formatPercent(stats.polarityAccuracy)} · 误差 {stats.valenceError.toFixed(2)}</div>
+      <div className="text-gray-400">中性 {formatPercent(stats.neutralRate)} · {stats.evaluated} 条</div>
+    </td>
+  );
+};
+
+const EmotionClassifierDialog: React.FC<EmotionClassifierDialogProps> = ({ isOpen, onClose }) => {
+  const config = useEmotionClassifier();
+  const [useModel, setUseModel] = useState(false);
+  const [provider, setProvider] = useState<LLMProviderType>('openai');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [apiKeyAlias, setApiKeyAlias] = useState('');
+  const [modelName, setModelName] = useState('');
+  const [batchSize, setBatchSize] = useState(8);
+  const [report, setReport] = useState<EmotionCalibrationReport | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  useEffect(() => {
+    setUseModel(config.mode === 'llm');
+    setProvider(resolveProviderType(config));
+    setBaseUrl(config.baseUrl || '');
+    setApiKeyAlias(config.apiKeyAlias || '');
+    setModelName(config.modelName || '');
+    setBatchSize(config.batchSize);
+  }, [config, isOpen]);
+
+  const applyConfig = () => {
+    emotionClassifier.updateConfig({
+      mode: useModel ? 'llm' : 'lexicon',
+      provider,
+      baseUrl,
+      apiKeyAlias,
+      modelName,
+      batchSize
+    });
+  };
+
+  const handleSave = () => {
+    applyConfig();
+    onClose();
+  };
+
+  // 切换接口类型时填入该类型的默认地址
+  const handleProviderChange = (next: LLMProviderType) => {
+    setProvider(next);
+    setBaseUrl(LLM_PROVIDERS[next].defaultBaseUrl);
+  };
+
+  // 校准使用表单中的模型设置，先保存再运行
+  const handleCalibrate = async () => {
+    applyConfig();
+    setIsCalibrating(true);
+    try {
+      setReport(await runEmotionCalibration());
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+        <DialogHeader>
+          <DialogTitle>情感分类</DialogTitle>
+          <DialogDescription>
+            默认使用本地关键词词典判断台词情感。开启模型分类后由下方的模型判断，能识别反讽和含蓄的表达；
+            离线、超出预算或调用失败时自动回退到词典。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="emotionUseModel">使用模型分类</Label>
+            <Switch id="emotionUseModel" checked={useModel} onCheckedChange={setUseModel} />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="emotionProvider" className="text-right col-span-1">
+              接口类型
+            </Label>
+            <ProviderSelect
+              id="emotionProvider"
+              value={provider}
+              onChange={handleProviderChange}
+              className="col-span-3 bg-tavern-bg border-tavern-text focus:border-tavern-accent"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="emotionBaseUrl" className="text-right col-span-1">
+              Base URL
+            </Label>
+            <Input
+              id="emotionBaseUrl"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              className="col-span-3 bg-tavern-bg border-tavern-text focus:border-tavern-accent"
+              placeholder="例如: https://api.deepseek.com/v1"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="emotionApiKey" className="text-right col-span-1">
+              API Key
+            </Label>
+            <div className="col-span-3">
+              <ApiKeyAliasSelect
+                id="emotionApiKey"
+                value={apiKeyAlias}
+                onChange={setApiKeyAlias}
+                className="bg-tavern-bg border-tavern-text focus:border-tavern-accent"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="emotionModelName" className="text-right col-span-1">
+              Model Name
+            </Label>
+            <Input
+              id="emotionModelName"
+              value={modelName}
+              onChange={(e) => setModelName(e.target.value)}
+              className="col-span-3 bg-tavern-bg border-tavern-text focus:border-tavern-accent"
+              placeholder="建议使用便宜的小模型"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="emotionBatchSize" className="text-right col-span-1">
+              批大小
+            </Label>
+            <Input
+              id="emotionBatchSize"
+              type="number"
+              min={1}
+              max={32}
+              value={batchSize}
+              onChange={(e) => setBatchSize(Math.max(1, Number(e.target.value) || 1))}
+              className="col-span-3 bg-tavern-bg border-tavern-text focus:border-tavern-accent"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={handleCalibrate}
+              disabled={isCalibrating}
+              className="bg-pink-700 hover:bg-pink-800 text-white"
+            >
+              {isCalibrating ? '校准中...' : '📏 运行校准'}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => emotionClassifier.clearCache()}
+              className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+            >
+              清空分类缓存
+            </Button>
+          </div>
+
+          {report && (
+            <div className="space-y-3 text-xs">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-tavern-accent/40">
+                    <th className="p-1 text-left">类别</th>
+                    <th className="p-1 text-center">词典</th>
+                    <th className="p-1 text-center">模型</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-tavern-accent/20">
+                    <td className="p-1">总体</td>
+                    <StatsColumn stats={report.lexicon} />
+                    <StatsColumn stats={report.llm} />
+                  </tr>
+                  {report.categories.map(category => (
+                    <tr key={category.category} className="border-b border-tavern-accent/20">
+                      <td className="p-1">{EMOTION_CALIBRATION_CATEGORY_LABELS[category.category]}（{category.count}）</td>
+                      <td className="p-1 text-center">{formatPercent(category.lexiconAccuracy)}</td>
+                      <td className="p-1 text-center">
+                        {category.llmAccuracy === null ? '—' : formatPercent(category.llmAccuracy)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b border-tavern-accent/40">
+                    <th className="p-1 text-left">样本</th>
+                    <th className="p-1 text-center">标注</th>
+                    <th className="p-1 text-center">词典</th>
+                    <th className="p-1 text-center">模型</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row, index) => (
+                    <tr key={index} className="border-b border-tavern-accent/10">
+                      <td className="p-1 max-w-[260px] truncate" title={row.sample.text}>{row.sample.text}</td>
+                      <td className="p-1 text-center">
+                        {EMOTION_ICONS[row.sample.expected]} {row.sample.valence.toFixed(1)}
+                      </td>
+                      <td className="p-1 text-center">
+                        <ResultCell result={row.lexicon} expected={row.sample.expected} />
+                      </td>
+                      <td className="p-1 text-center">
+                        <ResultCell result={row.llm} expected={row.sample.expected} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+          >
+            取消
+          </Button>
+          <Button
+            onClick={handleSave}
+            className="bg-tavern-accent hover:bg-tavern-accent/80 text-white"
+          >
+            保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EmotionClassifierDialog;
@@ -1,28 +1,18 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { ChevronLeft, ChevronRight, History, BarChart3, Clock, MessageSquare, Users, Coins, Trash2, Info } from 'lucide-react';
+import { ChevronLeft, ChevronRight, History, BarChart3, Clock, MessageSquare, Users, Coins, Trash2, Info, Wallet } from 'lucide-react';
 import { Message, AICharacter } from '@/types/tavern';
-
-interface TokenUsage {
-  characterId: string;
-  characterName: string;
-  inputTokens: number;
-  outputTokens: number;
-  totalTokens: number;
-  apiCalls: number;
-  category: 'character' | 'system' | 'player' | 'analysis';
-}
-
-interface HistorySession {
-  id: string;
-  name: string;
-  timestamp: Date;
-  messages: Message[];
-  characters: AICharacter[];
-  tokenUsage: TokenUsage[];
-}
+import { TokenUsage, HistorySession, MessageTree } from '@/types/session';
+import { estimateMessageTokens, isExactTokenizerReady } from '@/utils/tokenCounter';
+import { formatCost } from '@/data/modelPricing';
+import { budgetManager } from '@/lib/budgetManager';
+import { useBudget } from '@/hooks/useBudget';
+import { BudgetConfig } from '@/types/budget';
+import BranchNavigator from './BranchNavigator';
 
 interface HistoryPanelProps {
   isCollapsed: boolean;
@@ -34,6 +24,13 @@ interface HistoryPanelProps {
   onLoadSession: (session: HistorySession) => void;
   onDeleteSession: (sessionId: string) => void;
   onSaveCurrentSession: () => void;
+  // 当前会话的对话分支
+  messageTree: MessageTree;
+  isBranchingDisabled?: boolean;
+  onSwitchBranch: (branchId: string) => void;
+  onRenameBranch: (branchId: string, name: string) => void;
+  onMergeBranch: (sourceId: string, targetId: string) => void;
+  onPruneBranch: (branchId: string) => void;
 }
 
 const HistoryPanel: React.FC<HistoryPanelProps> = ({
@@ -46,6 +43,12 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
   onLoadSession,
   onDeleteSession,
   onSaveCurrentSession,
+  messageTree,
+  isBranchingDisabled = false,
+  onSwitchBranch,
+  onRenameBranch,
+  onMergeBranch,
+  onPruneBranch,
 }) => {
   const [activeTab, setActiveTab] = useState<'history' | 'stats'>('history');
   const [showDetailFor, setShowDetailFor] = useState<string | null>(null);
@@ -63,6 +66,19 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
   const totalApiCalls = Array.isArray(currentTokenUsage)
     ? currentTokenUsage.reduce((sum, usage) => sum + (usage?.apiCalls || 0), 0)
     : 0;
+  const totalCost = Array.isArray(currentTokenUsage)
+    ? currentTokenUsage.reduce((sum, usage) => sum + (usage?.cost || 0), 0)
+    : 0;
+
+  const { status: budgetStatus, config: budgetConfig } = useBudget();
+
+  // 当前对话记录作为上下文时的 token 数，按第一个角色所用模型计数
+  const contextModelName = currentCharacters[0]?.modelConfig?.modelName;
+  const contextTokens = useMemo(
+    () => estimateMessageTokens(currentMessages.map(message => ({ content: message.text })), contextModelName),
+    [currentMessages, contextModelName]
+  );
+  const isContextTokensExact = isExactTokenizerReady(contextModelName);
 
   // 格式化时间
   const formatTime = (date: Date) => {
@@ -74,18 +90,26 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
     });
   };
 
-  // 估算token成本（假设每1000个token成本0.01元，可以根据实际API调整）
-  const estimateCost = (tokens: number) => {
-    return (tokens / 1000 * 0.01).toFixed(4);
+  // 修改预算，留空或非法输入视为不限制
+  const handleBudgetChange = (field: keyof BudgetConfig, value: string) => {
+    const amount = parseFloat(value);
+    budgetManager.updateConfig({ [field]: Number.isFinite(amount) && amount > 0 ? amount : 0 });
   };
 
+  const budgetFields: Array<{ field: keyof BudgetConfig; label: string }> = [
+    { field: 'sessionSoftLimit', label: '会话软预算' },
+    { field: 'sessionHardLimit', label: '会话硬预算' },
+    { field: 'dailySoftLimit', label: '每日软预算' },
+    { field: 'dailyHardLimit', label: '每日硬预算' },
+  ];
+
   // 按分类统计Token使用
   const getUsageByCategory = (tokenUsage: TokenUsage[]) => {
     const categoryStats = {
-      character: { total: 0, input: 0, output: 0, calls: 0 },
-      system: { total: 0, input: 0, output: 0, calls: 0 },
-      player: { total: 0, input: 0, output: 0, calls: 0 },
-      analysis: { total: 0, input: 0, output: 0, calls: 0 },
+      character: { total: 0, input: 0, output: 0, calls: 0, cost: 0 },
+      system: { total: 0, input: 0, output: 0, calls: 0, cost: 0 },
+      player: { total: 0, input: 0, output: 0, calls: 0, cost: 0 },
+      analysis: { total: 0, input: 0, output: 0, calls: 0, cost: 0 },
     };
     
     tokenUsage.forEach(usage => {
@@ -97,12 +121,14 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
         categoryStats[category as keyof typeof categoryStats].input += usage.inputTokens || 0;
         categoryStats[category as keyof typeof categoryStats].output += usage.outputTokens || 0;
         categoryStats[category as keyof typeof categoryStats].calls += usage.apiCalls || 0;
+        categoryStats[category as keyof typeof categoryStats].cost += usage.cost || 0;
       } else {
         // 如果分类不存在，归类到 character
         categoryStats.character.total += usage.totalTokens || 0;
         categoryStats.character.input += usage.inputTokens || 0;
         categoryStats.character.output += usage.outputTokens || 0;
         categoryStats.character.calls += usage.apiCalls || 0;
+        categoryStats.character.cost += usage.cost || 0;
       }
     });
     
@@ -118,8 +144,10 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
       return sum + (usage?.totalTokens || 0);
     }, 0);
     
+    const totalCost = tokenUsage.reduce((sum, usage) => sum + (usage?.cost || 0), 0);
+    
     const categoryStats = getUsageByCategory(tokenUsage);
-    return { totalTokens, categoryStats };
+    return { totalTokens, totalCost, categoryStats };
   };
 
   return (
@@ -224,6 +252,18 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
                   💾 保存当前会话
                 </Button>
 
+                {/* 当前会话的分支 */}
+                {(currentMessages.length > 0 || messageTree.branches.length > 1) && (
+                  <BranchNavigator
+                    messageTree={messageTree}
+                    disabled={isBranchingDisabled}
+                    onSwitchBranch={onSwitchBranch}
+                    onRenameBranch={onRenameBranch}
+                    onMergeBranch={onMergeBranch}
+                    onPruneBranch={onPruneBranch}
+                  />
+                )}
+
                 {/* 历史会话列表 */}
                 <div className="space-y-2">
                   {historySessions.length === 0 ? (
@@ -296,8 +336,8 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
                                   <span className="font-semibold text-tavern-accent">{getSessionStats(session).totalTokens.toLocaleString()}</span>
                                 </div>
                                 <div>
-                                  <span className="text-tavern-text opacity-60">预估成本: </span>
-                                  <span className="font-semibold text-red-400">¥{estimateCost(getSessionStats(session).totalTokens)}</span>
+                                  <span className="text-tavern-text opacity-60">费用: </span>
+                                  <span className="font-semibold text-red-400">{formatCost(getSessionStats(session).totalCost)}</span>
                                 </div>
                               </div>
                               
@@ -385,10 +425,59 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
                         <div className="font-semibold text-orange-400">{totalOutputTokens.toLocaleString()}</div>
                       </div>
                     </div>
+                    <div className="grid grid-cols-2 gap-2 text-xs">
+                      <div className="bg-tavern-panel-bg p-2 rounded">
+                        <div className="text-tavern-text opacity-60">会话费用</div>
+                        <div className="font-semibold text-red-400">{formatCost(totalCost)}</div>
+                      </div>
+                      <div className="bg-tavern-panel-bg p-2 rounded">
+                        <div className="text-tavern-text opacity-60">今日费用</div>
+                        <div className="font-semibold text-red-400">{formatCost(budgetStatus.dailyCost)}</div>
+                      </div>
+                    </div>
                     <div className="bg-tavern-panel-bg p-2 rounded">
-                      <div className="text-tavern-text opacity-60 text-xs">预估成本</div>
-                      <div className="font-semibold text-red-400">¥{estimateCost(totalTokens)}</div>
+                      <div className="text-tavern-text opacity-60 text-xs">
+                        对话上下文{isContextTokensExact ? '' : '（估算）'}
+                      </div>
+                      <div className="font-semibold text-tavern-accent">{contextTokens.toLocaleString()} tokens</div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* 预算设置 */}
+                <Card className="border border-tavern-accent/30 bg-tavern-bg">
+                  <CardHeader className="p-3">
+                    <CardTitle className="text-sm font-medium text-tavern-accent flex items-center gap-2">
+                      <Wallet size={16} />
+                      预算（美元，0 为不限制）
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-3 pt-0 space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      {budgetFields.map(({ field, label }) => (
+                        <div key={field} className="space-y-1">
+                          <Label htmlFor={`budget-${field}`} className="text-xs text-tavern-text opacity-60">{label}</Label>
+                          <Input
+                            id={`budget-${field}`}
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={budgetConfig[field] || ''}
+                            placeholder="不限制"
+                            onChange={(e) => handleBudgetChange(field, e.target.value)}
+                            className="h-7 text-xs bg-tavern-panel-bg border-tavern-text"
+                          />
+                        </div>
+                      ))}
                     </div>
+                    <p className="text-xs text-tavern-text opacity-60">
+                      软预算：暂停自动对话，主题分析改用本地规则；硬预算：拒绝新的模型请求
+                    </p>
+                    {budgetStatus.reason && (
+                      <p className={`text-xs ${budgetStatus.level === 'hard' ? 'text-red-400' : 'text-yellow-500'}`}>
+                        {budgetStatus.reason}
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -439,8 +528,8 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
                               </div>
                             </div>
                             <div className="mt-2 text-xs">
-                              <span className="text-tavern-text opacity-60">预估成本: </span>
-                              <span className="font-semibold text-red-400">¥{estimateCost(stats.total)}</span>
+                              <span className="text-tavern-text opacity-60">费用: </span>
+                              <span className="font-semibold text-red-400">{formatCost(stats.cost)}</span>
                             </div>
                           </CardContent>
                         </Card>
@@ -495,8 +584,8 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({
                                 </div>
                               </div>
                               <div className="mt-2 text-xs">
-                                <span className="text-tavern-text opacity-60">预估成本: </span>
-                                <span className="font-semibold text-red-400">¥{estimateCost(usage.totalTokens)}</span>
+                                <span className="text-tavern-text opacity-60">费用: </span>
+                                <span className="font-semibold text-red-400">{formatCost(usage.cost || 0)}</span>
                               </div>
                             </CardContent>
                           </Card>
@@ -7,11 +7,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
-import { Settings, Sparkles, MapPin, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { Settings, Sparkles, MapPin, Loader2 } from 'lucide-react';
+import ProviderSelect from './ProviderSelect';
+import ApiKeyAliasSelect from './ApiKeyAliasSelect';
+import { LLMProviderType } from '@/types/llm';
+import { LLM_PROVIDERS, llmClient } from '@/lib/llmProviders';
+import { DEFAULT_API_KEY_ALIAS } from '@/data/modelDefaults';
+import { useKeyVault } from '@/hooks/useKeyVault';
 
 export interface ModelConfig {
+  provider?: LLMProviderType;
   baseUrl: string;
-  apiKey: string;
+  apiKeyAlias?: string;  // 密钥库中的密钥别名
   modelName: string;
 }
 
@@ -84,14 +91,16 @@ const InitialSetupDialog: React.FC<InitialSetupDialogProps> = ({
 }) => {
   const [activeTab, setActiveTab] = useState<string>('model');
   const [modelConfig, setModelConfig] = useState<ModelConfig>({
+    provider: 'openai',
     baseUrl: 'https://api.deepseek.com/v1',
-    apiKey: '',
+    apiKeyAlias: DEFAULT_API_KEY_ALIAS,
     modelName: 'deepseek-chat'
   });
   const [selectedScenario, setSelectedScenario] = useState<ScenarioConfig | null>(null);
   const [customSceneDescription, setCustomSceneDescription] = useState<string>('');
   const [useCustomScene, setUseCustomScene] = useState<boolean>(false);
-  const [showApiKey, setShowApiKey] = useState<boolean>(false);
+  // 密钥库变化时重新渲染，以便刷新"继续"按钮的可用状态
+  useKeyVault();
 
   const handleModelConfigChange = (field: keyof ModelConfig, value: string) => {
     setModelConfig(prev => ({
@@ -100,8 +109,18 @@ const InitialSetupDialog: React.FC<InitialSetupDialogProps> = ({
     }));
   };
 
+  // 切换接口类型时填入该类型的默认地址
+  const handleProviderChange = (provider: LLMProviderType) => {
+    setModelConfig(prev => ({
+      ...prev,
+      provider,
+      baseUrl: LLM_PROVIDERS[provider].defaultBaseUrl,
+      modelName: provider === 'mock' ? 'mock-model' : prev.modelName
+    }));
+  };
+
   const handleContinueToScenario = () => {
-    if (!modelConfig.baseUrl || !modelConfig.apiKey || !modelConfig.modelName) {
+    if (!modelConfig.baseUrl || !llmClient.isConfigured(modelConfig)) {
       alert('请填写完整的模型配置信息');
       return;
     }
@@ -109,7 +128,7 @@ const InitialSetupDialog: React.FC<InitialSetupDialogProps> = ({
   };
 
   const handleComplete = () => {
-    if (!modelConfig.baseUrl || !modelConfig.apiKey || !modelConfig.modelName) {
+    if (!modelConfig.baseUrl || !llmClient.isConfigured(modelConfig)) {
       alert('请填写完整的模型配置信息');
       return;
     }
@@ -175,6 +194,15 @@ const InitialSetupDialog: React.FC<InitialSetupDialogProps> = ({
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="provider">接口类型</Label>
+                  <ProviderSelect
+                    id="provider"
+                    value={modelConfig.provider || 'openai'}
+                    onChange={handleProviderChange}
+                  />
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="baseUrl">API Base URL</Label>
                   <Input
@@ -187,25 +215,11 @@ const InitialSetupDialog: React.FC<InitialSetupDialogProps> = ({
 
                 <div className="space-y-2">
                   <Label htmlFor="apiKey">API Key</Label>
-                  <div className="relative">
-                    <Input
-                      id="apiKey"
-                      type={showApiKey ? 'text' : 'password'}
-                      placeholder="sk-..."
-                      value={modelConfig.apiKey}
-                      onChange={(e) => handleModelConfigChange('apiKey', e.target.value)}
-                      className="pr-10"
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="absolute right-0 top-0 h-full px-3"
-                      onClick={() => setShowApiKey(!showApiKey)}
-                    >
-                      {showApiKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                    </Button>
-                  </div>
+                  <ApiKeyAliasSelect
+                    id="apiKey"
+                    value={modelConfig.apiKeyAlias}
+                    onChange={(alias) => handleModelConfigChange('apiKeyAlias', alias)}
+                  />
                 </div>
 
                 <div className="space-y-2">
@@ -222,7 +236,7 @@ const InitialSetupDialog: React.FC<InitialSetupDialogProps> = ({
                   <Button 
                     onClick={handleContinueToScenario}
                     className="w-full"
-                    disabled={!modelConfig.baseUrl || !modelConfig.apiKey || !modelConfig.modelName}
+                    disabled={!modelConfig.baseUrl || !llmClient.isConfigured(modelConfig)}
                   >
                     继续选择场景
                   </Button>
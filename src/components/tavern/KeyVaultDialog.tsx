@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock, Unlock, Trash2, KeyRound } from 'lucide-react';
+import ProviderSelect from './ProviderSelect';
+import { LLMProviderType } from '@/types/llm';
+import { LLM_PROVIDERS } from '@/lib/llmProviders';
+import { keyVault } from '@/lib/keyVault';
+import { useKeyVault } from '@/hooks/useKeyVault';
+import { DEFAULT_API_KEY_ALIAS } from '@/data/modelDefaults';
+
+interface KeyVaultDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = 'bg-tavern-bg border-tavern-text focus:border-tavern-accent';
+
+// 密钥库管理：创建口令、解锁、增删密钥
+const KeyVaultDialog: React.FC<KeyVaultDialogProps> = ({ isOpen, onClose }) => {
+  const { status, aliases } = useKeyVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [newAlias, setNewAlias] = useState(DEFAULT_API_KEY_ALIAS);
+  const [newProvider, setNewProvider] = useState<LLMProviderType>('openai');
+  const [newKey, setNewKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setNewKey('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    if (passphrase !== confirmPassphrase) {
+      throw new Error('两次输入的口令不一致');
+    }
+    await keyVault.initialize(passphrase);
+    setPassphrase('');
+    setConfirmPassphrase('');
+  });
+
+  const handleUnlock = () => runAction(async () => {
+    const success = await keyVault.unlock(passphrase);
+    if (!success) {
+      throw new Error('口令错误');
+    }
+    setPassphrase('');
+  });
+
+  const handleReset = () => {
+    if (window.confirm('重置会删除密钥库中保存的所有密钥，确定继续吗？')) {
+      keyVault.reset();
+    }
+  };
+
+  const handleAddKey = () => runAction(async () => {
+    if (!newKey.trim()) {
+      throw new Error('请输入 API Key');
+    }
+    await keyVault.setKey(newAlias, newKey.trim(), newProvider);
+    setNewKey('');
+  });
+
+  const renderCreate = () => (
+    <div className="grid gap-3 py-2">
+      <p className="text-sm text-tavern-text/80">
+        首次使用需要设置一个口令，API Key 会用该口令加密后保存在本机浏览器中。
+      </p>
+      <div className="space-y-1">
+        <Label htmlFor="vaultPassphrase">口令</Label>
+        <Input
+          id="vaultPassphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className={inputClassName}
+          placeholder="至少6个字符"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="vaultPassphraseConfirm">确认口令</Label>
+        <Input
+          id="vaultPassphraseConfirm"
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          className={inputClassName}
+        />
+      </div>
+      <Button onClick={handleCreate} disabled={isBusy || !passphrase} className="bg-tavern-accent hover:bg-tavern-accent/80 text-white">
+        <KeyRound className="w-4 h-4 mr-1" />
+        创建密钥库
+      </Button>
+    </div>
+  );
+
+  const renderUnlock = () => (
+    <div className="grid gap-3 py-2">
+      <p className="text-sm text-tavern-text/80">
+        密钥库已锁定，输入口令后才能调用需要 API Key 的模型。
+      </p>
+      <div className="space-y-1">
+        <Label htmlFor="vaultUnlock">口令</Label>
+        <Input
+          id="vaultUnlock"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+          className={inputClassName}
+          autoFocus
+        />
+      </div>
+      <Button onClick={handleUnlock} disabled={isBusy || !passphrase} className="bg-tavern-accent hover:bg-tavern-accent/80 text-white">
+        <Unlock className="w-4 h-4 mr-1" />
+        {isBusy ? '解锁中...' : '解锁'}
+      </Button>
+      <button onClick={handleReset} className="text-xs text-tavern-text/60 hover:text-red-400 underline justify-self-start">
+        忘记口令？重置密钥库
+      </button>
+    </div>
+  );
+
+  const renderKeys = () => (
+    <div className="grid gap-4 py-2">
+      <div className="space-y-2">
+        <Label>已保存的密钥</Label>
+        {aliases.length === 0 ? (
+          <p className="text-sm text-tavern-text/60">还没有保存任何密钥</p>
+        ) : (
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {aliases.map(info => (
+              <div key={info.alias} className="flex items-center justify-between rounded border border-tavern-accent/30 px-2 py-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{info.alias}</span>
+                  {info.provider && (
+                    <span className="text-xs text-tavern-text/60">{LLM_PROVIDERS[info.provider].label}</span>
+                  )}
+                  <span className="text-xs text-tavern-text/60">{info.hint}</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-red-400 hover:text-red-300"
+                  onClick={() => keyVault.removeKey(info.alias)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2 border-t border-tavern-accent/20 pt-3">
+        <Label>添加 / 更新密钥</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            value={newAlias}
+            onChange={(e) => setNewAlias(e.target.value)}
+            className={inputClassName}
+            placeholder="别名，例如 default"
+          />
+          <ProviderSelect value={newProvider} onChange={setNewProvider} className={inputClassName} />
+        </div>
+        <Input
+          type="password"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddKey()}
+          className={inputClassName}
+          placeholder="API Key"
+        />
+        <Button onClick={handleAddKey} disabled={isBusy || !newAlias.trim() || !newKey} className="w-full bg-tavern-accent hover:bg-tavern-accent/80 text-white">
+          保存密钥
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+        <DialogHeader>
+          <DialogTitle>🔐 密钥管理</DialogTitle>
+          <DialogDescription>
+            API Key 加密保存在本地，模型配置中只记录密钥别名。
+          </DialogDescription>
+        </DialogHeader>
+
+        {status === 'uninitialized' && renderCreate()}
+        {status === 'locked' && renderUnlock()}
+        {status === 'unlocked' && renderKeys()}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <DialogFooter>
+          {status === 'unlocked' && (
+            <Button
+              variant="outline"
+              onClick={() => keyVault.lock()}
+              className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+            >
+              <Lock className="w-4 h-4 mr-1" />
+              锁定
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+          >
+            关闭
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyVaultDialog;
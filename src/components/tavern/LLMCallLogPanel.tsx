@@ -0,0 +1,399 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Activity, Download, GitCompare, Send, Trash2 } from 'lucide-react';
+import { LLMRequest, LLMUsage } from '@/types/llm';
+import { LLMCallFilter, LLMCallRecord, LLMCallStatus } from '@/types/llmCallLog';
+import {
+  llmCallLog,
+  defaultLLMCallFilter,
+  filterCallRecords,
+  formatCallForDiff,
+  exportCallRecords,
+  LLM_CALL_CATEGORY_LABELS,
+  LLM_CALL_STATUS_LABELS
+} from '@/lib/llmCallLog';
+import { llmClient, getErrorMessage } from '@/lib/llmProviders';
+import { useLLMCallLog } from '@/hooks/useLLMCallLog';
+import { diffLines } from '@/utils/textDiff';
+
+interface LLMCallLogPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onResendUsage?: (record: LLMCallRecord, usage: LLMUsage) => void; // 重发产生的用量计入 Token 统计
+}
+
+type DetailMode = 'detail' | 'diff' | 'resend';
+
+const inputClassName = 'bg-tavern-bg border-tavern-text focus:border-tavern-accent';
+const outlineButtonClassName = 'h-7 text-tavern-text border-tavern-accent hover:bg-tavern-accent/20';
+
+const STATUS_STYLES: Record<LLMCallStatus, string> = {
+  pending: 'bg-yellow-400',
+  success: 'bg-emerald-400',
+  error: 'bg-red-400',
+  cancelled: 'bg-gray-400'
+};
+
+const MESSAGE_ROLE_STYLES: Record<string, string> = {
+  system: 'text-amber-400',
+  user: 'text-sky-400',
+  assistant: 'text-emerald-400'
+};
+
+const formatLatency = (record: LLMCallRecord) =>
+  record.latencyMs === undefined ? '…' : `${(record.latencyMs / 1000).toFixed(1)}s`;
+
+// 重发编辑器中的请求文本：消息与生成参数
+const toEditableRequest = (request: LLMRequest) => JSON.stringify(request, null, 2);
+
+const parseEditedRequest = (text: string): LLMRequest => {
+  const parsed = JSON.parse(text) as LLMRequest;
+  const validRoles = ['system', 'user', 'assistant'];
+  if (!Array.isArray(parsed.messages) || parsed.messages.length === 0) {
+    throw new Error('messages 必须是非空数组');
+  }
+  if (parsed.messages.some(message => !validRoles.includes(message?.role) || typeof message.content !== 'string')) {
+    throw new Error('每条消息需要 role（system / user / assistant）和字符串 content');
+  }
+  return parsed;
+};
+
+// LLM 调用日志：记录每次模型调用的请求、响应、耗时、用量、重试与错误，支持筛选、对比、导出和重发
+const LLMCallLogPanel: React.FC<LLMCallLogPanelProps> = ({ isOpen, onClose, onResendUsage }) => {
+  const records = useLLMCallLog();
+  const [filter, setFilter] = useState<LLMCallFilter>(defaultLLMCallFilter);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [mode, setMode] = useState<DetailMode>('detail');
+  const [resendText, setResendText] = useState('');
+  const [resendError, setResendError] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setMode('detail');
+      setResendError(null);
+    }
+  }, [isOpen]);
+
+  const filteredRecords = useMemo(() => filterCallRecords(records, filter), [records, filter]);
+  const selectedRecord = records.find(record => record.id === selectedId) || filteredRecords[0];
+  const compareRecords = compareIds
+    .map(id => records.find(record => record.id === id))
+    .filter((record): record is LLMCallRecord => !!record);
+
+  const diff = useMemo(() => {
+    if (mode !== 'diff' || compareRecords.length !== 2) return [];
+    // 较早的调用作为对比基准
+    const [before, after] = [...compareRecords].sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+    return diffLines(formatCallForDiff(before), formatCallForDiff(after));
+  }, [mode, compareRecords]);
+
+  const updateFilter = (changes: Partial<LLMCallFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id].slice(-2)));
+  };
+
+  const selectRecord = (id: string) => {
+    setSelectedId(id);
+    setMode('detail');
+  };
+
+  const startResend = () => {
+    if (!selectedRecord) return;
+    setResendText(toEditableRequest(selectedRecord.request));
+    setResendError(null);
+    setMode('resend');
+  };
+
+  const handleResend = async () => {
+    if (!selectedRecord) return;
+    let request: LLMRequest;
+    try {
+      request = parseEditedRequest(resendText);
+    } catch (error) {
+      setResendError(`请求格式错误：${getErrorMessage(error)}`);
+      return;
+    }
+
+    const original = selectedRecord;
+    setIsResending(true);
+    setResendError(null);
+    try {
+      const pending = llmClient.complete(original.config, request, {
+        logContext: {
+          category: original.category,
+          source: `${original.source.replace(/（重发）$/, '')}（重发）`,
+          characterName: original.characterName,
+          resentFromId: original.id
+        }
+      });
+      // complete 在发出请求前同步写入日志，最新一条就是本次重发
+      const resentId = llmCallLog.getRecords()[0]?.id;
+      if (resentId) {
+        setSelectedId(resentId);
+        setCompareIds([original.id, resentId]);
+      }
+      const response = await pending;
+      if (response.usage && onResendUsage) {
+        onResendUsage(original, response.usage);
+      }
+      setMode('detail');
+    } catch (error) {
+      setResendError(`重发失败：${getErrorMessage(error)}`);
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCallRecords(filteredRecords)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `LLM调用日志_${new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderFilterBar = () => (
+    <div className="flex items-center gap-2">
+      <Select value={filter.category} onValueChange={(category) => updateFilter({ category: category as LLMCallFilter['category'] })}>
+        <SelectTrigger className={`h-7 w-28 text-xs ${inputClassName}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">全部分类</SelectItem>
+          {(Object.keys(LLM_CALL_CATEGORY_LABELS) as Array<keyof typeof LLM_CALL_CATEGORY_LABELS>).map(category => (
+            <SelectItem key={category} value={category}>{LLM_CALL_CATEGORY_LABELS[category]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filter.status} onValueChange={(status) => updateFilter({ status: status as LLMCallFilter['status'] })}>
+        <SelectTrigger className={`h-7 w-28 text-xs ${inputClassName}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">全部状态</SelectItem>
+          {(Object.keys(LLM_CALL_STATUS_LABELS) as LLMCallStatus[]).map(status => (
+            <SelectItem key={status} value={status}>{LLM_CALL_STATUS_LABELS[status]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={filter.query}
+        onChange={(e) => updateFilter({ query: e.target.value })}
+        placeholder="搜索角色、用途、模型或内容"
+        className={`h-7 flex-1 text-xs ${inputClassName}`}
+      />
+      <span className="text-xs opacity-60 whitespace-nowrap">{filteredRecords.length}/{records.length}</span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setMode('diff')}
+        disabled={compareRecords.length !== 2}
+        className={outlineButtonClassName}
+        title="勾选两条调用后对比"
+      >
+        <GitCompare className="w-3 h-3 mr-1" />
+        对比
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleExport} disabled={filteredRecords.length === 0} className={outlineButtonClassName}>
+        <Download className="w-3 h-3 mr-1" />
+        导出JSON
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          llmCallLog.clear();
+          setCompareIds([]);
+        }}
+        className="h-7 px-2 text-red-400 hover:text-red-300"
+        aria-label="清空日志"
+      >
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+
+  const renderRecordList = () => (
+    <div className="space-y-1 max-h-[520px] overflow-y-auto pr-1">
+      {filteredRecords.length === 0 && (
+        <p className="text-xs text-tavern-text/60">没有符合条件的调用。角色发言、主题分析、摘要、旁白等模型调用都会记录在这里。</p>
+      )}
+      {filteredRecords.map(record => (
+        <div
+          key={record.id}
+          onClick={() => selectRecord(record.id)}
+          className={`cursor-pointer rounded border px-2 py-1 text-xs ${record.id === selectedRecord?.id ? 'border-tavern-accent bg-tavern-accent/20' : 'border-tavern-accent/30'}`}
+        >
+          <div className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={compareIds.includes(record.id)}
+              onClick={(e) => e.stopPropagation()}
+              onChange={() => toggleCompare(record.id)}
+              aria-label="加入对比"
+            />
+            <span className={`inline-block w-2 h-2 rounded-full ${STATUS_STYLES[record.status]}`} title={LLM_CALL_STATUS_LABELS[record.status]} />
+            <span className="font-medium truncate">{record.source}</span>
+            {record.characterName && <span className="truncate opacity-70">· {record.characterName}</span>}
+          </div>
+          <div className="flex gap-2 opacity-60 pl-5">
+            <span>{record.startedAt.toLocaleTimeString()}</span>
+            <span>{formatLatency(record)}</span>
+            {record.usage && <span>{record.usage.totalTokens} tokens</span>}
+            {record.retries.length > 0 && <span className="text-yellow-400">重试 {record.retries.length}</span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderDetail = (record: LLMCallRecord) => {
+    const { messages, ...params } = record.request;
+    const resentFrom = record.resentFromId ? records.find(item => item.id === record.resentFromId) : undefined;
+
+    return (
+      <div className="space-y-2 text-xs">
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span className="font-medium text-sm">{record.source}{record.characterName ? ` · ${record.characterName}` : ''}</span>
+          <span className="opacity-70">{LLM_CALL_CATEGORY_LABELS[record.category]}</span>
+          <span className="opacity-70">{record.provider} / {record.model}{record.stream ? '（流式）' : ''}</span>
+          <span className="opacity-70">耗时 {formatLatency(record)}</span>
+          {record.usage && (
+            <span className="opacity-70">
+              {record.usageEstimated ? '约 ' : ''}{record.usage.promptTokens} + {record.usage.completionTokens} tokens
+            </span>
+          )}
+          {record.stopReason && <span className="opacity-70">停止原因 {record.stopReason}</span>}
+          <Button variant="outline" size="sm" onClick={startResend} className={`ml-auto ${outlineButtonClassName}`}>
+            <Send className="w-3 h-3 mr-1" />
+            编辑并重发
+          </Button>
+        </div>
+        {resentFrom && (
+          <button type="button" onClick={() => selectRecord(resentFrom.id)} className="text-tavern-accent underline">
+            重发自 {resentFrom.startedAt.toLocaleTimeString()} 的调用
+          </button>
+        )}
+        {record.error && (
+          <div className="rounded border border-red-400/50 p-2 text-red-400">
+            {record.statusCode ? `[${record.statusCode}] ` : ''}{record.error}
+          </div>
+        )}
+        {record.retries.length > 0 && (
+          <div className="rounded border border-yellow-400/40 p-2 space-y-0.5">
+            {record.retries.map(retry => (
+              <div key={retry.attempt}>
+                第 {retry.attempt} 次尝试失败{retry.statusCode ? ` (${retry.statusCode})` : ''}：{retry.error}，{retry.delayMs}ms 后重试
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="font-mono opacity-70 break-all">{JSON.stringify(params)}</div>
+        {messages.map((message, index) => (
+          <div key={index} className="rounded border border-tavern-accent/30 p-2">
+            <div className={`mb-1 font-mono ${MESSAGE_ROLE_STYLES[message.role] || ''}`}>{message.role}</div>
+            <pre className="whitespace-pre-wrap break-words">{message.content}</pre>
+          </div>
+        ))}
+        <div className="rounded border border-tavern-accent p-2">
+          <div className="mb-1 font-mono text-tavern-accent">response</div>
+          <pre className="whitespace-pre-wrap break-words">{record.status === 'pending' ? '等待响应…' : record.response || '（无内容）'}</pre>
+        </div>
+      </div>
+    );
+  };
+
+  const renderDiff = () => (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="opacity-70">
+          对比 {compareRecords.map(record => `${record.source} ${record.startedAt.toLocaleTimeString()}`).join(' → ')}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => setMode('detail')} className={`ml-auto ${outlineButtonClassName}`}>返回详情</Button>
+      </div>
+      <pre className="rounded border border-tavern-accent/30 p-2 font-mono whitespace-pre-wrap break-words">
+        {diff.map((line, index) => (
+          <div
+            key={index}
+            className={line.type === 'added' ? 'bg-emerald-500/20 text-emerald-300' : line.type === 'removed' ? 'bg-red-500/20 text-red-300' : 'opacity-60'}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+
+  const renderResend = () => (
+    <div className="space-y-2 text-xs">
+      <p className="opacity-70">
+        编辑请求的消息与生成参数后重新发送，使用原调用的模型配置（{selectedRecord?.model}）。重发结果会作为新调用记录，并自动与原调用对比。
+      </p>
+      <Textarea
+        value={resendText}
+        onChange={(e) => setResendText(e.target.value)}
+        className={`min-h-[380px] font-mono text-xs ${inputClassName}`}
+      />
+      {resendError && <p className="text-red-400">{resendError}</p>}
+      <div className="flex gap-2">
+        <Button onClick={handleResend} disabled={isResending} className="bg-tavern-accent hover:bg-tavern-accent/80 text-white">
+          {isResending ? '发送中…' : '发送'}
+        </Button>
+        <Button variant="outline" onClick={() => setMode('detail')} className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20">
+          取消
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderMain = () => {
+    if (mode === 'diff' && compareRecords.length === 2) return renderDiff();
+    if (mode === 'resend' && selectedRecord) return renderResend();
+    return selectedRecord ? renderDetail(selectedRecord) : null;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[1100px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Activity className="w-5 h-5" />
+            LLM 调用日志
+          </DialogTitle>
+          <DialogDescription>
+            最近 200 次模型调用的完整请求与响应，勾选两条可以对比差异，也可以编辑后重新发送。
+          </DialogDescription>
+        </DialogHeader>
+
+        {renderFilterBar()}
+        <div className="grid grid-cols-[280px_1fr] gap-3">
+          {renderRecordList()}
+          <div className="min-w-0 max-h-[520px] overflow-y-auto">{renderMain()}</div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LLMCallLogPanel;
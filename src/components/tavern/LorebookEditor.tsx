@@ -0,0 +1,334 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { BookOpen, Plus, Pencil, Trash2, Zap } from 'lucide-react';
+import { LorebookEntry, LorebookMatchType } from '@/types/lorebook';
+import {
+  lorebookStore,
+  LorebookEntryDraft,
+  defaultLorebookEntryDraft,
+  parseKeywordInput,
+  validateKeyword
+} from '@/lib/lorebook';
+import { useLorebook } from '@/hooks/useLorebook';
+
+interface LorebookEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = 'bg-tavern-bg border-tavern-text focus:border-tavern-accent';
+
+const MATCH_TYPE_LABELS: Record<LorebookMatchType, string> = {
+  keyword: '关键词',
+  regex: '正则',
+  segmentation: '分词'
+};
+
+// 编辑中的条目，触发词以文本形式编辑
+interface EntryForm extends Omit<LorebookEntryDraft, 'keywords'> {
+  keywordText: string;
+}
+
+const toEntryForm = (entry: LorebookEntryDraft): EntryForm => {
+  const { keywords, ...rest } = entry;
+  return { ...rest, keywordText: keywords.join('\n') };
+};
+
+// 世界设定编辑器：管理条目、触发词与注入预算，并展示最近一次触发的条目
+const LorebookEditor: React.FC<LorebookEditorProps> = ({ isOpen, onClose }) => {
+  const { lorebook, lastActivation } = useLorebook();
+  const { entries, settings } = lorebook;
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' 表示新建条目
+  const [form, setForm] = useState<EntryForm>(() => toEntryForm(defaultLorebookEntryDraft));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setEditingId(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const startEditing = (entry?: LorebookEntry) => {
+    setForm(toEntryForm(entry || defaultLorebookEntryDraft));
+    setEditingId(entry ? entry.id : 'new');
+    setError(null);
+  };
+
+  const updateForm = (changes: Partial<EntryForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    const keywords = parseKeywordInput(form.keywordText);
+    if (!form.title.trim()) {
+      setError('请填写条目标题');
+      return;
+    }
+    if (keywords.length === 0) {
+      setError('至少需要一个触发词');
+      return;
+    }
+    const keywordError = keywords.map(validateKeyword).find(Boolean);
+    if (keywordError) {
+      setError(keywordError);
+      return;
+    }
+
+    const { keywordText: _keywordText, ...rest } = form;
+    const draft: LorebookEntryDraft = {
+      ...rest,
+      title: form.title.trim(),
+      keywords,
+      priority: Number.isFinite(form.priority) ? form.priority : defaultLorebookEntryDraft.priority,
+      scanDepth: Math.max(1, Math.round(form.scanDepth) || defaultLorebookEntryDraft.scanDepth)
+    };
+
+    if (editingId === 'new') {
+      lorebookStore.addEntry(draft);
+    } else if (editingId) {
+      lorebookStore.updateEntry(editingId, draft);
+    }
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleRemove = (entry: LorebookEntry) => {
+    if (window.confirm(`确定删除设定「${entry.title}」吗？`)) {
+      lorebookStore.removeEntry(entry.id);
+    }
+  };
+
+  const renderSettings = () => (
+    <div className="grid grid-cols-3 gap-3 rounded border border-tavern-accent/30 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="lorebook-enabled" className="text-sm">注入世界设定</Label>
+        <Switch
+          id="lorebook-enabled"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => lorebookStore.updateSettings({ enabled })}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="lorebook-budget" className="text-sm whitespace-nowrap">Token 预算</Label>
+        <Input
+          id="lorebook-budget"
+          type="number"
+          min={0}
+          value={settings.tokenBudget}
+          onChange={(e) => lorebookStore.updateSettings({ tokenBudget: Math.max(0, Number(e.target.value) || 0) })}
+          className={`h-7 ${inputClassName}`}
+          title="0 表示不限制"
+        />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="lorebook-segmentation" className="text-sm" title="用中文分词提取对话关键词，触发词包含这些关键词时也会命中">
+          中文分词匹配
+        </Label>
+        <Switch
+          id="lorebook-segmentation"
+          checked={settings.useChineseSegmentation}
+          onCheckedChange={(useChineseSegmentation) => lorebookStore.updateSettings({ useChineseSegmentation })}
+        />
+      </div>
+    </div>
+  );
+
+  const renderLastActivation = () => {
+    if (!lastActivation) return null;
+    const { characterName, activation, timestamp } = lastActivation;
+
+    return (
+      <div className="rounded border border-tavern-accent/30 p-2 text-xs space-y-1">
+        <div className="flex items-center gap-1 text-tavern-accent">
+          <Zap size={12} />
+          最近一次请求（{characterName}，{timestamp.toLocaleTimeString()}）注入 {activation.injected.length} 条，
+          共 {activation.totalTokens} tokens
+        </div>
+        {activation.injected.length === 0 && activation.skipped.length === 0 && (
+          <p className="opacity-60">没有条目被触发</p>
+        )}
+        {activation.injected.map(item => (
+          <div key={item.entryId} className="flex gap-2">
+            <span className="font-medium">{item.title}</span>
+            <span className="opacity-60">{MATCH_TYPE_LABELS[item.matchType]}：{item.matchedKeyword}</span>
+            <span className="opacity-60 ml-auto">{item.tokens} tokens</span>
+          </div>
+        ))}
+        {activation.skipped.map(item => (
+          <div key={item.entryId} className="flex gap-2 text-red-400/80">
+            <span className="line-through">{item.title}</span>
+            <span>超出预算未注入</span>
+            <span className="ml-auto">{item.tokens} tokens</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderEntryList = () => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>设定条目（{entries.length}）</Label>
+        <Button
+          size="sm"
+          onClick={() => startEditing()}
+          className="h-7 bg-tavern-accent hover:bg-tavern-accent/80 text-white"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          新增条目
+        </Button>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-sm text-tavern-text/60">还没有任何设定。添加地点、势力、物品等条目后，对话提到触发词时会自动注入提示词。</p>
+      ) : (
+        <div className="space-y-1 max-h-72 overflow-y-auto">
+          {[...entries]
+            .sort((a, b) => b.priority - a.priority)
+            .map(entry => (
+              <div
+                key={entry.id}
+                className={`flex items-center gap-2 rounded border border-tavern-accent/30 px-2 py-1 text-sm ${entry.enabled ? '' : 'opacity-50'}`}
+              >
+                <Switch
+                  checked={entry.enabled}
+                  onCheckedChange={(enabled) => lorebookStore.updateEntry(entry.id, { enabled })}
+                  aria-label="启用条目"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{entry.title}</span>
+                    <span className="text-xs text-tavern-text/60">优先级 {entry.priority} · 扫描 {entry.scanDepth} 条</span>
+                  </div>
+                  <div className="text-xs text-tavern-text/60 truncate">{entry.keywords.join('、')}</div>
+                </div>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-tavern-accent" onClick={() => startEditing(entry)} aria-label="编辑条目">
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-red-400 hover:text-red-300" onClick={() => handleRemove(entry)} aria-label="删除条目">
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderEntryForm = () => (
+    <div className="grid gap-3">
+      <div className="space-y-1">
+        <Label htmlFor="lorebook-title">标题</Label>
+        <Input
+          id="lorebook-title"
+          value={form.title}
+          onChange={(e) => updateForm({ title: e.target.value })}
+          className={inputClassName}
+          placeholder="例如：暗影兄弟会"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="lorebook-keywords">触发词</Label>
+        <Textarea
+          id="lorebook-keywords"
+          value={form.keywordText}
+          onChange={(e) => updateForm({ keywordText: e.target.value })}
+          className={`min-h-[60px] ${inputClassName}`}
+          placeholder={'用逗号或换行分隔，例如：兄弟会, 暗影\n写成 /正则/i 的形式按正则匹配'}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="lorebook-content">设定内容</Label>
+        <Textarea
+          id="lorebook-content"
+          value={form.content}
+          onChange={(e) => updateForm({ content: e.target.value })}
+          className={`min-h-[100px] ${inputClassName}`}
+          placeholder="被触发时注入系统提示词的内容"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="lorebook-priority">优先级</Label>
+          <Input
+            id="lorebook-priority"
+            type="number"
+            value={form.priority}
+            onChange={(e) => updateForm({ priority: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="lorebook-depth">扫描深度（条）</Label>
+          <Input
+            id="lorebook-depth"
+            type="number"
+            min={1}
+            value={form.scanDepth}
+            onChange={(e) => updateForm({ scanDepth: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={handleSave} className="flex-1 bg-tavern-accent hover:bg-tavern-accent/80 text-white">
+          保存条目
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => {
+            setEditingId(null);
+            setError(null);
+          }}
+          className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+        >
+          取消
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            世界设定
+          </DialogTitle>
+          <DialogDescription>
+            对话最近几条消息命中触发词时，相关设定会按优先级在预算内注入角色的系统提示词。
+          </DialogDescription>
+        </DialogHeader>
+
+        {renderSettings()}
+        {renderLastActivation()}
+        {editingId ? renderEntryForm() : renderEntryList()}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+          >
+            关闭
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LorebookEditor;
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ChevronLeft, ChevronRight, BookOpen, Pencil, RefreshCw, Trash2, Loader2 } from 'lucide-react';
+import { ChapterSummary } from '@/types/summary';
+
+interface MemoryPanelProps {
+  isCollapsed: boolean;
+  onToggleCollapse: () => void;
+  enabled: boolean;
+  onToggleEnabled: (enabled: boolean) => void;
+  summaries: ChapterSummary[];
+  isSummarizing: boolean;
+  summaryError: string | null;
+  pendingTokens: number;        // 尚未摘要的较早对话 token 数
+  tokenThreshold: number;
+  onUpdateSummary: (summaryId: string, changes: { title?: string; content?: string }) => void;
+  onRegenerateSummary: (summaryId: string) => void;
+  onDeleteLatestSummary: () => void;
+}
+
+// 记忆面板：查看、编辑和重新生成对话章节摘要
+const MemoryPanel: React.FC<MemoryPanelProps> = ({
+  isCollapsed,
+  onToggleCollapse,
+  enabled,
+  onToggleEnabled,
+  summaries,
+  isSummarizing,
+  summaryError,
+  pendingTokens,
+  tokenThreshold,
+  onUpdateSummary,
+  onRegenerateSummary,
+  onDeleteLatestSummary,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftContent, setDraftContent] = useState('');
+
+  const startEditing = (summary: ChapterSummary) => {
+    setEditingId(summary.id);
+    setDraftTitle(summary.title);
+    setDraftContent(summary.content);
+  };
+
+  const saveEditing = () => {
+    if (editingId && draftContent.trim()) {
+      onUpdateSummary(editingId, { title: draftTitle.trim() || '未命名章节', content: draftContent.trim() });
+    }
+    setEditingId(null);
+  };
+
+  const progress = Math.min(100, (pendingTokens / Math.max(1, tokenThreshold)) * 100);
+
+  return (
+    <div
+      className={`bg-tavern-panel-bg border-l border-tavern-accent flex flex-col transition-all duration-300 ease-in-out overflow-hidden h-full ${
+        isCollapsed ? 'w-12' : 'w-80'
+      }`}
+    >
+      {/* 收缩状态 */}
+      {isCollapsed && (
+        <div className="flex flex-col items-center py-4 h-full">
+          <Button
+            onClick={onToggleCollapse}
+            variant="ghost"
+            size="icon"
+            className="text-tavern-accent hover:text-yellow-400 mb-2 transition-colors duration-200"
+            aria-label="展开记忆面板"
+          >
+            <ChevronLeft size={20} />
+          </Button>
+          {isSummarizing && <Loader2 size={14} className="text-tavern-accent animate-spin" />}
+          <div
+            className="text-tavern-text text-xs opacity-70 mt-4 transform -rotate-90 whitespace-nowrap transition-opacity duration-300"
+            style={{ writingMode: 'vertical-rl', textOrientation: 'mixed' }}
+          >
+            记忆摘要
+          </div>
+        </div>
+      )}
+
+      {/* 展开状态 */}
+      {!isCollapsed && (
+        <div className="p-4 h-full flex flex-col animate-in fade-in-0 duration-300">
+          <div className="mb-4 flex items-center justify-between flex-shrink-0">
+            <div className="transition-opacity duration-300">
+              <h3 className="text-lg font-semibold text-tavern-accent mb-2">记忆与摘要</h3>
+              <p className="text-sm text-tavern-text opacity-70">较早的对话会被整理成章节摘要</p>
+            </div>
+            <Button
+              onClick={onToggleCollapse}
+              variant="ghost"
+              size="icon"
+              className="text-tavern-accent hover:text-yellow-400 transition-colors duration-200"
+              aria-label="收起记忆面板"
+            >
+              <ChevronRight size={20} />
+            </Button>
+          </div>
+
+          <div className="space-y-3 mb-4 flex-shrink-0">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="summaryEnabled" className="text-sm text-tavern-text">自动生成章节摘要</Label>
+              <Switch id="summaryEnabled" checked={enabled} onCheckedChange={onToggleEnabled} />
+            </div>
+            <div>
+              <div className="flex justify-between text-xs text-tavern-text opacity-70 mb-1">
+                <span>{isSummarizing ? '正在整理摘要...' : '下一章进度'}</span>
+                <span>{pendingTokens} / {tokenThreshold} tokens</span>
+              </div>
+              <Progress value={progress} className="h-1.5" />
+            </div>
+            {summaryError && (
+              <p className="text-xs text-red-400">摘要生成失败：{summaryError}</p>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto space-y-3">
+            {summaries.length === 0 && (
+              <div className="text-center text-sm text-tavern-text opacity-60 py-8">
+                <BookOpen size={24} className="mx-auto mb-2" />
+                对话还不够长，暂无章节摘要
+              </div>
+            )}
+
+            {summaries.map((summary, index) => {
+              const isLatest = index === summaries.length - 1;
+              const isEditing = editingId === summary.id;
+
+              return (
+                <div key={summary.id} className="bg-tavern-bg rounded-lg p-3 border border-tavern-accent/30">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge className="bg-tavern-accent text-tavern-bg text-xs shrink-0">第{summary.chapter}章</Badge>
+                      {!isEditing && (
+                        <span className="text-sm font-medium text-tavern-text truncate">{summary.title}</span>
+                      )}
+                    </div>
+                    {summary.isEdited && !isEditing && (
+                      <span className="text-xs text-yellow-500 shrink-0">已编辑</span>
+                    )}
+                  </div>
+
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <Input
+                        value={draftTitle}
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        className="bg-tavern-panel-bg border-tavern-text text-xs h-8"
+                        placeholder="章节标题"
+                      />
+                      <Textarea
+                        value={draftContent}
+                        onChange={(e) => setDraftContent(e.target.value)}
+                        className="bg-tavern-panel-bg border-tavern-text text-xs"
+                        rows={6}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setEditingId(null)}>
+                          取消
+                        </Button>
+                        <Button size="sm" className="h-7 text-xs bg-tavern-accent text-tavern-bg hover:bg-yellow-600" onClick={saveEditing}>
+                          保存
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      <p className="text-xs text-tavern-text opacity-90 whitespace-pre-wrap leading-relaxed">{summary.content}</p>
+                      <div className="flex items-center justify-between mt-2">
+                        <span className="text-xs text-tavern-text opacity-50">
+                          {summary.messageCount} 条消息 · 约 {summary.sourceTokens} tokens
+                        </span>
+                        <div className="flex gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6 text-tavern-accent"
+                            onClick={() => startEditing(summary)}
+                            aria-label="编辑摘要"
+                          >
+                            <Pencil size={12} />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6 text-tavern-accent"
+                            onClick={() => onRegenerateSummary(summary.id)}
+                            disabled={isSummarizing}
+                            aria-label="重新生成摘要"
+                          >
+                            <RefreshCw size={12} />
+                          </Button>
+                          {isLatest && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6 text-red-400 hover:text-red-300"
+                              onClick={onDeleteLatestSummary}
+                              disabled={isSummarizing}
+                              aria-label="删除摘要"
+                            >
+                              <Trash2 size={12} />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemoryPanel;
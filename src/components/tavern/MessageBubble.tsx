@@ -1,74 +1,70 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Message } from '@/types/tavern';
-import { User, AtSign } from 'lucide-react';
+import { PlayerPersona } from '@/types/persona';
+import { Textarea } from '@/components/ui/textarea';
+import { User, AtSign, ChevronLeft, ChevronRight, RefreshCw, Pencil, Trash2, GitBranch, ScrollText } from 'lucide-react';
+import { getAlternates, getActiveAlternateIndex } from '@/lib/messageAlternates';
+import { getPersonaInitial } from '@/lib/persona';
+import RichMessageText from './RichMessageText';
 
 interface MessageBubbleProps {
   message: Message;
+  isStreaming?: boolean; // 回复仍在流式生成中
+  persona?: PlayerPersona; // 玩家消息发送时使用的玩家角色
+  // 消息操作，未传入时不显示对应按钮
+  onRegenerate?: () => void;
+  onSelectAlternate?: (index: number) => void;
+  onEdit?: (text: string) => void;
+  onDeleteFrom?: () => void;
+  onFork?: () => void;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
-  const alignment = message.isPlayer ? 'justify-end' : 'justify-start';
-  const bgColor = message.isPlayer ? 'bg-player-message-bg' : 'bg-ai-message-bg';
-  const textColor = message.isPlayer ? 'text-white' : 'text-tavern-text';
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  isStreaming = false,
+  persona,
+  onRegenerate,
+  onSelectAlternate,
+  onEdit,
+  onDeleteFrom,
+  onFork,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftText, setDraftText] = useState('');
 
-  // 处理@提及高亮的文本渲染
-  const renderTextWithMentions = (text: string, mentionedCharacters?: string[]) => {
-    // 确保text是字符串类型
-    const safeText = typeof text === 'string' ? text : String(text || '');
-    
-    if (!mentionedCharacters || mentionedCharacters.length === 0) {
-      return <span>{safeText}</span>;
-    }
-
-    // 创建正则表达式来匹配@提及
-    const mentionRegex = /@([^@\s,，。！？；：\n]+)/g;
-    const parts = [];
-    let lastIndex = 0;
-    let match;
-
-    while ((match = mentionRegex.exec(safeText)) !== null) {
-      // 添加@符号前的文本
-      if (match.index > lastIndex) {
-        parts.push(safeText.substring(lastIndex, match.index));
-      }
+  const alternates = getAlternates(message);
+  const activeIndex = getActiveAlternateIndex(message);
+  const hasActions = !isStreaming && !!(onRegenerate || onEdit || onDeleteFrom || onFork);
 
-      // 检查是否是有效的@提及
-      const mentionedName = match[1];
-      const isValidMention = mentionedCharacters.some(name => 
-        name === mentionedName || 
-        name.includes(mentionedName) || 
-        mentionedName.includes(name.replace(/^(酒保|吟游诗人|神秘的)/, ''))
-      );
-
-      if (isValidMention) {
-        // 高亮显示有效的@提及
-        parts.push(
-          <span 
-            key={match.index}
-            className="bg-blue-500/30 text-blue-200 px-1 rounded font-medium"
-          >
-            @{mentionedName}
-          </span>
-        );
-      } else {
-        // 普通文本显示无效的@提及
-        parts.push(`@${mentionedName}`);
-      }
+  const startEditing = () => {
+    setDraftText(message.text);
+    setIsEditing(true);
+  };
 
-      lastIndex = match.index + match[0].length;
+  const saveEditing = () => {
+    const text = draftText.trim();
+    if (text && text !== message.text) {
+      onEdit?.(text);
     }
+    setIsEditing(false);
+  };
 
-    // 添加剩余的文本
-    if (lastIndex < safeText.length) {
-      parts.push(safeText.substring(lastIndex));
+  const handleDeleteFrom = () => {
+    if (window.confirm('确定删除这条消息及之后的所有消息吗？')) {
+      onDeleteFrom?.();
     }
-
-    return <span>{parts}</span>;
   };
 
+  // 旁白消息居中显示，与角色发言区分开
+  const alignment = message.isNarration ? 'justify-center' : message.isPlayer ? 'justify-end' : 'justify-start';
+  const bgColor = message.isNarration
+    ? 'bg-purple-950/40 border border-purple-400/30'
+    : message.isPlayer ? 'bg-player-message-bg' : 'bg-ai-message-bg';
+  const textColor = message.isNarration ? 'text-purple-100 italic' : message.isPlayer ? 'text-white' : 'text-tavern-text';
+
   return (
     <div className={`flex ${alignment} mb-3`}>
-      <div className={`max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-lg shadow ${bgColor} ${textColor} relative`}>
+      <div className={`group max-w-xs md:max-w-md lg:max-w-lg p-3 rounded-lg shadow ${bgColor} ${textColor} relative`}>
         {/* @提及指示器 */}
         {message.mentionedCharacters && message.mentionedCharacters.length > 0 && (
           <div className="absolute -top-2 -right-2 bg-blue-500 text-white rounded-full p-1">
@@ -76,7 +72,14 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           </div>
         )}
         
-        {!message.isPlayer && (
+        {message.isNarration && (
+          <div className="flex items-center justify-center gap-1 mb-1 text-xs font-semibold text-purple-300 not-italic">
+            <ScrollText size={12} />
+            <span>{message.sender}</span>
+          </div>
+        )}
+
+        {!message.isPlayer && !message.isNarration && (
           <div className="flex items-center mb-1">
             <div className={`w-5 h-5 rounded-full ${message.avatarColor} mr-2 flex items-center justify-center`}>
               <User size={14} className="text-white opacity-70" />
@@ -85,20 +88,47 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           </div>
         )}
         
-        {/* 玩家消息显示发送者 */}
+        {/* 玩家消息显示发送者（玩家角色的名字与头像） */}
         {message.isPlayer && (
           <div className="flex items-center justify-end mb-1">
             <p className="text-xs font-semibold text-blue-200">{message.sender}</p>
-            <div className="w-5 h-5 rounded-full bg-blue-600 ml-2 flex items-center justify-center">
-              <User size={14} className="text-white" />
-            </div>
+            {persona?.avatar ? (
+              <img src={persona.avatar} alt={persona.name} className="w-5 h-5 rounded-full ml-2 object-cover" />
+            ) : (
+              <div className={`w-5 h-5 rounded-full ${persona?.avatarColor || 'bg-blue-600'} ml-2 flex items-center justify-center`}>
+                {persona ? (
+                  <span className="text-[10px] font-semibold text-white">{getPersonaInitial(persona.name)}</span>
+                ) : (
+                  <User size={14} className="text-white" />
+                )}
+              </div>
+            )}
           </div>
         )}
         
         {/* 消息内容 */}
-        <p className="text-sm">
-          {renderTextWithMentions(message.text, message.mentionedCharacters)}
-        </p>
+        {isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draftText}
+              onChange={(e) => setDraftText(e.target.value)}
+              className="bg-tavern-panel-bg border-tavern-text text-sm text-tavern-text"
+              rows={4}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2 text-xs">
+              <button onClick={() => setIsEditing(false)} className="opacity-70 hover:opacity-100">取消</button>
+              <button onClick={saveEditing} className="text-tavern-accent hover:text-yellow-400">保存</button>
+            </div>
+          </div>
+        ) : (
+          <div className="text-sm whitespace-pre-wrap space-y-1">
+            <RichMessageText text={message.text} mentionedCharacters={message.mentionedCharacters} />
+            {isStreaming && (
+              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-tavern-accent animate-pulse" />
+            )}
+          </div>
+        )}
         
         {/* @提及状态显示 */}
         {message.mentionedCharacters && message.mentionedCharacters.length > 0 && (
@@ -110,9 +140,60 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           </div>
         )}
         
-        <p className="text-xs text-gray-400 mt-1 text-right">
-          {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-        </p>
+        <div className="flex items-center justify-between gap-2 mt-1">
+          <div className="flex items-center gap-1 text-xs text-gray-400">
+            {/* 候选回复切换 */}
+            {onSelectAlternate && alternates.length > 1 && (
+              <>
+                <button
+                  onClick={() => onSelectAlternate(activeIndex - 1)}
+                  disabled={activeIndex === 0}
+                  className="hover:text-tavern-accent disabled:opacity-30"
+                  aria-label="上一个候选回复"
+                >
+                  <ChevronLeft size={12} />
+                </button>
+                <span>{activeIndex + 1}/{alternates.length}</span>
+                <button
+                  onClick={() => onSelectAlternate(activeIndex + 1)}
+                  disabled={activeIndex === alternates.length - 1}
+                  className="hover:text-tavern-accent disabled:opacity-30"
+                  aria-label="下一个候选回复"
+                >
+                  <ChevronRight size={12} />
+                </button>
+              </>
+            )}
+            {hasActions && !isEditing && (
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                {onRegenerate && (
+                  <button onClick={onRegenerate} className="hover:text-tavern-accent" aria-label="重新生成" title="重新生成">
+                    <RefreshCw size={12} />
+                  </button>
+                )}
+                {onEdit && (
+                  <button onClick={startEditing} className="hover:text-tavern-accent" aria-label="编辑消息" title="编辑">
+                    <Pencil size={12} />
+                  </button>
+                )}
+                {onFork && (
+                  <button onClick={onFork} className="hover:text-tavern-accent" aria-label="从这条消息分出新分支" title="从这里分支">
+                    <GitBranch size={12} />
+                  </button>
+                )}
+                {onDeleteFrom && (
+                  <button onClick={handleDeleteFrom} className="hover:text-red-400" aria-label="删除此消息及之后的消息" title="从这里删除">
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-400 text-right">
+            {message.isEdited && <span className="mr-1">已编辑 ·</span>}
+            {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        </div>
       </div>
     </div>
   );
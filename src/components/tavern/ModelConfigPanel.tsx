@@ -9,6 +9,10 @@ import { ChevronLeft, ChevronRight, Settings, ChevronDown } from 'lucide-react';
 import { modelDefaults } from '@/data/modelDefaults';
 import MultiResponseConfigPanel from './MultiResponseConfigPanel';
 import { MultiResponseConfig } from '@/lib/multiResponseEvaluator';
+import ProviderSelect from './ProviderSelect';
+import ApiKeyAliasSelect from './ApiKeyAliasSelect';
+import { LLMProviderType } from '@/types/llm';
+import { LLM_PROVIDERS, resolveProviderType } from '@/lib/llmProviders';
 
 interface ModelConfigPanelProps {
   characters: AICharacter[];
@@ -41,8 +45,12 @@ const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({
       return editingConfigs[character.id];
     }
     return {
+      provider: resolveProviderType({
+        provider: character.modelConfig?.provider,
+        baseUrl: character.modelConfig?.baseUrl || modelDefaults.baseUrl
+      }),
       baseUrl: character.modelConfig?.baseUrl || modelDefaults.baseUrl,
-      apiKey: character.modelConfig?.apiKey || modelDefaults.apiKey,
+      apiKeyAlias: character.modelConfig?.apiKeyAlias || modelDefaults.apiKeyAlias,
       modelName: character.modelConfig?.modelName || modelDefaults.modelName,
       prompt: character.modelConfig?.prompt || '',
       temperature: character.modelConfig?.temperature ?? 0.7,
@@ -63,6 +71,18 @@ const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({
     }));
   };
 
+  // 切换接口类型时填入该类型的默认地址
+  const updateProvider = (characterId: string, provider: LLMProviderType) => {
+    setEditingConfigs(prev => ({
+      ...prev,
+      [characterId]: {
+        ...getCharacterConfig(characters.find(c => c.id === characterId)!),
+        provider,
+        baseUrl: LLM_PROVIDERS[provider].defaultBaseUrl,
+      }
+    }));
+  };
+
   const saveConfig = (characterId: string) => {
     const config = editingConfigs[characterId];
     if (config) {
@@ -192,6 +212,15 @@ const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({
                       <div className="px-3 pb-3 border-t border-tavern-accent/20">
                       <div className="space-y-3 pt-2">
                         {/* 基础配置 */}
+                        <div className="transition-all duration-200">
+                          <Label className="text-xs text-tavern-text">接口类型</Label>
+                          <ProviderSelect
+                            value={config.provider || 'openai'}
+                            onChange={(provider) => updateProvider(characterKey, provider)}
+                            className="mt-1 bg-tavern-bg border-tavern-text text-xs h-8"
+                          />
+                        </div>
+
                         <div className="transition-all duration-200">
                           <Label className="text-xs text-tavern-text">Base URL</Label>
                           <Input
@@ -204,13 +233,13 @@ const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({
                         
                         <div className="transition-all duration-200">
                           <Label className="text-xs text-tavern-text">API Key</Label>
-                          <Input
-                            type="password"
-                            value={config.apiKey || ''}
-                            onChange={(e) => updateEditingConfig(characterKey, 'apiKey', e.target.value)}
-                            className="mt-1 bg-tavern-bg border-tavern-text text-xs h-8 transition-all duration-200 focus:scale-[1.02]"
-                            placeholder="API密钥"
-                          />
+                          <div className="mt-1">
+                            <ApiKeyAliasSelect
+                              value={config.apiKeyAlias}
+                              onChange={(alias) => updateEditingConfig(characterKey, 'apiKeyAlias', alias)}
+                              className="bg-tavern-bg border-tavern-text text-xs h-8"
+                            />
+                          </div>
                         </div>
                         
                         <div className="transition-all duration-200">
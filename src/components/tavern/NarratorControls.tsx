@@ -0,0 +1,89 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollText, Loader2 } from 'lucide-react';
+import { NarratorConfig } from '@/types/narrator';
+
+interface NarratorControlsProps {
+  config: NarratorConfig;
+  isNarrating: boolean;
+  onConfigChange: (changes: Partial<NarratorConfig>) => void;
+  onNarrateNow: () => void;
+}
+
+// 旁白节奏选项（秒）
+const INTERVAL_OPTIONS = [
+  { value: 45, label: '45秒' },
+  { value: 90, label: '90秒' },
+  { value: 180, label: '3分钟' },
+  { value: 300, label: '5分钟' },
+];
+
+// 旁白开关与节奏设置，放在自动对话按钮旁
+const NarratorControls: React.FC<NarratorControlsProps> = ({
+  config,
+  isNarrating,
+  onConfigChange,
+  onNarrateNow,
+}) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="旁白设置"
+          title={config.enabled ? '旁白已开启' : '旁白已关闭'}
+          className={config.enabled ? 'text-purple-300 hover:text-purple-200' : 'text-tavern-accent opacity-60 hover:text-yellow-400'}
+        >
+          {isNarrating ? <Loader2 size={20} className="animate-spin" /> : <ScrollText size={20} />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 bg-tavern-panel-bg border-tavern-accent/40 text-tavern-text space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="narrator-enabled" className="text-sm text-tavern-accent">旁白主持</Label>
+          <Switch
+            id="narrator-enabled"
+            checked={config.enabled}
+            onCheckedChange={(enabled) => onConfigChange({ enabled })}
+          />
+        </div>
+        <p className="text-xs opacity-60">
+          自动对话进行时，旁白按设定的节奏描写环境变化、时间流逝或引入随机事件。
+        </p>
+        <div className="space-y-1">
+          <Label className="text-xs">旁白节奏</Label>
+          <div className="flex gap-1">
+            {INTERVAL_OPTIONS.map(option => (
+              <Button
+                key={option.value}
+                onClick={() => onConfigChange({ interval: option.value })}
+                variant={config.interval === option.value ? 'default' : 'outline'}
+                size="sm"
+                className={`flex-1 h-7 px-1 text-xs ${
+                  config.interval === option.value
+                    ? 'bg-tavern-accent text-tavern-bg'
+                    : 'border-tavern-accent/30 text-tavern-accent hover:bg-tavern-accent/10'
+                }`}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <Button
+          onClick={onNarrateNow}
+          disabled={isNarrating}
+          size="sm"
+          className="w-full h-7 text-xs bg-purple-700 hover:bg-purple-600 text-white"
+        >
+          {isNarrating ? '旁白生成中...' : '立即推进一次场景'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NarratorControls;
@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Pencil, Trash2, Check, X, ImagePlus } from 'lucide-react';
+import { PlayerPersona, PersonaRelationshipSeed, DEFAULT_PERSONA_ID } from '@/types/persona';
+import { RelationType, RELATION_TYPE_LABELS } from '@/types/relationship';
+import { personaStore, PersonaDraft, getPersonaInitial } from '@/lib/persona';
+import { usePersonas } from '@/hooks/usePersonas';
+
+interface PersonaManagerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  characterNames: string[]; // 当前场景的角色，用于设置初始关系
+}
+
+const inputClassName = 'bg-tavern-bg border-tavern-text focus:border-tavern-accent';
+
+// 头像图片保存在本地存储中，限制大小
+const MAX_AVATAR_BYTES = 256 * 1024;
+
+const AVATAR_COLORS = ['bg-blue-600', 'bg-emerald-600', 'bg-rose-600', 'bg-amber-600', 'bg-violet-600', 'bg-slate-600'];
+
+const emptyDraft: PersonaDraft = {
+  name: '',
+  description: '',
+  avatarColor: AVATAR_COLORS[0],
+  relationshipSeeds: []
+};
+
+const PersonaAvatar: React.FC<{ persona: Pick<PlayerPersona, 'name' | 'avatar' | 'avatarColor'>; size?: string }> = ({ persona, size = 'w-8 h-8' }) =>
+  persona.avatar ? (
+    <img src={persona.avatar} alt={persona.name} className={`${size} rounded-full object-cover flex-shrink-0`} />
+  ) : (
+    <div className={`${size} rounded-full ${persona.avatarColor} flex items-center justify-center text-white text-sm font-semibold flex-shrink-0`}>
+      {getPersonaInitial(persona.name)}
+    </div>
+  );
+
+// 玩家角色管理：编辑名字、简介、头像和初始关系，并选择当前扮演的角色
+const PersonaManagerDialog: React.FC<PersonaManagerDialogProps> = ({ isOpen, onClose, characterNames }) => {
+  const { personas, activePersona } = usePersonas();
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' 表示新建
+  const [draft, setDraft] = useState<PersonaDraft>(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setEditingId(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const startEditing = (persona?: PlayerPersona) => {
+    setDraft(persona
+      ? {
+          name: persona.name,
+          description: persona.description,
+          avatar: persona.avatar,
+          avatarColor: persona.avatarColor,
+          relationshipSeeds: persona.relationshipSeeds
+        }
+      : emptyDraft);
+    setEditingId(persona ? persona.id : 'new');
+    setError(null);
+  };
+
+  const updateDraft = (changes: Partial<PersonaDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateSeed = (index: number, changes: Partial<PersonaRelationshipSeed>) => {
+    updateDraft({
+      relationshipSeeds: draft.relationshipSeeds.map((seed, i) => (i === index ? { ...seed, ...changes } : seed))
+    });
+  };
+
+  const handleAvatarFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_AVATAR_BYTES) {
+      setError('头像图片不能超过 256KB');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => updateDraft({ avatar: String(reader.result) });
+    reader.onerror = () => setError('头像读取失败');
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setError('请填写玩家角色的名字');
+      return;
+    }
+    const cleaned: PersonaDraft = {
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      relationshipSeeds: draft.relationshipSeeds.filter(seed => seed.characterName.trim())
+    };
+
+    if (editingId === 'new') {
+      const persona = personaStore.addPersona(cleaned);
+      personaStore.setActivePersona(persona.id);
+    } else if (editingId) {
+      personaStore.updatePersona(editingId, cleaned);
+    }
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleRemove = (persona: PlayerPersona) => {
+    if (window.confirm(`确定删除玩家角色「${persona.name}」吗？已发送的消息不受影响。`)) {
+      personaStore.removePersona(persona.id);
+    }
+  };
+
+  const renderList = () => (
+    <div className="space-y-2">
+      <div className="space-y-1 max-h-72 overflow-y-auto">
+        {personas.map(persona => {
+          const isActive = persona.id === activePersona.id;
+          return (
+            <div
+              key={persona.id}
+              className={`flex items-center gap-2 rounded border px-2 py-1.5 text-sm ${
+                isActive ? 'border-tavern-accent bg-tavern-accent/10' : 'border-tavern-accent/30'
+              }`}
+            >
+              <PersonaAvatar persona={persona} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{persona.name}</span>
+                  {isActive && <span className="text-xs text-tavern-accent">当前</span>}
+                </div>
+                <div className="text-xs text-tavern-text/60 truncate">{persona.description || '未填写简介'}</div>
+              </div>
+              {!isActive && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => personaStore.setActivePersona(persona.id)}
+                  className="h-6 px-2 text-xs border-tavern-accent/40 text-tavern-accent hover:bg-tavern-accent/10"
+                >
+                  <Check className="w-3 h-3 mr-1" />
+                  扮演
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-tavern-accent" onClick={() => startEditing(persona)} aria-label="编辑玩家角色">
+                <Pencil className="w-3 h-3" />
+              </Button>
+              {persona.id !== DEFAULT_PERSONA_ID && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-red-400 hover:text-red-300" onClick={() => handleRemove(persona)} aria-label="删除玩家角色">
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <Button onClick={() => startEditing()} className="w-full bg-tavern-accent hover:bg-tavern-accent/80 text-white">
+        <Plus className="w-4 h-4 mr-1" />
+        新建玩家角色
+      </Button>
+    </div>
+  );
+
+  const renderForm = () => (
+    <div className="grid gap-3">
+      <div className="flex items-center gap-3">
+        <PersonaAvatar persona={{ ...draft, name: draft.name || '?' }} size="w-12 h-12" />
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="persona-name">名字</Label>
+          <Input
+            id="persona-name"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            className={inputClassName}
+            placeholder="角色们会这样称呼你"
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => avatarInputRef.current?.click()}
+          className="h-7 text-xs text-tavern-text border-tavern-accent/40 hover:bg-tavern-accent/10"
+        >
+          <ImagePlus className="w-3 h-3 mr-1" />
+          上传头像
+        </Button>
+        {draft.avatar && (
+          <Button variant="ghost" size="sm" onClick={() => updateDraft({ avatar: undefined })} className="h-7 text-xs text-tavern-text/70">
+            移除头像
+          </Button>
+        )}
+        <div className="flex gap-1 ml-auto">
+          {AVATAR_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => updateDraft({ avatarColor: color })}
+              className={`w-5 h-5 rounded-full ${color} ${draft.avatarColor === color ? 'ring-2 ring-tavern-accent' : ''}`}
+              aria-label="选择头像颜色"
+            />
+          ))}
+        </div>
+        <input ref={avatarInputRef} type="file" accept="image/*" className="hidden" onChange={handleAvatarFile} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="persona-description">简介</Label>
+        <Textarea
+          id="persona-description"
+          value={draft.description}
+          onChange={(e) => updateDraft({ description: e.target.value })}
+          className={`min-h-[80px] ${inputClassName}`}
+          placeholder="外貌、身份、性格等，角色回复时会参考这些信息"
+        />
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>与角色的初始关系</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateDraft({
+              relationshipSeeds: [...draft.relationshipSeeds, { characterName: characterNames[0] || '', type: RelationType.ACQUAINTANCE }]
+            })}
+            className="h-6 px-2 text-xs text-tavern-accent"
+          >
+            <Plus className="w-3 h-3 mr-1" />
+            添加
+          </Button>
+        </div>
+        {draft.relationshipSeeds.map((seed, index) => (
+          <div key={index} className="grid grid-cols-[1fr_110px_1.5fr_auto] gap-1 items-center">
+            <Input
+              value={seed.characterName}
+              onChange={(e) => updateSeed(index, { characterName: e.target.value })}
+              className={`h-7 text-xs ${inputClassName}`}
+              placeholder="角色名"
+              list="persona-character-names"
+            />
+            <Select value={seed.type} onValueChange={(type) => updateSeed(index, { type: type as RelationType })}>
+              <SelectTrigger className={`h-7 text-xs ${inputClassName}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(RelationType).map(type => (
+                  <SelectItem key={type} value={type}>{RELATION_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={seed.note || ''}
+              onChange={(e) => updateSeed(index, { note: e.target.value })}
+              className={`h-7 text-xs ${inputClassName}`}
+              placeholder="关系背景（可选）"
+            />
+            <button
+              onClick={() => updateDraft({ relationshipSeeds: draft.relationshipSeeds.filter((_, i) => i !== index) })}
+              className="text-tavern-text/60 hover:text-red-400"
+              aria-label="删除初始关系"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        ))}
+        <datalist id="persona-character-names">
+          {characterNames.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={handleSave} className="flex-1 bg-tavern-accent hover:bg-tavern-accent/80 text-white">
+          保存
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => {
+            setEditingId(null);
+            setError(null);
+          }}
+          className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+        >
+          取消
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+        <DialogHeader>
+          <DialogTitle>🎭 玩家角色</DialogTitle>
+          <DialogDescription>
+            选择你在对话中扮演的身份。角色会知道你的名字和简介，提示词中的 {'{{user}}'} 会替换为当前角色的名字。
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId ? renderForm() : renderList()}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+          >
+            关闭
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PersonaManagerDialog;
@@ -0,0 +1,301 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Copy, Layers, Trash2 } from 'lucide-react';
+import { PromptBlockConfig, PromptBlockResult, PromptBlockRole } from '@/types/promptPipeline';
+import {
+  promptPipelineStore,
+  createDefaultPipelineBlocks,
+  DEFAULT_PRESET_ID,
+  PROMPT_BLOCK_LABELS,
+  PROMPT_BLOCK_ROLE_LABELS
+} from '@/lib/promptPipeline';
+import { usePromptPipeline } from '@/hooks/usePromptPipeline';
+
+interface PromptPipelineDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClassName = 'bg-tavern-bg border-tavern-text focus:border-tavern-accent';
+const outlineButtonClassName = 'h-7 text-tavern-text border-tavern-accent hover:bg-tavern-accent/20';
+
+const MESSAGE_ROLE_STYLES: Record<string, string> = {
+  system: 'text-amber-400',
+  user: 'text-sky-400',
+  assistant: 'text-emerald-400'
+};
+
+const describeBlockStatus = (block: PromptBlockResult): string => {
+  if (!block.enabled) return '已关闭';
+  if (!block.content) return '无内容';
+  if (block.truncated) return `截断 ${block.originalTokens} → ${block.tokens} tokens`;
+  return `${block.tokens} tokens`;
+};
+
+// 提示词管线：编辑内容块的顺序、开关、注入位置与预算，并检查最近几次请求的实际内容
+const PromptPipelineDialog: React.FC<PromptPipelineDialogProps> = ({ isOpen, onClose }) => {
+  const { presets, activePreset, inspections } = usePromptPipeline();
+  const [selectedInspectionId, setSelectedInspectionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSelectedInspectionId(null);
+    }
+  }, [isOpen]);
+
+  const selectedInspection = inspections.find(item => item.id === selectedInspectionId) || inspections[0];
+
+  const updateBlocks = (blocks: PromptBlockConfig[]) => {
+    promptPipelineStore.updatePreset(activePreset.id, { blocks });
+  };
+
+  const updateBlock = (index: number, changes: Partial<PromptBlockConfig>) => {
+    updateBlocks(activePreset.blocks.map((block, i) => (i === index ? { ...block, ...changes } : block)));
+  };
+
+  const moveBlock = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= activePreset.blocks.length) return;
+    const blocks = [...activePreset.blocks];
+    [blocks[index], blocks[target]] = [blocks[target], blocks[index]];
+    updateBlocks(blocks);
+  };
+
+  const handleSaveAs = () => {
+    const name = window.prompt('新预设名称', `${activePreset.name} 副本`)?.trim();
+    if (name) {
+      promptPipelineStore.addPreset(name, activePreset.blocks);
+    }
+  };
+
+  const handleRename = () => {
+    const name = window.prompt('预设名称', activePreset.name)?.trim();
+    if (name) {
+      promptPipelineStore.updatePreset(activePreset.id, { name });
+    }
+  };
+
+  const handleRemove = () => {
+    if (window.confirm(`确定删除预设「${activePreset.name}」吗？`)) {
+      promptPipelineStore.removePreset(activePreset.id);
+    }
+  };
+
+  const handleCopyMessages = async () => {
+    if (!selectedInspection) return;
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(selectedInspection.messages, null, 2));
+    } catch (error) {
+      console.error('❌ 复制请求内容失败:', error);
+    }
+  };
+
+  const renderPresetBar = () => (
+    <div className="flex items-center gap-2">
+      <Label className="text-sm whitespace-nowrap">预设</Label>
+      <Select value={activePreset.id} onValueChange={(id) => promptPipelineStore.setActivePreset(id)}>
+        <SelectTrigger className={`h-7 w-48 ${inputClassName}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {presets.map(preset => (
+            <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" onClick={handleSaveAs} className={outlineButtonClassName}>另存为</Button>
+      <Button variant="outline" size="sm" onClick={handleRename} className={outlineButtonClassName}>重命名</Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => updateBlocks(createDefaultPipelineBlocks())}
+        className={outlineButtonClassName}
+      >
+        恢复默认顺序
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleRemove}
+        disabled={activePreset.id === DEFAULT_PRESET_ID}
+        className="h-7 px-2 ml-auto text-red-400 hover:text-red-300"
+        aria-label="删除预设"
+      >
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+
+  const renderBlockRow = (block: PromptBlockConfig, index: number) => (
+    <div
+      key={block.id}
+      className={`flex items-center gap-2 rounded border border-tavern-accent/30 px-2 py-1 text-sm ${block.enabled ? '' : 'opacity-50'}`}
+    >
+      <div className="flex flex-col">
+        <button type="button" onClick={() => moveBlock(index, -1)} disabled={index === 0} className="disabled:opacity-30" aria-label="上移">
+          <ArrowUp className="w-3 h-3" />
+        </button>
+        <button type="button" onClick={() => moveBlock(index, 1)} disabled={index === activePreset.blocks.length - 1} className="disabled:opacity-30" aria-label="下移">
+          <ArrowDown className="w-3 h-3" />
+        </button>
+      </div>
+      <Switch
+        checked={block.enabled}
+        onCheckedChange={(enabled) => updateBlock(index, { enabled })}
+        aria-label="启用内容块"
+      />
+      <span className="w-24 font-medium">{PROMPT_BLOCK_LABELS[block.id]}</span>
+      <Select value={block.role} onValueChange={(role) => updateBlock(index, { role: role as PromptBlockRole })}>
+        <SelectTrigger className={`h-7 w-32 text-xs ${inputClassName}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(PROMPT_BLOCK_ROLE_LABELS) as PromptBlockRole[]).map(role => (
+            <SelectItem key={role} value={role}>{PROMPT_BLOCK_ROLE_LABELS[role]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {block.role === 'depth' && (
+        <div className="flex items-center gap-1 text-xs">
+          <span className="whitespace-nowrap">深度</span>
+          <Input
+            type="number"
+            min={0}
+            value={block.depth}
+            onChange={(e) => updateBlock(index, { depth: Math.max(0, Number(e.target.value) || 0) })}
+            className={`h-7 w-16 ${inputClassName}`}
+            title="插在距对话末尾第几条消息之前，0 表示放在最后"
+          />
+        </div>
+      )}
+      <div className="flex items-center gap-1 text-xs ml-auto">
+        <span className="whitespace-nowrap">预算</span>
+        <Input
+          type="number"
+          min={0}
+          value={block.tokenBudget}
+          onChange={(e) => updateBlock(index, { tokenBudget: Math.max(0, Number(e.target.value) || 0) })}
+          className={`h-7 w-20 ${inputClassName}`}
+          title="0 表示不限制，超出时截断"
+        />
+      </div>
+    </div>
+  );
+
+  const renderInspector = () => {
+    if (!selectedInspection) {
+      return <p className="text-sm text-tavern-text/60">还没有请求记录。角色发言后，这里会显示每次请求各内容块的组装结果和实际发送的消息。</p>;
+    }
+
+    return (
+      <div className="grid grid-cols-[200px_1fr] gap-3">
+        <div className="space-y-1 max-h-[420px] overflow-y-auto">
+          {inspections.map(item => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => setSelectedInspectionId(item.id)}
+              className={`w-full rounded border px-2 py-1 text-left text-xs ${item.id === selectedInspection.id ? 'border-tavern-accent bg-tavern-accent/20' : 'border-tavern-accent/30'}`}
+            >
+              <div className="font-medium">{item.characterName}</div>
+              <div className="opacity-60">{item.timestamp.toLocaleTimeString()} · {item.presetName} · {item.totalTokens} tokens</div>
+            </button>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => promptPipelineStore.clearInspections()} className={`w-full ${outlineButtonClassName}`}>
+            清空记录
+          </Button>
+        </div>
+        <div className="space-y-2 min-w-0 max-h-[420px] overflow-y-auto">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-tavern-accent">{selectedInspection.modelName}</span>
+            <span className="opacity-60">{selectedInspection.messages.length} 条消息，约 {selectedInspection.totalTokens} tokens</span>
+            <Button variant="outline" size="sm" onClick={handleCopyMessages} className={`ml-auto ${outlineButtonClassName}`}>
+              <Copy className="w-3 h-3 mr-1" />
+              复制JSON
+            </Button>
+          </div>
+          <div className="rounded border border-tavern-accent/30 p-2 text-xs space-y-0.5">
+            {selectedInspection.blocks.map(block => (
+              <div key={block.id} className={`flex gap-2 ${block.enabled && block.content ? '' : 'opacity-50'}`}>
+                <span className="w-24 font-medium">{PROMPT_BLOCK_LABELS[block.id]}</span>
+                <span className="opacity-60">
+                  {PROMPT_BLOCK_ROLE_LABELS[block.role]}{block.role === 'depth' ? ` @${block.depth}` : ''}
+                </span>
+                <span className={`ml-auto ${block.truncated ? 'text-red-400/80' : 'opacity-60'}`}>{describeBlockStatus(block)}</span>
+              </div>
+            ))}
+          </div>
+          {selectedInspection.messages.map((message, index) => (
+            <div key={index} className="rounded border border-tavern-accent/30 p-2 text-xs">
+              <div className={`mb-1 font-mono ${MESSAGE_ROLE_STYLES[message.role] || ''}`}>{message.role}</div>
+              <pre className="whitespace-pre-wrap break-words">{message.content}</pre>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[860px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            提示词管线
+          </DialogTitle>
+          <DialogDescription>
+            调整角色请求中各内容块的顺序、注入位置与 Token 预算，保存为预设；群聊规则始终附在系统提示词末尾。
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="pipeline">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="pipeline">管线配置</TabsTrigger>
+            <TabsTrigger value="inspector">请求检查器（{inspections.length}）</TabsTrigger>
+          </TabsList>
+          <TabsContent value="pipeline" className="space-y-3">
+            {renderPresetBar()}
+            <div className="space-y-1">
+              {activePreset.blocks.map(renderBlockRow)}
+            </div>
+          </TabsContent>
+          <TabsContent value="inspector">
+            {renderInspector()}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="text-tavern-text border-tavern-accent hover:bg-tavern-accent/20"
+          >
+            关闭
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptPipelineDialog;
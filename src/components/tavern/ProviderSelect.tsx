@@ -0,0 +1,37 @@
+import React from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LLMProviderType } from '@/types/llm';
+import { LLM_PROVIDERS } from '@/lib/llmProviders';
+
+interface ProviderSelectProps {
+  value: LLMProviderType;
+  onChange: (provider: LLMProviderType) => void;
+  className?: string;
+  id?: string;
+}
+
+// 模型接口类型选择器
+const ProviderSelect: React.FC<ProviderSelectProps> = ({ value, onChange, className, id }) => {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as LLMProviderType)}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="选择接口类型" />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(LLM_PROVIDERS).map(adapter => (
+          <SelectItem key={adapter.type} value={adapter.type}>
+            {adapter.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default ProviderSelect;
@@ -0,0 +1,520 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Network, Pause, Play, RotateCcw } from 'lucide-react';
+import { AICharacter } from '@/types/tavern';
+import { Relationship, RelationshipEvent, RelationType, RELATION_TYPE_LABELS } from '@/types/relationship';
+import { RelationshipManager, describeRelationshipForPrompt } from '@/lib/relationshipManager';
+import {
+  RelationshipNetworkAnalyzer,
+  NetworkAnalysisResult,
+  SocialRole,
+  SOCIAL_ROLE_LABELS
+} from '@/lib/relationshipNetworkAnalyzer';
+import {
+  RELATION_TYPE_COLORS,
+  CENTRALITY_METRIC_LABELS,
+  CentralityMetric,
+  collectRelationshipEvents,
+  replayRelationships,
+  createNetworkSnapshot
+} from '@/lib/relationshipGraph';
+import { getPersonaParticipantId } from '@/lib/persona';
+import { usePersonas } from '@/hooks/usePersonas';
+import { computeForceLayout, convexHull, LayoutPoint } from '@/utils/forceLayout';
+
+interface RelationshipGraphPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  relationshipManager: RelationshipManager;
+  relationshipVersion: number;   // 关系更新后递增，用于刷新图
+  characters: AICharacter[];
+}
+
+interface GraphNode {
+  id: string;
+  name: string;
+  avatarColor: string;
+  avatar?: string;
+  isPersona: boolean;
+}
+
+const GRAPH_WIDTH = 640;
+const GRAPH_HEIGHT = 440;
+const NODE_RADIUS = 22;
+const PLAYBACK_INTERVAL = 900;
+
+const COMMUNITY_COLORS = ['#60a5fa', '#34d399', '#f472b6', '#fbbf24', '#a78bfa', '#fb923c'];
+
+const outlineButtonClassName = 'h-7 text-tavern-text border-tavern-accent hover:bg-tavern-accent/20';
+
+const formatScore = (value: number | undefined) => (value ?? 0).toFixed(2);
+
+// 关系边：有向关系画成弧线，避免与反方向的关系重叠；终点停在节点边缘以便显示箭头
+const buildEdgePath = (from: LayoutPoint, to: LayoutPoint, curved: boolean) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.max(Math.hypot(dx, dy), 1);
+  const offset = curved ? 24 : 0;
+  const control = {
+    x: (from.x + to.x) / 2 - (dy / length) * offset,
+    y: (from.y + to.y) / 2 + (dx / length) * offset
+  };
+  const endDx = to.x - control.x;
+  const endDy = to.y - control.y;
+  const endLength = Math.max(Math.hypot(endDx, endDy), 1);
+  const end = {
+    x: to.x - (endDx / endLength) * (NODE_RADIUS + 4),
+    y: to.y - (endDy / endLength) * (NODE_RADIUS + 4)
+  };
+  return `M ${from.x} ${from.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`;
+};
+
+const RelationshipGraphPanel: React.FC<RelationshipGraphPanelProps> = ({
+  isOpen,
+  onClose,
+  relationshipManager,
+  relationshipVersion,
+  characters
+}) => {
+  const { personas, activePersona } = usePersonas();
+  const [step, setStep] = useState<number | null>(null); // null 表示跟随当前关系
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [metric, setMetric] = useState<CentralityMetric>('influence');
+  const [showHulls, setShowHulls] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draggedPositions, setDraggedPositions] = useState<Record<string, LayoutPoint>>({});
+  const [analysis, setAnalysis] = useState<NetworkAnalysisResult | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ id: string; moved: boolean } | null>(null);
+
+  // 当前关系与关系事件（relationshipVersion 变化表示管理器内部已更新）
+  const [liveRelationships, setLiveRelationships] = useState<Relationship[]>([]);
+  const [events, setEvents] = useState<RelationshipEvent[]>([]);
+  useEffect(() => {
+    setLiveRelationships(Array.from(relationshipManager.getRelationshipNetwork().relationships.values()));
+    setEvents(collectRelationshipEvents(relationshipManager.getRelationshipMemories()));
+  }, [relationshipManager, relationshipVersion]);
+
+  const currentStep = step === null ? events.length : Math.min(step, events.length);
+  const isLive = currentStep >= events.length;
+  const relationships = useMemo(
+    () => replayRelationships(liveRelationships, events, currentStep),
+    [liveRelationships, events, currentStep]
+  );
+
+  // 节点：所有角色，加上当前玩家角色和出现在关系中的其他玩家角色
+  const nodes = useMemo<GraphNode[]>(() => {
+    const participantIds = new Set(liveRelationships.flatMap(r => [r.fromCharacterId, r.toCharacterId]));
+    const personaNodes = personas
+      .filter(persona => persona.id === activePersona.id || participantIds.has(getPersonaParticipantId(persona.id)))
+      .map(persona => ({
+        id: getPersonaParticipantId(persona.id),
+        name: persona.name,
+        avatarColor: persona.avatarColor,
+        avatar: persona.avatar,
+        isPersona: true
+      }));
+    return [
+      ...characters.map(char => ({ id: char.id, name: char.name, avatarColor: char.avatarColor, isPersona: false })),
+      ...personaNodes
+    ];
+  }, [characters, personas, activePersona, liveRelationships]);
+
+  const nodeNames = useMemo(() => new Map(nodes.map(node => [node.id, node.name])), [nodes]);
+  const nameOf = (id: string) => nodeNames.get(id) || id;
+  const nodeKey = nodes.map(node => node.id).join('|');
+
+  // 按当前关系布局，回放时节点位置保持不变
+  const layout = useMemo(() => computeForceLayout(
+    nodeKey ? nodeKey.split('|') : [],
+    liveRelationships.map(r => ({ source: r.fromCharacterId, target: r.toCharacterId, weight: r.strength })),
+    { width: GRAPH_WIDTH, height: GRAPH_HEIGHT }
+  ), [nodeKey, liveRelationships]);
+
+  const positionOf = (id: string): LayoutPoint | undefined => draggedPositions[id] || layout.get(id);
+
+  const analyzer = useMemo(() => new RelationshipNetworkAnalyzer(characters), [characters]);
+
+  // 分析回放位置的关系网络
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    analyzer.setExtraParticipants(nodes.filter(node => node.isPersona).map(node => node.id));
+    const snapshot = createNetworkSnapshot(relationshipManager.getRelationshipNetwork(), relationships, currentStep);
+    analyzer.analyzeNetwork(snapshot.network, snapshot.memories)
+      .then(result => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch(error => {
+        console.warn('⚠️ 关系网络分析失败:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, analyzer, nodes, relationshipManager, relationships, currentStep]);
+
+  // 自动播放时间线，播放到最后回到跟随当前关系
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setStep(previous => {
+        const next = (previous ?? events.length) + 1;
+        if (next >= events.length) {
+          setIsPlaying(false);
+          return null;
+        }
+        return next;
+      });
+    }, PLAYBACK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isPlaying, events.length]);
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (events.length === 0) return;
+    if (isLive) setStep(0);
+    setIsPlaying(true);
+  };
+
+  const handleStepChange = (value: number) => {
+    setIsPlaying(false);
+    setStep(value >= events.length ? null : value);
+  };
+
+  // 拖动节点；没有移动时视为点击，切换选中
+  const handlePointerDown = (event: React.PointerEvent, id: string) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { id, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+    drag.moved = true;
+    const x = Math.max(NODE_RADIUS, Math.min(GRAPH_WIDTH - NODE_RADIUS, event.clientX - rect.left));
+    const y = Math.max(NODE_RADIUS, Math.min(GRAPH_HEIGHT - NODE_RADIUS, event.clientY - rect.top));
+    setDraggedPositions(previous => ({ ...previous, [drag.id]: { x, y } }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    if (drag && !drag.moved) {
+      setSelectedId(previous => (previous === drag.id ? null : drag.id));
+    }
+  };
+
+  const metricValue = (id: string) => {
+    if (!analysis) return 0;
+    if (metric === 'influence') return analysis.influenceScores.get(id) ?? 0;
+    return analysis.centralities.get(id)?.[metric] ?? 0;
+  };
+
+  const leaderboard = [...nodes].sort((a, b) => metricValue(b.id) - metricValue(a.id));
+  const maxMetric = Math.max(0.01, ...nodes.map(node => metricValue(node.id)));
+  const visibleTypes = Array.from(new Set(relationships.map(r => r.type)));
+  const currentEvent = currentStep > 0 ? events[currentStep - 1] : null;
+  const selectedRelationships = selectedId
+    ? relationships.filter(r => r.fromCharacterId === selectedId || r.toCharacterId === selectedId)
+    : [];
+
+  const renderHulls = () => showHulls && analysis?.communities.map((community, index) => {
+    const points = community.members
+      .map(id => positionOf(id))
+      .filter((point): point is LayoutPoint => !!point);
+    if (points.length < 2) return null;
+    const color = COMMUNITY_COLORS[index % COMMUNITY_COLORS.length];
+    return (
+      <polygon
+        key={community.id}
+        points={convexHull(points).map(point => `${point.x},${point.y}`).join(' ')}
+        fill={color}
+        fillOpacity={0.12}
+        stroke={color}
+        strokeOpacity={0.12}
+        strokeWidth={NODE_RADIUS * 2 + 16}
+        strokeLinejoin="round"
+      />
+    );
+  });
+
+  const renderEdges = () => relationships.map(relationship => {
+    const from = positionOf(relationship.fromCharacterId);
+    const to = positionOf(relationship.toCharacterId);
+    if (!from || !to) return null;
+    const isDimmed = selectedId !== null &&
+      relationship.fromCharacterId !== selectedId && relationship.toCharacterId !== selectedId;
+    const color = RELATION_TYPE_COLORS[relationship.type];
+    return (
+      <path
+        key={relationship.id}
+        d={buildEdgePath(from, to, !relationship.isMutual)}
+        fill="none"
+        stroke={color}
+        strokeWidth={1 + relationship.strength * 5}
+        strokeOpacity={isDimmed ? 0.08 : 0.35 + relationship.strength * 0.6}
+        markerEnd={relationship.isMutual ? undefined : `url(#relationship-arrow-${relationship.type})`}
+      >
+        <title>
+          {`${nameOf(relationship.fromCharacterId)} ${relationship.isMutual ? '↔' : '→'} ${nameOf(relationship.toCharacterId)}：` +
+            `${RELATION_TYPE_LABELS[relationship.type]}（强度 ${formatScore(relationship.strength)}）`}
+        </title>
+      </path>
+    );
+  });
+
+  const renderNodes = () => nodes.map(node => {
+    const position = positionOf(node.id);
+    if (!position) return null;
+    const role = analysis?.socialRoles.get(node.id) as SocialRole | undefined;
+    const isSelected = selectedId === node.id;
+    return (
+      <div
+        key={node.id}
+        onPointerDown={event => handlePointerDown(event, node.id)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="absolute flex flex-col items-center cursor-grab select-none touch-none"
+        style={{ left: position.x - NODE_RADIUS, top: position.y - NODE_RADIUS, width: NODE_RADIUS * 2 }}
+        title={role ? `${node.name}：${SOCIAL_ROLE_LABELS[role] || role}` : node.name}
+      >
+        <div
+          className={`flex items-center justify-center rounded-full text-white font-bold overflow-hidden border-2 ${node.avatarColor} ${
+            isSelected ? 'border-white' : 'border-tavern-panel-bg'
+          } ${node.isPersona ? 'ring-2 ring-tavern-accent' : ''}`}
+          style={{ width: NODE_RADIUS * 2, height: NODE_RADIUS * 2 }}
+        >
+          {node.avatar ? <img src={node.avatar} alt={node.name} className="w-full h-full object-cover" /> : node.name.charAt(0)}
+        </div>
+        <span className="mt-1 whitespace-nowrap text-[11px] leading-none bg-tavern-panel-bg/80 px-1 rounded">{node.name}</span>
+      </div>
+    );
+  });
+
+  const renderStats = () => analysis && (
+    <div className="grid grid-cols-3 gap-1 text-[11px]">
+      {[
+        ['密度', analysis.density],
+        ['聚类系数', analysis.clustering],
+        ['平均路径', analysis.avgPathLength],
+        ['稳定性', analysis.networkHealth.stability],
+        ['连通性', analysis.networkHealth.connectivity],
+        ['多样性', analysis.networkHealth.diversity]
+      ].map(([label, value]) => (
+        <div key={label as string} className="rounded border border-tavern-accent/30 px-1.5 py-1">
+          <div className="opacity-60">{label}</div>
+          <div className="font-medium">{formatScore(value as number)}</div>
+        </div>
+      ))}
+      <div className="col-span-3 opacity-70">
+        社群 {analysis.communities.length} 个 · 三人团体 {analysis.cliques.length} 个
+      </div>
+    </div>
+  );
+
+  const renderLeaderboard = () => (
+    <div className="space-y-1">
+      {leaderboard.map((node, index) => {
+        const role = analysis?.socialRoles.get(node.id) as SocialRole | undefined;
+        const value = metricValue(node.id);
+        return (
+          <button
+            key={node.id}
+            type="button"
+            onClick={() => setSelectedId(previous => (previous === node.id ? null : node.id))}
+            className={`w-full text-left rounded px-2 py-1 text-xs hover:bg-tavern-accent/10 ${
+              selectedId === node.id ? 'bg-tavern-accent/20' : ''
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <span className="w-4 opacity-60">{index + 1}</span>
+              <span className="truncate flex-1">{node.name}</span>
+              {role && (
+                <span className={`text-[10px] ${role === SocialRole.ISOLATE ? 'text-red-400' : 'opacity-70'}`}>
+                  {SOCIAL_ROLE_LABELS[role] || role}
+                </span>
+              )}
+              <span className="w-8 text-right">{formatScore(value)}</span>
+            </div>
+            <div className="ml-6 mt-0.5 h-1 rounded bg-tavern-accent/10">
+              <div className="h-1 rounded bg-tavern-accent" style={{ width: `${(value / maxMetric) * 100}%` }} />
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderSelected = () => selectedId && (
+    <div className="space-y-1 text-xs">
+      <div className="font-medium text-sm">{nameOf(selectedId)} 的关系</div>
+      {selectedRelationships.length === 0 && <div className="opacity-60">暂无关系</div>}
+      {selectedRelationships.map(relationship => {
+        const isOutgoing = relationship.fromCharacterId === selectedId;
+        const otherId = isOutgoing ? relationship.toCharacterId : relationship.fromCharacterId;
+        return (
+          <div key={relationship.id} className="rounded border border-tavern-accent/30 px-2 py-1">
+            <div className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: RELATION_TYPE_COLORS[relationship.type] }} />
+              <span>{relationship.isMutual ? '↔' : isOutgoing ? '→' : '←'} {nameOf(otherId)}</span>
+              <span className="ml-auto opacity-70">强度 {formatScore(relationship.strength)}</span>
+            </div>
+            <div className="opacity-70">
+              {describeRelationshipForPrompt(relationship) || RELATION_TYPE_LABELS[relationship.type]}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderTimeline = () => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-3">
+        <Button variant="outline" size="sm" onClick={togglePlayback} disabled={events.length === 0} className={outlineButtonClassName}>
+          {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+        </Button>
+        <Slider
+          value={[currentStep]}
+          onValueChange={([value]) => handleStepChange(value)}
+          min={0}
+          max={Math.max(events.length, 1)}
+          step={1}
+          disabled={events.length === 0}
+          className="flex-1"
+        />
+        <span className="text-xs w-20 text-right opacity-70">
+          {isLive ? '当前' : `${currentStep} / ${events.length}`}
+        </span>
+      </div>
+      <div className="text-xs opacity-80 min-h-[1.25rem]">
+        {events.length === 0 && '还没有关系变化事件，对话进行后这里可以回放关系的演变。'}
+        {events.length > 0 && currentStep === 0 && '第一次关系变化之前'}
+        {currentEvent && (
+          <>
+            <span className="opacity-60">{currentEvent.timestamp.toLocaleTimeString()} </span>
+            {nameOf(currentEvent.participantIds[0])} → {nameOf(currentEvent.participantIds[1])}：{currentEvent.description}
+            {currentEvent.context && (
+              <span className="opacity-60">（“{currentEvent.context.slice(0, 40)}{currentEvent.context.length > 40 ? '…' : ''}”）</span>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[1000px] bg-tavern-panel-bg text-tavern-text border-tavern-accent">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Network className="w-5 h-5" />
+            人物关系网络
+          </DialogTitle>
+          <DialogDescription>
+            连线颜色表示关系类型、粗细表示关系强度，色块圈出关系紧密的社群；拖动时间线可以回放关系的变化过程。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <div className="flex items-center gap-2">
+            <Label className="text-xs">排行指标</Label>
+            <Select value={metric} onValueChange={value => setMetric(value as CentralityMetric)}>
+              <SelectTrigger className="h-7 w-36 bg-tavern-bg border-tavern-text">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CENTRALITY_METRIC_LABELS) as CentralityMetric[]).map(key => (
+                  <SelectItem key={key} value={key}>{CENTRALITY_METRIC_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch checked={showHulls} onCheckedChange={setShowHulls} />
+            <Label className="text-xs">显示社群</Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setDraggedPositions({})} className={outlineButtonClassName}>
+            <RotateCcw className="w-3 h-3 mr-1" />
+            重置布局
+          </Button>
+          <div className="flex flex-wrap items-center gap-2 ml-auto">
+            {visibleTypes.map((type: RelationType) => (
+              <span key={type} className="flex items-center gap-1">
+                <span className="w-3 h-0.5" style={{ backgroundColor: RELATION_TYPE_COLORS[type] }} />
+                {RELATION_TYPE_LABELS[type]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-[640px_1fr] gap-3">
+          <div
+            ref={canvasRef}
+            className="relative rounded border border-tavern-accent/40 bg-tavern-bg overflow-hidden"
+            style={{ width: GRAPH_WIDTH, height: GRAPH_HEIGHT }}
+          >
+            <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="absolute inset-0">
+              <defs>
+                {(Object.keys(RELATION_TYPE_COLORS) as RelationType[]).map(type => (
+                  <marker
+                    key={type}
+                    id={`relationship-arrow-${type}`}
+                    viewBox="0 0 10 10"
+                    refX="8"
+                    refY="5"
+                    markerWidth="5"
+                    markerHeight="5"
+                    orient="auto-start-reverse"
+                  >
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATION_TYPE_COLORS[type]} />
+                  </marker>
+                ))}
+              </defs>
+              {renderHulls()}
+              {renderEdges()}
+            </svg>
+            {nodes.length === 0 ? (
+              <div className="absolute inset-0 flex items-center justify-center text-sm opacity-60">还没有角色</div>
+            ) : renderNodes()}
+          </div>
+
+          <div className="min-w-0 max-h-[440px] overflow-y-auto space-y-3">
+            {renderStats()}
+            {renderSelected()}
+            <div>
+              <div className="text-xs font-medium mb-1">{CENTRALITY_METRIC_LABELS[metric]}排行</div>
+              {renderLeaderboard()}
+            </div>
+          </div>
+        </div>
+
+        {renderTimeline()}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RelationshipGraphPanel;
@@ -0,0 +1,159 @@
+import React from 'react';
+import {
+  parseMessageBlocks,
+  parseMessageSegments,
+  parseInlineMarkdown,
+  MessageBlock,
+  MessageSegment,
+  InlineToken
+} from '@/lib/messageMarkup';
+
+interface RichMessageTextProps {
+  text: string;
+  mentionedCharacters?: string[];
+}
+
+// 各类角色扮演片段的样式
+const SEGMENT_CLASS_NAMES: Record<MessageSegment['type'], string> = {
+  text: '',
+  speech: 'font-medium',
+  action: 'italic text-amber-300/90',
+  narration: 'opacity-80',
+  ooc: 'text-xs text-gray-400 border border-dashed border-gray-500/50 rounded px-1 mx-0.5'
+};
+
+// 处理@提及高亮的文本渲染
+const renderTextWithMentions = (text: string, mentionedCharacters: string[] | undefined, keyPrefix: string) => {
+  if (!mentionedCharacters || mentionedCharacters.length === 0) {
+    return text;
+  }
+
+  // 创建正则表达式来匹配@提及
+  const mentionRegex = /@([^@\s,，。！？；：\n]+)/g;
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  let match;
+
+  while ((match = mentionRegex.exec(text)) !== null) {
+    // 添加@符号前的文本
+    if (match.index > lastIndex) {
+      parts.push(text.substring(lastIndex, match.index));
+    }
+
+    // 检查是否是有效的@提及
+    const mentionedName = match[1];
+    const isValidMention = mentionedCharacters.some(name =>
+      name === mentionedName ||
+      name.includes(mentionedName) ||
+      mentionedName.includes(name.replace(/^(酒保|吟游诗人|神秘的)/, ''))
+    );
+
+    if (isValidMention) {
+      // 高亮显示有效的@提及
+      parts.push(
+        <span
+          key={`${keyPrefix}-mention-${match.index}`}
+          className="bg-blue-500/30 text-blue-200 px-1 rounded font-medium"
+        >
+          @{mentionedName}
+        </span>
+      );
+    } else {
+      // 普通文本显示无效的@提及
+      parts.push(`@${mentionedName}`);
+    }
+
+    lastIndex = match.index + match[0].length;
+  }
+
+  // 添加剩余的文本
+  if (lastIndex < text.length) {
+    parts.push(text.substring(lastIndex));
+  }
+
+  return parts;
+};
+
+const renderInlineToken = (token: InlineToken, key: string, mentionedCharacters?: string[]) => {
+  switch (token.type) {
+    case 'bold':
+      return <strong key={key}>{token.text}</strong>;
+    case 'italic':
+      return <em key={key}>{token.text}</em>;
+    case 'strike':
+      return <s key={key}>{token.text}</s>;
+    case 'code':
+      return <code key={key} className="bg-black/30 rounded px-1 text-xs">{token.text}</code>;
+    case 'link':
+      return (
+        <a key={key} href={token.href} target="_blank" rel="noopener noreferrer" className="underline text-blue-300 hover:text-blue-200">
+          {token.text}
+        </a>
+      );
+    default:
+      return <React.Fragment key={key}>{renderTextWithMentions(token.text, mentionedCharacters, key)}</React.Fragment>;
+  }
+};
+
+// 一段文本：先拆角色扮演片段，再解析行内格式
+const renderRichInline = (text: string, keyPrefix: string, mentionedCharacters?: string[]) =>
+  parseMessageSegments(text).map((segment, segmentIndex) => {
+    const segmentKey = `${keyPrefix}-${segmentIndex}`;
+    const content = parseInlineMarkdown(segment.text).map((token, tokenIndex) =>
+      renderInlineToken(token, `${segmentKey}-${tokenIndex}`, mentionedCharacters)
+    );
+
+    if (segment.type === 'text') {
+      return <React.Fragment key={segmentKey}>{content}</React.Fragment>;
+    }
+    return (
+      <span key={segmentKey} className={SEGMENT_CLASS_NAMES[segment.type]} title={segment.type === 'ooc' ? '场外发言' : undefined}>
+        {segment.type === 'ooc' && <span className="opacity-70 mr-1">OOC</span>}
+        {content}
+      </span>
+    );
+  });
+
+const renderBlock = (block: MessageBlock, index: number, mentionedCharacters?: string[]) => {
+  const key = `block-${index}`;
+  switch (block.type) {
+    case 'code':
+      return (
+        <pre key={key} className="bg-black/30 rounded p-2 text-xs overflow-x-auto whitespace-pre">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'heading':
+      return (
+        <div key={key} className={`font-semibold ${block.level <= 2 ? 'text-base' : 'text-sm'}`}>
+          {renderRichInline(block.text, key, mentionedCharacters)}
+        </div>
+      );
+    case 'quote':
+      return (
+        <div key={key} className="border-l-2 border-tavern-accent/50 pl-2 italic opacity-80">
+          {renderRichInline(block.text, key, mentionedCharacters)}
+        </div>
+      );
+    case 'list-item':
+      return (
+        <div key={key} className="flex gap-1.5 pl-1">
+          <span className="opacity-60 flex-shrink-0">{block.marker}</span>
+          <span>{renderRichInline(block.text, key, mentionedCharacters)}</span>
+        </div>
+      );
+    default:
+      return <div key={key}>{renderRichInline(block.text, key, mentionedCharacters)}</div>;
+  }
+};
+
+/**
+ * 消息富文本渲染：Markdown、*动作*、台词、OOC 与叙述分别着色，全部以文本节点输出
+ */
+const RichMessageText: React.FC<RichMessageTextProps> = ({ text, mentionedCharacters }) => {
+  // 确保text是字符串类型
+  const safeText = typeof text === 'string' ? text : String(text || '');
+  return <>{parseMessageBlocks(safeText).map((block, index) => renderBlock(block, index, mentionedCharacters))}</>;
+};
+
+export default RichMessageText;
@@ -10,12 +10,17 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import ProviderSelect from './ProviderSelect';
+import ApiKeyAliasSelect from './ApiKeyAliasSelect';
+import { LLMProviderType } from '@/types/llm';
+import { TopicAnalysisConfig } from '@/lib/topicAnalysis';
+import { LLM_PROVIDERS, resolveProviderType } from '@/lib/llmProviders';
 
 interface SceneAnalysisConfigDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (config: { baseUrl: string; apiKey: string; modelName: string }) => void;
-  currentConfig: { baseUrl: string; apiKey: string; modelName: string };
+  onSave: (config: TopicAnalysisConfig) => void;
+  currentConfig: TopicAnalysisConfig;
 }
 
 const SceneAnalysisConfigDialog: React.FC<SceneAnalysisConfigDialogProps> = ({ 
@@ -24,20 +29,28 @@ const SceneAnalysisConfigDialog: React.FC<SceneAnalysisConfigDialogProps> = ({
   onSave, 
   currentConfig 
 }) => {
+  const [provider, setProvider] = useState<LLMProviderType>('openai');
   const [baseUrl, setBaseUrl] = useState('');
-  const [apiKey, setApiKey] = useState('');
+  const [apiKeyAlias, setApiKeyAlias] = useState('');
   const [modelName, setModelName] = useState('');
 
   useEffect(() => {
     if (currentConfig) {
+      setProvider(resolveProviderType(currentConfig));
       setBaseUrl(currentConfig.baseUrl || '');
-      setApiKey(currentConfig.apiKey || '');
+      setApiKeyAlias(currentConfig.apiKeyAlias || '');
       setModelName(currentConfig.modelName || '');
     }
   }, [currentConfig, isOpen]);
 
   const handleSave = () => {
-    onSave({ baseUrl, apiKey, modelName });
+    onSave({ provider, baseUrl, apiKeyAlias, modelName });
+  };
+
+  // 切换接口类型时填入该类型的默认地址
+  const handleProviderChange = (next: LLMProviderType) => {
+    setProvider(next);
+    setBaseUrl(LLM_PROVIDERS[next].defaultBaseUrl);
   };
 
   return (
@@ -51,6 +64,17 @@ const SceneAnalysisConfigDialog: React.FC<SceneAnalysisConfigDialogProps> = ({
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="sceneProvider" className="text-right col-span-1">
+              接口类型
+            </Label>
+            <ProviderSelect
+              id="sceneProvider"
+              value={provider}
+              onChange={handleProviderChange}
+              className="col-span-3 bg-tavern-bg border-tavern-text focus:border-tavern-accent"
+            />
+          </div>
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="sceneBaseUrl" className="text-right col-span-1">
               Base URL
@@ -67,14 +91,14 @@ const SceneAnalysisConfigDialog: React.FC<SceneAnalysisConfigDialogProps> = ({
             <Label htmlFor="sceneApiKey" className="text-right col-span-1">
               API Key
             </Label>
-            <Input
-              id="sceneApiKey"
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              className="col-span-3 bg-tavern-bg border-tavern-text focus:border-tavern-accent"
-              placeholder="您的API密钥"
-            />
+            <div className="col-span-3">
+              <ApiKeyAliasSelect
+                id="sceneApiKey"
+                value={apiKeyAlias}
+                onChange={setApiKeyAlias}
+                className="bg-tavern-bg border-tavern-text focus:border-tavern-accent"
+              />
+            </div>
           </div>
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="sceneModelName" className="text-right col-span-1">
@@ -0,0 +1,45 @@
+import { EmotionType } from '@/types/emotion';
+
+// 情感分类校准用的标注样本
+export interface EmotionCalibrationSample {
+  text: string;
+  expected: EmotionType;
+  valence: number;            // 标注的效价 [-1, 1]
+  category: 'explicit' | 'sarcasm' | 'subtle'; // 直白表达 / 反讽 / 含蓄
+}
+
+export const EMOTION_CALIBRATION_CATEGORY_LABELS: Record<EmotionCalibrationSample['category'], string> = {
+  explicit: '直白表达',
+  sarcasm: '反讽',
+  subtle: '含蓄'
+};
+
+// 酒馆对话风格的标注样本：直白表达是词典能处理的基准，反讽与含蓄的台词用来检验模型分类
+export const EMOTION_CALIBRATION_SAMPLES: EmotionCalibrationSample[] = [
+  { text: '太好了！今晚的酒我请，大家尽情喝！', expected: EmotionType.EXCITED, valence: 0.8, category: 'explicit' },
+  { text: '能再见到你真开心，老朋友。', expected: EmotionType.HAPPY, valence: 0.7, category: 'explicit' },
+  { text: '我受够了！谁再敢赊账我就把他扔出去！', expected: EmotionType.ANGRY, valence: -0.7, category: 'explicit' },
+  { text: '他走了……再也不会回来了，我好难过。', expected: EmotionType.SAD, valence: -0.7, category: 'explicit' },
+  { text: '糟了，卫兵马上就到，我们得赶紧想办法！', expected: EmotionType.STRESSED, valence: -0.5, category: 'explicit' },
+  { text: '炉火正旺，外面下着雨，就这样安静地坐一会儿吧。', expected: EmotionType.CALM, valence: 0.3, category: 'explicit' },
+  { text: '又是这些老掉牙的故事，真无聊。', expected: EmotionType.BORED, valence: -0.3, category: 'explicit' },
+  { text: '一杯麦酒，谢谢。', expected: EmotionType.NEUTRAL, valence: 0, category: 'explicit' },
+
+  { text: '哦，真是太好了，马车又坏在半路上了，我可真幸运啊。', expected: EmotionType.ANGRY, valence: -0.6, category: 'sarcasm' },
+  { text: '了不起，你居然把整桶酒都打翻了，真是个天才。', expected: EmotionType.ANGRY, valence: -0.6, category: 'sarcasm' },
+  { text: '好啊，你们继续聊，反正也没人在乎我说什么。', expected: EmotionType.SAD, valence: -0.5, category: 'sarcasm' },
+  { text: '真有意思，第三次听你讲同一个屠龙故事了。', expected: EmotionType.BORED, valence: -0.4, category: 'sarcasm' },
+  { text: '太棒了，债主正好在这个时候推门进来。', expected: EmotionType.STRESSED, valence: -0.6, category: 'sarcasm' },
+  { text: '哇哦，多么慷慨啊，给了整整一个铜板的小费。', expected: EmotionType.ANGRY, valence: -0.5, category: 'sarcasm' },
+  { text: '放心，我最喜欢在半夜给醉鬼收拾烂摊子了。', expected: EmotionType.ANGRY, valence: -0.5, category: 'sarcasm' },
+  { text: '好极了，我们终于迷路得这么彻底。', expected: EmotionType.STRESSED, valence: -0.5, category: 'sarcasm' },
+
+  { text: '我没事，真的……你们不用管我。', expected: EmotionType.SAD, valence: -0.5, category: 'subtle' },
+  { text: '（把那封信又读了一遍，默默收进怀里）', expected: EmotionType.SAD, valence: -0.4, category: 'subtle' },
+  { text: '这杯酒的味道，和我父亲当年酿的一模一样。', expected: EmotionType.SAD, valence: -0.2, category: 'subtle' },
+  { text: '（手指一下下敲着桌面，不时瞟向门口）他怎么还没来？', expected: EmotionType.STRESSED, valence: -0.4, category: 'subtle' },
+  { text: '（嘴角微微上扬，把那枚戒指藏进袖口）没什么，随便看看。', expected: EmotionType.HAPPY, valence: 0.5, category: 'subtle' },
+  { text: '嗯，你说得对，那就按你的意思办吧。', expected: EmotionType.NEUTRAL, valence: 0, category: 'subtle' },
+  { text: '（靠在椅背上伸了个懒腰）难得清闲的一天。', expected: EmotionType.RELAXED, valence: 0.5, category: 'subtle' },
+  { text: '你最好想清楚再开口，陌生人。', expected: EmotionType.ANGRY, valence: -0.5, category: 'subtle' }
+];
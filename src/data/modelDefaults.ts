@@ -1,21 +1,40 @@
+import { MOCK_BASE_URL } from '@/lib/mockLLM';
+import { EmotionClassifierConfig } from '@/types/emotion';
+
+// 设置 VITE_MOCK_LLM=true 时默认使用离线模拟后端，无需网络和 API Key
+export const isMockLLMEnabled = import.meta.env.VITE_MOCK_LLM === 'true';
+
+// 默认使用的密钥别名（密钥本身保存在本地密钥库中）
+export const DEFAULT_API_KEY_ALIAS = 'default';
+
 // 角色模型默认配置
 export const modelDefaults = {
-  baseUrl: 'https://api.deepseek.com/v1',
-  apiKey: 'sk-41632fc818704e4e9c774e6e6cda4928',
-  modelName: 'deepseek-chat',
+  baseUrl: isMockLLMEnabled ? MOCK_BASE_URL : 'https://api.deepseek.com/v1',
+  apiKeyAlias: DEFAULT_API_KEY_ALIAS,
+  modelName: isMockLLMEnabled ? 'mock-model' : 'deepseek-chat',
+};
+
+// 情感分类模型配置（默认关闭，使用本地关键词词典），建议选用便宜的小模型
+export const emotionClassifierDefaults: EmotionClassifierConfig = {
+  mode: 'lexicon',
+  baseUrl: isMockLLMEnabled ? MOCK_BASE_URL : 'https://api.deepseek.com/v1',
+  apiKeyAlias: DEFAULT_API_KEY_ALIAS,
+  modelName: isMockLLMEnabled ? 'mock-model' : 'deepseek-chat',
+  batchSize: 8
 };
 
 // 场景分析模型配置（用于自动创建角色）
 export const sceneAnalysisDefaults = {
-  baseUrl: 'https://api.deepseek.com/v1',
-  apiKey: 'sk-41632fc818704e4e9c774e6e6cda4928',
-  modelName: 'deepseek-chat',
+  baseUrl: isMockLLMEnabled ? MOCK_BASE_URL : 'https://api.deepseek.com/v1',
+  apiKeyAlias: DEFAULT_API_KEY_ALIAS,
+  modelName: isMockLLMEnabled ? 'mock-model' : 'deepseek-chat',
   systemPrompt: `你是一个专业的角色设计师和场景分析师。根据用户提供的场景描述，你需要：
 
 1. 分析场景类型、背景设定、氛围特点
 2. 设计3-5个适合该场景的NPC角色
 3. 为每个角色设计独特的性格、背景故事、说话风格
 4. 为每个角色生成专属的AI Prompt和个性化属性
+5. 设计角色之间已有的关系（亲属、旧识、宿敌等），让故事一开始就有人物关系
 
 请严格按照以下JSON格式返回，不要添加任何其他文字：
 
@@ -37,6 +56,17 @@ export const sceneAnalysisDefaults = {
       "socialRole": "host",
       "emotionalState": 0.5
     }
+  ],
+  "relationships": [
+    {
+      "from": "角色A名称",
+      "to": "角色B名称",
+      "type": "family",
+      "trust": 0.8,
+      "intimacy": 0.6,
+      "respect": 0.5,
+      "note": "两人的关系背景，例如：同父异母的兄妹，哥哥一直在暗中照顾妹妹"
+    }
   ]
 }
 
@@ -50,6 +80,10 @@ export const sceneAnalysisDefaults = {
 - speakingStyle: "proactive"(主动发言) | "reactive"(响应发言) | "observant"(观察为主)
 - socialRole: "host"(主人) | "entertainer"(娱乐者) | "observer"(观察者) | "customer"(顾客) | "authority"(权威人士)
 - emotionalState: 当前情绪状态（-1=消极，0=中性，1=积极）
+- relationships: 角色之间已有的关系，只列出确实相识的角色，from 和 to 必须是上面的角色名称
+  - type: "friendship"(朋友) | "romantic"(恋人) | "mentor_student"(师徒) | "alliance"(盟友) | "family"(家人) | "respect"(敬重) | "rivalry"(对手) | "hatred"(仇人) | "suspicion"(互不信任) | "contempt"(轻视) | "fear"(畏惧) | "acquaintance"(熟人) | "professional"(工作关系) | "customer"(主顾)
+  - trust/intimacy/respect: 可选，from 对 to 的信任、亲密、尊重程度（0-1），不填则按关系类型取默认值
+  - note: 一句话的关系背景，会写入角色的提示词
 
 **颜色选择：** bg-red-500, bg-blue-500, bg-green-500, bg-yellow-500, bg-purple-500, bg-pink-500, bg-indigo-500, bg-gray-500, bg-orange-500, bg-teal-500
 
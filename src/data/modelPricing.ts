@@ -0,0 +1,79 @@
+import { ModelConfig } from '@/types/tavern';
+import { ModelPricing } from '@/types/budget';
+import { resolveProviderType } from '@/lib/llmProviders';
+
+// 各提供方公开的参考单价（美元 / 百万 token），按顺序取第一个匹配的模型
+const PRICING_TABLE: Array<[RegExp, ModelPricing]> = [
+  // DeepSeek
+  [/deepseek-reasoner|deepseek-r1/i, { inputPerMillion: 0.55, outputPerMillion: 2.19 }],
+  [/deepseek/i, { inputPerMillion: 0.27, outputPerMillion: 1.1 }],
+  // OpenAI
+  [/gpt-4o-mini/i, { inputPerMillion: 0.15, outputPerMillion: 0.6 }],
+  [/gpt-4o/i, { inputPerMillion: 2.5, outputPerMillion: 10 }],
+  [/gpt-4\.1-nano/i, { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+  [/gpt-4\.1-mini/i, { inputPerMillion: 0.4, outputPerMillion: 1.6 }],
+  [/gpt-4\.1/i, { inputPerMillion: 2, outputPerMillion: 8 }],
+  [/gpt-5-nano/i, { inputPerMillion: 0.05, outputPerMillion: 0.4 }],
+  [/gpt-5-mini/i, { inputPerMillion: 0.25, outputPerMillion: 2 }],
+  [/gpt-5/i, { inputPerMillion: 1.25, outputPerMillion: 10 }],
+  [/(^|\/)o[34]-mini/i, { inputPerMillion: 1.1, outputPerMillion: 4.4 }],
+  [/(^|\/)o1/i, { inputPerMillion: 15, outputPerMillion: 60 }],
+  [/gpt-4-turbo/i, { inputPerMillion: 10, outputPerMillion: 30 }],
+  [/gpt-4/i, { inputPerMillion: 30, outputPerMillion: 60 }],
+  [/gpt-3\.5/i, { inputPerMillion: 0.5, outputPerMillion: 1.5 }],
+  // Anthropic
+  [/claude.*opus/i, { inputPerMillion: 15, outputPerMillion: 75 }],
+  [/claude.*sonnet/i, { inputPerMillion: 3, outputPerMillion: 15 }],
+  [/claude-3-haiku/i, { inputPerMillion: 0.25, outputPerMillion: 1.25 }],
+  [/claude.*haiku/i, { inputPerMillion: 0.8, outputPerMillion: 4 }],
+  // Google
+  [/gemini-2\.5-pro/i, { inputPerMillion: 1.25, outputPerMillion: 10 }],
+  [/gemini-2\.5-flash-lite/i, { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+  [/gemini-2\.5-flash/i, { inputPerMillion: 0.3, outputPerMillion: 2.5 }],
+  [/gemini-2\.0-flash/i, { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+  [/gemini-1\.5-pro/i, { inputPerMillion: 1.25, outputPerMillion: 5 }],
+  [/gemini-1\.5-flash/i, { inputPerMillion: 0.075, outputPerMillion: 0.3 }],
+  // Qwen
+  [/qwen-max/i, { inputPerMillion: 1.6, outputPerMillion: 6.4 }],
+  [/qwen-plus/i, { inputPerMillion: 0.4, outputPerMillion: 1.2 }],
+  [/qwen-turbo/i, { inputPerMillion: 0.05, outputPerMillion: 0.2 }]
+];
+
+// 本地与模拟后端不计费
+const FREE_PRICING: ModelPricing = { inputPerMillion: 0, outputPerMillion: 0 };
+
+// 表中没有的模型按中档价格估算，避免预算形同虚设
+export const DEFAULT_MODEL_PRICING: ModelPricing = { inputPerMillion: 1, outputPerMillion: 3 };
+
+// 计费时需要的模型信息
+export type PricedModel = Pick<ModelConfig, 'provider' | 'baseUrl' | 'modelName'>;
+
+/**
+ * 查询模型单价
+ */
+export function getModelPricing(model: PricedModel): ModelPricing {
+  const provider = resolveProviderType(model);
+  if (provider === 'ollama' || provider === 'mock') {
+    return FREE_PRICING;
+  }
+
+  const modelName = model.modelName || '';
+  const entry = PRICING_TABLE.find(([pattern]) => pattern.test(modelName));
+  return entry ? entry[1] : DEFAULT_MODEL_PRICING;
+}
+
+/**
+ * 计算一次调用的费用（美元）
+ */
+export function calculateCost(model: PricedModel, inputTokens: number, outputTokens: number): number {
+  const pricing = getModelPricing(model);
+  return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * 格式化费用，小额保留更多小数位
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
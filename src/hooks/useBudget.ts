@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { budgetManager } from '../lib/budgetManager';
+import { BudgetConfig, BudgetStatus } from '../types/budget';
+
+// Hook返回值接口
+interface UseBudgetReturn {
+  status: BudgetStatus;
+  config: BudgetConfig;
+}
+
+// 订阅费用与预算状态（记账、切换会话、修改预算时刷新）
+export const useBudget = (): UseBudgetReturn => {
+  const [status, setStatus] = useState<BudgetStatus>(() => budgetManager.getStatus());
+  const [config, setConfig] = useState<BudgetConfig>(() => budgetManager.getConfig());
+
+  useEffect(() => {
+    const refresh = () => {
+      setStatus(budgetManager.getStatus());
+      setConfig(budgetManager.getConfig());
+    };
+    refresh();
+    return budgetManager.subscribe(refresh);
+  }, []);
+
+  return { status, config };
+};
@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { emotionClassifier } from '../lib/emotionClassifier';
+import { EmotionClassifierConfig } from '../types/emotion';
+
+// 订阅情感分类配置（切换模式、修改模型时刷新）
+export const useEmotionClassifier = (): EmotionClassifierConfig => {
+  const [config, setConfig] = useState<EmotionClassifierConfig>(() => emotionClassifier.getConfig());
+
+  useEffect(() => {
+    const refresh = () => setConfig(emotionClassifier.getConfig());
+    refresh();
+    return emotionClassifier.subscribe(refresh);
+  }, []);
+
+  return config;
+};
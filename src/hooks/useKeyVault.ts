@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+import { keyVault, KeyVaultStatus, KeyAliasInfo } from '../lib/keyVault';
+
+// Hook返回值接口
+interface UseKeyVaultReturn {
+  status: KeyVaultStatus;
+  aliases: KeyAliasInfo[];
+}
+
+// 订阅密钥库状态（创建、解锁、锁定、增删密钥时刷新）
+export const useKeyVault = (): UseKeyVaultReturn => {
+  const [status, setStatus] = useState<KeyVaultStatus>(() => keyVault.getStatus());
+  const [aliases, setAliases] = useState<KeyAliasInfo[]>(() => keyVault.listAliases());
+
+  useEffect(() => {
+    const refresh = () => {
+      setStatus(keyVault.getStatus());
+      setAliases(keyVault.listAliases());
+    };
+    refresh();
+    return keyVault.subscribe(refresh);
+  }, []);
+
+  return { status, aliases };
+};
@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { llmCallLog } from '../lib/llmCallLog';
+import { LLMCallRecord } from '../types/llmCallLog';
+
+// 订阅 LLM 调用日志（开始、结束、重试、清空时刷新）
+export const useLLMCallLog = (): LLMCallRecord[] => {
+  const [records, setRecords] = useState<LLMCallRecord[]>(() => llmCallLog.getRecords());
+
+  useEffect(() => {
+    const refresh = () => setRecords(llmCallLog.getRecords());
+    refresh();
+    return llmCallLog.subscribe(refresh);
+  }, []);
+
+  return records;
+};
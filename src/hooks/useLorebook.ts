@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { lorebookStore, LorebookActivationRecord } from '../lib/lorebook';
+import { Lorebook } from '../types/lorebook';
+
+// Hook返回值接口
+interface UseLorebookReturn {
+  lorebook: Lorebook;
+  lastActivation: LorebookActivationRecord | null;
+}
+
+// 订阅世界设定（增删改条目、修改配置、请求触发设定时刷新）
+export const useLorebook = (): UseLorebookReturn => {
+  const [lorebook, setLorebook] = useState<Lorebook>(() => lorebookStore.getLorebook());
+  const [lastActivation, setLastActivation] = useState<LorebookActivationRecord | null>(() => lorebookStore.getLastActivation());
+
+  useEffect(() => {
+    const refresh = () => {
+      setLorebook(lorebookStore.getLorebook());
+      setLastActivation(lorebookStore.getLastActivation());
+    };
+    refresh();
+    return lorebookStore.subscribe(refresh);
+  }, []);
+
+  return { lorebook, lastActivation };
+};
@@ -0,0 +1,258 @@
+/**
+ * 消息摘要系统Hook
+ * 对话超过 token 阈值时自动把较早的消息总结为章节摘要，并提供查看、编辑和重新生成操作
+ */
+
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Message, AICharacter, ModelConfig } from '@/types/tavern';
+import { ChapterSummary, SummaryConfig, defaultSummaryConfig } from '@/types/summary';
+import { messageSummarizer, selectMessagesToSummarize, getPendingSummaryTokens } from '@/lib/messageSummarizer';
+import { getErrorMessage } from '@/lib/llmProviders';
+
+/**
+ * Hook配置选项
+ */
+export interface UseMessageSummarySystemOptions {
+  messages: Message[];
+  characters: AICharacter[];                // 当前登场角色，摘要中按名字称呼
+  enabled: boolean;
+  modelConfig: ModelConfig;                 // 用于生成摘要的模型
+  estimateTokens: (text: string) => number;
+  isBusy?: boolean;                         // 角色正在生成回复时暂缓摘要
+  config?: Partial<SummaryConfig>;
+  onTokenUsage?: (inputTokens: number, outputTokens: number) => void;
+}
+
+/**
+ * Hook返回值
+ */
+export interface UseMessageSummarySystemReturn {
+  summaries: ChapterSummary[];
+  isSummarizing: boolean;
+  summaryError: string | null;
+  pendingTokens: number;
+  config: SummaryConfig;
+
+  initializeSummarySystem: () => void;
+  restoreSummaries: (summaries: ChapterSummary[]) => void;
+  clearSummaries: () => void;
+  updateSummary: (summaryId: string, changes: { title?: string; content?: string }) => void;
+  regenerateSummary: (summaryId: string) => Promise<void>;
+  deleteLatestSummary: () => void;
+  getSummariesForPrompt: () => ChapterSummary[];
+}
+
+/**
+ * 消息摘要系统Hook
+ */
+export function useMessageSummarySystem({
+  messages,
+  characters,
+  enabled,
+  modelConfig,
+  estimateTokens,
+  isBusy = false,
+  config: configOverrides,
+  onTokenUsage
+}: UseMessageSummarySystemOptions): UseMessageSummarySystemReturn {
+  const { tokenThreshold, keepRecentMessages, maxSummaryLength } = { ...defaultSummaryConfig, ...configOverrides };
+  const config = useMemo<SummaryConfig>(
+    () => ({ tokenThreshold, keepRecentMessages, maxSummaryLength }),
+    [tokenThreshold, keepRecentMessages, maxSummaryLength]
+  );
+
+  const [summaries, setSummaries] = useState<ChapterSummary[]>([]);
+  const [isSummarizing, setIsSummarizing] = useState<boolean>(false);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+
+  // 供生成回复时读取的最新摘要，避免回调依赖频繁变化
+  const summariesRef = useRef<ChapterSummary[]>([]);
+  // 登场角色随当前角色列表更新（恢复会话、载入历史、导入角色卡后都是最新的）
+  const participantsRef = useRef<string[]>([]);
+  participantsRef.current = characters.map(character => character.name);
+  const enabledRef = useRef<boolean>(enabled);
+  enabledRef.current = enabled;
+  const abortRef = useRef<AbortController | null>(null);
+  // 摘要失败后，等消息数增加再重试，避免每次渲染都重复请求
+  const failedAtMessageCount = useRef<number | null>(null);
+
+  const commitSummaries = useCallback((next: ChapterSummary[]) => {
+    summariesRef.current = next;
+    setSummaries(next);
+  }, []);
+
+  const cancelPending = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsSummarizing(false);
+  }, []);
+
+  const recordUsage = useCallback((usage?: { promptTokens: number; completionTokens: number }) => {
+    if (usage && onTokenUsage) {
+      onTokenUsage(usage.promptTokens, usage.completionTokens);
+    }
+  }, [onTokenUsage]);
+
+  // 新角色登场时重置摘要
+  const initializeSummarySystem = useCallback(() => {
+    cancelPending();
+    failedAtMessageCount.current = null;
+    setSummaryError(null);
+    commitSummaries([]);
+    console.log('📚 摘要系统已初始化');
+  }, [cancelPending, commitSummaries]);
+
+  // 加载历史会话时恢复其摘要
+  const restoreSummaries = useCallback((restored: ChapterSummary[]) => {
+    cancelPending();
+    failedAtMessageCount.current = null;
+    setSummaryError(null);
+    commitSummaries(restored);
+  }, [cancelPending, commitSummaries]);
+
+  const clearSummaries = useCallback(() => {
+    restoreSummaries([]);
+  }, [restoreSummaries]);
+
+  const updateSummary = useCallback((summaryId: string, changes: { title?: string; content?: string }) => {
+    commitSummaries(summariesRef.current.map(summary =>
+      summary.id === summaryId
+        ? { ...summary, ...changes, isEdited: true, updatedAt: new Date() }
+        : summary
+    ));
+  }, [commitSummaries]);
+
+  // 只允许删除最新章节，删除后其覆盖的消息会重新参与摘要
+  const deleteLatestSummary = useCallback(() => {
+    commitSummaries(summariesRef.current.slice(0, -1));
+  }, [commitSummaries]);
+
+  const regenerateSummary = useCallback(async (summaryId: string) => {
+    const index = summariesRef.current.findIndex(summary => summary.id === summaryId);
+    const target = summariesRef.current[index];
+    if (!target) return;
+
+    const startIndex = messages.findIndex(message => message.id === target.startMessageId);
+    const endIndex = messages.findIndex(message => message.id === target.endMessageId);
+    if (startIndex < 0 || endIndex < startIndex) {
+      setSummaryError('该章节对应的消息已不存在，无法重新生成');
+      return;
+    }
+
+    cancelPending();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsSummarizing(true);
+    setSummaryError(null);
+
+    try {
+      const generated = await messageSummarizer.summarize(modelConfig, messages.slice(startIndex, endIndex + 1), {
+        previousSummary: summariesRef.current[index - 1],
+        participants: participantsRef.current,
+        maxLength: config.maxSummaryLength,
+        signal: controller.signal
+      });
+      recordUsage(generated.usage);
+      commitSummaries(summariesRef.current.map(summary =>
+        summary.id === summaryId
+          ? { ...summary, title: generated.title, content: generated.content, isEdited: false, updatedAt: new Date() }
+          : summary
+      ));
+      console.log(`📚 第${target.chapter}章摘要已重新生成`);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('❌ 重新生成摘要失败:', error);
+        setSummaryError(getErrorMessage(error));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsSummarizing(false);
+      }
+    }
+  }, [messages, modelConfig, config, cancelPending, commitSummaries, recordUsage]);
+
+  // 对话增长后检查是否需要生成新章节
+  useEffect(() => {
+    if (!enabled || isBusy || abortRef.current) return;
+    if (failedAtMessageCount.current !== null && messages.length <= failedAtMessageCount.current) return;
+
+    const pending = selectMessagesToSummarize(messages, summariesRef.current, config, estimateTokens);
+    if (!pending) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsSummarizing(true);
+    setSummaryError(null);
+
+    const previousSummary = summariesRef.current[summariesRef.current.length - 1];
+    console.log(`📚 开始生成第${summariesRef.current.length + 1}章摘要，覆盖 ${pending.length} 条消息`);
+
+    messageSummarizer.summarize(modelConfig, pending, {
+      previousSummary,
+      participants: participantsRef.current,
+      maxLength: config.maxSummaryLength,
+      signal: controller.signal
+    })
+      .then(generated => {
+        recordUsage(generated.usage);
+        const now = new Date();
+        const summary: ChapterSummary = {
+          id: uuidv4(),
+          chapter: (previousSummary?.chapter || 0) + 1,
+          title: generated.title,
+          content: generated.content,
+          startMessageId: pending[0].id,
+          endMessageId: pending[pending.length - 1].id,
+          messageCount: pending.length,
+          sourceTokens: estimateTokens(pending.map(message => message.text).join('\n')),
+          createdAt: now,
+          updatedAt: now
+        };
+        failedAtMessageCount.current = null;
+        commitSummaries([...summariesRef.current, summary]);
+        console.log(`✅ 第${summary.chapter}章摘要已生成: ${summary.title}`);
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('❌ 生成章节摘要失败:', error);
+        failedAtMessageCount.current = messages.length;
+        setSummaryError(getErrorMessage(error));
+      })
+      .finally(() => {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsSummarizing(false);
+        }
+      });
+  }, [messages, enabled, isBusy, modelConfig, estimateTokens, config, commitSummaries, recordUsage]);
+
+  // 卸载时取消进行中的请求
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const pendingTokens = useMemo(
+    () => getPendingSummaryTokens(messages, summaries, config, estimateTokens),
+    [messages, summaries, estimateTokens, config]
+  );
+
+  // 摘要系统关闭时不向提示词注入摘要
+  const getSummariesForPrompt = useCallback(() => (enabledRef.current ? summariesRef.current : []), []);
+
+  return {
+    summaries,
+    isSummarizing,
+    summaryError,
+    pendingTokens,
+    config,
+    initializeSummarySystem,
+    restoreSummaries,
+    clearSummaries,
+    updateSummary,
+    regenerateSummary,
+    deleteLatestSummary,
+    getSummariesForPrompt
+  };
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { personaStore } from '../lib/persona';
+import { PlayerPersona } from '../types/persona';
+
+// Hook返回值接口
+interface UsePersonasReturn {
+  personas: PlayerPersona[];
+  activePersona: PlayerPersona;
+}
+
+// 订阅玩家角色（增删改、切换当前角色时刷新）
+export const usePersonas = (): UsePersonasReturn => {
+  const [personas, setPersonas] = useState<PlayerPersona[]>(() => personaStore.getPersonas());
+  const [activePersona, setActivePersona] = useState<PlayerPersona>(() => personaStore.getActivePersona());
+
+  useEffect(() => {
+    const refresh = () => {
+      setPersonas(personaStore.getPersonas());
+      setActivePersona(personaStore.getActivePersona());
+    };
+    refresh();
+    return personaStore.subscribe(refresh);
+  }, []);
+
+  return { personas, activePersona };
+};
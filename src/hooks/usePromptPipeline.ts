@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { promptPipelineStore } from '../lib/promptPipeline';
+import { PromptPipelinePreset, PromptPipelineInspection } from '../types/promptPipeline';
+
+// Hook返回值接口
+interface UsePromptPipelineReturn {
+  presets: PromptPipelinePreset[];
+  activePreset: PromptPipelinePreset;
+  inspections: PromptPipelineInspection[];
+}
+
+// 订阅提示词管线（预设增删改、切换预设、记录请求时刷新）
+export const usePromptPipeline = (): UsePromptPipelineReturn => {
+  const [presets, setPresets] = useState<PromptPipelinePreset[]>(() => promptPipelineStore.getPresets());
+  const [activePreset, setActivePreset] = useState<PromptPipelinePreset>(() => promptPipelineStore.getActivePreset());
+  const [inspections, setInspections] = useState<PromptPipelineInspection[]>(() => promptPipelineStore.getInspections());
+
+  useEffect(() => {
+    const refresh = () => {
+      setPresets(promptPipelineStore.getPresets());
+      setActivePreset(promptPipelineStore.getActivePreset());
+      setInspections(promptPipelineStore.getInspections());
+    };
+    refresh();
+    return promptPipelineStore.subscribe(refresh);
+  }, []);
+
+  return { presets, activePreset, inspections };
+};
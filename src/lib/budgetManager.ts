@@ -0,0 +1,139 @@
+/**
+ * 费用预算管理
+ * 记录当前会话与当天的模型调用费用，超出软预算时降级运行，超出硬预算时拒绝新的模型请求。
+ * 预算配置与每日费用保存在 localStorage 中，会话费用由当前会话的 TokenUsage 汇总得出。
+ */
+
+import { BudgetConfig, BudgetStatus, defaultBudgetConfig } from '../types/budget';
+
+const CONFIG_STORAGE_KEY = 'tavern_budget_config';
+const DAILY_STORAGE_KEY = 'tavern_daily_cost';
+
+// 每日费用只保留最近的天数
+const DAILY_HISTORY_DAYS = 30;
+
+// 按本地日期记账，跨过零点后自动开始新的一天
+function getDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function isLimitReached(cost: number, limit: number): boolean {
+  return limit > 0 && cost >= limit;
+}
+
+/**
+ * 预算管理器
+ */
+class BudgetManagerClass {
+  private config: BudgetConfig;
+  private dailyCosts: Record<string, number>;
+  private sessionCost = 0;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.config = this.loadConfig();
+    this.dailyCosts = this.loadDailyCosts();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getConfig(): BudgetConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(changes: Partial<BudgetConfig>): void {
+    this.config = { ...this.config, ...changes };
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(this.config));
+    this.notify();
+  }
+
+  /**
+   * 当前会话与当天的费用以及预算状态，硬预算优先于软预算
+   */
+  getStatus(): BudgetStatus {
+    const sessionCost = this.sessionCost;
+    const dailyCost = this.getDailyCost();
+    const { sessionSoftLimit, sessionHardLimit, dailySoftLimit, dailyHardLimit } = this.config;
+
+    if (isLimitReached(dailyCost, dailyHardLimit)) {
+      return { level: 'hard', sessionCost, dailyCost, reason: `今日费用已达硬预算 $${dailyHardLimit}，已停止发送新的模型请求` };
+    }
+    if (isLimitReached(sessionCost, sessionHardLimit)) {
+      return { level: 'hard', sessionCost, dailyCost, reason: `本会话费用已达硬预算 $${sessionHardLimit}，已停止发送新的模型请求` };
+    }
+    if (isLimitReached(dailyCost, dailySoftLimit)) {
+      return { level: 'soft', sessionCost, dailyCost, reason: `今日费用已达软预算 $${dailySoftLimit}，已暂停自动对话，主题分析改用本地规则` };
+    }
+    if (isLimitReached(sessionCost, sessionSoftLimit)) {
+      return { level: 'soft', sessionCost, dailyCost, reason: `本会话费用已达软预算 $${sessionSoftLimit}，已暂停自动对话，主题分析改用本地规则` };
+    }
+    return { level: 'ok', sessionCost, dailyCost };
+  }
+
+  /**
+   * 当天累计费用
+   */
+  getDailyCost(date: Date = new Date()): number {
+    return this.dailyCosts[getDateKey(date)] || 0;
+  }
+
+  /**
+   * 记入一次调用的费用
+   */
+  recordCost(cost: number): void {
+    if (!(cost > 0)) return;
+
+    const today = getDateKey();
+    this.dailyCosts[today] = (this.dailyCosts[today] || 0) + cost;
+    this.saveDailyCosts();
+    this.notify();
+  }
+
+  /**
+   * 切换、加载或重置会话时同步会话费用
+   */
+  setSessionCost(cost: number): void {
+    if (cost === this.sessionCost) return;
+    this.sessionCost = cost;
+    this.notify();
+  }
+
+  private loadConfig(): BudgetConfig {
+    try {
+      const raw = localStorage.getItem(CONFIG_STORAGE_KEY);
+      return raw ? { ...defaultBudgetConfig, ...JSON.parse(raw) } : { ...defaultBudgetConfig };
+    } catch {
+      return { ...defaultBudgetConfig };
+    }
+  }
+
+  private loadDailyCosts(): Record<string, number> {
+    try {
+      const raw = localStorage.getItem(DAILY_STORAGE_KEY);
+      return raw ? JSON.parse(raw) as Record<string, number> : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private saveDailyCosts(): void {
+    // 日期键按字典序即时间顺序，只保留最近的记录
+    const recentDates = Object.keys(this.dailyCosts).sort().slice(-DAILY_HISTORY_DAYS);
+    this.dailyCosts = Object.fromEntries(recentDates.map(date => [date, this.dailyCosts[date]]));
+    localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(this.dailyCosts));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const budgetManager = new BudgetManagerClass();
@@ -0,0 +1,208 @@
+/**
+ * 角色请求组装
+ * 实际请求、提示词预览与管线检查器共用这里的组装流程，保证看到的就是发出去的内容：
+ * 先生成各内容块（角色设定、玩家角色、关系、场景、对话增强、情感、前情提要、世界设定），
+ * 再按当前提示词管线预设排序、截断并注入到请求消息中。
+ */
+
+import { AICharacter, Message } from '../types/tavern';
+import { LLMMessage } from '../types/llm';
+import { PlayerPersona } from '../types/persona';
+import { RELATION_TYPE_LABELS } from '../types/relationship';
+import { ChapterSummary } from '../types/summary';
+import { Lorebook, LorebookActivation } from '../types/lorebook';
+import { PromptBlockId, PromptBlockResult, PromptPipelinePreset } from '../types/promptPipeline';
+import { renderPromptTemplate, createSeededRandom, PromptTemplateContext } from './promptTemplate';
+import { buildPersonaPrompt } from './persona';
+import { conversationEnhancer } from './conversationPromptEnhancer';
+import { emotionPromptGenerator } from './emotionPromptGenerator';
+import { applySummariesToContext, buildSummaryPreamble } from './messageSummarizer';
+import { activateLorebook, buildLorebookPrompt } from './lorebook';
+import { resolvePromptBlocks, assemblePipelineMessages } from './promptPipeline';
+import { formatTimeOfDay } from './narrator';
+import { modelDefaults } from '../data/modelDefaults';
+import { estimateTokens } from '../utils/tokenCounter';
+
+// 渲染角色提示词需要的对话信息
+export interface CharacterPromptContext {
+  messages: Message[];
+  persona: PlayerPersona;
+  sceneDescription?: string;
+  sceneTimeOfDay?: string;                              // 旁白推进过的场景时段，没有时使用当前时间
+  participants?: string[];                              // 同场角色名，人物关系块会列出与他们的关系
+  describeRelationship?: (characterName: string, otherName: string) => string;
+}
+
+export interface CharacterRequestOptions {
+  history: Message[];           // 实际发送的历史消息（已去掉摘要覆盖部分并裁剪）
+  preset: PromptPipelinePreset;
+  summaries?: ChapterSummary[];
+  lorebookPrompt?: string;
+  estimate?: (text: string) => number;
+}
+
+export interface CharacterRequest {
+  messages: LLMMessage[];
+  blocks: PromptBlockResult[];
+  totalTokens: number;
+}
+
+export interface CharacterPromptPreview extends CharacterRequest {
+  systemPrompt: string;
+  systemTokens: number;
+  lorebook: LorebookActivation | null;
+}
+
+/**
+ * 默认的关系描述：只知道玩家角色设置的初始关系
+ */
+function describePersonaRelationship(persona: PlayerPersona, characterName: string, otherName: string): string {
+  if (otherName !== persona.name) return '';
+  const seed = persona.relationshipSeeds.find(item => item.characterName === characterName);
+  if (!seed) return '';
+  const note = seed.note?.trim() ? `（${seed.note.trim()}）` : '';
+  return `${RELATION_TYPE_LABELS[seed.type]}${note}`;
+}
+
+/**
+ * 同一轮对话使用相同的随机种子，预览与实际请求抽到的随机内容一致
+ */
+function createTurnRandom(character: AICharacter, messages: Message[]): () => number {
+  return createSeededRandom(`${character.id}:${messages.length}`);
+}
+
+function getCharacterModelName(character: AICharacter): string {
+  return character.modelConfig?.modelName || modelDefaults.modelName;
+}
+
+export function buildPromptTemplateContext(
+  character: AICharacter,
+  context: CharacterPromptContext,
+  random: () => number = createTurnRandom(character, context.messages)
+): PromptTemplateContext {
+  const { persona } = context;
+  return {
+    char: character.name,
+    user: persona.name,
+    scene: context.sceneDescription?.trim() || '',
+    emotion: character.currentEmotionalState?.description || '',
+    time: context.sceneTimeOfDay
+      ? formatTimeOfDay(context.sceneTimeOfDay)
+      : new Date().toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' }),
+    describeRelationship: otherName =>
+      context.describeRelationship?.(character.name, otherName) ||
+      describePersonaRelationship(persona, character.name, otherName),
+    random
+  };
+}
+
+function buildRelationshipBlock(templateContext: PromptTemplateContext, context: CharacterPromptContext): string {
+  const otherNames = [
+    templateContext.user,
+    ...(context.participants || []).filter(name => name !== templateContext.char && name !== templateContext.user)
+  ];
+  const lines = otherNames
+    .map(name => {
+      const relation = templateContext.describeRelationship?.(name);
+      return relation ? `你与${name}的关系：${relation}` : '';
+    })
+    .filter(Boolean);
+  return lines.length > 0 ? `【人物关系】\n${lines.join('\n')}` : '';
+}
+
+function buildSceneBlock(templateContext: PromptTemplateContext, context: CharacterPromptContext): string {
+  const lines: string[] = [];
+  if (templateContext.scene) lines.push(templateContext.scene);
+  if (context.sceneTimeOfDay) lines.push(`当前时段：${templateContext.time}`);
+  return lines.length > 0 ? `【场景】\n${lines.join('\n')}` : '';
+}
+
+/**
+ * 生成各内容块的原始文本，是否注入、放在哪里由管线预设决定
+ */
+export function buildPromptBlockContents(
+  character: AICharacter,
+  context: CharacterPromptContext,
+  summaries: ChapterSummary[] = [],
+  lorebookPrompt: string = ''
+): Record<PromptBlockId, string> {
+  const { messages } = context;
+  const random = createTurnRandom(character, messages);
+  const templateContext = buildPromptTemplateContext(character, context, random);
+
+  return {
+    character: renderPromptTemplate(character.modelConfig?.prompt || '', templateContext),
+    persona: buildPersonaPrompt(context.persona),
+    relationship: buildRelationshipBlock(templateContext, context),
+    scene: buildSceneBlock(templateContext, context),
+    coherence: conversationEnhancer.generateCoherencePrompt(messages, character) +
+      conversationEnhancer.generateStoryProgressPrompt(character) +
+      conversationEnhancer.checkConversationFlow(messages, random) +
+      conversationEnhancer.checkTopicContinuity(messages, character),
+    format: conversationEnhancer.generateFormatPrompt(),
+    emotion: emotionPromptGenerator.generateFullEmotionPrompt(character),
+    summary: buildSummaryPreamble(summaries),
+    lorebook: lorebookPrompt
+  };
+}
+
+/**
+ * 按对话最近的消息触发世界设定
+ */
+export function resolveLorebookPrompt(
+  character: AICharacter,
+  lorebook: Lorebook,
+  messages: Message[],
+  estimate: (text: string) => number = text => estimateTokens(text, getCharacterModelName(character))
+): { activation: LorebookActivation; prompt: string } {
+  const activation = activateLorebook(lorebook, messages, estimate);
+  return { activation, prompt: buildLorebookPrompt(lorebook, activation) };
+}
+
+/**
+ * 按提示词管线预设组装发给角色的请求消息
+ */
+export function buildCharacterRequest(
+  character: AICharacter,
+  context: CharacterPromptContext,
+  options: CharacterRequestOptions
+): CharacterRequest {
+  const estimate = options.estimate || (text => estimateTokens(text, getCharacterModelName(character)));
+  const contents = buildPromptBlockContents(character, context, options.summaries, options.lorebookPrompt);
+  const blocks = resolvePromptBlocks(contents, options.preset.blocks, estimate);
+  const messages = assemblePipelineMessages(character.name, options.history, blocks);
+
+  return {
+    messages,
+    blocks,
+    totalTokens: estimate(messages.map(message => message.content).join('\n'))
+  };
+}
+
+/**
+ * 预览下一次请求：历史消息按去掉摘要覆盖部分后的对话计算，与请求一致；
+ * 上下文裁剪只会减少较早的历史消息，不改变各内容块
+ */
+export function previewCharacterRequest(
+  character: AICharacter,
+  context: CharacterPromptContext,
+  preset: PromptPipelinePreset,
+  summaries: ChapterSummary[] = [],
+  lorebook?: Lorebook
+): CharacterPromptPreview {
+  const lorebookResult = lorebook ? resolveLorebookPrompt(character, lorebook, context.messages) : null;
+  const request = buildCharacterRequest(character, context, {
+    history: applySummariesToContext(context.messages, summaries),
+    preset,
+    summaries,
+    lorebookPrompt: lorebookResult?.prompt
+  });
+
+  const systemPrompt = request.messages[0].content;
+  return {
+    ...request,
+    systemPrompt,
+    systemTokens: estimateTokens(systemPrompt, getCharacterModelName(character)),
+    lorebook: lorebookResult?.activation || null
+  };
+}
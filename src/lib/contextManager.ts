@@ -4,6 +4,7 @@ import { DynamicContextPruner, PruningConfig, PruningResult, MessageImportance }
 import { PersonalizedPruningStrategy, CharacterPruningPreferences, PersonalizedWeights, PersonalizedRetentionResult } from './personalizedPruningStrategy';
 import { TopicRelevanceAnalyzer, TopicInfo } from './topicRelevanceAnalyzer';
 import { ChineseTextProcessor } from '../utils/chineseTextProcessor';
+import { estimateTokens } from '../utils/tokenCounter';
 
 // 上下文管理器配置接口
 export interface ContextManagerConfig {
@@ -216,8 +217,9 @@ export class ContextManager {
       const topicAnalysisTime = Date.now() - topicAnalysisStartTime;
 
       // 4. 计算token减少量
-      const originalTokens = this.estimateTokens(messages);
-      const finalTokens = this.estimateTokens(finalMessages);
+      const modelName = character?.modelConfig?.modelName;
+      const originalTokens = this.estimateTokens(messages, modelName);
+      const finalTokens = this.estimateTokens(finalMessages, modelName);
       const tokenReduction = ((originalTokens - finalTokens) / originalTokens) * 100;
 
       const processingTime = Date.now() - startTime;
@@ -314,17 +316,8 @@ export class ContextManager {
   /**
    * 估算消息token数量
    */
-  private estimateTokens(messages: Message[]): number {
-    return messages.reduce((total, msg) => {
-      const text = msg.text || '';
-      const chineseCharCount = (text.match(/[\u4e00-\u9fff]/g) || []).length;
-      const englishWordCount = text.split(/\s+/).filter(word => 
-        word.length > 0 && !/[\u4e00-\u9fff]/.test(word)
-      ).length;
-      const specialCharCount = (text.match(/[^\w\s\u4e00-\u9fff]/g) || []).length;
-      
-      return total + Math.ceil(chineseCharCount * 1.5 + englishWordCount * 1 + specialCharCount * 0.5);
-    }, 0);
+  private estimateTokens(messages: Message[], modelName?: string): number {
+    return messages.reduce((total, msg) => total + estimateTokens(msg.text || '', modelName), 0);
   }
 
   /**
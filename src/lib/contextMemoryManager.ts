@@ -26,6 +26,7 @@ import { Message, AICharacter } from '@/types/tavern';
 import { EmotionalState } from '@/types/emotion';
 import { Relationship } from '@/types/relationship';
 import { InteractionEvent, InteractionSession } from '@/types/interaction';
+import { NarratorEvent } from '@/types/narrator';
 
 /**
  * 默认上下文分析配置
@@ -69,6 +70,9 @@ const DEFAULT_CONTEXT_CONFIG: ContextAnalysisConfig = {
   }
 };
 
+// 旁白描述的场景时间只保留一条，每次时间流逝都更新它
+const NARRATED_TIME_CONTEXT_ID = 'narrated_time';
+
 /**
  * 上下文检测结果
  */
@@ -199,6 +203,129 @@ export class ContextMemoryManager {
     }
   }
 
+  /**
+   * 记录旁白描述的场景事件，对在场的所有角色生效：
+   * 时间流逝记为时间上下文（始终覆盖同一条），环境变化与随机事件记为环境上下文
+   */
+  public async recordSceneEvent(
+    message: Message,
+    event: NarratorEvent,
+    characters: AICharacter[]
+  ): Promise<ContextElement> {
+    const characterIds = characters.map(character => character.id);
+    const context = event.kind === 'time'
+      ? this.createNarratedTemporalContext(message, event, characterIds)
+      : this.createNarratedEnvironmentalContext(message, event, characterIds);
+
+    const detectionResult: ContextDetectionResult = {
+      contexts: [context],
+      changes: this.detectContextChanges([context]),
+      inferences: [],
+      confidence: context.confidence,
+      processingTime: 0
+    };
+
+    for (const characterId of characterIds) {
+      await this.updateCharacterMemory(characterId, detectionResult);
+    }
+    this.updateGlobalState(detectionResult);
+
+    console.log(`🌍 已记录旁白场景事件: ${context.description}`);
+    return context;
+  }
+
+  /**
+   * 旁白描述过的最新时段与天气，供旁白保持场景连贯
+   */
+  public getSceneState(): { timeOfDay?: TemporalContext['timeOfDay']; weather?: string; recentEvents: string[] } {
+    const narrated = Array.from(this.globalContexts.values())
+      .filter(context => context.tags.includes('narrator'))
+      .sort((a, b) => a.lastUpdated.getTime() - b.lastUpdated.getTime());
+
+    const timeContext = this.globalContexts.get(NARRATED_TIME_CONTEXT_ID) as TemporalContext | undefined;
+    const weatherContext = [...narrated]
+      .reverse()
+      .find(context => context.type === ContextType.ENVIRONMENTAL && (context as EnvironmentalContext).weather);
+
+    return {
+      timeOfDay: timeContext?.timeOfDay,
+      weather: (weatherContext as EnvironmentalContext | undefined)?.weather?.condition,
+      recentEvents: narrated.slice(-3).map(context => context.description)
+    };
+  }
+
+  private createNarratedTemporalContext(message: Message, event: NarratorEvent, characterIds: string[]): TemporalContext {
+    const now = message.timestamp;
+    const previous = this.globalContexts.get(NARRATED_TIME_CONTEXT_ID) as TemporalContext | undefined;
+
+    return {
+      id: NARRATED_TIME_CONTEXT_ID,
+      type: ContextType.TEMPORAL,
+      name: '场景时间',
+      description: event.text,
+      startTime: previous?.startTime || now,
+      importance: ContextImportance.MEDIUM,
+      stability: ContextStability.MEDIUM_TERM,
+      confidence: 0.9,
+      relatedCharacters: characterIds,
+      relatedEvents: [message.id],
+      relatedTopics: ['time'],
+      tags: ['narrator', 'time'],
+      createdAt: previous?.createdAt || now,
+      lastUpdated: now,
+
+      timeOfDay: event.timeOfDay || previous?.timeOfDay || this.getTimeOfDay(now),
+      dayOfWeek: now.getDay(),
+      season: this.getSeason(now),
+      isWeekend: now.getDay() === 0 || now.getDay() === 6,
+      isHoliday: false,
+      isRecurring: false,
+      timezone: 'UTC',
+      utcOffset: 0
+    };
+  }
+
+  private createNarratedEnvironmentalContext(
+    message: Message,
+    event: NarratorEvent,
+    characterIds: string[]
+  ): EnvironmentalContext {
+    const now = message.timestamp;
+    const isRandomEvent = event.kind === 'random';
+
+    return {
+      id: `narrated_environment_${message.id}`,
+      type: ContextType.ENVIRONMENTAL,
+      name: isRandomEvent ? '场景事件' : '环境变化',
+      description: event.text,
+      startTime: now,
+      importance: event.impact === 'high' ? ContextImportance.HIGH : ContextImportance.MEDIUM,
+      stability: isRandomEvent ? ContextStability.TRANSIENT : ContextStability.SHORT_TERM,
+      confidence: 0.9,
+      relatedCharacters: characterIds,
+      relatedEvents: [message.id],
+      relatedTopics: ['environment'],
+      tags: ['narrator', event.kind, event.weather].filter(Boolean) as string[],
+      createdAt: now,
+      lastUpdated: now,
+
+      weather: event.weather ? {
+        condition: event.weather,
+        temperature: 20,
+        humidity: 60,
+        windSpeed: 5
+      } : undefined,
+
+      events: isRandomEvent ? [{
+        type: 'special',
+        status: 'ongoing',
+        impact: event.impact || 'medium'
+      }] : [],
+
+      resources: []
+    };
+  }
+
   /**
    * 检测上下文
    */
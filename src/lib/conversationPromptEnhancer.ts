@@ -19,7 +19,7 @@ export class ConversationPromptEnhancer {
     if (recentMessages.length > 0) {
       prompt += `最近的对话内容：\n`;
       recentMessages.forEach((msg, index) => {
-        const speaker = msg.isPlayer ? '玩家' : msg.sender;
+        const speaker = msg.sender;
         prompt += `${index + 1}. ${speaker}: ${msg.text}\n`;
       });
       prompt += `\n`;
@@ -27,7 +27,7 @@ export class ConversationPromptEnhancer {
     
     // 连贯性指导
     if (lastMessage) {
-      const lastSpeaker = lastMessage.isPlayer ? '玩家' : lastMessage.sender;
+      const lastSpeaker = lastMessage.sender;
       prompt += `重要：你必须直接回应${lastSpeaker}刚才说的话："${lastMessage.text}"\n`;
     }
     
@@ -108,7 +108,7 @@ export class ConversationPromptEnhancer {
   /**
    * 检查对话流的连贯性
    */
-  checkConversationFlow(messages: Message[]): string {
+  checkConversationFlow(messages: Message[], random: () => number = Math.random): string {
     if (messages.length < 2) return '';
     
     const lastTwo = messages.slice(-2);
@@ -125,7 +125,7 @@ export class ConversationPromptEnhancer {
         '关于', '对于', '刚才', '刚刚', '你说', '我觉得', '我想', '说到'
       ].some(word => lastText.includes(word));
       
-      if (!hasConnectionWords && Math.random() > 0.7) {
+      if (!hasConnectionWords && random() > 0.7) {
         return `\n注意：确保你的回复与刚才的话题有自然的连接，可以用"关于你刚才说的..."、"说到这个..."等方式建立联系。\n`;
       }
     }
@@ -135,12 +135,13 @@ export class ConversationPromptEnhancer {
   
   /**
    * 生成完整的增强提示词（包含对话流检查）
+   * random 可传入固定种子的随机数，使提示词预览与实际请求一致
    */
-  generateFullEnhancedPrompt(messages: Message[], character: AICharacter): string {
+  generateFullEnhancedPrompt(messages: Message[], character: AICharacter, random: () => number = Math.random): string {
     const coherencePrompt = this.generateCoherencePrompt(messages, character);
     const storyPrompt = this.generateStoryProgressPrompt(character);
     const formatPrompt = this.generateFormatPrompt();
-    const flowCheck = this.checkConversationFlow(messages);
+    const flowCheck = this.checkConversationFlow(messages, random);
     
     return coherencePrompt + storyPrompt + formatPrompt + flowCheck;
   }
@@ -0,0 +1,316 @@
+/**
+ * 对话分支树
+ * 会话中的所有消息按父子关系组成一棵树，每个分支是从根消息到分支末尾的一条路径，
+ * 当前显示的对话（HistorySession.messages）就是当前分支的路径。
+ * 各分支各自保存离开时的角色情感，切换分支时恢复。
+ * 分支之间共享分叉点之前的消息；改动共享的消息时先复制一份，其他分支保持原来的对话。
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Message, AICharacter } from '../types/tavern';
+import { MessageTree, MessageNode, ConversationBranch, CharacterStateSnapshot } from '../types/session';
+import { getEmotionsBeforeRemoval } from './messageAlternates';
+
+export const MAIN_BRANCH_NAME = '主线';
+
+// 分支列表中的一项：按分出关系排列，depth 为缩进层级
+export interface BranchOutlineItem {
+  branch: ConversationBranch;
+  depth: number;
+  messageCount: number;
+  isActive: boolean;
+}
+
+/**
+ * 用一段线性对话创建只有主线的消息树
+ */
+export function createMessageTree(messages: Message[]): MessageTree {
+  const branch: ConversationBranch = {
+    id: uuidv4(),
+    name: MAIN_BRANCH_NAME,
+    headId: null,
+    createdAt: new Date()
+  };
+  return syncActiveBranch({ nodes: {}, branches: [branch], activeBranchId: branch.id }, messages);
+}
+
+export function getActiveBranch(tree: MessageTree): ConversationBranch {
+  return tree.branches.find(branch => branch.id === tree.activeBranchId) || tree.branches[0];
+}
+
+/**
+ * 分支从根到末尾的消息
+ */
+export function getBranchPath(tree: MessageTree, branchId: string): Message[] {
+  const branch = tree.branches.find(item => item.id === branchId);
+  const path: Message[] = [];
+  const visited = new Set<string>();
+  let nodeId = branch?.headId ?? null;
+
+  while (nodeId && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    const node: MessageNode | undefined = tree.nodes[nodeId];
+    if (!node) break;
+    path.push(node.message);
+    nodeId = node.parentId;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * 把当前对话写回当前分支：更新路径上的消息，分支末尾指向最后一条消息，
+ * 并清理不再属于任何分支的消息
+ */
+export function syncActiveBranch(tree: MessageTree, messages: Message[]): MessageTree {
+  const nodes = { ...tree.nodes };
+  messages.forEach((message, index) => {
+    const existing = nodes[message.id];
+    nodes[message.id] = {
+      ...existing,
+      message,
+      parentId: index > 0 ? messages[index - 1].id : null
+    };
+  });
+
+  const headId = messages.length > 0 ? messages[messages.length - 1].id : null;
+  const branches = tree.branches.map(branch =>
+    branch.id === tree.activeBranchId ? { ...branch, headId } : branch
+  );
+
+  return collectGarbage({ ...tree, nodes, branches });
+}
+
+/**
+ * 当前分支要改动第 index 条消息（编辑、切换候选、重新生成）前调用，返回需要换成副本的消息（原 ID -> 副本 ID）。
+ * 该消息也属于其他分支时写时复制：从它开始与其他分支共享的消息都换成新 ID 的副本，
+ * 同步后当前分支接到副本上，其他分支保持原来的对话；没有共享时返回空表
+ */
+export function getCopyOnWriteIds(tree: MessageTree, messages: Message[], index: number): Map<string, string> {
+  const sharedIds = new Set(
+    tree.branches
+      .filter(branch => branch.id !== tree.activeBranchId)
+      .flatMap(branch => getBranchPath(tree, branch.id).map(message => message.id))
+  );
+  const copies = new Map<string, string>();
+  if (!messages[index] || !sharedIds.has(messages[index].id)) return copies;
+
+  messages.slice(index).forEach(message => {
+    if (sharedIds.has(message.id)) copies.set(message.id, uuidv4());
+  });
+  return copies;
+}
+
+/**
+ * 离开当前分支前保存对话与角色状态
+ */
+export function storeActiveBranchState(
+  tree: MessageTree,
+  messages: Message[],
+  characters: AICharacter[]
+): MessageTree {
+  return updateBranch(syncActiveBranch(tree, messages), tree.activeBranchId, {
+    characterStates: captureCharacterStates(characters)
+  });
+}
+
+export function captureCharacterStates(characters: AICharacter[]): CharacterStateSnapshot[] {
+  return characters.map(character => ({
+    id: character.id,
+    currentEmotionalState: character.currentEmotionalState,
+    emotionalHistory: character.emotionalHistory,
+    emotionalMemory: character.emotionalMemory,
+    lastSpeakTime: character.lastSpeakTime
+  }));
+}
+
+/**
+ * 把分支保存的状态恢复到角色上，分支中没有记录的角色保持不变
+ */
+export function applyCharacterStates(characters: AICharacter[], states?: CharacterStateSnapshot[]): AICharacter[] {
+  if (!states || states.length === 0) return characters;
+  const stateById = new Map(states.map(state => [state.id, state]));
+  return characters.map(character => {
+    const state = stateById.get(character.id);
+    return state ? { ...character, ...state } : character;
+  });
+}
+
+/**
+ * 从当前分支的某条消息（含）处分出新分支并切换过去
+ * 新分支的角色情感回到该消息之后第一条回复之前的状态
+ */
+export function forkBranch(
+  tree: MessageTree,
+  messages: Message[],
+  characters: AICharacter[],
+  messageId: string,
+  name?: string
+): MessageTree {
+  const index = messages.findIndex(message => message.id === messageId);
+  if (index < 0) return tree;
+
+  const stored = storeActiveBranchState(tree, messages, characters);
+  const restoredEmotions = getEmotionsBeforeRemoval(messages.slice(index + 1));
+  const forkedCharacters = characters.map(character =>
+    restoredEmotions.has(character.name)
+      ? { ...character, currentEmotionalState: restoredEmotions.get(character.name) }
+      : character
+  );
+
+  const branch: ConversationBranch = {
+    id: uuidv4(),
+    name: name || `分支 ${stored.branches.length}`,
+    headId: messageId,
+    createdAt: new Date(),
+    parentBranchId: tree.activeBranchId,
+    forkMessageId: messageId,
+    characterStates: captureCharacterStates(forkedCharacters)
+  };
+
+  return { ...stored, branches: [...stored.branches, branch], activeBranchId: branch.id };
+}
+
+/**
+ * 切换到另一个分支（先保存当前分支的对话与角色状态）
+ */
+export function switchBranch(
+  tree: MessageTree,
+  messages: Message[],
+  characters: AICharacter[],
+  branchId: string
+): MessageTree {
+  if (branchId === tree.activeBranchId || !tree.branches.some(branch => branch.id === branchId)) {
+    return tree;
+  }
+  return { ...storeActiveBranchState(tree, messages, characters), activeBranchId: branchId };
+}
+
+export function renameBranch(tree: MessageTree, branchId: string, name: string): MessageTree {
+  const trimmed = name.trim();
+  if (!trimmed) return tree;
+  return updateBranch(tree, branchId, { name: trimmed });
+}
+
+/**
+ * 删除分支，只属于该分支的消息一并清理；当前分支不能删除
+ */
+export function pruneBranch(tree: MessageTree, branchId: string): MessageTree {
+  if (branchId === tree.activeBranchId) return tree;
+  return removeBranch(tree, branchId);
+}
+
+/**
+ * 把来源分支合并进目标分支，合并后删除来源分支
+ * - 目标分支是来源分支的前缀时，目标分支直接前进到来源分支末尾
+ * - 否则把来源分支分叉之后的消息复制接到目标分支末尾
+ * 目标分支的角色状态取来源分支的状态（合并进来的是更新的剧情）
+ */
+export function mergeBranch(tree: MessageTree, sourceId: string, targetId: string): MessageTree {
+  const source = tree.branches.find(branch => branch.id === sourceId);
+  const target = tree.branches.find(branch => branch.id === targetId);
+  if (!source || !target || sourceId === targetId) return tree;
+
+  const sourcePath = getBranchPath(tree, sourceId);
+  const targetPath = getBranchPath(tree, targetId);
+
+  let sharedLength = 0;
+  while (
+    sharedLength < sourcePath.length &&
+    sharedLength < targetPath.length &&
+    sourcePath[sharedLength].id === targetPath[sharedLength].id
+  ) {
+    sharedLength++;
+  }
+
+  const nodes = { ...tree.nodes };
+  let headId = target.headId;
+
+  if (sharedLength === targetPath.length) {
+    headId = source.headId;
+  } else {
+    sourcePath.slice(sharedLength).forEach(message => {
+      const copyId = uuidv4();
+      nodes[copyId] = {
+        message: { ...message, id: copyId },
+        parentId: headId,
+        mergedFromId: message.id
+      };
+      headId = copyId;
+    });
+  }
+
+  const merged = updateBranch({ ...tree, nodes }, targetId, {
+    headId,
+    characterStates: source.characterStates ?? target.characterStates
+  });
+  const activeBranchId = tree.activeBranchId === sourceId ? targetId : tree.activeBranchId;
+  return removeBranch({ ...merged, activeBranchId }, sourceId);
+}
+
+/**
+ * 按分出关系排列的分支列表，子分支紧跟在父分支之后
+ */
+export function getBranchOutline(tree: MessageTree): BranchOutlineItem[] {
+  const branchIds = new Set(tree.branches.map(branch => branch.id));
+  const children = new Map<string | undefined, ConversationBranch[]>();
+  tree.branches.forEach(branch => {
+    const parentId = branch.parentBranchId && branchIds.has(branch.parentBranchId) ? branch.parentBranchId : undefined;
+    children.set(parentId, [...(children.get(parentId) || []), branch]);
+  });
+
+  const outline: BranchOutlineItem[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    (children.get(parentId) || []).forEach(branch => {
+      outline.push({
+        branch,
+        depth,
+        messageCount: getBranchPath(tree, branch.id).length,
+        isActive: branch.id === tree.activeBranchId
+      });
+      visit(branch.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+
+  return outline;
+}
+
+function updateBranch(tree: MessageTree, branchId: string, changes: Partial<ConversationBranch>): MessageTree {
+  return {
+    ...tree,
+    branches: tree.branches.map(branch => (branch.id === branchId ? { ...branch, ...changes } : branch))
+  };
+}
+
+function removeBranch(tree: MessageTree, branchId: string): MessageTree {
+  const removed = tree.branches.find(branch => branch.id === branchId);
+  if (!removed || tree.branches.length <= 1) return tree;
+
+  // 被删除分支的子分支改挂到它的父分支下
+  const branches = tree.branches
+    .filter(branch => branch.id !== branchId)
+    .map(branch =>
+      branch.parentBranchId === branchId ? { ...branch, parentBranchId: removed.parentBranchId } : branch
+    );
+  return collectGarbage({ ...tree, branches });
+}
+
+// 清理所有分支都到达不了的消息
+function collectGarbage(tree: MessageTree): MessageTree {
+  const reachable = new Set<string>();
+  tree.branches.forEach(branch => {
+    let nodeId = branch.headId;
+    while (nodeId && !reachable.has(nodeId) && tree.nodes[nodeId]) {
+      reachable.add(nodeId);
+      nodeId = tree.nodes[nodeId].parentId;
+    }
+  });
+
+  if (reachable.size === Object.keys(tree.nodes).length) return tree;
+  const nodes: Record<string, MessageNode> = {};
+  reachable.forEach(nodeId => {
+    nodes[nodeId] = tree.nodes[nodeId];
+  });
+  return { ...tree, nodes };
+}
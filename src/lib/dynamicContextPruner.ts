@@ -1,6 +1,7 @@
 import { Message } from '../types/message';
 import { AICharacter } from '../types/character';
 import { ChineseTextProcessor } from '../utils/chineseTextProcessor';
+import { estimateTokens } from '../utils/tokenCounter';
 import { TFIDFCalculator } from './tfidfCalculator';
 import { TopicRelevanceAnalyzer, RelevanceScore } from './topicRelevanceAnalyzer';
 
@@ -119,7 +120,7 @@ export class DynamicContextPruner {
     
     try {
       // 1. 计算每条消息的token数量
-      const messagesWithTokens = await this.calculateTokens(messages);
+      const messagesWithTokens = await this.calculateTokens(messages, character?.modelConfig?.modelName);
       
       // 2. 计算消息重要性评分
       const importanceScores = await this.calculateImportanceScores(
@@ -156,30 +157,15 @@ export class DynamicContextPruner {
   }
 
   /**
-   * 计算消息token数量
+   * 计算消息token数量，按角色所用模型的分词方式计数
    */
-  private async calculateTokens(messages: Message[]): Promise<(Message & { tokens: number })[]> {
+  private async calculateTokens(messages: Message[], modelName?: string): Promise<(Message & { tokens: number })[]> {
     return messages.map(message => ({
       ...message,
-      tokens: this.estimateTokenCount(message.text || '')
+      tokens: estimateTokens(message.text || '', modelName)
     }));
   }
 
-  /**
-   * 估算token数量（简化实现，支持中文）
-   */
-  private estimateTokenCount(text: string): number {
-    // 中文字符通常占用更多token
-    const chineseCharCount = (text.match(/[\u4e00-\u9fff]/g) || []).length;
-    const englishWordCount = text.split(/\s+/).filter(word => 
-      word.length > 0 && !/[\u4e00-\u9fff]/.test(word)
-    ).length;
-    const specialCharCount = (text.match(/[^\w\s\u4e00-\u9fff]/g) || []).length;
-    
-    // 估算公式：中文字符*1.5 + 英文单词*1 + 特殊字符*0.5
-    return Math.ceil(chineseCharCount * 1.5 + englishWordCount * 1 + specialCharCount * 0.5);
-  }
-
   /**
    * 计算消息重要性评分
    */
@@ -0,0 +1,130 @@
+/**
+ * 情感分类校准
+ * 用标注样本比较词典分析与模型分类：情感类型准确率、正负倾向准确率、效价误差，
+ * 以及被判为中性的比例（词典漏判反讽和含蓄台词时多表现为中性）
+ */
+
+import { EmotionAnalysisResult, EmotionClassifierMode, EmotionType } from '../types/emotion';
+import {
+  EmotionCalibrationSample,
+  EMOTION_CALIBRATION_SAMPLES
+} from '../data/emotionCalibrationSamples';
+import { emotionClassifier } from './emotionClassifier';
+
+// 效价绝对值低于该值视为中性倾向
+const NEUTRAL_VALENCE_THRESHOLD = 0.15;
+
+export interface EmotionCalibrationStats {
+  mode: EmotionClassifierMode;
+  evaluated: number;          // 得到结果的样本数（模型调用失败的样本不计入）
+  typeAccuracy: number;       // 情感类型完全一致的比例
+  polarityAccuracy: number;   // 正面/中性/负面倾向一致的比例
+  valenceError: number;       // 效价的平均绝对误差
+  neutralRate: number;        // 被判为中性的比例
+}
+
+export interface EmotionCalibrationRow {
+  sample: EmotionCalibrationSample;
+  lexicon: EmotionAnalysisResult;
+  llm: EmotionAnalysisResult | null;
+}
+
+export interface EmotionCalibrationCategoryStats {
+  category: EmotionCalibrationSample['category'];
+  count: number;
+  lexiconAccuracy: number;
+  llmAccuracy: number | null;
+}
+
+export interface EmotionCalibrationReport {
+  createdAt: Date;
+  rows: EmotionCalibrationRow[];
+  lexicon: EmotionCalibrationStats;
+  llm: EmotionCalibrationStats | null;  // 模型分类全部失败时为 null
+  categories: EmotionCalibrationCategoryStats[];
+}
+
+function getPolarity(valence: number): number {
+  if (Math.abs(valence) < NEUTRAL_VALENCE_THRESHOLD) return 0;
+  return Math.sign(valence);
+}
+
+function computeStats(
+  mode: EmotionClassifierMode,
+  pairs: { sample: EmotionCalibrationSample; result: EmotionAnalysisResult }[]
+): EmotionCalibrationStats {
+  const count = pairs.length || 1;
+  return {
+    mode,
+    evaluated: pairs.length,
+    typeAccuracy: pairs.filter(({ sample, result }) => result.detectedEmotion === sample.expected).length / count,
+    polarityAccuracy: pairs.filter(({ sample, result }) => getPolarity(result.valence) === getPolarity(sample.valence)).length / count,
+    valenceError: pairs.reduce((sum, { sample, result }) => sum + Math.abs(result.valence - sample.valence), 0) / count,
+    neutralRate: pairs.filter(({ result }) => result.detectedEmotion === EmotionType.NEUTRAL).length / count
+  };
+}
+
+/**
+ * 汇总校准报告（纯函数，lexiconResults 与 llmResults 与样本一一对应）
+ */
+export function buildEmotionCalibrationReport(
+  samples: EmotionCalibrationSample[],
+  lexiconResults: EmotionAnalysisResult[],
+  llmResults: (EmotionAnalysisResult | null)[]
+): EmotionCalibrationReport {
+  const rows = samples.map((sample, index) => ({
+    sample,
+    lexicon: lexiconResults[index],
+    llm: llmResults[index] ?? null
+  }));
+
+  const lexiconPairs = rows.map(row => ({ sample: row.sample, result: row.lexicon }));
+  const llmPairs = rows
+    .filter((row): row is EmotionCalibrationRow & { llm: EmotionAnalysisResult } => row.llm !== null)
+    .map(row => ({ sample: row.sample, result: row.llm }));
+
+  const categories = Array.from(new Set(samples.map(sample => sample.category))).map(category => {
+    const categoryRows = rows.filter(row => row.sample.category === category);
+    const llmRows = categoryRows.filter(row => row.llm !== null);
+    return {
+      category,
+      count: categoryRows.length,
+      lexiconAccuracy: categoryRows.filter(row => row.lexicon.detectedEmotion === row.sample.expected).length / categoryRows.length,
+      llmAccuracy: llmRows.length > 0
+        ? llmRows.filter(row => row.llm?.detectedEmotion === row.sample.expected).length / llmRows.length
+        : null
+    };
+  });
+
+  return {
+    createdAt: new Date(),
+    rows,
+    lexicon: computeStats('lexicon', lexiconPairs),
+    llm: llmPairs.length > 0 ? computeStats('llm', llmPairs) : null,
+    categories
+  };
+}
+
+/**
+ * 用当前的模型配置跑一遍校准样本（不论是否已开启模型分类）；模型调用失败时只有词典的结果
+ */
+export async function runEmotionCalibration(
+  samples: EmotionCalibrationSample[] = EMOTION_CALIBRATION_SAMPLES
+): Promise<EmotionCalibrationReport> {
+  const texts = samples.map(sample => sample.text);
+  const lexiconResults = texts.map(text => emotionClassifier.analyzeWithLexicon(text));
+
+  let llmResults: (EmotionAnalysisResult | null)[] = texts.map(() => null);
+  try {
+    llmResults = await emotionClassifier.classifyWithModel(texts);
+  } catch (error) {
+    console.warn('⚠️ 校准时模型情感分类失败:', error);
+  }
+
+  const report = buildEmotionCalibrationReport(samples, lexiconResults, llmResults);
+  console.log('📏 情感分类校准完成:', {
+    词典: `${(report.lexicon.typeAccuracy * 100).toFixed(0)}%`,
+    模型: report.llm ? `${(report.llm.typeAccuracy * 100).toFixed(0)}%` : '不可用'
+  });
+  return report;
+}
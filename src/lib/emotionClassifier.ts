@@ -0,0 +1,315 @@
+/**
+ * 模型情感分类
+ * 关键词词典分辨不出反讽和含蓄的台词，开启后改由一个便宜的模型判断情感类型、效价与唤醒度。
+ * 短时间内送来的多段文本合并为一次调用，结果按文本哈希缓存；
+ * 离线、超出预算或调用失败时回退到本地词典。配置保存在 localStorage 中。
+ */
+
+import {
+  EmotionAnalysisResult,
+  EmotionClassifierConfig,
+  EmotionType
+} from '../types/emotion';
+import { LLMMessage, LLMUsage } from '../types/llm';
+import { emotionClassifierDefaults } from '../data/modelDefaults';
+import { safeParseAIJSON } from '../utils/jsonUtils';
+import { llmClient } from './llmProviders';
+import { budgetManager } from './budgetManager';
+import { EmotionEngine } from './emotionEngine';
+import { stripOocSegments } from './messageMarkup';
+import { hashString } from '../utils/seededRandom';
+
+const STORAGE_KEY = 'tavern_emotion_classifier';
+
+// 缓存的分类结果条数上限，超出时丢弃最早的结果
+const CACHE_LIMIT = 500;
+
+// 等待同一批文本的时间（毫秒）
+const BATCH_WINDOW_MS = 80;
+
+// 送去分类的单段文本长度上限，长回复只看开头
+const MAX_TEXT_LENGTH = 300;
+
+const EMOTION_TYPE_VALUES = Object.values(EmotionType) as string[];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * 一次批量分类请求的消息
+ */
+export function buildEmotionClassifierMessages(texts: string[]): LLMMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `你是情感分类器。判断每段台词中说话人流露的情感，注意反讽、含蓄和言外之意（例如咬着牙说“真是太好了呢”是愤怒，强装镇定的“我没事”往往是悲伤或紧张）。
+
+type 只能是：happy(开心) | excited(兴奋) | calm(平静) | relaxed(放松) | bored(无聊) | sad(悲伤) | angry(愤怒) | stressed(紧张) | neutral(中性)
+valence 为效价（-1=非常消极，1=非常积极），arousal 为唤醒度（-1=非常低沉，1=非常激动），intensity 为情感强度（0-1）。
+
+请严格按照以下JSON格式返回，每段台词一项，不要添加任何其他文字：
+{"results": [{"index": 1, "type": "angry", "valence": -0.6, "arousal": 0.5, "intensity": 0.7}]}`
+    },
+    {
+      role: 'user',
+      content: texts.map((text, index) => `${index + 1}. ${text}`).join('\n')
+    }
+  ];
+}
+
+/**
+ * 把模型返回的一项分类转换为情感分析结果；类型未知或数值缺失时返回 null
+ */
+export function parseEmotionClassification(item: unknown): EmotionAnalysisResult | null {
+  if (!item || typeof item !== 'object') return null;
+  const entry = item as Record<string, unknown>;
+  const type = typeof entry.type === 'string' ? entry.type.trim().toLowerCase() : '';
+  if (!EMOTION_TYPE_VALUES.includes(type)) return null;
+  if (typeof entry.valence !== 'number' || typeof entry.arousal !== 'number') return null;
+
+  const intensity = typeof entry.intensity === 'number' ? entry.intensity : Math.max(Math.abs(entry.valence), Math.abs(entry.arousal));
+  return {
+    detectedEmotion: type as EmotionType,
+    confidence: typeof entry.confidence === 'number' ? clamp(entry.confidence, 0, 1) : 0.8,
+    keywords: [],
+    intensity: clamp(intensity, 0, 1),
+    valence: clamp(entry.valence, -1, 1),
+    arousal: clamp(entry.arousal, -1, 1),
+    source: 'llm'
+  };
+}
+
+interface PendingClassification {
+  text: string;
+  resolvers: ((result: EmotionAnalysisResult) => void)[];
+}
+
+type UsageListener = (usage: LLMUsage, config: EmotionClassifierConfig) => void;
+
+/**
+ * 情感分类器
+ */
+class EmotionClassifierClass {
+  private config: EmotionClassifierConfig;
+  private lexicon = new EmotionEngine();
+  private cache = new Map<string, EmotionAnalysisResult>();
+  private pending = new Map<string, PendingClassification>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+  private usageListeners = new Set<UsageListener>();
+
+  constructor() {
+    this.config = this.load();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 订阅分类调用的 Token 用量（用于计入 Token 统计和预算）
+   */
+  onUsage(listener: UsageListener): () => void {
+    this.usageListeners.add(listener);
+    return () => {
+      this.usageListeners.delete(listener);
+    };
+  }
+
+  getConfig(): EmotionClassifierConfig {
+    return this.config;
+  }
+
+  updateConfig(changes: Partial<EmotionClassifierConfig>): void {
+    this.config = { ...this.config, ...changes, batchSize: Math.max(1, Math.round(changes.batchSize ?? this.config.batchSize)) };
+    this.save();
+  }
+
+  isModelEnabled(): boolean {
+    return this.config.mode === 'llm';
+  }
+
+  /**
+   * 本地词典分析
+   */
+  analyzeWithLexicon(text: string): EmotionAnalysisResult {
+    return this.lexicon.analyzeText(text);
+  }
+
+  /**
+   * 同步取得分类结果：已有模型分类结果时使用缓存，否则使用词典分析
+   */
+  analyzeCached(text: string): EmotionAnalysisResult {
+    if (this.isModelEnabled()) {
+      const cached = this.cache.get(this.getCacheKey(this.prepareText(text)));
+      if (cached) return cached;
+    }
+    return this.analyzeWithLexicon(text);
+  }
+
+  /**
+   * 分类一段文本：未开启模型分类、场外发言、离线或超出预算时直接使用词典分析，
+   * 否则与同一时间段内的其他文本合并为一次调用
+   */
+  classify(text: string): Promise<EmotionAnalysisResult> {
+    const prepared = this.prepareText(text);
+    if (!this.isModelEnabled() || !prepared || !this.canCallModel()) {
+      return Promise.resolve(this.analyzeWithLexicon(text));
+    }
+
+    const key = this.getCacheKey(prepared);
+    const cached = this.cache.get(key);
+    if (cached) return Promise.resolve(cached);
+
+    return new Promise(resolve => {
+      const entry = this.pending.get(key) || { text, resolvers: [] };
+      entry.resolvers.push(resolve);
+      this.pending.set(key, entry);
+
+      if (this.pending.size >= this.config.batchSize) {
+        void this.flush();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => void this.flush(), BATCH_WINDOW_MS);
+      }
+    });
+  }
+
+  /**
+   * 用模型分类多段文本（不论当前模式，供校准报告使用），按批大小分批调用；
+   * 没有得到有效分类的文本为 null
+   */
+  async classifyWithModel(texts: string[]): Promise<(EmotionAnalysisResult | null)[]> {
+    const results: (EmotionAnalysisResult | null)[] = texts.map(() => null);
+    const uncached: number[] = [];
+    texts.forEach((text, index) => {
+      const cached = this.cache.get(this.getCacheKey(this.prepareText(text)));
+      if (cached) {
+        results[index] = cached;
+      } else {
+        uncached.push(index);
+      }
+    });
+
+    for (let start = 0; start < uncached.length; start += this.config.batchSize) {
+      const batch = uncached.slice(start, start + this.config.batchSize);
+      const batchResults = await this.requestBatch(batch.map(index => texts[index]));
+      batch.forEach((textIndex, i) => {
+        results[textIndex] = batchResults[i];
+      });
+    }
+    return results;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private prepareText(text: string): string {
+    return stripOocSegments(text).trim().slice(0, MAX_TEXT_LENGTH);
+  }
+
+  // 离线或超出预算时不调用模型
+  private canCallModel(): boolean {
+    const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    return !isOffline && budgetManager.getStatus().level === 'ok';
+  }
+
+  /**
+   * 把等待中的文本按批大小发出，失败或缺项的文本使用词典分析
+   */
+  private async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const entries = Array.from(this.pending.values());
+    this.pending.clear();
+
+    for (let start = 0; start < entries.length; start += this.config.batchSize) {
+      const batch = entries.slice(start, start + this.config.batchSize);
+      let batchResults: (EmotionAnalysisResult | null)[] = [];
+      try {
+        batchResults = await this.requestBatch(batch.map(entry => entry.text));
+      } catch (error) {
+        console.warn('⚠️ 模型情感分类失败，使用词典分析:', error);
+      }
+      batch.forEach((entry, i) => {
+        const result = batchResults[i] || this.analyzeWithLexicon(entry.text);
+        entry.resolvers.forEach(resolve => resolve(result));
+      });
+    }
+  }
+
+  /**
+   * 一次模型调用分类一批文本，结果写入缓存；调用失败时抛出错误
+   */
+  private async requestBatch(texts: string[]): Promise<(EmotionAnalysisResult | null)[]> {
+    const prepared = texts.map(text => this.prepareText(text));
+    const config = this.config;
+    const response = await llmClient.complete(config, {
+      messages: buildEmotionClassifierMessages(prepared),
+      temperature: 0,
+      maxTokens: 40 + prepared.length * 40,
+      jsonMode: true
+    }, { logContext: { category: 'analysis', source: '情感分类' } });
+
+    if (response.usage) {
+      this.usageListeners.forEach(listener => listener(response.usage!, config));
+    }
+
+    const parsed = safeParseAIJSON<{ results?: unknown }>(response.text, {});
+    const items = Array.isArray(parsed.results) ? parsed.results : [];
+    const results = prepared.map((_, index) => {
+      const item = items.find(candidate =>
+        candidate && typeof candidate === 'object' && (candidate as { index?: unknown }).index === index + 1
+      ) ?? items[index];
+      return parseEmotionClassification(item);
+    });
+
+    results.forEach((result, index) => {
+      if (result) this.remember(this.getCacheKey(prepared[index]), result);
+    });
+    console.log(`🎭 模型情感分类: ${results.filter(Boolean).length}/${texts.length} 条`);
+    return results;
+  }
+
+  // 分类缓存的键：文本哈希附带长度以减少碰撞
+  private getCacheKey(prepared: string): string {
+    return `${hashString(prepared).toString(16)}:${prepared.length}`;
+  }
+
+  private remember(key: string, result: EmotionAnalysisResult): void {
+    this.cache.delete(key);
+    this.cache.set(key, result);
+    if (this.cache.size > CACHE_LIMIT) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) this.cache.delete(oldestKey);
+    }
+  }
+
+  private load(): EmotionClassifierConfig {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        return { ...emotionClassifierDefaults, ...(JSON.parse(raw) as Partial<EmotionClassifierConfig>) };
+      }
+    } catch (error) {
+      console.warn('⚠️ 情感分类配置读取失败，使用默认配置:', error);
+    }
+    return { ...emotionClassifierDefaults };
+  }
+
+  private save(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const emotionClassifier = new EmotionClassifierClass();
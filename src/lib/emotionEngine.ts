@@ -7,6 +7,13 @@ import {
   createDefaultEmotionalState 
 } from '@/types/emotion';
 import { AICharacter } from '@/types/tavern';
+import { stripOocSegments } from '@/lib/messageMarkup';
+
+// 传染的有效强度达到该值时，听者的情感类型随发言者改变
+const CONTAGION_TYPE_SWITCH_THRESHOLD = 0.15;
+
+// 强度回落到该值以下时，情感类型回到角色的基线情感
+const BASELINE_REVERT_INTENSITY = 0.15;
 
 /**
  * 情感分析引擎
@@ -78,7 +85,9 @@ export class EmotionEngine {
    * 分析文本的情感内容
    */
   analyzeMessageEmotion(text: string): EmotionAnalysisResult {
-    const cleanText = text.toLowerCase().trim();
+    // 场外发言（OOC）不代表角色情绪，不参与分析
+    const inCharacterText = stripOocSegments(text);
+    const cleanText = inCharacterText.toLowerCase().trim();
     
     // 1. 关键词匹配分析
     const keywordResults = this.analyzeKeywords(cleanText);
@@ -87,7 +96,7 @@ export class EmotionEngine {
     const intensityMultiplier = this.analyzeIntensity(cleanText);
     
     // 3. 标点符号分析
-    const punctuationBoost = this.analyzePunctuation(text);
+    const punctuationBoost = this.analyzePunctuation(inCharacterText);
     
     // 4. 计算最终结果
     let bestMatch = keywordResults[0] || {
@@ -108,7 +117,8 @@ export class EmotionEngine {
       keywords: bestMatch.keywords,
       intensity: finalIntensity,
       valence: emotionState.valence,
-      arousal: emotionState.arousal
+      arousal: emotionState.arousal,
+      source: 'lexicon'
     };
   }
 
@@ -175,26 +185,36 @@ export class EmotionEngine {
 
   /**
    * 应用情感传染机制
+   * @param weights 各环境情感的传染权重（如关系亲近程度），省略时均为 1
    */
   applyEmotionalContagion(
     characterEmotion: EmotionalState,
-    contextEmotions: EmotionalState[]
+    contextEmotions: EmotionalState[],
+    weights: number[] = contextEmotions.map(() => 1)
   ): EmotionalState {
     if (contextEmotions.length === 0) return characterEmotion;
 
-    // 计算环境情感的平均值
-    const avgValence = contextEmotions.reduce((sum, e) => sum + e.valence, 0) / contextEmotions.length;
-    const avgArousal = contextEmotions.reduce((sum, e) => sum + e.arousal, 0) / contextEmotions.length;
-    const avgIntensity = contextEmotions.reduce((sum, e) => sum + e.intensity, 0) / contextEmotions.length;
+    const totalWeight = contextEmotions.reduce((sum, _, index) => sum + Math.max(0, weights[index] ?? 1), 0);
+    if (totalWeight <= 0) return characterEmotion;
+
+    // 计算环境情感的加权平均值
+    const weightedAverage = (pick: (emotion: EmotionalState) => number) =>
+      contextEmotions.reduce((sum, e, index) => sum + pick(e) * Math.max(0, weights[index] ?? 1), 0) / totalWeight;
+    const avgValence = weightedAverage(e => e.valence);
+    const avgArousal = weightedAverage(e => e.arousal);
+    const avgIntensity = weightedAverage(e => e.intensity);
 
-    const contagionStrength = this.config.contagionStrength;
+    // 权重越高传染越强，平均权重为 1 时即配置的传染强度
+    const contagionStrength = Math.min(1, this.config.contagionStrength * totalWeight / contextEmotions.length);
     
     return {
       ...characterEmotion,
       valence: characterEmotion.valence + (avgValence - characterEmotion.valence) * contagionStrength,
       arousal: characterEmotion.arousal + (avgArousal - characterEmotion.arousal) * contagionStrength,
       intensity: Math.min(1, characterEmotion.intensity + avgIntensity * contagionStrength * 0.1),
-      triggers: [...characterEmotion.triggers, '情感传染']
+      triggers: characterEmotion.triggers.includes('情感传染')
+        ? characterEmotion.triggers
+        : [...characterEmotion.triggers, '情感传染']
     };
   }
 
@@ -210,7 +230,7 @@ export class EmotionEngine {
     const decayFactor = Math.exp(-this.config.decayRate * hoursElapsed);
     
     const baseline = createDefaultEmotionalState(baselineEmotion);
-    const returnRate = this.config.baselineReturnRate * hoursElapsed;
+    const returnRate = Math.min(1, this.config.baselineReturnRate * hoursElapsed);
 
     return {
       ...currentEmotion,
@@ -222,16 +242,10 @@ export class EmotionEngine {
   }
 
   /**
-   * 分析文本并更新角色情感状态
+   * 按情感分析结果生成情感状态（未做个性化调整）
    */
-  updateCharacterEmotion(
-    character: AICharacter,
-    text: string,
-    emotionAnalysis: EmotionAnalysisResult,
-    trigger: string
-  ): AICharacter {
-    // 创建新的情感状态
-    const newEmotion: EmotionalState = {
+  createEmotionFromAnalysis(emotionAnalysis: EmotionAnalysisResult, trigger: string): EmotionalState {
+    return {
       type: emotionAnalysis.detectedEmotion,
       intensity: emotionAnalysis.intensity,
       valence: emotionAnalysis.valence,
@@ -240,12 +254,23 @@ export class EmotionEngine {
       description: this.getEmotionDescription(emotionAnalysis.detectedEmotion),
       triggers: [trigger, ...emotionAnalysis.keywords.slice(0, 2)]
     };
+  }
+
+  /**
+   * 分析文本并更新角色情感状态
+   * 其他在场角色受到的影响由 applySceneEmotionTick 处理
+   */
+  updateCharacterEmotion(
+    character: AICharacter,
+    text: string,
+    emotionAnalysis: EmotionAnalysisResult,
+    trigger: string
+  ): AICharacter {
+    // 创建新的情感状态
+    const newEmotion = this.createEmotionFromAnalysis(emotionAnalysis, trigger);
 
     // 应用个性化调整
     const adjustedEmotion = this.adjustEmotionForPersonality(newEmotion, character);
-
-    // 应用情感传染（如果有其他角色的情感状态）
-    // 这里可以传入其他角色的情感状态进行传染计算
     
     // 应用情感衰减（基于时间）
     const currentTime = Date.now();
@@ -284,6 +309,60 @@ export class EmotionEngine {
     return updatedCharacter;
   }
 
+  /**
+   * 场景情感更新：一条消息之后，在场的其他角色先随时间和对话推进向各自的基线情感回落，
+   * 再被发言者的情感感染，亲近程度越高、反应越敏锐的角色受影响越大
+   * @param speakerId 发言者ID（AI角色ID或玩家参与者ID），发言角色自身不在这里更新
+   * @param getCloseness 听者与发言者的亲近程度 [0, 1]
+   */
+  applySceneEmotionTick(
+    characters: AICharacter[],
+    speakerId: string,
+    speakerEmotion: EmotionalState,
+    getCloseness: (listenerId: string) => number = () => 0
+  ): AICharacter[] {
+    const now = Date.now();
+
+    return characters.map(character => {
+      if (character.id === speakerId) return character;
+
+      const baselineType = character.baselineEmotion || EmotionType.NEUTRAL;
+      const current = character.currentEmotionalState || createDefaultEmotionalState(baselineType);
+      const elapsed = Math.max(0, now - (current.timestamp?.getTime() || now));
+      const decayed = this.applyIdleDecay(this.applyEmotionalDecay(current, elapsed, baselineType), baselineType);
+
+      // 陌生人也会受到少许影响；反应敏锐度 0.5 为标准
+      const closeness = Math.max(0, Math.min(1, getCloseness(character.id)));
+      const reactivity = character.personality?.reactivity ?? 0.5;
+      const weight = speakerEmotion.intensity * (0.3 + 0.7 * closeness) * (0.5 + reactivity);
+      let next = this.applyEmotionalContagion(decayed, [speakerEmotion], [weight]);
+
+      if (
+        next.type !== speakerEmotion.type &&
+        this.config.contagionStrength * weight >= CONTAGION_TYPE_SWITCH_THRESHOLD &&
+        speakerEmotion.intensity >= next.intensity
+      ) {
+        next = {
+          ...next,
+          type: speakerEmotion.type,
+          description: this.getEmotionDescription(speakerEmotion.type),
+          intensity: Math.max(next.intensity, speakerEmotion.intensity * Math.min(1, weight))
+        };
+      } else if (next.type !== baselineType && next.intensity < BASELINE_REVERT_INTENSITY) {
+        next = { ...next, type: baselineType, description: this.getEmotionDescription(baselineType) };
+      }
+      next.valence = Math.min(1, Math.max(-1, next.valence));
+      next.arousal = Math.min(1, Math.max(-1, next.arousal));
+
+      // 情感类型改变时才记入历史，避免每条消息的细微变化挤掉历史记录
+      const emotionalHistory = next.type !== current.type && character.currentEmotionalState
+        ? [...(character.emotionalHistory || []), character.currentEmotionalState].slice(-10)
+        : character.emotionalHistory;
+
+      return { ...character, currentEmotionalState: next, emotionalHistory };
+    });
+  }
+
   /**
    * 直接更新角色的情感状态（用于兼容旧接口）
    */
@@ -316,6 +395,21 @@ export class EmotionEngine {
 
   // 私有辅助方法
 
+  /**
+   * 未发言的角色每经过一条消息，情感强度减弱，效价与唤醒度向基线靠拢
+   */
+  private applyIdleDecay(emotion: EmotionalState, baselineEmotion: EmotionType): EmotionalState {
+    const rate = this.config.idleDecayPerMessage;
+    const baseline = createDefaultEmotionalState(baselineEmotion);
+    return {
+      ...emotion,
+      intensity: emotion.intensity * (1 - rate),
+      valence: emotion.valence + (baseline.valence - emotion.valence) * rate,
+      arousal: emotion.arousal + (baseline.arousal - emotion.arousal) * rate,
+      timestamp: new Date()
+    };
+  }
+
   private analyzeKeywords(text: string): Array<{emotion: EmotionType, score: number, keywords: string[]}> {
     const results: Array<{emotion: EmotionType, score: number, keywords: string[]}> = [];
 
@@ -2,7 +2,28 @@ import { Message } from '../types/message';
 import { AICharacter } from '../types/character';
 import { contextManager, processContextForAI, ContextProcessingResult } from './contextManager';
 import { modelDefaults } from '../data/modelDefaults';
-import { emotionPromptGenerator } from './emotionPromptGenerator';
+import { llmClient, getErrorMessage } from './llmProviders';
+import { LLMMessage } from '../types/llm';
+import { ChapterSummary } from '../types/summary';
+import { applySummariesToContext } from './messageSummarizer';
+import { PricedModel } from '../data/modelPricing';
+import { cleanCharacterReply, getOtherSpeakers } from './promptAssembler';
+import { Lorebook, LorebookActivation } from '../types/lorebook';
+import { activateLorebook, buildLorebookPrompt } from './lorebook';
+import { estimateTokens } from '../utils/tokenCounter';
+import { buildCharacterRequest, CharacterPromptContext } from './characterPrompt';
+import { personaStore } from './persona';
+import { promptPipelineStore } from './promptPipeline';
+
+// Token 使用记录回调，model 用于按模型单价计费
+export type TokenUsageRecorder = (
+  characterId: string,
+  characterName: string,
+  inputTokens: number,
+  outputTokens: number,
+  type: string,
+  model?: PricedModel
+) => void;
 
 // 增强AI响应配置
 export interface EnhancedAIResponseConfig {
@@ -22,6 +43,20 @@ export interface EnhancedAIResponseConfig {
   // 性能配置
   enableCaching: boolean;
   timeout: number;
+  
+  // 流式输出配置
+  stream: boolean;
+  onToken?: (delta: string, fullText: string) => void; // 每收到一段文本时回调
+  signal?: AbortSignal;                                 // 用于中途取消生成
+  
+  // 章节摘要：已被摘要覆盖的消息不再发送原文，改为在系统提示词中注入前情提要
+  summaries?: ChapterSummary[];
+  
+  // 世界设定：扫描最近的对话，把命中触发词的条目注入系统提示词
+  lorebook?: Lorebook;
+  
+  // 渲染提示词模板与管线内容块所需的对话信息，未提供时使用当前玩家角色和完整对话
+  promptContext?: CharacterPromptContext;
 }
 
 // 增强AI响应结果
@@ -37,6 +72,7 @@ export interface EnhancedAIResponseResult {
     processingTime: number;
     strategy: string;
     usedPersonalization: boolean;
+    lorebook?: LorebookActivation; // 本次注入的世界设定条目
   };
   
   // Token使用信息
@@ -57,6 +93,7 @@ export interface EnhancedAIResponseResult {
   // 错误信息
   error?: string;
   fallbackUsed?: boolean;
+  cancelled?: boolean;      // 被用户中途取消，response 为已生成的部分文本
 }
 
 // 默认配置
@@ -69,7 +106,8 @@ const defaultConfig: EnhancedAIResponseConfig = {
   fallbackToOriginal: true,
   fallbackThreshold: 0.5,
   enableCaching: true,
-  timeout: 30000
+  timeout: 30000,
+  stream: false
 };
 
 /**
@@ -78,8 +116,8 @@ const defaultConfig: EnhancedAIResponseConfig = {
 export async function fetchEnhancedAIResponse(
   character: AICharacter,
   messages: Message[],
-  updateTokenUsageFn?: (characterId: string, characterName: string, inputTokens: number, outputTokens: number, type: string) => void,
-  estimateTokensFn?: (text: string) => number,
+  updateTokenUsageFn?: TokenUsageRecorder,
+  estimateTokensFn?: (text: string, modelName?: string) => number,
   config: Partial<EnhancedAIResponseConfig> = {}
 ): Promise<EnhancedAIResponseResult> {
   const startTime = Date.now();
@@ -88,16 +126,18 @@ export async function fetchEnhancedAIResponse(
   try {
     console.log(`🚀 开始增强AI响应 - ${character.name}`);
     
-    // 第一步：上下文处理
-    let processedMessages = messages;
+    // 第一步：上下文处理（先去掉已被章节摘要覆盖的消息）
+    const summaries = finalConfig.summaries || [];
+    const contextMessages = applySummariesToContext(messages, summaries);
+    let processedMessages = contextMessages;
     let contextResult: ContextProcessingResult | null = null;
     
-    if (finalConfig.enableContextPruning && messages.length > 0) {
+    if (finalConfig.enableContextPruning && contextMessages.length > 0) {
       const contextStartTime = Date.now();
       
       try {
         contextResult = await processContextForAI(
-          messages,
+          contextMessages,
           character,
           undefined, // 当前话题可以从消息中推断
           {
@@ -122,22 +162,33 @@ export async function fetchEnhancedAIResponse(
         } else {
           console.warn(`⚠️ 上下文处理失败 - ${character.name}:`, contextResult.error);
           if (finalConfig.fallbackToOriginal) {
-            processedMessages = messages;
+            processedMessages = contextMessages;
           }
         }
       } catch (error) {
         console.error(`❌ 上下文处理异常 - ${character.name}:`, error);
         if (finalConfig.fallbackToOriginal) {
-          processedMessages = messages;
+          processedMessages = contextMessages;
         } else {
           throw error;
         }
       }
     }
     
+    // 世界设定按完整的最近对话扫描，不受上下文裁剪影响
+    const { activation: lorebookActivation, prompt: lorebookPrompt } = resolveLorebook(character, messages, finalConfig, estimateTokensFn);
+    
+    if (lorebookActivation && finalConfig.logContextInfo && (lorebookActivation.injected.length > 0 || lorebookActivation.skipped.length > 0)) {
+      console.log(`📚 世界设定触发 - ${character.name}:`, {
+        注入: lorebookActivation.injected.map(item => `${item.title}（${item.matchedKeyword}）`),
+        超出预算: lorebookActivation.skipped.map(item => item.title),
+        Token: `${lorebookActivation.totalTokens}/${lorebookActivation.tokenBudget || '不限'}`
+      });
+    }
+    
     // 第二步：生成AI响应
     const aiResponseStartTime = Date.now();
-    const aiResult = await generateAIResponse(character, processedMessages, finalConfig);
+    const aiResult = await generateAIResponse(character, processedMessages, finalConfig, estimateTokensFn, lorebookPrompt);
     const aiResponseTime = Date.now() - aiResponseStartTime;
     
     if (!aiResult.success) {
@@ -151,7 +202,12 @@ export async function fetchEnhancedAIResponse(
         character.name,
         aiResult.tokenUsage.promptTokens,
         aiResult.tokenUsage.completionTokens,
-        'enhanced-character'
+        'enhanced-character',
+        {
+          provider: character.modelConfig?.provider,
+          baseUrl: character.modelConfig?.baseUrl || modelDefaults.baseUrl,
+          modelName: character.modelConfig?.modelName || modelDefaults.modelName
+        }
       );
     }
     
@@ -161,13 +217,23 @@ export async function fetchEnhancedAIResponse(
     const result: EnhancedAIResponseResult = {
       success: true,
       response: aiResult.response,
+      cancelled: aiResult.cancelled,
       contextInfo: contextResult ? {
         originalMessageCount: contextResult.originalMessageCount,
         processedMessageCount: contextResult.finalMessageCount,
         tokenReduction: contextResult.tokenReduction,
         processingTime: contextResult.processingTime,
         strategy: contextResult.strategy,
-        usedPersonalization: contextResult.metadata.usedPersonalization
+        usedPersonalization: contextResult.metadata.usedPersonalization,
+        lorebook: lorebookActivation || undefined
+      } : lorebookActivation ? {
+        originalMessageCount: contextMessages.length,
+        processedMessageCount: processedMessages.length,
+        tokenReduction: 0,
+        processingTime: 0,
+        strategy: 'none',
+        usedPersonalization: false,
+        lorebook: lorebookActivation
       } : undefined,
       tokenUsage: aiResult.tokenUsage,
       performanceInfo: {
@@ -191,6 +257,17 @@ export async function fetchEnhancedAIResponse(
     return result;
     
   } catch (error) {
+    // 用户主动取消时不走回退，避免重新发起请求
+    if (finalConfig.signal?.aborted) {
+      console.log(`⏹️ 增强AI响应已取消 - ${character.name}`);
+      return {
+        success: false,
+        response: null,
+        cancelled: true,
+        error: '用户取消了生成'
+      };
+    }
+    
     console.error(`❌ 增强AI响应失败 - ${character.name}:`, error);
     
     // 回退到原始实现
@@ -198,7 +275,7 @@ export async function fetchEnhancedAIResponse(
       console.log(`🔄 回退到原始AI响应 - ${character.name}`);
       
       try {
-        const fallbackResult = await generateOriginalAIResponse(character, messages, estimateTokensFn, updateTokenUsageFn);
+        const fallbackResult = await generateOriginalAIResponse(character, messages, finalConfig, estimateTokensFn, updateTokenUsageFn);
         
         return {
           success: true,
@@ -211,13 +288,13 @@ export async function fetchEnhancedAIResponse(
           },
           tokenUsage: fallbackResult.tokenUsage,
           fallbackUsed: true,
-          error: `增强响应失败，使用回退: ${error}`
+          error: `增强响应失败，使用回退: ${getErrorMessage(error)}`
         };
       } catch (fallbackError) {
         return {
           success: false,
           response: null,
-          error: `增强响应和回退都失败: ${error}, ${fallbackError}`,
+          error: `增强响应和回退都失败: ${getErrorMessage(error)}, ${getErrorMessage(fallbackError)}`,
           performanceInfo: {
             totalTime: Date.now() - startTime,
             contextProcessingTime: 0,
@@ -230,7 +307,7 @@ export async function fetchEnhancedAIResponse(
       return {
         success: false,
         response: null,
-        error: error instanceof Error ? error.message : String(error),
+        error: getErrorMessage(error),
         performanceInfo: {
           totalTime: Date.now() - startTime,
           contextProcessingTime: 0,
@@ -242,13 +319,67 @@ export async function fetchEnhancedAIResponse(
   }
 }
 
+/**
+ * 按完整的最近对话触发世界设定
+ */
+function resolveLorebook(
+  character: AICharacter,
+  messages: Message[],
+  config: EnhancedAIResponseConfig,
+  estimateTokensFn?: (text: string, modelName?: string) => number
+): { activation: LorebookActivation | null; prompt: string } {
+  if (!config.lorebook) {
+    return { activation: null, prompt: '' };
+  }
+  const modelName = character.modelConfig?.modelName || modelDefaults.modelName;
+  const activation = activateLorebook(config.lorebook, messages, text => (estimateTokensFn || estimateTokens)(text, modelName));
+  return { activation, prompt: buildLorebookPrompt(config.lorebook, activation) };
+}
+
+/**
+ * 按提示词管线预设组装角色请求（角色设定、玩家角色、情感、前情提要、世界设定等内容块），
+ * 并记录到请求检查器；正常路径与回退路径共用，检查器里看到的就是实际发送的内容
+ */
+function buildInspectedCharacterRequest(
+  character: AICharacter,
+  messages: Message[],
+  config: EnhancedAIResponseConfig,
+  modelName: string,
+  estimateTokensFn?: (text: string, modelName?: string) => number,
+  lorebookPrompt: string = ''
+): LLMMessage[] {
+  const preset = promptPipelineStore.getActivePreset();
+  const request = buildCharacterRequest(
+    character,
+    config.promptContext || { messages, persona: personaStore.getActivePersona() },
+    {
+      history: messages,
+      preset,
+      summaries: config.summaries || [],
+      lorebookPrompt,
+      estimate: text => (estimateTokensFn || estimateTokens)(text, modelName)
+    }
+  );
+  promptPipelineStore.recordInspection({
+    characterName: character.name,
+    presetName: preset.name,
+    modelName,
+    blocks: request.blocks,
+    messages: request.messages,
+    totalTokens: request.totalTokens
+  });
+  return request.messages;
+}
+
 /**
  * 生成AI响应
  */
 async function generateAIResponse(
   character: AICharacter,
   messages: Message[],
-  config: EnhancedAIResponseConfig
+  config: EnhancedAIResponseConfig,
+  estimateTokensFn?: (text: string, modelName?: string) => number,
+  lorebookPrompt: string = ''
 ): Promise<{
   success: boolean;
   response: string | null;
@@ -258,10 +389,12 @@ async function generateAIResponse(
     totalTokens: number;
   };
   error?: string;
+  cancelled?: boolean;
 }> {
   const modelConfig = {
+    provider: character.modelConfig?.provider,
     baseUrl: character.modelConfig?.baseUrl || modelDefaults.baseUrl,
-    apiKey: character.modelConfig?.apiKey || modelDefaults.apiKey,
+    apiKeyAlias: character.modelConfig?.apiKeyAlias || modelDefaults.apiKeyAlias,
     modelName: character.modelConfig?.modelName || modelDefaults.modelName,
     prompt: character.modelConfig?.prompt || '',
     temperature: character.modelConfig?.temperature ?? 0.7,
@@ -271,89 +404,53 @@ async function generateAIResponse(
     presencePenalty: character.modelConfig?.presencePenalty ?? 0.0,
   };
   
-  if (!modelConfig.baseUrl || !modelConfig.apiKey || !modelConfig.modelName) {
+  if (!llmClient.isConfigured(modelConfig)) {
     throw new Error('模型配置不完整');
   }
   
-  // 构建情感增强的系统提示词
-  let systemPrompt = modelConfig.prompt || '';
-  const emotionPrompt = emotionPromptGenerator.generateFullEmotionPrompt(character);
-  if (emotionPrompt) {
-    systemPrompt += emotionPrompt;
-  }
+  const requestMessages = buildInspectedCharacterRequest(character, messages, config, modelConfig.modelName, estimateTokensFn, lorebookPrompt);
+  const otherSpeakers = getOtherSpeakers(messages, character.name);
+  const onToken = config.onToken;
   
-  // 构建请求消息
-  const requestMessages = [
-    ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
-    ...messages.map(m => ({
-      role: m.isPlayer ? 'user' : 'assistant',
-      content: m.text || ''
-    }))
-  ];
+  const result = await llmClient.complete(modelConfig, { messages: requestMessages }, {
+    stream: config.stream,
+    onToken: onToken && ((delta, fullText) => onToken(delta, cleanCharacterReply(fullText, character.name, otherSpeakers))),
+    signal: config.signal,
+    timeout: config.timeout,
+    logContext: { category: 'character', source: '角色发言', characterName: character.name }
+  });
   
-  const requestBody = {
-    model: modelConfig.modelName,
-    messages: requestMessages,
-    temperature: modelConfig.temperature,
-    max_tokens: modelConfig.maxTokens,
-    top_p: modelConfig.topP,
-    frequency_penalty: modelConfig.frequencyPenalty,
-    presence_penalty: modelConfig.presencePenalty,
-  };
+  if (!result.aborted && !result.text) {
+    throw new Error('API返回内容为空');
+  }
+  const responseText = cleanCharacterReply(result.text, character.name, otherSpeakers);
   
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), config.timeout);
-    
-    const response = await fetch(modelConfig.baseUrl + '/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${modelConfig.apiKey}`,
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      throw new Error(`API请求失败: ${response.status} ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    const responseContent = data.choices?.[0]?.message?.content;
-    
-    if (!responseContent) {
-      throw new Error('API返回内容为空');
-    }
-    
-    return {
-      success: true,
-      response: responseContent,
-      tokenUsage: data.usage ? {
-        promptTokens: data.usage.prompt_tokens || 0,
-        completionTokens: data.usage.completion_tokens || 0,
-        totalTokens: data.usage.total_tokens || 0
-      } : undefined
-    };
-    
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error(`请求超时 (${config.timeout}ms)`);
-    }
-    throw error;
+  // 部分接口（尤其是流式响应）不一定带usage，缺失时按文本估算
+  let tokenUsage = result.usage;
+  if (!tokenUsage && estimateTokensFn && result.text) {
+    const promptTokens = estimateTokensFn(requestMessages.map(m => m.content).join(' '), modelConfig.modelName);
+    const completionTokens = estimateTokensFn(result.text, modelConfig.modelName);
+    tokenUsage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
   }
+  
+  return {
+    success: true,
+    response: responseText,
+    tokenUsage,
+    cancelled: result.aborted
+  };
 }
 
 /**
  * 原始AI响应实现（回退用）
+ * 不做上下文裁剪、不流式输出，提示词与正常路径一样按管线预设组装
  */
 async function generateOriginalAIResponse(
   character: AICharacter,
   messages: Message[],
-  estimateTokensFn?: (text: string) => number,
-  updateTokenUsageFn?: (characterId: string, characterName: string, inputTokens: number, outputTokens: number, type: string) => void
+  responseConfig: EnhancedAIResponseConfig,
+  estimateTokensFn?: (text: string, modelName?: string) => number,
+  updateTokenUsageFn?: TokenUsageRecorder
 ): Promise<{
   response: string | null;
   responseTime: number;
@@ -366,8 +463,9 @@ async function generateOriginalAIResponse(
   const startTime = Date.now();
   
   const config = {
+    provider: character.modelConfig?.provider,
     baseUrl: character.modelConfig?.baseUrl || modelDefaults.baseUrl,
-    apiKey: character.modelConfig?.apiKey || modelDefaults.apiKey,
+    apiKeyAlias: character.modelConfig?.apiKeyAlias || modelDefaults.apiKeyAlias,
     modelName: character.modelConfig?.modelName || modelDefaults.modelName,
     prompt: character.modelConfig?.prompt || '',
     temperature: character.modelConfig?.temperature ?? 0.7,
@@ -377,66 +475,34 @@ async function generateOriginalAIResponse(
     presencePenalty: character.modelConfig?.presencePenalty ?? 0.0,
   };
   
-  if (!config.baseUrl || !config.apiKey || !config.modelName) {
+  if (!llmClient.isConfigured(config)) {
     throw new Error('模型配置不完整');
   }
   
-  // 构建情感增强的系统提示词
-  let systemPrompt = config.prompt || '';
-  const emotionPrompt = emotionPromptGenerator.generateFullEmotionPrompt(character);
-  if (emotionPrompt) {
-    systemPrompt += emotionPrompt;
-  }
-  
-  const requestMessages = [
-    ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
-    ...messages.map(m => ({ 
-      role: m.isPlayer ? 'user' : 'assistant', 
-              content: m.text || '' 
-    }))
-  ];
+  const contextMessages = applySummariesToContext(messages, responseConfig.summaries || []);
+  const { prompt: lorebookPrompt } = resolveLorebook(character, messages, responseConfig, estimateTokensFn);
+  const requestMessages = buildInspectedCharacterRequest(character, contextMessages, responseConfig, config.modelName, estimateTokensFn, lorebookPrompt);
   
-  const requestBody = {
-    model: config.modelName,
-    messages: requestMessages,
-    temperature: config.temperature,
-    max_tokens: config.maxTokens,
-    top_p: config.topP,
-    frequency_penalty: config.frequencyPenalty,
-    presence_penalty: config.presencePenalty,
-  };
-
-  const res = await fetch(config.baseUrl + '/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.apiKey}`,
-    },
-    body: JSON.stringify(requestBody),
+  const result = await llmClient.complete(config, { messages: requestMessages }, {
+    logContext: { category: 'character', source: '角色发言（回退）', characterName: character.name }
   });
-  
-  if (!res.ok) {
-    throw new Error(`API请求失败: ${res.status}`);
-  }
-  
-  const data = await res.json();
-  const responseContent = data.choices?.[0]?.message?.content || null;
+  const responseContent = cleanCharacterReply(result.text || '', character.name, getOtherSpeakers(messages, character.name)) || null;
   
   const responseTime = Date.now() - startTime;
   
   // 记录Token使用
   let tokenUsage;
   if (responseContent && updateTokenUsageFn && estimateTokensFn) {
-    let inputTokens = data.usage?.prompt_tokens;
-    let outputTokens = data.usage?.completion_tokens;
+    let inputTokens = result.usage?.promptTokens;
+    let outputTokens = result.usage?.completionTokens;
     
     if (!inputTokens || !outputTokens) {
-      const inputText = requestMessages.map(m => m.text || '').join(' ');
-      inputTokens = estimateTokensFn(inputText);
-      outputTokens = estimateTokensFn(responseContent);
+      const inputText = requestMessages.map(m => m.content).join(' ');
+      inputTokens = estimateTokensFn(inputText, config.modelName);
+      outputTokens = estimateTokensFn(responseContent, config.modelName);
     }
     
-    updateTokenUsageFn(character.id, character.name, inputTokens, outputTokens, 'fallback-character');
+    updateTokenUsageFn(character.id, character.name, inputTokens, outputTokens, 'fallback-character', config);
     
     tokenUsage = {
       promptTokens: inputTokens,
@@ -1,4 +1,6 @@
 import { Logger } from './logger';
+import { keyVault } from './keyVault';
+import { isMockLLMEnabled } from '../data/modelDefaults';
 import { ErrorHandler } from './errorHandler';
 import { ErrorType, ErrorSeverity, HealthStatus } from '../types/error';
 
@@ -236,14 +238,8 @@ class HealthCheckerClass {
     const start = Date.now();
     
     try {
-      // 检查是否有配置的API密钥
-      const apiKeys = {
-        openai: localStorage.getItem('openai_api_key'),
-        anthropic: localStorage.getItem('anthropic_api_key'),
-        gemini: localStorage.getItem('gemini_api_key')
-      };
-
-      const hasValidKey = Object.values(apiKeys).some(key => key && key.length > 0);
+      // 检查密钥库中是否有配置的API密钥（模拟模式不需要密钥）
+      const hasValidKey = isMockLLMEnabled || keyVault.listAliases().length > 0;
       
       if (!hasValidKey) {
         return { success: false };
@@ -0,0 +1,346 @@
+/**
+ * 本地密钥库
+ * API Key 使用 WebCrypto（PBKDF2 派生 + AES-GCM）加密后保存在 localStorage，
+ * 模型配置中只保存密钥别名，解锁后密钥仅保存在内存中
+ */
+
+import { LLMProviderType } from '../types/llm';
+
+const VAULT_STORAGE_KEY = 'tavern_key_vault';
+const PBKDF2_ITERATIONS = 250000;
+const VERIFY_PLAINTEXT = 'tavern-tales-key-vault';
+const REDACTED = '[已隐藏]';
+
+// 旧版本以明文保存在 localStorage 中的密钥
+const LEGACY_KEY_ENTRIES: { storageKey: string; alias: string; provider: LLMProviderType }[] = [
+  { storageKey: 'openai_api_key', alias: 'openai', provider: 'openai' },
+  { storageKey: 'anthropic_api_key', alias: 'anthropic', provider: 'anthropic' },
+  { storageKey: 'gemini_api_key', alias: 'gemini', provider: 'gemini' }
+];
+
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+interface StoredKeyEntry extends EncryptedValue {
+  provider?: LLMProviderType;
+  hint: string;            // 密钥末尾几位，便于在界面上区分
+  createdAt: string;
+}
+
+interface StoredVault {
+  version: 1;
+  salt: string;
+  verifier: EncryptedValue;
+  entries: Record<string, StoredKeyEntry>;
+}
+
+export type KeyVaultStatus = 'uninitialized' | 'locked' | 'unlocked';
+
+// 可公开展示的密钥信息（不含密钥本身）
+export interface KeyAliasInfo {
+  alias: string;
+  provider?: LLMProviderType;
+  hint: string;
+  createdAt: Date;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+function maskHint(apiKey: string): string {
+  return apiKey.length > 8 ? `…${apiKey.slice(-4)}` : '…';
+}
+
+/**
+ * 密钥库
+ */
+class KeyVaultClass {
+  private cryptoKey: CryptoKey | null = null;
+  private secrets = new Map<string, string>();
+  private listeners = new Set<() => void>();
+
+  /**
+   * 当前状态：未创建 / 已锁定 / 已解锁
+   */
+  getStatus(): KeyVaultStatus {
+    if (!this.readVault()) return 'uninitialized';
+    return this.cryptoKey ? 'unlocked' : 'locked';
+  }
+
+  isUnlocked(): boolean {
+    return this.cryptoKey !== null;
+  }
+
+  /**
+   * 订阅状态变化，返回取消订阅函数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 使用口令创建新的密钥库
+   */
+  async initialize(passphrase: string): Promise<void> {
+    if (this.readVault()) {
+      throw new Error('密钥库已存在');
+    }
+    if (passphrase.length < 6) {
+      throw new Error('口令至少需要6个字符');
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const cryptoKey = await this.deriveKey(passphrase, salt);
+    const vault: StoredVault = {
+      version: 1,
+      salt: toBase64(salt),
+      verifier: await this.encrypt(cryptoKey, VERIFY_PLAINTEXT),
+      entries: {}
+    };
+
+    this.writeVault(vault);
+    this.cryptoKey = cryptoKey;
+    this.secrets.clear();
+    console.log('🔐 密钥库已创建');
+    await this.migrateLegacyKeys();
+    this.notify();
+  }
+
+  /**
+   * 用口令解锁密钥库，口令错误时返回 false
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const vault = this.readVault();
+    if (!vault) return false;
+
+    const cryptoKey = await this.deriveKey(passphrase, fromBase64(vault.salt));
+    try {
+      const check = await this.decrypt(cryptoKey, vault.verifier);
+      if (check !== VERIFY_PLAINTEXT) return false;
+    } catch {
+      console.warn('⚠️ 密钥库口令错误');
+      return false;
+    }
+
+    const secrets = new Map<string, string>();
+    for (const [alias, entry] of Object.entries(vault.entries)) {
+      try {
+        secrets.set(alias, await this.decrypt(cryptoKey, entry));
+      } catch {
+        console.warn(`⚠️ 无法解密密钥: ${alias}`);
+      }
+    }
+
+    this.cryptoKey = cryptoKey;
+    this.secrets = secrets;
+    console.log(`🔓 密钥库已解锁，共 ${secrets.size} 个密钥`);
+    await this.migrateLegacyKeys();
+    this.notify();
+    return true;
+  }
+
+  /**
+   * 锁定密钥库并清除内存中的密钥
+   */
+  lock(): void {
+    this.cryptoKey = null;
+    this.secrets.clear();
+    console.log('🔒 密钥库已锁定');
+    this.notify();
+  }
+
+  /**
+   * 删除整个密钥库（忘记口令时使用）
+   */
+  reset(): void {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    this.lock();
+  }
+
+  /**
+   * 保存（或覆盖）一个密钥
+   */
+  async setKey(alias: string, apiKey: string, provider?: LLMProviderType): Promise<void> {
+    const vault = this.readVault();
+    if (!vault || !this.cryptoKey) {
+      throw new Error('密钥库未解锁');
+    }
+    const trimmedAlias = alias.trim();
+    if (!trimmedAlias) {
+      throw new Error('密钥别名不能为空');
+    }
+
+    vault.entries[trimmedAlias] = {
+      ...(await this.encrypt(this.cryptoKey, apiKey)),
+      provider,
+      hint: maskHint(apiKey),
+      createdAt: new Date().toISOString()
+    };
+    this.writeVault(vault);
+    this.secrets.set(trimmedAlias, apiKey);
+    console.log(`🔑 已保存密钥: ${trimmedAlias}`);
+    this.notify();
+  }
+
+  removeKey(alias: string): void {
+    const vault = this.readVault();
+    if (!vault || !vault.entries[alias]) return;
+
+    delete vault.entries[alias];
+    this.writeVault(vault);
+    this.secrets.delete(alias);
+    console.log(`🗑️ 已删除密钥: ${alias}`);
+    this.notify();
+  }
+
+  /**
+   * 读取已解锁的密钥，未解锁或不存在时返回 undefined
+   */
+  getKey(alias?: string): string | undefined {
+    return alias ? this.secrets.get(alias) : undefined;
+  }
+
+  hasAlias(alias?: string): boolean {
+    return !!alias && !!this.readVault()?.entries[alias];
+  }
+
+  /**
+   * 列出所有密钥别名（锁定状态下也可查看）
+   */
+  listAliases(): KeyAliasInfo[] {
+    const vault = this.readVault();
+    if (!vault) return [];
+    return Object.entries(vault.entries).map(([alias, entry]) => ({
+      alias,
+      provider: entry.provider,
+      hint: entry.hint,
+      createdAt: new Date(entry.createdAt)
+    }));
+  }
+
+  /**
+   * 隐藏文本中出现的密钥（已解锁的密钥原文，以及常见格式的密钥）
+   */
+  redact(text: string): string {
+    let result = text;
+    for (const secret of this.secrets.values()) {
+      if (secret.length >= 8) {
+        result = result.split(secret).join(REDACTED);
+      }
+    }
+    return result
+      .replace(/\b(sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, REDACTED)
+      .replace(/\bAIza[0-9A-Za-z_-]{20,}/g, REDACTED)
+      .replace(/(Bearer\s+)[A-Za-z0-9._-]{16,}/gi, `$1${REDACTED}`);
+  }
+
+  /**
+   * 递归隐藏对象中的密钥：apiKey 字段直接移除，其余字符串做文本替换
+   */
+  redactValue<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.redact(value) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item)) as unknown as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date) && !(value instanceof Error)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        if (/^(api_?key|authorization|x-api-key|x-goog-api-key)$/i.test(key)) {
+          result[key] = item ? REDACTED : item;
+        } else {
+          result[key] = this.redactValue(item);
+        }
+      }
+      return result as T;
+    }
+    return value;
+  }
+
+  /**
+   * 把旧版本明文保存的密钥迁移进密钥库并删除明文
+   */
+  private async migrateLegacyKeys(): Promise<void> {
+    for (const legacy of LEGACY_KEY_ENTRIES) {
+      const plaintext = localStorage.getItem(legacy.storageKey);
+      if (!plaintext) continue;
+
+      if (!this.hasAlias(legacy.alias)) {
+        await this.setKey(legacy.alias, plaintext, legacy.provider);
+      }
+      localStorage.removeItem(legacy.storageKey);
+      console.log(`🔁 已将明文密钥 ${legacy.storageKey} 迁移到密钥库`);
+    }
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private async encrypt(cryptoKey: CryptoKey, plaintext: string): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      cryptoKey,
+      new TextEncoder().encode(plaintext)
+    );
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+
+  private async decrypt(cryptoKey: CryptoKey, value: EncryptedValue): Promise<string> {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(value.iv) },
+      cryptoKey,
+      fromBase64(value.data)
+    );
+    return new TextDecoder().decode(data);
+  }
+
+  private readVault(): StoredVault | null {
+    try {
+      const raw = localStorage.getItem(VAULT_STORAGE_KEY);
+      return raw ? JSON.parse(raw) as StoredVault : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeVault(vault: StoredVault): void {
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const keyVault = new KeyVaultClass();
@@ -0,0 +1,192 @@
+/**
+ * LLM 调用日志
+ * llmClient 的每次调用都会记录在这里：用途分类、角色、完整请求、原始响应、耗时、用量、重试与错误，
+ * 供调用日志面板筛选、对比、导出和重发。日志只保存在内存中。
+ */
+
+import { ModelConfig } from '../types/tavern';
+import { LLMCallLogContext, LLMProviderType, LLMRequest, LLMResponse } from '../types/llm';
+import { LLMCallFilter, LLMCallRecord, LLMCallRetry } from '../types/llmCallLog';
+import { estimateTokens } from '../utils/tokenCounter';
+
+const MAX_RECORDS = 200;
+
+// 未标注来源的调用
+const UNTAGGED_CONTEXT: LLMCallLogContext = { category: 'system', source: '未标注' };
+
+export const LLM_CALL_CATEGORY_LABELS: Record<LLMCallLogContext['category'], string> = {
+  character: '角色',
+  system: '系统',
+  player: '玩家',
+  analysis: '分析'
+};
+
+export const LLM_CALL_STATUS_LABELS: Record<LLMCallRecord['status'], string> = {
+  pending: '进行中',
+  success: '成功',
+  error: '失败',
+  cancelled: '已取消'
+};
+
+export const defaultLLMCallFilter: LLMCallFilter = { category: 'all', status: 'all', query: '' };
+
+/**
+ * 按分类、状态和关键字筛选调用记录
+ */
+export function filterCallRecords(records: LLMCallRecord[], filter: LLMCallFilter): LLMCallRecord[] {
+  const query = filter.query.trim().toLowerCase();
+  return records.filter(record => {
+    if (filter.category !== 'all' && record.category !== filter.category) return false;
+    if (filter.status !== 'all' && record.status !== filter.status) return false;
+    if (!query) return true;
+    const haystack = [
+      record.source,
+      record.characterName,
+      record.model,
+      record.error,
+      record.response,
+      ...record.request.messages.map(message => message.content)
+    ].filter(Boolean).join('\n').toLowerCase();
+    return haystack.includes(query);
+  });
+}
+
+/**
+ * 把调用格式化为便于逐行对比的文本
+ */
+export function formatCallForDiff(record: LLMCallRecord): string {
+  const { messages, ...params } = record.request;
+  const lines = [
+    `# ${record.source}${record.characterName ? ` - ${record.characterName}` : ''}`,
+    `模型：${record.provider} / ${record.model}`,
+    `参数：${JSON.stringify(params)}`,
+    ...messages.flatMap(message => [`[${message.role}]`, ...message.content.split('\n')]),
+    '[response]',
+    ...(record.response || record.error || '').split('\n')
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * 导出调用记录为 JSON 文本
+ */
+export function exportCallRecords(records: LLMCallRecord[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), calls: records }, null, 2);
+}
+
+/**
+ * 调用日志存储
+ */
+class LLMCallLogClass {
+  private records: LLMCallRecord[] = [];
+  private listeners = new Set<() => void>();
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getRecords(): LLMCallRecord[] {
+    return [...this.records];
+  }
+
+  getRecord(id: string): LLMCallRecord | undefined {
+    return this.records.find(record => record.id === id);
+  }
+
+  /**
+   * 开始记录一次调用，返回记录 ID
+   */
+  startCall(
+    config: ModelConfig,
+    request: LLMRequest,
+    details: { provider: LLMProviderType; stream: boolean; context?: LLMCallLogContext }
+  ): string {
+    const record: LLMCallRecord = {
+      ...(details.context || UNTAGGED_CONTEXT),
+      id: crypto.randomUUID(),
+      status: 'pending',
+      startedAt: new Date(),
+      provider: details.provider,
+      model: config.modelName || '',
+      stream: details.stream,
+      config: { ...config },
+      request: { ...request, messages: request.messages.map(message => ({ ...message })) },
+      usageEstimated: false,
+      retries: []
+    };
+    this.records = [record, ...this.records].slice(0, MAX_RECORDS);
+    this.notify();
+    return record.id;
+  }
+
+  /**
+   * 记录调用结果；接口没有返回用量时按请求与响应文本估算
+   */
+  finishCall(id: string, response: LLMResponse): void {
+    this.update(id, record => {
+      const usage = response.usage || this.estimateUsage(record, response.text);
+      return {
+        ...record,
+        status: response.aborted ? 'cancelled' : 'success',
+        latencyMs: Date.now() - record.startedAt.getTime(),
+        response: response.text,
+        stopReason: response.stopReason,
+        usage,
+        usageEstimated: !response.usage
+      };
+    });
+  }
+
+  failCall(id: string, error: string, statusCode?: number): void {
+    this.update(id, record => ({
+      ...record,
+      status: 'error',
+      latencyMs: Date.now() - record.startedAt.getTime(),
+      error,
+      statusCode
+    }));
+  }
+
+  /**
+   * 记录一次失败后的重试（由 LLMClient 在请求阶段重试时上报）
+   */
+  recordRetry(id: string, retry: Omit<LLMCallRetry, 'timestamp'>): void {
+    this.update(id, record => ({
+      ...record,
+      retries: [...record.retries, { ...retry, timestamp: new Date() }]
+    }));
+  }
+
+  clear(): void {
+    this.records = [];
+    this.notify();
+  }
+
+  private estimateUsage(record: LLMCallRecord, responseText: string) {
+    const promptTokens = estimateTokens(record.request.messages.map(message => message.content).join('\n'), record.model);
+    const completionTokens = responseText ? estimateTokens(responseText, record.model) : 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private update(id: string, updater: (record: LLMCallRecord) => LLMCallRecord): void {
+    let changed = false;
+    this.records = this.records.map(record => {
+      if (record.id !== id) return record;
+      changed = true;
+      return updater(record);
+    });
+    if (changed) {
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const llmCallLog = new LLMCallLogClass();
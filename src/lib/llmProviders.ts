@@ -0,0 +1,746 @@
+/**
+ * LLM 提供方抽象层
+ * 为 OpenAI 兼容接口、Anthropic Messages、Gemini、Ollama 以及离线模拟后端提供统一的调用方式，
+ * 并将用量、停止原因和错误统一为应用内的格式
+ */
+
+import { ModelConfig } from '../types/tavern';
+import {
+  LLMProviderType,
+  LLMProviderAdapter,
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMUsage,
+  LLMCallOptions,
+  LLMStreamDelta
+} from '../types/llm';
+import { APIError, ErrorType, ErrorSeverity } from '../types/error';
+import { ErrorHandler } from './errorHandler';
+import { Logger } from './logger';
+import { readStreamEvents, isAbortError } from './sseStream';
+import { mockLLMBackend, MOCK_BASE_URL } from './mockLLM';
+import { keyVault } from './keyVault';
+import { budgetManager } from './budgetManager';
+import { llmCallLog } from './llmCallLog';
+
+type JsonRecord = Record<string, unknown>;
+
+// 可重试的 HTTP 状态码（与 APIErrorHandler 保持一致）
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+// 请求阶段（收到响应之前）可重试错误的最多重试次数与退避时间
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 8000;
+
+function asRecord(value: unknown): JsonRecord {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as JsonRecord : {};
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function asText(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * 去掉 undefined 字段，避免向不支持的接口发送空参数
+ */
+function compact(body: JsonRecord): JsonRecord {
+  return Object.fromEntries(Object.entries(body).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * 拆出系统提示词，并合并相邻的同角色消息
+ * Anthropic / Gemini 要求 user 与 assistant 交替出现，且第一条必须是 user
+ */
+function splitSystemAndAlternate(messages: LLMMessage[]): { system: string; turns: LLMMessage[] } {
+  const system = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  const turns: LLMMessage[] = [];
+  for (const message of messages) {
+    if (message.role === 'system' || !message.content) continue;
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  if (turns.length === 0 || turns[0].role !== 'user') {
+    turns.unshift({ role: 'user', content: '（对话开始）' });
+  }
+
+  return { system, turns };
+}
+
+const JSON_ONLY_INSTRUCTION = '只返回JSON，不要其他内容。';
+
+/**
+ * 通用的错误消息提取：{ error: { message } } / { error: "..." } / { message }
+ */
+function extractCommonErrorMessage(data: unknown): string | undefined {
+  const record = asRecord(data);
+  const error = record.error;
+  if (typeof error === 'string') return error;
+  return asText(asRecord(error).message) || asText(record.message);
+}
+
+// OpenAI 兼容接口（OpenAI、DeepSeek、OpenRouter、vLLM 等）
+const openAIAdapter: LLMProviderAdapter = {
+  type: 'openai',
+  label: 'OpenAI 兼容',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+
+  buildRequest(config, request, stream) {
+    return {
+      url: `${config.baseUrl}/chat/completions`,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+      },
+      body: compact({
+        model: config.modelName,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+        frequency_penalty: request.frequencyPenalty,
+        presence_penalty: request.presencePenalty,
+        response_format: request.jsonMode ? { type: 'json_object' } : undefined,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      })
+    };
+  },
+
+  parseResponse(data) {
+    const choice = asRecord((data.choices as unknown[] | undefined)?.[0]);
+    const usage = asRecord(data.usage);
+    return {
+      text: asText(asRecord(choice.message).content) || '',
+      rawStopReason: asText(choice.finish_reason),
+      usage: data.usage ? {
+        promptTokens: asNumber(usage.prompt_tokens),
+        completionTokens: asNumber(usage.completion_tokens),
+        totalTokens: asNumber(usage.total_tokens)
+      } : undefined
+    };
+  },
+
+  parseStreamChunk(data) {
+    const choice = asRecord((data.choices as unknown[] | undefined)?.[0]);
+    const usage = asRecord(data.usage);
+    return {
+      text: asText(asRecord(choice.delta).content),
+      rawStopReason: asText(choice.finish_reason),
+      usage: data.usage ? {
+        promptTokens: asNumber(usage.prompt_tokens),
+        completionTokens: asNumber(usage.completion_tokens),
+        totalTokens: asNumber(usage.total_tokens)
+      } : undefined
+    };
+  },
+
+  normalizeStopReason(raw) {
+    if (raw === 'stop') return 'stop';
+    if (raw === 'length') return 'length';
+    if (raw === 'content_filter') return 'content_filter';
+    return raw ? 'unknown' : 'stop';
+  },
+
+  extractErrorMessage: extractCommonErrorMessage
+};
+
+// Anthropic Messages API
+const anthropicAdapter: LLMProviderAdapter = {
+  type: 'anthropic',
+  label: 'Anthropic',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+
+  buildRequest(config, request, stream) {
+    const { system, turns } = splitSystemAndAlternate(request.messages);
+    const systemPrompt = request.jsonMode ? `${system}\n\n${JSON_ONLY_INSTRUCTION}`.trim() : system;
+
+    return {
+      url: `${config.baseUrl}/messages`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey || '',
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: compact({
+        model: config.modelName,
+        system: systemPrompt || undefined,
+        messages: turns,
+        max_tokens: request.maxTokens ?? 1024,
+        temperature: request.temperature,
+        top_p: request.topP,
+        stream: stream || undefined
+      })
+    };
+  },
+
+  parseResponse(data) {
+    const blocks = Array.isArray(data.content) ? data.content as unknown[] : [];
+    const usage = asRecord(data.usage);
+    return {
+      text: blocks
+        .map(block => asRecord(block))
+        .filter(block => block.type === 'text')
+        .map(block => asText(block.text) || '')
+        .join(''),
+      rawStopReason: asText(data.stop_reason),
+      usage: {
+        promptTokens: asNumber(usage.input_tokens),
+        completionTokens: asNumber(usage.output_tokens)
+      }
+    };
+  },
+
+  parseStreamChunk(data) {
+    switch (data.type) {
+      case 'message_start': {
+        const usage = asRecord(asRecord(data.message).usage);
+        return { usage: { promptTokens: asNumber(usage.input_tokens) } };
+      }
+      case 'content_block_delta':
+        return { text: asText(asRecord(data.delta).text) };
+      case 'message_delta': {
+        const usage = asRecord(data.usage);
+        return {
+          rawStopReason: asText(asRecord(data.delta).stop_reason),
+          usage: { completionTokens: asNumber(usage.output_tokens) }
+        };
+      }
+      case 'message_stop':
+        return { done: true };
+      case 'error':
+        throw new Error(extractCommonErrorMessage(data) || 'Anthropic 流式响应出错');
+      default:
+        return {};
+    }
+  },
+
+  normalizeStopReason(raw) {
+    if (raw === 'end_turn' || raw === 'stop_sequence') return 'stop';
+    if (raw === 'max_tokens') return 'length';
+    if (raw === 'refusal') return 'content_filter';
+    return raw ? 'unknown' : 'stop';
+  },
+
+  extractErrorMessage: extractCommonErrorMessage
+};
+
+/**
+ * Gemini 的响应与流式数据块结构相同
+ */
+function parseGeminiPayload(data: JsonRecord): LLMStreamDelta {
+  const candidate = asRecord((data.candidates as unknown[] | undefined)?.[0]);
+  const parts = asRecord(candidate.content).parts;
+  const usage = asRecord(data.usageMetadata);
+  return {
+    text: Array.isArray(parts)
+      ? parts.map(part => asText(asRecord(part).text) || '').join('')
+      : undefined,
+    rawStopReason: asText(candidate.finishReason),
+    usage: data.usageMetadata ? {
+      promptTokens: asNumber(usage.promptTokenCount),
+      completionTokens: asNumber(usage.candidatesTokenCount),
+      totalTokens: asNumber(usage.totalTokenCount)
+    } : undefined
+  };
+}
+
+// Google Gemini（generateContent）
+const geminiAdapter: LLMProviderAdapter = {
+  type: 'gemini',
+  label: 'Google Gemini',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+
+  buildRequest(config, request, stream) {
+    const { system, turns } = splitSystemAndAlternate(request.messages);
+    const action = stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+
+    return {
+      url: `${config.baseUrl}/models/${encodeURIComponent(config.modelName)}:${action}`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': config.apiKey || ''
+      },
+      body: compact({
+        contents: turns.map(turn => ({
+          role: turn.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: turn.content }]
+        })),
+        systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+        generationConfig: compact({
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          topP: request.topP,
+          responseMimeType: request.jsonMode ? 'application/json' : undefined
+        })
+      })
+    };
+  },
+
+  parseResponse: parseGeminiPayload,
+  parseStreamChunk: parseGeminiPayload,
+
+  normalizeStopReason(raw) {
+    if (raw === 'STOP') return 'stop';
+    if (raw === 'MAX_TOKENS') return 'length';
+    if (raw === 'SAFETY' || raw === 'RECITATION' || raw === 'BLOCKLIST' || raw === 'PROHIBITED_CONTENT') {
+      return 'content_filter';
+    }
+    return raw ? 'unknown' : 'stop';
+  },
+
+  extractErrorMessage: extractCommonErrorMessage
+};
+
+/**
+ * Ollama 的响应与 NDJSON 流式数据块结构相同
+ */
+function parseOllamaPayload(data: JsonRecord): LLMStreamDelta {
+  return {
+    text: asText(asRecord(data.message).content),
+    rawStopReason: asText(data.done_reason),
+    done: data.done === true,
+    usage: data.done === true ? {
+      promptTokens: asNumber(data.prompt_eval_count),
+      completionTokens: asNumber(data.eval_count)
+    } : undefined
+  };
+}
+
+// Ollama 等本地服务（/api/chat）
+const ollamaAdapter: LLMProviderAdapter = {
+  type: 'ollama',
+  label: 'Ollama 本地模型',
+  requiresApiKey: false,
+  streamFormat: 'ndjson',
+  defaultBaseUrl: 'http://localhost:11434',
+
+  buildRequest(config, request, stream) {
+    // 兼容填写了 OpenAI 兼容地址（.../v1）的情况
+    const baseUrl = config.baseUrl.replace(/\/v1$/, '');
+    return {
+      url: `${baseUrl}/api/chat`,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+      },
+      body: compact({
+        model: config.modelName,
+        messages: request.messages,
+        stream,
+        format: request.jsonMode ? 'json' : undefined,
+        options: compact({
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+          top_p: request.topP,
+          frequency_penalty: request.frequencyPenalty,
+          presence_penalty: request.presencePenalty
+        })
+      })
+    };
+  },
+
+  parseResponse: parseOllamaPayload,
+  parseStreamChunk: parseOllamaPayload,
+
+  normalizeStopReason(raw) {
+    if (raw === 'stop') return 'stop';
+    if (raw === 'length') return 'length';
+    return raw ? 'unknown' : 'stop';
+  },
+
+  extractErrorMessage: extractCommonErrorMessage
+};
+
+// 离线模拟后端：请求格式与 OpenAI 兼容接口相同，但在本地应答
+const mockAdapter: LLMProviderAdapter = {
+  ...openAIAdapter,
+  type: 'mock',
+  label: '本地模拟（离线）',
+  requiresApiKey: false,
+  defaultBaseUrl: MOCK_BASE_URL,
+  transport: (url, init) => mockLLMBackend.handle(url, init)
+};
+
+// 所有可用的提供方适配器
+export const LLM_PROVIDERS: Record<LLMProviderType, LLMProviderAdapter> = {
+  openai: openAIAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+  ollama: ollamaAdapter,
+  mock: mockAdapter
+};
+
+/**
+ * 确定模型配置使用的提供方
+ * 未显式指定时根据 baseUrl 推断，默认按 OpenAI 兼容接口处理
+ */
+export function resolveProviderType(config: Pick<ModelConfig, 'provider' | 'baseUrl'>): LLMProviderType {
+  if (config.provider && LLM_PROVIDERS[config.provider]) {
+    return config.provider;
+  }
+
+  const baseUrl = (config.baseUrl || '').toLowerCase();
+  if (baseUrl.startsWith('mock://')) return 'mock';
+  if (baseUrl.includes('anthropic.com')) return 'anthropic';
+  if (baseUrl.includes('generativelanguage.googleapis.com')) return 'gemini';
+  if (baseUrl.includes(':11434')) return 'ollama';
+  return 'openai';
+}
+
+export function getProviderAdapter(config: Pick<ModelConfig, 'provider' | 'baseUrl'>): LLMProviderAdapter {
+  return LLM_PROVIDERS[resolveProviderType(config)];
+}
+
+/**
+ * 判断一个错误是否为统一后的 APIError
+ */
+export function isAPIError(error: unknown): error is APIError {
+  return !!error && typeof error === 'object' && (error as APIError).type === ErrorType.API_ERROR;
+}
+
+/**
+ * 取出任意错误的可读消息（APIError 是普通对象，不能直接字符串化）
+ */
+export function getErrorMessage(error: unknown): string {
+  if (isAPIError(error) || error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
+
+/**
+ * 创建统一的 APIError
+ */
+function createAPIError(
+  message: string,
+  provider: LLMProviderType,
+  details: { statusCode?: number; endpoint?: string; retryable: boolean; originalError?: unknown }
+): APIError {
+  // 4xx 多为配置问题，5xx 与网络错误影响更大
+  const severity = details.statusCode && details.statusCode < 500
+    ? ErrorSeverity.MEDIUM
+    : ErrorSeverity.HIGH;
+
+  const error = ErrorHandler.createError(
+    ErrorType.API_ERROR,
+    severity,
+    message,
+    details.originalError,
+    `LLMClient:${provider}`
+  ) as APIError;
+
+  error.statusCode = details.statusCode;
+  error.endpoint = details.endpoint;
+  error.retryable = details.retryable;
+  return error;
+}
+
+/**
+ * 等待重试的退避时间，调用方取消时提前结束
+ */
+function waitForRetry(delayMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, delayMs);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done);
+  });
+}
+
+/**
+ * 补全部分用量字段
+ */
+function finalizeUsage(usage: Partial<LLMUsage>): LLMUsage | undefined {
+  if (usage.promptTokens === undefined && usage.completionTokens === undefined) {
+    return undefined;
+  }
+  const promptTokens = usage.promptTokens || 0;
+  const completionTokens = usage.completionTokens || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.totalTokens || promptTokens + completionTokens
+  };
+}
+
+/**
+ * 请求未指定的生成参数使用 ModelConfig 中的值
+ */
+function resolveRequestParams(config: ModelConfig, request: LLMRequest): LLMRequest {
+  return {
+    ...request,
+    temperature: request.temperature ?? config.temperature,
+    maxTokens: request.maxTokens ?? config.maxTokens,
+    topP: request.topP ?? config.topP,
+    frequencyPenalty: request.frequencyPenalty ?? config.frequencyPenalty,
+    presencePenalty: request.presencePenalty ?? config.presencePenalty
+  };
+}
+
+function mergeUsage(target: Partial<LLMUsage>, delta?: Partial<LLMUsage>): void {
+  if (!delta) return;
+  for (const [key, value] of Object.entries(delta) as [keyof LLMUsage, number | undefined][]) {
+    if (value !== undefined) target[key] = value;
+  }
+}
+
+/**
+ * LLM 调用客户端
+ */
+class LLMClientClass {
+  /**
+   * 检查模型配置是否足以发起请求
+   */
+  isConfigured(config?: ModelConfig): boolean {
+    if (!config?.modelName) return false;
+    const adapter = getProviderAdapter(config);
+    return !adapter.requiresApiKey || keyVault.hasAlias(config.apiKeyAlias);
+  }
+
+  /**
+   * 发起一次对话补全
+   * 请求参数未指定时使用 ModelConfig 中的生成参数；失败或超出硬预算时抛出 APIError
+   * 被调用方取消时不抛错，返回 aborted: true 和已收到的部分文本
+   * 每次调用（包括被预算或密钥库拦下的）都会写入调用日志
+   * 连接失败和可重试的状态码（429、5xx 等）按指数退避重试，重试记录在同一条调用日志下
+   */
+  async complete(config: ModelConfig, request: LLMRequest, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const resolvedRequest = resolveRequestParams(config, request);
+    const callId = llmCallLog.startCall(config, resolvedRequest, {
+      provider: getProviderAdapter(config).type,
+      stream: options.stream ?? false,
+      context: options.logContext
+    });
+
+    try {
+      const response = await this.execute(config, resolvedRequest, options, callId);
+      llmCallLog.finishCall(callId, response);
+      return response;
+    } catch (error) {
+      llmCallLog.failCall(callId, getErrorMessage(error), isAPIError(error) ? error.statusCode : undefined);
+      throw error;
+    }
+  }
+
+  private async execute(config: ModelConfig, request: LLMRequest, options: LLMCallOptions, callId: string): Promise<LLMResponse> {
+    const adapter = getProviderAdapter(config);
+    const provider = adapter.type;
+    const model = config.modelName || '';
+    const stream = options.stream ?? false;
+
+    if (!this.isConfigured(config)) {
+      throw createAPIError('模型配置不完整', provider, { retryable: false });
+    }
+
+    const budget = budgetManager.getStatus();
+    if (budget.level === 'hard') {
+      throw createAPIError(budget.reason || '已达到预算上限', provider, { retryable: false });
+    }
+
+    // 密钥只在发请求前从密钥库读取，不随配置传递
+    const apiKey = keyVault.getKey(config.apiKeyAlias);
+    if (adapter.requiresApiKey && !apiKey) {
+      throw createAPIError('密钥库未解锁，请先解锁密钥库', provider, { retryable: false });
+    }
+
+    const baseUrl = (config.baseUrl || adapter.defaultBaseUrl).replace(/\/+$/, '');
+    const httpRequest = adapter.buildRequest({ baseUrl, apiKey, modelName: model }, request, stream);
+    const endpoint = httpRequest.url.split('?')[0];
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const abortFromCaller = () => controller.abort();
+    options.signal?.addEventListener('abort', abortFromCaller);
+    // 超时按每次请求计算：流式请求只等到响应开始，非流式请求等到读完响应体；重试的退避时间不计入
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const armTimeout = () => {
+      if (!options.timeout) return;
+      timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, options.timeout);
+    };
+    const clearRequestTimeout = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      timeoutId = undefined;
+    };
+
+    let text = '';
+    let rawStopReason: string | undefined;
+    const usage: Partial<LLMUsage> = {};
+
+    const buildResult = (aborted: boolean): LLMResponse => ({
+      text,
+      usage: finalizeUsage(usage),
+      stopReason: aborted ? 'cancelled' : adapter.normalizeStopReason(rawStopReason),
+      rawStopReason,
+      aborted,
+      provider,
+      model
+    });
+
+    const applyDelta = (delta: LLMStreamDelta) => {
+      if (delta.text) {
+        text += delta.text;
+        options.onToken?.(delta.text, text);
+      }
+      if (delta.rawStopReason) rawStopReason = delta.rawStopReason;
+      mergeUsage(usage, delta.usage);
+    };
+
+    try {
+      const init: RequestInit = {
+        method: 'POST',
+        headers: httpRequest.headers,
+        body: JSON.stringify(httpRequest.body),
+        signal: controller.signal
+      };
+      // 只重试收到响应之前的失败，流式输出开始后不再重发，避免重复的 onToken
+      let response: Response | undefined;
+      for (let attempt = 0; !response; attempt++) {
+        armTimeout();
+        try {
+          response = await this.sendRequest(adapter, httpRequest.url, init, endpoint);
+        } catch (error) {
+          clearRequestTimeout();
+          if (!isAPIError(error) || !error.retryable || attempt >= MAX_RETRIES || controller.signal.aborted) {
+            throw error;
+          }
+          const delayMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+          llmCallLog.recordRetry(callId, { attempt: attempt + 1, error: error.message, statusCode: error.statusCode, delayMs });
+          Logger.warn(`${adapter.label} 请求失败，${delayMs}ms 后重试 (${attempt + 1}/${MAX_RETRIES})`, { error: error.message }, 'LLMClient');
+          await waitForRetry(delayMs, controller.signal);
+          if (controller.signal.aborted) {
+            throw new DOMException('请求已取消', 'AbortError');
+          }
+        }
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (stream && response.body && !contentType.includes('application/json')) {
+        // 流式输出已经开始，长回复不受请求超时限制，用户仍可随时取消
+        clearRequestTimeout();
+        const { aborted } = await readStreamEvents(response, adapter.streamFormat, data => {
+          if (data.trim() === '[DONE]') return true;
+          let chunk: JsonRecord;
+          try {
+            chunk = asRecord(JSON.parse(data));
+          } catch {
+            console.warn('⚠️ 无法解析的流式数据块，已跳过:', data);
+            return false;
+          }
+          const delta = adapter.parseStreamChunk(chunk);
+          applyDelta(delta);
+          return delta.done === true;
+        }, controller.signal);
+
+        if (aborted) {
+          return buildResult(true);
+        }
+      } else {
+        applyDelta(adapter.parseResponse(asRecord(await response.json())));
+      }
+
+      Logger.debug(`${adapter.label} 请求完成`, { model, stopReason: rawStopReason, usage }, 'LLMClient');
+      return buildResult(false);
+    } catch (error) {
+      if (isAPIError(error)) {
+        throw error;
+      }
+      if (isAbortError(error) || controller.signal.aborted) {
+        if (timedOut) {
+          throw createAPIError(`${adapter.label} 请求超时 (${options.timeout}ms)`, provider, {
+            endpoint,
+            retryable: true,
+            originalError: error
+          });
+        }
+        return buildResult(true);
+      }
+      if (error instanceof TypeError) {
+        throw createAPIError(`无法连接到 ${adapter.label} 服务: ${error.message}`, provider, {
+          endpoint,
+          retryable: true,
+          originalError: error
+        });
+      }
+      throw createAPIError(
+        `${adapter.label} 响应处理失败: ${error instanceof Error ? error.message : String(error)}`,
+        provider,
+        { endpoint, retryable: false, originalError: error }
+      );
+    } finally {
+      clearRequestTimeout();
+      options.signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /**
+   * 发出一次 HTTP 请求；非 2xx 响应和连接失败转换为 APIError，取消等其他错误原样抛出
+   */
+  private async sendRequest(
+    adapter: LLMProviderAdapter,
+    url: string,
+    init: RequestInit,
+    endpoint: string
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = adapter.transport
+        ? await adapter.transport(url, init)
+        : await fetch(url, init);
+    } catch (error) {
+      if (error instanceof TypeError) {
+        throw createAPIError(`无法连接到 ${adapter.label} 服务: ${error.message}`, adapter.type, {
+          endpoint,
+          retryable: true,
+          originalError: error
+        });
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      const bodyText = await response.text().catch(() => '');
+      let detail: string | undefined;
+      try {
+        detail = adapter.extractErrorMessage(JSON.parse(bodyText));
+      } catch {
+        detail = bodyText.slice(0, 200) || undefined;
+      }
+      throw createAPIError(
+        `${adapter.label} 请求失败 (${response.status})${detail ? `: ${detail}` : ''}`,
+        adapter.type,
+        { statusCode: response.status, endpoint, retryable: RETRYABLE_STATUS_CODES.includes(response.status) }
+      );
+    }
+    return response;
+  }
+}
+
+// 导出单例实例
+export const llmClient = new LLMClientClass();
@@ -1,4 +1,5 @@
 import { ErrorType, ErrorSeverity, BaseError } from '../types/error';
+import { keyVault } from './keyVault';
 
 // 日志级别
 export enum LogLevel {
@@ -96,11 +97,12 @@ class LoggerClass {
       return;
     }
 
+    // 日志会输出到控制台并持久化，先隐藏其中的 API Key
     const entry: LogEntry = {
       level,
-      message,
+      message: keyVault.redact(message),
       timestamp: new Date(),
-      data,
+      data: keyVault.redactValue(data),
       error,
       context
     };
@@ -0,0 +1,318 @@
+/**
+ * 世界设定（Lorebook）
+ * 保存长篇剧情中的地点、势力、物品等设定，请求时扫描最近的对话，
+ * 只把被触发词命中的条目按优先级在 token 预算内注入系统提示词。
+ * 条目与配置保存在 localStorage 中，所有会话共用。
+ */
+
+import { Message } from '../types/tavern';
+import {
+  Lorebook,
+  LorebookActivation,
+  LorebookEntry,
+  LorebookEntryActivation,
+  LorebookMatchType,
+  LorebookSettings,
+  defaultLorebookSettings
+} from '../types/lorebook';
+import { ChineseTextProcessor } from '../utils/chineseTextProcessor';
+import { stripOocSegments } from './messageMarkup';
+
+const STORAGE_KEY = 'tavern_lorebook';
+
+// 中文分词模糊匹配时从对话中提取的关键词数量
+const SEGMENTATION_KEYWORD_LIMIT = 20;
+
+const REGEX_KEYWORD_PATTERN = /^\/(.+)\/([a-z]*)$/;
+const CJK_PATTERN = /[\u3400-\u9fff]/;
+
+export type LorebookEntryDraft = Omit<LorebookEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const defaultLorebookEntryDraft: LorebookEntryDraft = {
+  title: '',
+  keywords: [],
+  content: '',
+  priority: 10,
+  scanDepth: 6,
+  enabled: true
+};
+
+let textProcessor: ChineseTextProcessor | null = null;
+
+function getTextProcessor(): ChineseTextProcessor {
+  if (!textProcessor) {
+    textProcessor = new ChineseTextProcessor();
+  }
+  return textProcessor;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 把触发词编译为正则：/pattern/flags 按正则处理，中文关键词按子串匹配，
+ * 其他关键词按整词匹配并忽略大小写。正则写法无效时返回 null
+ */
+export function compileKeyword(keyword: string): { pattern: RegExp; type: LorebookMatchType } | null {
+  const trimmed = keyword.trim();
+  if (!trimmed) return null;
+
+  const regexMatch = trimmed.match(REGEX_KEYWORD_PATTERN);
+  if (regexMatch) {
+    try {
+      // 去掉 g / y，避免 test() 受 lastIndex 影响
+      return { pattern: new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, '')), type: 'regex' };
+    } catch {
+      return null;
+    }
+  }
+
+  const escaped = escapeRegExp(trimmed);
+  const source = CJK_PATTERN.test(trimmed) ? escaped : `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`;
+  return { pattern: new RegExp(source, 'iu'), type: 'keyword' };
+}
+
+/**
+ * 校验触发词，返回错误说明，没有问题时返回 null
+ */
+export function validateKeyword(keyword: string): string | null {
+  return compileKeyword(keyword) ? null : `无效的正则表达式：${keyword}`;
+}
+
+/**
+ * 把编辑框中的触发词拆成列表（逗号、顿号或换行分隔，正则中的逗号不拆）
+ */
+export function parseKeywordInput(input: string): string[] {
+  return input
+    .split(/\n/)
+    .flatMap(line => (REGEX_KEYWORD_PATTERN.test(line.trim()) ? [line] : line.split(/[,，、]/)))
+    .map(keyword => keyword.trim())
+    .filter(keyword => keyword.length > 0);
+}
+
+// 条目扫描的文本：最近 scanDepth 条消息，去掉场外发言
+function getScanText(messages: Message[], scanDepth: number): string {
+  return messages
+    .slice(-Math.max(1, scanDepth))
+    .map(message => stripOocSegments(message.text))
+    .join('\n');
+}
+
+/**
+ * 在最近的对话中查找条目的触发词，返回第一个命中的触发词
+ */
+export function matchLorebookEntry(
+  entry: LorebookEntry,
+  scanText: string,
+  segmentedKeywords: string[] = []
+): { keyword: string; type: LorebookMatchType } | null {
+  if (!scanText) return null;
+
+  for (const keyword of entry.keywords) {
+    const compiled = compileKeyword(keyword);
+    if (compiled?.pattern.test(scanText)) {
+      return { keyword: keyword.trim(), type: compiled.type };
+    }
+  }
+
+  // 中文分词模糊匹配：触发词包含对话中提取出的中文关键词，例如「暗影兄弟会」命中提到「兄弟会」的对话
+  for (const keyword of entry.keywords) {
+    const trimmed = keyword.trim();
+    if (trimmed.length < 2 || REGEX_KEYWORD_PATTERN.test(trimmed)) continue;
+    const word = segmentedKeywords.find(candidate =>
+      candidate.length >= 2 && CJK_PATTERN.test(candidate) && trimmed.includes(candidate)
+    );
+    if (word) {
+      return { keyword: `${trimmed}（${word}）`, type: 'segmentation' };
+    }
+  }
+
+  return null;
+}
+
+export function formatLorebookEntry(entry: LorebookEntry): string {
+  return `【${entry.title || '未命名设定'}】${entry.content.trim()}`;
+}
+
+/**
+ * 计算本次请求要注入的设定：按优先级排序，超出 token 预算的条目跳过
+ */
+export function activateLorebook(
+  lorebook: Lorebook,
+  messages: Message[],
+  estimateTokensFn: (text: string) => number
+): LorebookActivation {
+  const { entries, settings } = lorebook;
+  const activation: LorebookActivation = { injected: [], skipped: [], totalTokens: 0, tokenBudget: settings.tokenBudget };
+  if (!settings.enabled || messages.length === 0) return activation;
+
+  // 相同扫描深度的条目共用扫描文本和分词结果
+  const scanCache = new Map<number, { text: string; segmentedKeywords: string[] }>();
+  const getScan = (scanDepth: number) => {
+    let scan = scanCache.get(scanDepth);
+    if (!scan) {
+      const text = getScanText(messages, scanDepth);
+      const segmentedKeywords = settings.useChineseSegmentation && text
+        ? getTextProcessor().extractKeywords(text, SEGMENTATION_KEYWORD_LIMIT).map(keyword => keyword.word)
+        : [];
+      scan = { text, segmentedKeywords };
+      scanCache.set(scanDepth, scan);
+    }
+    return scan;
+  };
+
+  const triggered: Array<{ entry: LorebookEntry; activation: LorebookEntryActivation }> = [];
+  for (const entry of entries) {
+    if (!entry.enabled || !entry.content.trim()) continue;
+    const scan = getScan(entry.scanDepth);
+    const match = matchLorebookEntry(entry, scan.text, scan.segmentedKeywords);
+    if (!match) continue;
+
+    triggered.push({
+      entry,
+      activation: {
+        entryId: entry.id,
+        title: entry.title,
+        matchedKeyword: match.keyword,
+        matchType: match.type,
+        priority: entry.priority,
+        tokens: estimateTokensFn(formatLorebookEntry(entry))
+      }
+    });
+  }
+
+  // 优先级相同时保持条目顺序（sort 是稳定排序）
+  triggered.sort((a, b) => b.entry.priority - a.entry.priority);
+
+  for (const { activation: entryActivation } of triggered) {
+    const withinBudget = settings.tokenBudget <= 0 || activation.totalTokens + entryActivation.tokens <= settings.tokenBudget;
+    if (withinBudget) {
+      activation.injected.push(entryActivation);
+      activation.totalTokens += entryActivation.tokens;
+    } else {
+      activation.skipped.push(entryActivation);
+    }
+  }
+
+  return activation;
+}
+
+/**
+ * 生成注入系统提示词的设定段落，没有触发的条目时返回空字符串
+ */
+export function buildLorebookPrompt(lorebook: Lorebook, activation: LorebookActivation): string {
+  if (activation.injected.length === 0) return '';
+
+  const entryById = new Map(lorebook.entries.map(entry => [entry.id, entry]));
+  const lines = activation.injected
+    .map(item => entryById.get(item.entryId))
+    .filter((entry): entry is LorebookEntry => !!entry)
+    .map(formatLorebookEntry);
+
+  return `【世界设定】以下是与当前对话相关的设定，回复时须与之保持一致，不要照搬原文：\n${lines.join('\n')}`;
+}
+
+// 最近一次注入记录，供编辑器展示
+export interface LorebookActivationRecord {
+  characterName: string;
+  activation: LorebookActivation;
+  timestamp: Date;
+}
+
+/**
+ * 世界设定存储
+ */
+class LorebookStoreClass {
+  private entries: LorebookEntry[];
+  private settings: LorebookSettings;
+  private lastActivation: LorebookActivationRecord | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    const stored = this.load();
+    this.entries = stored.entries;
+    this.settings = stored.settings;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getLorebook(): Lorebook {
+    return { entries: [...this.entries], settings: { ...this.settings } };
+  }
+
+  getLastActivation(): LorebookActivationRecord | null {
+    return this.lastActivation;
+  }
+
+  addEntry(draft: LorebookEntryDraft): LorebookEntry {
+    const now = new Date();
+    const entry: LorebookEntry = { ...draft, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    this.entries = [...this.entries, entry];
+    this.save();
+    return entry;
+  }
+
+  updateEntry(id: string, changes: Partial<LorebookEntryDraft>): void {
+    this.entries = this.entries.map(entry =>
+      entry.id === id ? { ...entry, ...changes, updatedAt: new Date() } : entry
+    );
+    this.save();
+  }
+
+  removeEntry(id: string): void {
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    this.save();
+  }
+
+  updateSettings(changes: Partial<LorebookSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+    this.save();
+  }
+
+  /**
+   * 记录最近一次请求触发的设定
+   */
+  recordActivation(characterName: string, activation: LorebookActivation): void {
+    this.lastActivation = { characterName, activation, timestamp: new Date() };
+    this.notify();
+  }
+
+  private load(): Lorebook {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw) return { entries: [], settings: { ...defaultLorebookSettings } };
+
+      const parsed = JSON.parse(raw) as Partial<Lorebook>;
+      return {
+        entries: (parsed.entries || []).map(entry => ({
+          ...defaultLorebookEntryDraft,
+          ...entry,
+          createdAt: new Date(entry.createdAt),
+          updatedAt: new Date(entry.updatedAt)
+        })),
+        settings: { ...defaultLorebookSettings, ...parsed.settings }
+      };
+    } catch (error) {
+      console.warn('⚠️ 世界设定读取失败，使用空设定:', error);
+      return { entries: [], settings: { ...defaultLorebookSettings } };
+    }
+  }
+
+  private save(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ entries: this.entries, settings: this.settings }));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const lorebookStore = new LorebookStoreClass();
@@ -0,0 +1,147 @@
+/**
+ * 消息候选与分支操作
+ * 角色回复可以重新生成出多个候选（swipe），在候选之间切换、编辑消息或从某条消息起删除后，
+ * 发言角色和受感染的其他角色的情感状态、发言历史都以当前选中的内容为准
+ */
+
+import { Message, MessageAlternate, AICharacter } from '../types/tavern';
+import { EmotionalState } from '../types/emotion';
+
+// 发言历史保留的最近发言次数，与自动对话中的记录保持一致
+const SPEAKER_HISTORY_LIMIT = 20;
+
+/**
+ * 返回消息的全部候选，旧消息没有候选时把当前内容视为唯一候选
+ */
+export function getAlternates(message: Message): MessageAlternate[] {
+  if (message.alternates && message.alternates.length > 0) {
+    return message.alternates;
+  }
+  return [{ text: message.text, timestamp: message.timestamp, emotionAnalysisResult: message.emotionAnalysisResult }];
+}
+
+export function getActiveAlternateIndex(message: Message): number {
+  const count = getAlternates(message).length;
+  return Math.min(Math.max(message.activeAlternate ?? count - 1, 0), count - 1);
+}
+
+/**
+ * 切换到指定候选，text 与情感分析结果随之更新
+ */
+export function selectAlternate(message: Message, index: number): Message {
+  const alternates = getAlternates(message);
+  const target = alternates[index];
+  if (!target) return message;
+
+  return {
+    ...message,
+    alternates,
+    activeAlternate: index,
+    text: target.text,
+    emotionAnalysisResult: target.emotionAnalysisResult
+  };
+}
+
+/**
+ * 追加一个新候选并选中它
+ */
+export function appendAlternate(message: Message, alternate: MessageAlternate): Message {
+  const alternates = [...getAlternates(message), alternate];
+  return selectAlternate({ ...message, alternates }, alternates.length - 1);
+}
+
+/**
+ * 编辑消息内容，角色回复同时改写当前选中的候选
+ */
+export function editMessageText(message: Message, changes: Omit<MessageAlternate, 'timestamp'>): Message {
+  const edited: Message = {
+    ...message,
+    text: changes.text,
+    emotionAnalysisResult: changes.emotionAnalysisResult ?? message.emotionAnalysisResult,
+    isEdited: true
+  };
+  if (message.isPlayer) return edited;
+
+  const alternates = getAlternates(message);
+  const activeIndex = getActiveAlternateIndex(message);
+  return {
+    ...edited,
+    alternates: alternates.map((alternate, index) =>
+      index === activeIndex ? { ...alternate, ...changes } : alternate
+    ),
+    activeAlternate: activeIndex
+  };
+}
+
+/**
+ * 当前选中候选对应的发言角色情感状态
+ */
+export function getActiveSpeakerEmotion(message: Message): EmotionalState | undefined {
+  return getAlternates(message)[getActiveAlternateIndex(message)]?.speakerEmotion;
+}
+
+/**
+ * 当前选中候选对应的在场各角色情感状态
+ */
+export function getActiveCastEmotions(message: Message): Record<string, EmotionalState> | undefined {
+  return getAlternates(message)[getActiveAlternateIndex(message)]?.castEmotions;
+}
+
+/**
+ * 记录在场各角色（按名称）的当前情感状态
+ */
+export function captureCastEmotions(characters: AICharacter[]): Record<string, EmotionalState> {
+  const emotions: Record<string, EmotionalState> = {};
+  characters.forEach(character => {
+    if (character.currentEmotionalState) {
+      emotions[character.name] = character.currentEmotionalState;
+    }
+  });
+  return emotions;
+}
+
+/**
+ * 把记录的情感状态写回角色，记录中没有的角色保持不变
+ */
+export function applyCastEmotions(characters: AICharacter[], emotions: Record<string, EmotionalState>): AICharacter[] {
+  return characters.map(character =>
+    emotions[character.name] ? { ...character, currentEmotionalState: emotions[character.name] } : character
+  );
+}
+
+/**
+ * 从指定消息（含）起截断对话
+ */
+export function truncateMessagesFrom(messages: Message[], messageId: string): { kept: Message[]; removed: Message[] } {
+  const index = messages.findIndex(message => message.id === messageId);
+  if (index < 0) return { kept: messages, removed: [] };
+  return { kept: messages.slice(0, index), removed: messages.slice(index) };
+}
+
+/**
+ * 被删除的消息发生之前各角色的情感状态（取每个角色最早一条被删除消息记录的状态），
+ * 在场角色快照覆盖受感染的听者，旧消息只有发言角色自己的状态
+ */
+export function getEmotionsBeforeRemoval(removed: Message[]): Map<string, EmotionalState> {
+  const restored = new Map<string, EmotionalState>();
+  removed.forEach(message => {
+    Object.entries(message.castEmotionsBefore || {}).forEach(([name, emotion]) => {
+      if (!restored.has(name)) restored.set(name, emotion);
+    });
+    if (!message.isPlayer && message.emotionBefore && !restored.has(message.sender)) {
+      restored.set(message.sender, message.emotionBefore);
+    }
+  });
+  return restored;
+}
+
+/**
+ * 按对话记录重建发言历史（角色 ID 列表）
+ */
+export function rebuildSpeakerHistory(messages: Message[], characters: AICharacter[]): string[] {
+  const idByName = new Map(characters.map(character => [character.name, character.id]));
+  return messages
+    .filter(message => !message.isPlayer && idByName.has(message.sender))
+    .map(message => idByName.get(message.sender) as string)
+    .slice(-SPEAKER_HISTORY_LIMIT);
+}
@@ -0,0 +1,223 @@
+/**
+ * 消息文本标记解析
+ * 把角色扮演回复拆成不同类型的片段：*动作*、引号中的台词、(OOC: ...) 场外发言和叙述，
+ * 再解析其中的 Markdown 块与行内格式。解析结果只包含纯文本，由界面组件渲染为元素，不会输出原始 HTML。
+ */
+
+// 角色扮演片段类型
+export type MessageSegmentType = 'text' | 'speech' | 'action' | 'ooc' | 'narration';
+
+export interface MessageSegment {
+  type: MessageSegmentType;
+  text: string; // 动作与 OOC 不含标记符号，台词保留引号
+}
+
+// Markdown 块
+export type MessageBlock =
+  | { type: 'paragraph' | 'quote'; text: string }
+  | { type: 'heading'; text: string; level: number }
+  | { type: 'list-item'; text: string; ordered: boolean; marker: string }
+  | { type: 'code'; text: string; language?: string };
+
+// Markdown 行内格式
+export type InlineToken =
+  | { type: 'text' | 'bold' | 'italic' | 'strike' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+// 依次匹配：((OOC))、(OOC: ...)、[OOC: ...]、*动作*（排除 **粗体**）、"台词"、“台词”、「台词」
+const SEGMENT_PATTERN = new RegExp(
+  [
+    '\\(\\(([\\s\\S]+?)\\)\\)',
+    '[(（]\\s*OOC\\s*[:：]([\\s\\S]*?)[)）]',
+    '\\[\\s*OOC\\s*[:：]([\\s\\S]*?)\\]',
+    '(?<!\\*)\\*(?!\\*)([^*\\n]+?)(?<!\\*)\\*(?!\\*)',
+    '("[^"\\n]+"|“[^”]+”|「[^」]+」)'
+  ].join('|'),
+  'gi'
+);
+
+// 依次匹配：**粗体**、__粗体__、~~删除线~~、`代码`、[链接](地址)、_斜体_
+const INLINE_PATTERN = /\*\*([^*]+?)\*\*|__([^_]+?)__|~~([^~]+?)~~|`([^`\n]+?)`|\[([^\]\n]+)\]\(([^)\s]+)\)|(?<![\w])_([^_\n]+?)_(?![\w])/g;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-+*]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*(\d+)[.)]\s+(.*)$/;
+const CODE_FENCE_PATTERN = /^```\s*([\w-]*)\s*$/;
+
+/**
+ * 拆分角色扮演片段
+ * 回复中有引号台词时，台词之外的普通文本视为叙述
+ */
+export function parseMessageSegments(text: string): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  SEGMENT_PATTERN.lastIndex = 0;
+  while ((match = SEGMENT_PATTERN.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+
+    const [, doubleParenOoc, parenOoc, bracketOoc, action, speech] = match;
+    if (action !== undefined) {
+      segments.push({ type: 'action', text: action });
+    } else if (speech !== undefined) {
+      segments.push({ type: 'speech', text: speech });
+    } else {
+      segments.push({ type: 'ooc', text: (doubleParenOoc ?? parenOoc ?? bracketOoc ?? '').trim() });
+    }
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  if (segments.some(segment => segment.type === 'speech')) {
+    return segments.map(segment =>
+      segment.type === 'text' && segment.text.trim() ? { ...segment, type: 'narration' } : segment
+    );
+  }
+  return segments;
+}
+
+/**
+ * 去掉场外发言，供发言人选择、情感分析等只关心剧情内容的模块使用
+ */
+export function stripOocSegments(text: string): string {
+  if (!text) return '';
+  return parseMessageSegments(text)
+    .filter(segment => segment.type !== 'ooc')
+    .map(segment => (segment.type === 'action' ? `*${segment.text}*` : segment.text))
+    .join('')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 解析 Markdown 块：代码块、标题、引用、列表项与普通段落
+ */
+export function parseMessageBlocks(text: string): MessageBlock[] {
+  const blocks: MessageBlock[] = [];
+  const lines = text.split('\n');
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+  const flushQuote = () => {
+    if (quote.length > 0) {
+      blocks.push({ type: 'quote', text: quote.join('\n') });
+      quote = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(CODE_FENCE_PATTERN);
+    if (fence) {
+      flushParagraph();
+      flushQuote();
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !CODE_FENCE_PATTERN.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', text: codeLines.join('\n'), language: fence[1] || undefined });
+      continue;
+    }
+
+    const quoteLine = line.match(QUOTE_PATTERN);
+    if (quoteLine) {
+      flushParagraph();
+      quote.push(quoteLine[1]);
+      continue;
+    }
+    flushQuote();
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', text: heading[2], level: heading[1].length });
+      continue;
+    }
+
+    const orderedItem = line.match(ORDERED_ITEM_PATTERN);
+    if (orderedItem) {
+      flushParagraph();
+      blocks.push({ type: 'list-item', text: orderedItem[2], ordered: true, marker: `${orderedItem[1]}.` });
+      continue;
+    }
+
+    const unorderedItem = line.match(UNORDERED_ITEM_PATTERN);
+    if (unorderedItem) {
+      flushParagraph();
+      blocks.push({ type: 'list-item', text: unorderedItem[1], ordered: false, marker: '•' });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  flushQuote();
+  return blocks;
+}
+
+/**
+ * 解析行内格式，不安全的链接降级为普通文本
+ */
+export function parseInlineMarkdown(text: string): InlineToken[] {
+  const tokens: InlineToken[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  INLINE_PATTERN.lastIndex = 0;
+  while ((match = INLINE_PATTERN.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      tokens.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+
+    const [raw, bold, underscoreBold, strike, code, linkText, linkUrl, italic] = match;
+    if (bold !== undefined || underscoreBold !== undefined) {
+      tokens.push({ type: 'bold', text: bold ?? underscoreBold });
+    } else if (strike !== undefined) {
+      tokens.push({ type: 'strike', text: strike });
+    } else if (code !== undefined) {
+      tokens.push({ type: 'code', text: code });
+    } else if (linkText !== undefined) {
+      const href = sanitizeLinkUrl(linkUrl);
+      tokens.push(href ? { type: 'link', text: linkText, href } : { type: 'text', text: raw });
+    } else {
+      tokens.push({ type: 'italic', text: italic });
+    }
+    lastIndex = match.index + raw.length;
+  }
+
+  if (lastIndex < text.length) {
+    tokens.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return tokens;
+}
+
+/**
+ * 只允许 http(s) 与 mailto 链接，拒绝 javascript: 等其他协议
+ */
+export function sanitizeLinkUrl(url: string): string | null {
+  const trimmed = url.trim();
+  return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+}
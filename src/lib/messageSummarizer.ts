@@ -0,0 +1,159 @@
+/**
+ * 对话章节摘要
+ * 对话较长时把较早的消息压缩为"章节摘要"，在生成回复时作为前情提要注入，
+ * 原文只保留最近的若干条消息
+ */
+
+import { Message, ModelConfig } from '../types/tavern';
+import { LLMUsage } from '../types/llm';
+import { ChapterSummary, SummaryConfig } from '../types/summary';
+import { llmClient } from './llmProviders';
+import { safeParseValidatedJSON } from '../utils/jsonUtils';
+
+// 单次生成的摘要内容
+export interface GeneratedSummary {
+  title: string;
+  content: string;
+  usage?: LLMUsage;
+}
+
+function formatTranscript(messages: Message[]): string {
+  return messages.map(message => `${message.sender}：${message.text}`).join('\n');
+}
+
+/**
+ * 返回尚未被任何章节覆盖的消息
+ * 最后一个章节的结束消息已不在列表中时（例如消息被删除），视为全部未覆盖
+ */
+export function getUnsummarizedMessages(messages: Message[], summaries: ChapterSummary[]): Message[] {
+  const lastSummary = summaries[summaries.length - 1];
+  if (!lastSummary) return messages;
+
+  const endIndex = messages.findIndex(message => message.id === lastSummary.endMessageId);
+  return endIndex >= 0 ? messages.slice(endIndex + 1) : messages;
+}
+
+function getSummaryCandidates(messages: Message[], summaries: ChapterSummary[], config: SummaryConfig): Message[] {
+  const pending = getUnsummarizedMessages(messages, summaries);
+  return pending.slice(0, Math.max(0, pending.length - config.keepRecentMessages));
+}
+
+/**
+ * 尚未摘要的较早对话（不含最近保留的消息）的估算 token 数
+ */
+export function getPendingSummaryTokens(
+  messages: Message[],
+  summaries: ChapterSummary[],
+  config: SummaryConfig,
+  estimateTokens: (text: string) => number
+): number {
+  const candidates = getSummaryCandidates(messages, summaries, config);
+  return candidates.length > 0 ? estimateTokens(formatTranscript(candidates)) : 0;
+}
+
+/**
+ * 选出需要生成新章节的消息：未覆盖的消息去掉最近保留的部分后，超过 token 阈值才返回
+ */
+export function selectMessagesToSummarize(
+  messages: Message[],
+  summaries: ChapterSummary[],
+  config: SummaryConfig,
+  estimateTokens: (text: string) => number
+): Message[] | null {
+  const candidates = getSummaryCandidates(messages, summaries, config);
+  if (candidates.length === 0) return null;
+
+  const tokens = estimateTokens(formatTranscript(candidates));
+  return tokens >= config.tokenThreshold ? candidates : null;
+}
+
+/**
+ * 生成回复时使用的上下文：去掉已被章节覆盖的消息
+ */
+export function applySummariesToContext(messages: Message[], summaries: ChapterSummary[]): Message[] {
+  if (summaries.length === 0) return messages;
+  const remaining = getUnsummarizedMessages(messages, summaries);
+  return remaining.length > 0 ? remaining : messages.slice(-1);
+}
+
+/**
+ * 把章节摘要拼成注入系统提示词的前情提要
+ */
+export function buildSummaryPreamble(summaries: ChapterSummary[]): string {
+  if (summaries.length === 0) return '';
+
+  const chapters = summaries
+    .map(summary => `第${summary.chapter}章 ${summary.title}：${summary.content}`)
+    .join('\n');
+
+  return `【前情提要】
+以下是此前对话的章节摘要，请据此保持剧情与人物关系的连贯，不要复述摘要内容：
+${chapters}`;
+}
+
+/**
+ * 章节摘要生成器
+ */
+class MessageSummarizerClass {
+  /**
+   * 调用模型把一段对话总结为章节摘要，失败时抛出 APIError 或 Error
+   */
+  async summarize(
+    config: ModelConfig,
+    messages: Message[],
+    options: { previousSummary?: ChapterSummary; participants?: string[]; maxLength: number; signal?: AbortSignal }
+  ): Promise<GeneratedSummary> {
+    const previous = options.previousSummary
+      ? `上一章摘要（仅供衔接，不要重复）：\n${options.previousSummary.content}\n\n`
+      : '';
+    const participants = options.participants?.length
+      ? `登场角色：${options.participants.join('、')}\n\n`
+      : '';
+
+    const result = await llmClient.complete(config, {
+      messages: [
+        {
+          role: 'system',
+          content: `你是一名故事记录员，负责把酒馆中的多人对话整理成章节摘要。
+要求：
+1. 用第三人称概括发生的事件、关键信息、人物态度与关系变化
+2. 保留人名、地名、约定和未解决的悬念
+3. 摘要不超过${options.maxLength}字，标题不超过12字
+
+请严格按照以下JSON格式返回，不要添加任何其他文字：
+{"title": "章节标题", "summary": "章节摘要"}`
+        },
+        {
+          role: 'user',
+          content: `${participants}${previous}本章对话记录：\n${formatTranscript(messages)}`
+        }
+      ],
+      temperature: 0.3,
+      maxTokens: Math.ceil(options.maxLength * 2),
+      jsonMode: true
+    }, { signal: options.signal, logContext: { category: 'system', source: '章节摘要' } });
+
+    if (result.aborted) {
+      throw new Error('摘要生成已取消');
+    }
+
+    const parsed = safeParseValidatedJSON(
+      result.text,
+      ['summary'],
+      { title: '', summary: result.text.trim() }
+    );
+    const content = String(parsed.summary || '').trim();
+    if (!content) {
+      throw new Error('摘要内容为空');
+    }
+
+    return {
+      title: String(parsed.title || '').trim() || '未命名章节',
+      content,
+      usage: result.usage
+    };
+  }
+}
+
+// 导出单例实例
+export const messageSummarizer = new MessageSummarizerClass();
@@ -0,0 +1,360 @@
+/**
+ * 离线模拟 LLM 后端
+ * 在本地应答 /chat/completions 形式的请求，用于无网络、无 API Key 时的开发与调试。
+ * 相同的请求内容总是得到相同的回复（可通过 seed 调整），并可模拟延迟、错误和限流
+ */
+
+import { hashString, createRandom } from '../utils/seededRandom';
+
+export const MOCK_BASE_URL = 'mock://local';
+
+export interface MockLLMConfig {
+  seed: number;                 // 随机种子，相同种子 + 相同请求 => 相同回复
+  latencyMs: number;            // 首个 token 前的基础延迟
+  latencyJitterMs: number;      // 延迟抖动范围
+  tokenDelayMs: number;         // 流式输出时每个数据块的间隔
+  errorRate: number;            // 随机返回服务端错误的概率 [0, 1]
+  errorStatus: number;          // 模拟错误使用的 HTTP 状态码
+  rateLimitPerMinute: number;   // 每分钟最多请求数，0 表示不限流
+  scripts: Record<string, string[]>; // 按角色名（或模型名）预设的台词，按顺序循环使用
+}
+
+const DEFAULT_MOCK_CONFIG: MockLLMConfig = {
+  seed: 42,
+  latencyMs: 400,
+  latencyJitterMs: 300,
+  tokenDelayMs: 30,
+  errorRate: 0,
+  errorStatus: 503,
+  rateLimitPerMinute: 0,
+  scripts: {}
+};
+
+interface MockChatMessage {
+  role: string;
+  content: string;
+}
+
+interface MockChatRequest {
+  model?: string;
+  messages?: MockChatMessage[];
+  stream?: boolean;
+  response_format?: { type?: string };
+}
+
+// 回复模板：{name} 角色名，{topic} 最近话题片段，{speaker} 上一位发言者
+const REPLY_TEMPLATES = [
+  '（{name}点了点头）说到"{topic}"，我倒是想起一件往事。',
+  '{name}笑着说：这话题有意思，{topic}……你们怎么看？',
+  '嗯……{topic}？让我想想，我觉得事情没那么简单。',
+  '（{name}放下手中的杯子）关于{topic}，我有不同的看法。',
+  '哈哈，{speaker}说得对！不过{topic}这件事，还得从头说起。',
+  '{name}若有所思：{topic}……这让我有点担心。',
+  '真的吗？{topic}！我还是第一次听说。',
+  '（{name}压低声音）关于{topic}，我知道一些别人不知道的事。'
+];
+
+const MOCK_CHARACTER_POOL = [
+  {
+    name: '老杰克',
+    greeting: '欢迎光临！想喝点什么？',
+    avatarColor: 'bg-orange-500',
+    interests: ['酒类', '客人关怀', '当地新闻'],
+    speakingStyle: 'proactive',
+    socialRole: 'host',
+    personality: { extroversion: 0.8, curiosity: 0.6, talkativeness: 0.9, reactivity: 0.7 }
+  },
+  {
+    name: '莉娜',
+    greeting: '嘿，要听一首新写的歌吗？',
+    avatarColor: 'bg-pink-500',
+    interests: ['音乐', '冒险故事', '传说'],
+    speakingStyle: 'proactive',
+    socialRole: 'entertainer',
+    personality: { extroversion: 0.9, curiosity: 0.7, talkativeness: 0.8, reactivity: 0.8 }
+  },
+  {
+    name: '灰袍客',
+    greeting: '……（他只是抬了抬眼）',
+    avatarColor: 'bg-indigo-500',
+    interests: ['秘密', '魔法', '古老传说'],
+    speakingStyle: 'observant',
+    socialRole: 'observer',
+    personality: { extroversion: 0.2, curiosity: 0.9, talkativeness: 0.3, reactivity: 0.5 }
+  },
+  {
+    name: '卫兵马库斯',
+    greeting: '最近城里不太平，各位小心。',
+    avatarColor: 'bg-blue-500',
+    interests: ['治安', '武器', '当地新闻'],
+    speakingStyle: 'reactive',
+    socialRole: 'advisor',
+    personality: { extroversion: 0.5, curiosity: 0.4, talkativeness: 0.5, reactivity: 0.8 }
+  }
+];
+
+/**
+ * 粗略估算 Token 数（与界面上的估算保持同一量级即可）
+ */
+function roughTokenCount(text: string): number {
+  const cjk = (text.match(/[一-鿿]/g) || []).length;
+  return Math.max(1, Math.ceil(cjk * 1.5 + (text.length - cjk) / 4));
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers }
+  });
+}
+
+/**
+ * 模拟 LLM 后端
+ */
+export class MockLLMBackend {
+  private config: MockLLMConfig = { ...DEFAULT_MOCK_CONFIG };
+  private requestTimestamps: number[] = [];
+  private scriptCursor: Record<string, number> = {};
+  private requestCount = 0;
+
+  configure(config: Partial<MockLLMConfig>): void {
+    this.config = { ...this.config, ...config };
+    console.log('🧪 模拟LLM配置已更新:', this.config);
+  }
+
+  getConfig(): MockLLMConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 设置某个角色（或模型名）的预设台词
+   */
+  setScript(key: string, replies: string[]): void {
+    this.config.scripts = { ...this.config.scripts, [key]: replies };
+    this.scriptCursor[key] = 0;
+  }
+
+  /**
+   * 恢复默认配置并清空限流与台词进度
+   */
+  reset(): void {
+    this.config = { ...DEFAULT_MOCK_CONFIG, scripts: {} };
+    this.requestTimestamps = [];
+    this.scriptCursor = {};
+    this.requestCount = 0;
+  }
+
+  getRequestCount(): number {
+    return this.requestCount;
+  }
+
+  /**
+   * 以 fetch 的方式处理请求，返回与 OpenAI 兼容接口相同格式的响应
+   */
+  async handle(url: string, init: RequestInit = {}): Promise<Response> {
+    this.requestCount++;
+    const signal = init.signal;
+    let request: MockChatRequest;
+    try {
+      request = JSON.parse(typeof init.body === 'string' ? init.body : '{}');
+    } catch {
+      return jsonResponse({ error: { message: '请求体不是有效的JSON', type: 'invalid_request_error' } }, 400);
+    }
+
+    const messages = Array.isArray(request.messages) ? request.messages : [];
+    const requestKey = JSON.stringify(messages);
+    const random = createRandom(this.config.seed ^ hashString(requestKey));
+
+    // 限流检查
+    if (this.config.rateLimitPerMinute > 0) {
+      const now = Date.now();
+      this.requestTimestamps = this.requestTimestamps.filter(time => now - time < 60000);
+      if (this.requestTimestamps.length >= this.config.rateLimitPerMinute) {
+        const retryAfter = Math.ceil((60000 - (now - this.requestTimestamps[0])) / 1000);
+        console.warn(`🧪 模拟LLM触发限流，${retryAfter}秒后可重试`);
+        return jsonResponse(
+          { error: { message: `Rate limit exceeded, retry after ${retryAfter}s`, type: 'rate_limit_error' } },
+          429,
+          { 'retry-after': String(retryAfter) }
+        );
+      }
+      this.requestTimestamps.push(now);
+    }
+
+    await delay(this.config.latencyMs + random() * this.config.latencyJitterMs, signal);
+
+    // 随机错误注入
+    if (this.config.errorRate > 0 && random() < this.config.errorRate) {
+      console.warn(`🧪 模拟LLM返回错误 ${this.config.errorStatus}`);
+      return jsonResponse(
+        { error: { message: '模拟的服务端错误', type: 'server_error' } },
+        this.config.errorStatus
+      );
+    }
+
+    const content = this.generateContent(request, messages, random);
+    const promptTokens = roughTokenCount(messages.map(message => message.content).join(' '));
+    const completionTokens = roughTokenCount(content);
+    const usage = {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    };
+    const model = request.model || 'mock-model';
+
+    if (!request.stream) {
+      return jsonResponse({
+        id: `mock-${this.requestCount}`,
+        object: 'chat.completion',
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage
+      });
+    }
+
+    return this.streamResponse(content, model, usage, signal);
+  }
+
+  /**
+   * 根据请求类型生成回复内容
+   */
+  private generateContent(request: MockChatRequest, messages: MockChatMessage[], random: () => number): string {
+    const allText = messages.map(message => message.content).join('\n');
+    const lastUser = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    // 场景角色生成
+    if (lastUser.startsWith('场景描述：') || allText.includes('"characters"')) {
+      return JSON.stringify({ characters: this.pickCharacters(random) });
+    }
+
+    // 对话章节摘要
+    if (allText.includes('"summary"')) {
+      const lines = lastUser.split('\n').filter(line => /^[^：:]{1,12}[：:]/.test(line) && !/^(登场角色|本章对话记录|上一章摘要)/.test(line));
+      const speakers = [...new Set(lines.map(line => line.split(/[：:]/)[0]))].slice(0, 4);
+      return JSON.stringify({
+        title: '酒馆夜谈（模拟）',
+        summary: `${speakers.join('、') || '众人'}在酒馆里交谈了${lines.length}句，话题从${lines[0]?.replace(/^[^：:]{1,12}[：:]\s*/, '').slice(0, 12) || '日常琐事'}开始展开。`
+      });
+    }
+
+    // 主题相关性分析
+    if (allText.includes('relevanceScore')) {
+      const score = Math.round((0.2 + random() * 0.7) * 100) / 100;
+      return JSON.stringify({
+        relevanceScore: score,
+        reasoningBrief: score > 0.6 ? '话题与角色兴趣高度相关（模拟）' : '话题与角色兴趣关联一般（模拟）'
+      });
+    }
+
+    // 其他要求 JSON 的请求返回一个空对象，保证调用方可以解析
+    if (request.response_format?.type === 'json_object') {
+      return '{}';
+    }
+
+    return this.generateReply(request, messages, random);
+  }
+
+  /**
+   * 生成角色台词：优先使用预设台词，否则按模板生成
+   */
+  private generateReply(request: MockChatRequest, messages: MockChatMessage[], random: () => number): string {
+    const systemPrompt = messages.find(message => message.role === 'system')?.content || '';
+    const name = systemPrompt.match(/你是([^，,。\s]{1,12})/)?.[1] || '酒馆里的客人';
+
+    const scriptKey = [name, request.model || ''].find(key => this.config.scripts[key]?.length);
+    if (scriptKey) {
+      const replies = this.config.scripts[scriptKey];
+      const cursor = this.scriptCursor[scriptKey] || 0;
+      this.scriptCursor[scriptKey] = cursor + 1;
+      return replies[cursor % replies.length];
+    }
+
+    const history = messages.filter(message => message.role !== 'system');
+    const last = history[history.length - 1]?.content || '';
+    const speaker = last.match(/^([^：:]{1,12})[：:]/)?.[1] || '你';
+    const topic = last.replace(/^[^：:]{1,12}[：:]\s*/, '').replace(/\s+/g, ' ').slice(0, 12) || '今晚的天气';
+    const template = REPLY_TEMPLATES[Math.floor(random() * REPLY_TEMPLATES.length)];
+
+    return template
+      .replace(/\{name\}/g, name)
+      .replace(/\{topic\}/g, topic)
+      .replace(/\{speaker\}/g, speaker);
+  }
+
+  private pickCharacters(random: () => number) {
+    const pool = [...MOCK_CHARACTER_POOL];
+    const count = 3;
+    const picked = [];
+    while (picked.length < count && pool.length > 0) {
+      const [character] = pool.splice(Math.floor(random() * pool.length), 1);
+      picked.push({
+        ...character,
+        prompt: `你是${character.name}，${character.interests.join('、')}是你最关心的话题。请保持角色一致性，用符合角色身份的语气和用词回复。`,
+        emotionalState: 0.5
+      });
+    }
+    return picked;
+  }
+
+  /**
+   * 以 SSE 形式逐块输出回复
+   */
+  private streamResponse(
+    content: string,
+    model: string,
+    usage: Record<string, number>,
+    signal?: AbortSignal | null
+  ): Response {
+    const encoder = new TextEncoder();
+    const chunks = content.match(/[\s\S]{1,3}/g) || [];
+    const tokenDelayMs = this.config.tokenDelayMs;
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (payload: unknown) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+        };
+        try {
+          for (const chunk of chunks) {
+            await delay(tokenDelayMs, signal);
+            send({ object: 'chat.completion.chunk', model, choices: [{ index: 0, delta: { content: chunk }, finish_reason: null }] });
+          }
+          send({ object: 'chat.completion.chunk', model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] });
+          send({ object: 'chat.completion.chunk', model, choices: [], usage });
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      }
+    });
+
+    return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+  }
+}
+
+// 导出单例实例
+export const mockLLMBackend = new MockLLMBackend();
+
+// 开发环境下挂到全局，方便在控制台调整延迟、错误率等参数
+if (import.meta.env.DEV && typeof window !== 'undefined') {
+  (window as unknown as { mockLLM?: MockLLMBackend }).mockLLM = mockLLMBackend;
+}
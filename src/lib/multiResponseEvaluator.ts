@@ -1,7 +1,7 @@
 // 多AI响应评估系统 - 任务2.2
 import { AICharacter, Message } from '@/types/tavern';
 import { batchAnalyzeTopicRelevance, TopicAnalysisConfig } from './topicAnalysis';
-import { batchCalculateSpeakingDesire } from './speakingDesire';
+import { batchCalculateSpeakingDesire, SpeakingDesireResult } from './speakingDesire';
 
 export interface MultiResponseConfig {
   maxResponders: number;           // 最大响应者数量 (动态设置为角色总数)
@@ -46,6 +46,7 @@ export const defaultMultiResponseConfig: MultiResponseConfig = {
  * @param mentionedCharacters 被@提及的角色名列表
  * @param config 多响应配置
  * @param topicConfig 主题分析配置
+ * @param adjustDesire 调整发言欲望（如按各角色与玩家的关系）
  * @returns 多响应计划
  */
 export async function evaluateMultipleAIResponses(
@@ -54,7 +55,8 @@ export async function evaluateMultipleAIResponses(
   playerMessage: string,
   mentionedCharacters?: string[],
   config: MultiResponseConfig = defaultMultiResponseConfig,
-  topicConfig?: TopicAnalysisConfig
+  topicConfig?: TopicAnalysisConfig,
+  adjustDesire?: (results: SpeakingDesireResult[]) => SpeakingDesireResult[]
 ): Promise<MultiResponsePlan> {
   
   console.log('🎭 开始多AI响应评估...');
@@ -96,7 +98,8 @@ export async function evaluateMultipleAIResponses(
   }
 
   // 第二步：计算发言欲望
-  const speakingDesireResults = batchCalculateSpeakingDesire(characters, topicRelevanceResults);
+  const desireResults = batchCalculateSpeakingDesire(characters, topicRelevanceResults);
+  const speakingDesireResults = adjustDesire ? adjustDesire(desireResults) : desireResults;
   console.log('💭 发言欲望评估完成');
 
   // 第三步：生成响应候选者列表
@@ -0,0 +1,221 @@
+/**
+ * 旁白（主持人）
+ * 按独立的节奏根据场景描述推进剧情：描写环境变化、时间流逝或引入随机事件。
+ * 旁白消息会出现在对话中供角色回应，并作为环境/时间上下文写入上下文记忆。
+ */
+
+import { Message, ModelConfig, AICharacter } from '../types/tavern';
+import { LLMUsage } from '../types/llm';
+import { NarratorEvent, NarratorEventKind } from '../types/narrator';
+import { llmClient } from './llmProviders';
+import { safeParseValidatedJSON } from '../utils/jsonUtils';
+import type { ContextMemoryManager } from './contextMemoryManager';
+
+export const NARRATOR_NAME = '旁白';
+
+// 各类事件被选中的权重：环境描写最常见，随机事件偶尔出现
+const EVENT_KIND_WEIGHTS: Record<NarratorEventKind, number> = {
+  environment: 0.45,
+  time: 0.3,
+  random: 0.25
+};
+
+const EVENT_KIND_INSTRUCTIONS: Record<NarratorEventKind, string> = {
+  environment: '描写场景环境的一处变化（光线、声音、气味、天气、人群等），不要引入新的重大情节',
+  time: '描写时间的流逝（例如夜色渐深、天色转亮），并说明现在大致是什么时段',
+  random: '引入一个与场景相符的小型随机事件（有人闯入、物品掉落、传来消息等），给角色留下回应的空间'
+};
+
+// 调用失败时使用的本地旁白
+const FALLBACK_NARRATIONS: Record<NarratorEventKind, NarratorEvent[]> = {
+  environment: [
+    { kind: 'environment', text: '壁炉里的火苗忽然蹿高了一截，噼啪作响，映得四周的影子轻轻摇晃。' },
+    { kind: 'environment', text: '窗外下起了细雨，雨点敲打着窗棂，屋内的交谈声不自觉地低了几分。', weather: 'rainy' }
+  ],
+  time: [
+    { kind: 'time', text: '不知不觉间夜色已深，街上的灯火一盏盏熄灭，只剩屋内的烛光还亮着。', timeOfDay: 'night' },
+    { kind: 'time', text: '时间悄然流逝，斜阳从窗口洒进来，把桌面染成一片暖金色。', timeOfDay: 'evening' }
+  ],
+  random: [
+    { kind: 'random', text: '门口的风铃一阵乱响，一个浑身湿透的陌生人推门而入，环顾四周后在角落坐下。', impact: 'medium' },
+    { kind: 'random', text: '不远处传来"哐当"一声，一只酒杯从架子上滚落，在地上摔得粉碎。', impact: 'low' }
+  ]
+};
+
+const TIME_OF_DAY_LABELS: Record<string, string> = { morning: '上午', afternoon: '下午', evening: '傍晚', night: '夜晚' };
+// 场景时段的中文名称
+export function formatTimeOfDay(timeOfDay: string): string {
+  return TIME_OF_DAY_LABELS[timeOfDay] || timeOfDay;
+}
+
+const WEATHER_LABELS: Record<string, string> = { sunny: '晴', cloudy: '多云', rainy: '雨', stormy: '暴风雨', snowy: '雪' };
+
+// 上下文记忆中记录的场景状态
+export interface NarratorSceneState {
+  timeOfDay?: string;
+  weather?: string;
+  recentEvents: string[];
+}
+
+function formatSceneState(state?: NarratorSceneState): string {
+  if (!state) return '';
+  const lines: string[] = [];
+  if (state.timeOfDay) lines.push(`当前时段：${formatTimeOfDay(state.timeOfDay)}`);
+  if (state.weather) lines.push(`当前天气：${WEATHER_LABELS[state.weather] || state.weather}`);
+  if (state.recentEvents.length > 0) lines.push(`此前的旁白：\n${state.recentEvents.join('\n')}`);
+  return lines.length > 0 ? `\n${lines.join('\n')}\n` : '';
+}
+
+const TIME_OF_DAY_VALUES = ['morning', 'afternoon', 'evening', 'night'] as const;
+const WEATHER_VALUES = ['sunny', 'cloudy', 'rainy', 'stormy', 'snowy'] as const;
+const IMPACT_VALUES = ['low', 'medium', 'high'] as const;
+
+// 旁白生成结果
+export interface GeneratedNarration {
+  event: NarratorEvent;
+  usage?: LLMUsage;
+}
+
+function pickOneOf<T extends string>(value: unknown, allowed: readonly T[]): T | undefined {
+  return allowed.includes(value as T) ? (value as T) : undefined;
+}
+
+/**
+ * 自上一次旁白以来的对话条数（从未有过旁白时为全部消息数）
+ */
+export function countMessagesSinceNarration(messages: Message[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].isNarration) return messages.length - 1 - i;
+  }
+  return messages.length;
+}
+
+/**
+ * 按权重选择下一次旁白的事件类型，避免与上一次旁白相同
+ */
+export function pickNarratorEventKind(messages: Message[], random: () => number = Math.random): NarratorEventKind {
+  const lastNarration = [...messages].reverse().find(message => message.isNarration);
+  const candidates = (Object.keys(EVENT_KIND_WEIGHTS) as NarratorEventKind[])
+    .filter(kind => kind !== lastNarration?.narratorEvent?.kind);
+
+  const totalWeight = candidates.reduce((sum, kind) => sum + EVENT_KIND_WEIGHTS[kind], 0);
+  let roll = random() * totalWeight;
+  for (const kind of candidates) {
+    roll -= EVENT_KIND_WEIGHTS[kind];
+    if (roll <= 0) return kind;
+  }
+  return candidates[candidates.length - 1];
+}
+
+export function createFallbackNarration(kind: NarratorEventKind, random: () => number = Math.random): NarratorEvent {
+  const options = FALLBACK_NARRATIONS[kind];
+  return { ...options[Math.floor(random() * options.length)] };
+}
+
+/**
+ * 旁白事件对应的旁白消息
+ */
+export function createNarrationMessage(id: string, event: NarratorEvent): Message {
+  const { text, ...eventInfo } = event;
+  return {
+    id,
+    sender: NARRATOR_NAME,
+    text,
+    isPlayer: false,
+    timestamp: new Date(),
+    isNarration: true,
+    narratorEvent: eventInfo
+  };
+}
+
+/**
+ * 按对话中的旁白消息重新写入上下文记忆（加载会话、切换分支后恢复场景状态）
+ */
+export async function replayNarrations(
+  contextMemory: ContextMemoryManager,
+  messages: Message[],
+  characters: AICharacter[]
+): Promise<void> {
+  for (const message of messages) {
+    if (message.isNarration && message.narratorEvent) {
+      await contextMemory.recordSceneEvent(message, { ...message.narratorEvent, text: message.text }, characters);
+    }
+  }
+}
+
+/**
+ * 旁白生成器
+ */
+class NarratorClass {
+  /**
+   * 调用模型生成一段旁白，失败时抛出 APIError 或 Error
+   */
+  async narrate(
+    config: ModelConfig,
+    options: {
+      sceneDescription: string;
+      messages: Message[];
+      kind: NarratorEventKind;
+      participants: string[];
+      sceneState?: NarratorSceneState;
+      signal?: AbortSignal;
+    }
+  ): Promise<GeneratedNarration> {
+    const recentTranscript = options.messages
+      .slice(-8)
+      .map(message => `${message.sender}：${message.text}`)
+      .join('\n');
+
+    const result = await llmClient.complete(config, {
+      messages: [
+        {
+          role: 'system',
+          content: `你是这场多人角色扮演的旁白兼主持人，不扮演任何角色，只负责推进场景。
+场景设定：${options.sceneDescription || '未指定'}
+登场角色：${options.participants.join('、') || '未知'}${formatSceneState(options.sceneState)}
+
+本次任务：${EVENT_KIND_INSTRUCTIONS[options.kind]}。
+要求：
+1. 用第三人称写 1-3 句，不超过80字，不替任何角色说台词或做决定
+2. 与场景设定、当前场景状态和最近的对话保持连贯
+
+请严格按照以下JSON格式返回，不要添加任何其他文字：
+{"text": "旁白内容", "timeOfDay": "morning|afternoon|evening|night（仅时间流逝时填写）", "weather": "sunny|cloudy|rainy|stormy|snowy（天气变化时填写）", "impact": "low|medium|high"}`
+        },
+        {
+          role: 'user',
+          content: `最近的对话：\n${recentTranscript || '（尚无对话）'}`
+        }
+      ],
+      temperature: 0.9,
+      maxTokens: 200,
+      jsonMode: true
+    }, { signal: options.signal, logContext: { category: 'system', source: '旁白' } });
+
+    if (result.aborted) {
+      throw new Error('旁白生成已取消');
+    }
+
+    // 解析失败时纯文本回复直接作为旁白，残缺的 JSON 视为无效
+    const rawText = result.text.trim();
+    const parsed = safeParseValidatedJSON<Record<string, unknown>>(rawText, ['text'], { text: rawText.startsWith('{') ? '' : rawText });
+    const text = String(parsed.text || '').trim();
+    if (!text) {
+      throw new Error('旁白内容为空');
+    }
+
+    return {
+      event: {
+        kind: options.kind,
+        text,
+        timeOfDay: pickOneOf(parsed.timeOfDay, TIME_OF_DAY_VALUES),
+        weather: pickOneOf(parsed.weather, WEATHER_VALUES),
+        impact: pickOneOf(parsed.impact, IMPACT_VALUES)
+      },
+      usage: result.usage
+    };
+  }
+}
+
+// 导出单例实例
+export const narrator = new NarratorClass();
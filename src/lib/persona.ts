@@ -0,0 +1,167 @@
+/**
+ * 玩家角色（Persona）
+ * 保存玩家可以扮演的身份：名字、简介、头像和与各角色的初始关系。
+ * 当前启用的身份会替换提示词中的 {{user}} 宏、注入角色的系统提示词，
+ * 并以 persona:<id> 作为参与者 ID 进入关系系统。
+ */
+
+import { PlayerPersona, DEFAULT_PERSONA_ID } from '../types/persona';
+
+const STORAGE_KEY = 'tavern_personas';
+
+// 关系系统中玩家参与者 ID 的前缀，与 AI 角色的 ID 区分开
+const PARTICIPANT_ID_PREFIX = 'persona:';
+
+const USER_MACRO_PATTERN = /\{\{user\}\}|<USER>/gi;
+
+export type PersonaDraft = Omit<PlayerPersona, 'id' | 'createdAt' | 'updatedAt'>;
+
+export function createDefaultPersona(): PlayerPersona {
+  const now = new Date();
+  return {
+    id: DEFAULT_PERSONA_ID,
+    name: '玩家',
+    description: '',
+    avatarColor: 'bg-blue-600',
+    relationshipSeeds: [],
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * 玩家角色在关系系统中的参与者 ID
+ */
+export function getPersonaParticipantId(personaId: string): string {
+  return `${PARTICIPANT_ID_PREFIX}${personaId}`;
+}
+
+export function isPersonaParticipantId(participantId: string): boolean {
+  return participantId.startsWith(PARTICIPANT_ID_PREFIX);
+}
+
+/**
+ * 把文本中的 {{user}} / <USER> 替换为玩家角色的名字
+ */
+export function applyPersonaMacros(text: string, persona: PlayerPersona): string {
+  return text.replace(USER_MACRO_PATTERN, persona.name);
+}
+
+/**
+ * 告诉角色正在和谁说话：玩家角色的名字与简介（初始关系由提示词管线的人物关系块注入）
+ */
+export function buildPersonaPrompt(persona: PlayerPersona): string {
+  const lines: string[] = [`与你对话的玩家扮演「${persona.name}」。`];
+  if (persona.description.trim()) {
+    lines.push(persona.description.trim());
+  }
+  return `【玩家角色】\n${lines.join('\n')}`;
+}
+
+/**
+ * 头像占位：名字的第一个字
+ */
+export function getPersonaInitial(name: string): string {
+  return Array.from(name.trim())[0] || '?';
+}
+
+/**
+ * 玩家角色存储
+ */
+class PersonaStoreClass {
+  private personas: PlayerPersona[];
+  private activePersonaId: string;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    const stored = this.load();
+    this.personas = stored.personas;
+    this.activePersonaId = stored.activePersonaId;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getPersonas(): PlayerPersona[] {
+    return [...this.personas];
+  }
+
+  getPersona(id?: string): PlayerPersona | undefined {
+    return id ? this.personas.find(persona => persona.id === id) : undefined;
+  }
+
+  getActivePersona(): PlayerPersona {
+    return this.getPersona(this.activePersonaId) || this.personas[0];
+  }
+
+  setActivePersona(id: string): void {
+    if (!this.getPersona(id) || id === this.activePersonaId) return;
+    this.activePersonaId = id;
+    this.save();
+  }
+
+  addPersona(draft: PersonaDraft): PlayerPersona {
+    const now = new Date();
+    const persona: PlayerPersona = { ...draft, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    this.personas = [...this.personas, persona];
+    this.save();
+    return persona;
+  }
+
+  updatePersona(id: string, changes: Partial<PersonaDraft>): void {
+    this.personas = this.personas.map(persona =>
+      persona.id === id ? { ...persona, ...changes, updatedAt: new Date() } : persona
+    );
+    this.save();
+  }
+
+  /**
+   * 删除玩家角色，默认角色不能删除；删除当前角色时切回默认角色
+   */
+  removePersona(id: string): void {
+    if (id === DEFAULT_PERSONA_ID) return;
+    this.personas = this.personas.filter(persona => persona.id !== id);
+    if (this.activePersonaId === id) {
+      this.activePersonaId = DEFAULT_PERSONA_ID;
+    }
+    this.save();
+  }
+
+  private load(): { personas: PlayerPersona[]; activePersonaId: string } {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as { personas?: PlayerPersona[]; activePersonaId?: string };
+        const personas = (parsed.personas || []).map(persona => ({
+          ...persona,
+          relationshipSeeds: persona.relationshipSeeds || [],
+          createdAt: new Date(persona.createdAt),
+          updatedAt: new Date(persona.updatedAt)
+        }));
+        if (!personas.some(persona => persona.id === DEFAULT_PERSONA_ID)) {
+          personas.unshift(createDefaultPersona());
+        }
+        return { personas, activePersonaId: parsed.activePersonaId || DEFAULT_PERSONA_ID };
+      }
+    } catch (error) {
+      console.warn('⚠️ 玩家角色读取失败，使用默认角色:', error);
+    }
+    return { personas: [createDefaultPersona()], activePersonaId: DEFAULT_PERSONA_ID };
+  }
+
+  private save(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ personas: this.personas, activePersonaId: this.activePersonaId }));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const personaStore = new PersonaStoreClass();
@@ -0,0 +1,155 @@
+/**
+ * 多角色对话的提示词组装
+ * 只有当前角色自己说过的话作为 assistant 消息，玩家和其他角色的发言都带上说话人姓名、
+ * 以第三方的身份放进 user 消息，避免模型把别人的台词当成自己的而替别人说话
+ */
+
+import { Message } from '../types/tavern';
+import { LLMMessage } from '../types/llm';
+import { NARRATOR_NAME } from './narrator';
+
+// 旧消息和缺少发送者时的玩家称呼
+const PLAYER_NAME = '玩家';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 回复开头可能出现的自己的姓名标记：「名字：」「**名字**:」「[名字]」「【名字】」
+function buildOwnPrefixPattern(name: string): RegExp {
+  const escaped = escapeRegExp(name);
+  return new RegExp(`^\\s*(?:\\*\\*${escaped}\\*\\*|\\[${escaped}\\]|【${escaped}】|${escaped}\\s*[:：])\\s*[:：]?\\s*`);
+}
+
+// 以其他说话人姓名加冒号开头的行
+function buildOtherSpeakerPattern(name: string): RegExp {
+  const escaped = escapeRegExp(name);
+  return new RegExp(`^\\s*(?:\\*\\*${escaped}\\*\\*|${escaped})\\s*[:：]`);
+}
+
+function getSpeakerName(message: Message): string {
+  return message.isPlayer ? message.sender || PLAYER_NAME : message.sender;
+}
+
+// 对话中玩家用过的称呼（切换玩家角色后会有多个），最近使用的排在最后
+function getPlayerNames(messages: Message[]): string[] {
+  const names = new Set<string>();
+  messages.forEach(message => {
+    if (message.isPlayer) {
+      const name = getSpeakerName(message);
+      names.delete(name);
+      names.add(name);
+    }
+  });
+  return Array.from(names);
+}
+
+function isOwnMessage(message: Message, characterName: string): boolean {
+  return !message.isPlayer && message.sender === characterName;
+}
+
+/**
+ * 对话中除当前角色以外的其他说话人（含玩家），按首次出现的顺序
+ */
+export function getOtherSpeakers(messages: Message[], characterName: string): string[] {
+  const speakers = new Set<string>();
+  messages.forEach(message => {
+    if (!isOwnMessage(message, characterName)) {
+      speakers.add(getSpeakerName(message));
+    }
+  });
+  return Array.from(speakers);
+}
+
+/**
+ * 群聊规则：说明谁是谁，并禁止替其他角色发言
+ * playerNames 为玩家角色用过的称呼，最后一个是当前称呼
+ */
+export function buildGroupChatGuard(characterName: string, otherSpeakers: string[], playerNames: string[] = [PLAYER_NAME]): string {
+  const others = otherSpeakers.filter(name => !playerNames.includes(name) && name !== NARRATOR_NAME);
+  const currentPlayerName = playerNames[playerNames.length - 1] || PLAYER_NAME;
+  const playerLabel = currentPlayerName === PLAYER_NAME ? '玩家' : `玩家（${currentPlayerName}）`;
+  const othersLine = others.length > 0
+    ? `对话中的${others.join('、')}由其他人扮演，带姓名前缀的台词都是他们或${playerLabel}说的，不是你说的。`
+    : `带姓名前缀的台词都是${playerLabel}说的，不是你说的。`;
+  const narratorLine = otherSpeakers.includes(NARRATOR_NAME)
+    ? `\n「${NARRATOR_NAME}：」开头的是场景描写，不是任何人说的话，你可以对其中的变化作出反应。`
+    : '';
+
+  return `【群聊规则】
+你只扮演「${characterName}」。${othersLine}${narratorLine}
+1. 只以${characterName}的身份说话，不要替其他角色或玩家说台词、做决定或描写他们的反应
+2. 直接输出${characterName}要说的话，不要在开头加上"${characterName}："之类的姓名前缀
+3. 说完自己的话就停下，不要续写其他人的发言`;
+}
+
+/**
+ * 组装发给某个角色的请求消息
+ * 连续的他人发言合并为一条 user 消息，保证 user / assistant 交替，且最后一条总是 user
+ */
+export function buildCharacterPromptMessages(
+  characterName: string,
+  messages: Message[],
+  systemPrompt: string
+): LLMMessage[] {
+  const playerNames = getPlayerNames(messages);
+  const guard = buildGroupChatGuard(characterName, getOtherSpeakers(messages, characterName), playerNames.length > 0 ? playerNames : undefined);
+  const result: LLMMessage[] = [
+    { role: 'system', content: systemPrompt ? `${systemPrompt}\n\n${guard}` : guard }
+  ];
+
+  let pendingLines: string[] = [];
+  const flushPendingLines = () => {
+    if (pendingLines.length === 0) return;
+    result.push({ role: 'user', content: pendingLines.join('\n') });
+    pendingLines = [];
+  };
+
+  messages.forEach(message => {
+    const text = (message.text || '').trim();
+    if (!text) return;
+
+    if (isOwnMessage(message, characterName)) {
+      flushPendingLines();
+      const previous = result[result.length - 1];
+      // 自己连续发言时合并，避免出现相邻的 assistant 消息
+      if (previous.role === 'assistant') {
+        previous.content += `\n${text}`;
+      } else {
+        result.push({ role: 'assistant', content: text });
+      }
+    } else {
+      pendingLines.push(`${getSpeakerName(message)}：${text}`);
+    }
+  });
+  flushPendingLines();
+
+  // 最后一条是自己的发言时补一条提示，让模型知道轮到自己接着说
+  if (result[result.length - 1].role !== 'user') {
+    result.push({ role: 'user', content: `（轮到${characterName}继续发言）` });
+  }
+
+  return result;
+}
+
+/**
+ * 清理角色回复：去掉开头误加的自己的姓名前缀，
+ * 并截断从其他说话人前缀开始的部分（模型替别人说话时的续写）
+ */
+export function cleanCharacterReply(reply: string, characterName: string, otherSpeakers: string[]): string {
+  let cleaned = reply.replace(buildOwnPrefixPattern(characterName), '');
+
+  const otherPatterns = otherSpeakers
+    .filter(name => name && name !== characterName)
+    .map(buildOtherSpeakerPattern);
+
+  if (otherPatterns.length > 0) {
+    const lines = cleaned.split('\n');
+    const cutIndex = lines.findIndex((line, index) => index > 0 && otherPatterns.some(pattern => pattern.test(line)));
+    if (cutIndex > 0) {
+      cleaned = lines.slice(0, cutIndex).join('\n');
+    }
+  }
+
+  return cleaned.trim();
+}
@@ -0,0 +1,280 @@
+/**
+ * 提示词管线
+ * 把角色请求拆成若干内容块（角色设定、玩家角色、关系、场景、情感、摘要、世界设定等），
+ * 每个块可以单独启用、排序、限制 Token 预算并选择注入位置，配置保存为命名预设。
+ * 检查器记录最近几次请求的各块组装结果和最终发送的消息。
+ */
+
+import { Message } from '../types/tavern';
+import { LLMMessage } from '../types/llm';
+import {
+  PromptBlockId,
+  PromptBlockRole,
+  PromptBlockConfig,
+  PromptBlockResult,
+  PromptPipelinePreset,
+  PromptPipelineInspection
+} from '../types/promptPipeline';
+import { buildCharacterPromptMessages } from './promptAssembler';
+
+const STORAGE_KEY = 'tavern_prompt_pipeline';
+const MAX_INSPECTIONS = 20;
+const TRUNCATION_MARKER = '…（已截断）';
+
+export const DEFAULT_PRESET_ID = 'default';
+
+export const PROMPT_BLOCK_LABELS: Record<PromptBlockId, string> = {
+  character: '角色设定',
+  persona: '玩家角色',
+  relationship: '人物关系',
+  scene: '场景',
+  coherence: '对话连贯性',
+  format: '回复格式',
+  emotion: '情感状态',
+  summary: '前情提要',
+  lorebook: '世界设定'
+};
+
+export const PROMPT_BLOCK_ROLE_LABELS: Record<PromptBlockRole, string> = {
+  system: '系统提示词',
+  user: '对话开头',
+  depth: '按深度插入'
+};
+
+// 默认顺序与管线出现之前的固定拼接顺序一致；场景块是新增的，默认关闭
+const DEFAULT_BLOCK_ORDER: Array<{ id: PromptBlockId; enabled: boolean }> = [
+  { id: 'character', enabled: true },
+  { id: 'persona', enabled: true },
+  { id: 'relationship', enabled: true },
+  { id: 'scene', enabled: false },
+  { id: 'coherence', enabled: true },
+  { id: 'format', enabled: true },
+  { id: 'emotion', enabled: true },
+  { id: 'summary', enabled: true },
+  { id: 'lorebook', enabled: true }
+];
+
+export function createDefaultPipelineBlocks(): PromptBlockConfig[] {
+  return DEFAULT_BLOCK_ORDER.map(({ id, enabled }) => ({ id, enabled, role: 'system', depth: 4, tokenBudget: 0 }));
+}
+
+export function createDefaultPipelinePreset(): PromptPipelinePreset {
+  const now = new Date();
+  return { id: DEFAULT_PRESET_ID, name: '默认', blocks: createDefaultPipelineBlocks(), createdAt: now, updatedAt: now };
+}
+
+/**
+ * 补齐预设中缺少的内容块（旧预设保存之后新增的块追加在末尾）
+ */
+function normalizeBlocks(blocks: PromptBlockConfig[]): PromptBlockConfig[] {
+  const defaults = createDefaultPipelineBlocks();
+  const known = blocks.filter(block => defaults.some(item => item.id === block.id));
+  const missing = defaults.filter(item => !known.some(block => block.id === item.id));
+  return [...known, ...missing];
+}
+
+/**
+ * 按 Token 预算截断文本，保留开头部分
+ */
+export function truncateToTokenBudget(text: string, budget: number, estimate: (text: string) => number): string {
+  if (budget <= 0 || estimate(text) <= budget) return text;
+
+  const chars = Array.from(text);
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimate(chars.slice(0, mid).join('') + TRUNCATION_MARKER) <= budget) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low > 0 ? chars.slice(0, low).join('').trimEnd() + TRUNCATION_MARKER : '';
+}
+
+/**
+ * 按预设处理各内容块：过滤、排序并应用 Token 预算
+ */
+export function resolvePromptBlocks(
+  contents: Record<PromptBlockId, string>,
+  blocks: PromptBlockConfig[],
+  estimate: (text: string) => number
+): PromptBlockResult[] {
+  return normalizeBlocks(blocks).map(block => {
+    const original = block.enabled ? (contents[block.id] || '').trim() : '';
+    const originalTokens = original ? estimate(original) : 0;
+    const content = truncateToTokenBudget(original, block.tokenBudget, estimate);
+    return {
+      id: block.id,
+      role: block.role,
+      depth: Math.max(0, Math.round(block.depth)),
+      enabled: block.enabled,
+      content,
+      tokens: content === original ? originalTokens : estimate(content),
+      originalTokens,
+      truncated: content !== original
+    };
+  });
+}
+
+/**
+ * 组装最终请求消息：
+ * system 块拼入系统提示词（群聊规则始终在最后），user 块作为对话开头的一条 user 消息，
+ * depth 块作为系统消息插在距对话末尾 depth 条的位置（Anthropic / Gemini 会并入系统提示词）
+ */
+export function assemblePipelineMessages(
+  characterName: string,
+  history: Message[],
+  blocks: PromptBlockResult[]
+): LLMMessage[] {
+  const active = blocks.filter(block => block.content);
+  const systemPrompt = active.filter(block => block.role === 'system').map(block => block.content).join('\n\n');
+  const [systemMessage, ...turns] = buildCharacterPromptMessages(characterName, history, systemPrompt);
+
+  // 同一深度的多个块保持预设中的顺序
+  const insertions = new Map<number, LLMMessage[]>();
+  active
+    .filter(block => block.role === 'depth')
+    .forEach(block => {
+      const index = Math.max(0, turns.length - block.depth);
+      insertions.set(index, [...(insertions.get(index) || []), { role: 'system', content: block.content }]);
+    });
+
+  const result: LLMMessage[] = [systemMessage];
+  const userContent = active.filter(block => block.role === 'user').map(block => block.content).join('\n\n');
+  if (userContent) {
+    result.push({ role: 'user', content: userContent });
+  }
+  turns.forEach((turn, index) => {
+    result.push(...(insertions.get(index) || []), turn);
+  });
+  result.push(...(insertions.get(turns.length) || []));
+
+  return result;
+}
+
+/**
+ * 提示词管线存储：预设持久化，检查记录只保存在内存中
+ */
+class PromptPipelineStoreClass {
+  private presets: PromptPipelinePreset[];
+  private activePresetId: string;
+  private inspections: PromptPipelineInspection[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    const stored = this.load();
+    this.presets = stored.presets;
+    this.activePresetId = stored.activePresetId;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getPresets(): PromptPipelinePreset[] {
+    return [...this.presets];
+  }
+
+  getActivePreset(): PromptPipelinePreset {
+    return this.presets.find(preset => preset.id === this.activePresetId) || this.presets[0];
+  }
+
+  setActivePreset(id: string): void {
+    if (!this.presets.some(preset => preset.id === id) || id === this.activePresetId) return;
+    this.activePresetId = id;
+    this.save();
+  }
+
+  /**
+   * 以给定的内容块配置另存为新预设，并切换到该预设
+   */
+  addPreset(name: string, blocks: PromptBlockConfig[]): PromptPipelinePreset {
+    const now = new Date();
+    const preset: PromptPipelinePreset = {
+      id: crypto.randomUUID(),
+      name,
+      blocks: blocks.map(block => ({ ...block })),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.presets = [...this.presets, preset];
+    this.activePresetId = preset.id;
+    this.save();
+    return preset;
+  }
+
+  updatePreset(id: string, changes: Partial<Pick<PromptPipelinePreset, 'name' | 'blocks'>>): void {
+    this.presets = this.presets.map(preset =>
+      preset.id === id ? { ...preset, ...changes, updatedAt: new Date() } : preset
+    );
+    this.save();
+  }
+
+  /**
+   * 删除预设，默认预设不能删除；删除当前预设时切回默认预设
+   */
+  removePreset(id: string): void {
+    if (id === DEFAULT_PRESET_ID) return;
+    this.presets = this.presets.filter(preset => preset.id !== id);
+    if (this.activePresetId === id) {
+      this.activePresetId = DEFAULT_PRESET_ID;
+    }
+    this.save();
+  }
+
+  getInspections(): PromptPipelineInspection[] {
+    return [...this.inspections];
+  }
+
+  recordInspection(inspection: Omit<PromptPipelineInspection, 'id' | 'timestamp'>): void {
+    this.inspections = [
+      { ...inspection, id: crypto.randomUUID(), timestamp: new Date() },
+      ...this.inspections
+    ].slice(0, MAX_INSPECTIONS);
+    this.notify();
+  }
+
+  clearInspections(): void {
+    this.inspections = [];
+    this.notify();
+  }
+
+  private load(): { presets: PromptPipelinePreset[]; activePresetId: string } {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as { presets?: PromptPipelinePreset[]; activePresetId?: string };
+        const presets = (parsed.presets || []).map(preset => ({
+          ...preset,
+          blocks: normalizeBlocks(preset.blocks || []),
+          createdAt: new Date(preset.createdAt),
+          updatedAt: new Date(preset.updatedAt)
+        }));
+        if (!presets.some(preset => preset.id === DEFAULT_PRESET_ID)) {
+          presets.unshift(createDefaultPipelinePreset());
+        }
+        return { presets, activePresetId: parsed.activePresetId || DEFAULT_PRESET_ID };
+      }
+    } catch (error) {
+      console.warn('⚠️ 提示词管线预设读取失败，使用默认预设:', error);
+    }
+    return { presets: [createDefaultPipelinePreset()], activePresetId: DEFAULT_PRESET_ID };
+  }
+
+  private save(): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ presets: this.presets, activePresetId: this.activePresetId }));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const promptPipelineStore = new PromptPipelineStoreClass();
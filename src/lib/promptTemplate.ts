@@ -0,0 +1,195 @@
+/**
+ * 角色提示词模板
+ * 在角色 Prompt 中使用宏，请求时按当前对话渲染：
+ *   {{char}} {{user}} {{scene}} {{emotion}} {{time}}
+ *   {{relationship:角色名}}（{{relationship:user}} 表示与玩家的关系）
+ *   {{random::甲::乙::丙}} 随机取一项
+ *   {{#if emotion}}...{{else}}...{{/if}}、{{#if emotion == 愤怒}}、{{#unless scene}}...{{/unless}}
+ * 无法识别的宏原样保留，兼容其他工具的角色卡。
+ */
+
+import { hashString, createRandom } from '../utils/seededRandom';
+
+export interface PromptTemplateContext {
+  char: string;
+  user: string;
+  scene: string;
+  emotion: string;                                   // 当前情感描述，没有情感状态时为空
+  time: string;
+  describeRelationship?: (otherName: string) => string; // 没有关系信息时返回空字符串
+  random?: () => number;
+}
+
+// 模板宏说明，供编辑器展示
+export const PROMPT_TEMPLATE_MACROS: Array<{ macro: string; description: string }> = [
+  { macro: '{{char}}', description: '当前角色的名字' },
+  { macro: '{{user}}', description: '玩家角色的名字' },
+  { macro: '{{scene}}', description: '场景描述' },
+  { macro: '{{emotion}}', description: '角色当前的情感' },
+  { macro: '{{time}}', description: '场景时段（旁白推进过时间时）或当前时间' },
+  { macro: '{{relationship:角色名}}', description: '与某个角色的关系，user 表示玩家' },
+  { macro: '{{random::甲::乙}}', description: '每轮对话随机取一项' },
+  { macro: '{{#if emotion}}…{{else}}…{{/if}}', description: '条件内容，支持 == / != 比较和 #unless' }
+];
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'macro'; expression: string; raw: string }
+  | { type: 'block'; condition: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const MACRO_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const BLOCK_OPEN_PATTERN = /^#(if|unless)\s+([\s\S]+)$/;
+const BLOCK_CLOSE_PATTERN = /^\/(if|unless)$/;
+const CONDITION_PATTERN = /^(.+?)\s*(==|!=)\s*(.*)$/;
+
+/**
+ * 解析模板，返回语法树与结构错误（未闭合的条件块、多余的 {{else}} 等）
+ */
+function parseTemplate(template: string): { nodes: TemplateNode[]; errors: string[] } {
+  const root: TemplateNode[] = [];
+  const errors: string[] = [];
+  // 正在填充的条件块，栈顶为最内层
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'block' }>; keyword: string; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  MACRO_PATTERN.lastIndex = 0;
+  while ((match = MACRO_PATTERN.exec(template)) !== null) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', text: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const expression = match[1].trim();
+    const open = expression.match(BLOCK_OPEN_PATTERN);
+    const close = expression.match(BLOCK_CLOSE_PATTERN);
+
+    if (open) {
+      const node: Extract<TemplateNode, { type: 'block' }> = {
+        type: 'block',
+        condition: open[2].trim(),
+        negate: open[1] === 'unless',
+        then: [],
+        otherwise: []
+      };
+      current().push(node);
+      stack.push({ node, keyword: open[1], inElse: false });
+    } else if (expression === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        errors.push('多余的 {{else}}');
+        current().push({ type: 'text', text: match[0] });
+      } else {
+        top.inElse = true;
+      }
+    } else if (close) {
+      const top = stack[stack.length - 1];
+      if (!top || top.keyword !== close[1]) {
+        errors.push(`多余的 {{/${close[1]}}}`);
+        current().push({ type: 'text', text: match[0] });
+      } else {
+        stack.pop();
+      }
+    } else {
+      current().push({ type: 'macro', expression, raw: match[0] });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ type: 'text', text: template.slice(lastIndex) });
+  }
+  stack.forEach(({ keyword, node }) => errors.push(`{{#${keyword} ${node.condition}}} 缺少 {{/${keyword}}}`));
+
+  return { nodes: root, errors };
+}
+
+/**
+ * 求宏的值，无法识别的宏返回 undefined
+ */
+function resolveMacro(expression: string, context: PromptTemplateContext): string | undefined {
+  if (expression.startsWith('random::')) {
+    const options = expression.slice('random::'.length).split('::');
+    const random = context.random || Math.random;
+    return options[Math.min(options.length - 1, Math.floor(random() * options.length))].trim();
+  }
+
+  const relationship = expression.match(/^relationship\s*:\s*(.+)$/i);
+  if (relationship) {
+    const name = relationship[1].trim();
+    const otherName = name.toLowerCase() === 'user' ? context.user : name;
+    return context.describeRelationship?.(otherName) || '';
+  }
+
+  switch (expression.toLowerCase()) {
+    case 'char':
+      return context.char;
+    case 'user':
+      return context.user;
+    case 'scene':
+      return context.scene;
+    case 'emotion':
+      return context.emotion;
+    case 'time':
+      return context.time;
+    default:
+      return undefined;
+  }
+}
+
+function evaluateCondition(condition: string, context: PromptTemplateContext): boolean {
+  const comparison = condition.match(CONDITION_PATTERN);
+  if (comparison) {
+    const value = resolveMacro(comparison[1].trim(), context) ?? '';
+    const expected = comparison[3].trim().replace(/^["'“](.*)["'”]$/, '$1');
+    // 情感描述可能带有修饰，例如「有些愤怒」，按包含关系比较
+    const isEqual = value === expected || (!!expected && value.includes(expected));
+    return comparison[2] === '==' ? isEqual : !isEqual;
+  }
+  return !!(resolveMacro(condition, context) ?? '').trim();
+}
+
+function renderNodes(nodes: TemplateNode[], context: PromptTemplateContext): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.text;
+        case 'macro':
+          return resolveMacro(node.expression, context) ?? node.raw;
+        case 'block': {
+          const passed = evaluateCondition(node.condition, context) !== node.negate;
+          return renderNodes(passed ? node.then : node.otherwise, context);
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * 渲染角色提示词模板（同时兼容角色卡中的 <USER> / <BOT> 写法）
+ */
+export function renderPromptTemplate(template: string, context: PromptTemplateContext): string {
+  const normalized = template.replace(/<USER>/gi, '{{user}}').replace(/<BOT>/gi, '{{char}}');
+  const rendered = renderNodes(parseTemplate(normalized).nodes, context);
+  // 条件块删掉内容后可能留下多余的空行
+  return rendered.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * 检查模板结构，返回错误说明列表
+ */
+export function validatePromptTemplate(template: string): string[] {
+  return parseTemplate(template).errors;
+}
+
+/**
+ * 由字符串生成可复现的随机数序列，保证同一轮对话中预览与实际请求抽到相同的 {{random}} 选项
+ */
+export function createSeededRandom(seed: string): () => number {
+  return createRandom(hashString(seed));
+}
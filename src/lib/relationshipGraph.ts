@@ -0,0 +1,108 @@
+/**
+ * 人物关系图
+ * 关系网络面板用到的数据整理：关系类型配色、按关系事件回放任意时刻的关系，以及交给网络分析器的快照
+ */
+
+import {
+  Relationship,
+  RelationshipEvent,
+  RelationshipMemory,
+  RelationshipNetwork,
+  RelationType
+} from '../types/relationship';
+
+export const RELATION_TYPE_COLORS: Record<RelationType, string> = {
+  [RelationType.FRIENDSHIP]: '#34d399',
+  [RelationType.ROMANTIC]: '#f472b6',
+  [RelationType.MENTOR_STUDENT]: '#a78bfa',
+  [RelationType.ALLIANCE]: '#60a5fa',
+  [RelationType.FAMILY]: '#fbbf24',
+  [RelationType.RESPECT]: '#2dd4bf',
+  [RelationType.RIVALRY]: '#fb923c',
+  [RelationType.HATRED]: '#ef4444',
+  [RelationType.SUSPICION]: '#facc15',
+  [RelationType.CONTEMPT]: '#c084fc',
+  [RelationType.FEAR]: '#94a3b8',
+  [RelationType.NEUTRAL]: '#6b7280',
+  [RelationType.ACQUAINTANCE]: '#9ca3af',
+  [RelationType.PROFESSIONAL]: '#38bdf8',
+  [RelationType.CUSTOMER]: '#a3e635',
+  [RelationType.COMPLEX]: '#e879f9'
+};
+
+export type CentralityMetric = 'degree' | 'closeness' | 'betweenness' | 'eigenvector' | 'influence';
+
+export const CENTRALITY_METRIC_LABELS: Record<CentralityMetric, string> = {
+  degree: '度中心性',
+  closeness: '紧密中心性',
+  betweenness: '中介中心性',
+  eigenvector: '特征向量中心性',
+  influence: '综合影响力'
+};
+
+/**
+ * 汇总所有参与者记忆中的关系事件（互相认知的关系会同时记在双方记忆里，按ID去重），按时间排序
+ */
+export function collectRelationshipEvents(
+  memories: Map<string, Pick<RelationshipMemory, 'relationshipHistory'>>
+): RelationshipEvent[] {
+  const events = new Map<string, RelationshipEvent>();
+  for (const memory of memories.values()) {
+    for (const event of memory.relationshipHistory) {
+      events.set(event.id, event);
+    }
+  }
+  return Array.from(events.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * 回放到第 step 个事件之后的关系状态（step 为 0 时是第一个事件之前，等于事件数时就是当前关系）
+ * 已经发生过事件的关系取最近一次事件后的状态，之后才有事件的取第一次事件前的状态，
+ * 在回放时刻之后才建立的关系不出现
+ */
+export function replayRelationships(
+  relationships: Relationship[],
+  events: RelationshipEvent[],
+  step: number
+): Relationship[] {
+  if (step >= events.length) return relationships;
+
+  const cutoff = step > 0 ? events[step - 1].timestamp.getTime() : events[0].timestamp.getTime() - 1;
+  const pastEvents = events.slice(0, step);
+  const futureEvents = events.slice(step);
+
+  return relationships
+    .filter(relationship => relationship.establishedAt.getTime() <= cutoff)
+    .map(relationship => {
+      const lastPast = [...pastEvents].reverse().find(event => event.relationshipId === relationship.id);
+      const firstFuture = futureEvents.find(event => event.relationshipId === relationship.id);
+      const state = lastPast?.afterState || firstFuture?.beforeState;
+      if (!state) return relationship;
+      return {
+        ...relationship,
+        type: state.type ?? relationship.type,
+        strength: state.strength ?? relationship.strength,
+        dimensions: state.dimensions ? { ...relationship.dimensions, ...state.dimensions } : relationship.dimensions
+      };
+    });
+}
+
+/**
+ * 为网络分析器生成关系快照
+ * 快照ID带上回放位置，分析器按 ID、更新时间和关系数缓存结果
+ */
+export function createNetworkSnapshot(
+  baseNetwork: RelationshipNetwork,
+  relationships: Relationship[],
+  step: number
+): { network: RelationshipNetwork; memories: Map<string, Pick<RelationshipMemory, 'relationships'>> } {
+  const relationshipMap = new Map(relationships.map(relationship => [relationship.id, relationship]));
+  return {
+    network: {
+      ...baseNetwork,
+      id: `${baseNetwork.id}:${step}`,
+      relationships: relationshipMap
+    },
+    memories: new Map([['snapshot', { relationships: relationshipMap }]])
+  };
+}
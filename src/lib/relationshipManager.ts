@@ -18,11 +18,16 @@ import {
   RelationshipInference,
   RelationshipInfluence,
   RelationshipAnalysisConfig,
-  RelationshipManagerState
+  RelationshipManagerState,
+  CharacterRelationshipSeed,
+  RELATION_TYPE_LABELS
 } from '@/types/relationship';
 
 import { Message, AICharacter } from '@/types/tavern';
 import { EmotionalState } from '@/types/emotion';
+import { PlayerPersona } from '@/types/persona';
+import { getPersonaParticipantId } from './persona';
+import { SpeakingDesireResult } from './speakingDesire';
 
 /**
  * 默认关系分析配置
@@ -58,6 +63,191 @@ const DEFAULT_RELATIONSHIP_CONFIG: RelationshipAnalysisConfig = {
   }
 };
 
+/**
+ * 预设关系的初始维度（未列出的维度使用新关系的默认值）
+ */
+const SEED_DIMENSIONS: Partial<Record<RelationType, Partial<RelationshipDimensions>>> = {
+  [RelationType.FRIENDSHIP]: { trust: 0.75, intimacy: 0.5, respect: 0.6, compatibility: 0.6 },
+  [RelationType.ROMANTIC]: { trust: 0.7, intimacy: 0.7, attraction: 0.7, compatibility: 0.6 },
+  [RelationType.MENTOR_STUDENT]: { trust: 0.6, respect: 0.8, influence: -0.4 },
+  [RelationType.ALLIANCE]: { trust: 0.65, respect: 0.6, compatibility: 0.5 },
+  [RelationType.FAMILY]: { trust: 0.75, intimacy: 0.6, dependence: 0.5, stability: 0.9 },
+  [RelationType.RESPECT]: { trust: 0.55, respect: 0.85 },
+  [RelationType.RIVALRY]: { trust: 0.25, respect: 0.25, compatibility: -0.3 },
+  [RelationType.HATRED]: { trust: 0.1, intimacy: 0.0, respect: 0.15, attraction: -0.7, compatibility: -0.6 },
+  [RelationType.SUSPICION]: { trust: 0.3, respect: 0.4 },
+  [RelationType.CONTEMPT]: { trust: 0.35, respect: 0.15, attraction: -0.4 },
+  [RelationType.FEAR]: { trust: 0.2, influence: -0.6, stability: 0.5 },
+  [RelationType.ACQUAINTANCE]: { trust: 0.45, intimacy: 0.2 },
+  [RelationType.PROFESSIONAL]: { trust: 0.5, respect: 0.6, intimacy: 0.15 },
+  [RelationType.CUSTOMER]: { trust: 0.45, respect: 0.5, intimacy: 0.1 }
+};
+
+const SEED_DEFAULT_NOTE = '预设关系';
+
+// 一条消息最多分析的对象数
+const MAX_ADDRESSEES = 3;
+
+// 被对待的一方对这次互动的反应强度（相对发言者）
+const RECEIVED_BEHAVIOR_WEIGHT = 0.6;
+
+// 关系对接话意愿的影响
+const ALLY_REPLY_BONUS = 0.5;        // 盟友发言后，按关系强度提高接话意愿
+const RIVAL_INTERJECT_BONUS = 0.6;   // 对手发言后，越不信任越容易插嘴
+const FEAR_REPLY_MULTIPLIER = 0.7;   // 畏惧的人发言后不敢接话
+
+const ALLY_RELATION_TYPES: RelationType[] = [
+  RelationType.FRIENDSHIP,
+  RelationType.ROMANTIC,
+  RelationType.MENTOR_STUDENT,
+  RelationType.ALLIANCE,
+  RelationType.FAMILY,
+  RelationType.RESPECT
+];
+
+const RIVAL_RELATION_TYPES: RelationType[] = [
+  RelationType.RIVALRY,
+  RelationType.HATRED,
+  RelationType.SUSPICION,
+  RelationType.CONTEMPT,
+  RelationType.FEAR
+];
+
+export type RelationshipStance = 'ally' | 'rival' | 'neutral';
+
+/**
+ * 关系立场：亲近的关系为盟友，敌对或不信任的关系为对手
+ */
+export function getRelationshipStance(relationship: Relationship | null): RelationshipStance {
+  if (!relationship) return 'neutral';
+  if (ALLY_RELATION_TYPES.includes(relationship.type)) return 'ally';
+  if (RIVAL_RELATION_TYPES.includes(relationship.type)) return 'rival';
+  return 'neutral';
+}
+
+/**
+ * 把关系类型和各维度写成提示词里的描述，如“对手，你不信任对方，看不起对方”
+ * 没有明显倾向的陌生关系返回空字符串
+ */
+export function describeRelationshipForPrompt(relationship: Relationship): string {
+  const { dimensions } = relationship;
+  const attitudes: string[] = [];
+
+  if (dimensions.trust >= 0.7) attitudes.push('信任对方');
+  else if (dimensions.trust <= 0.35) attitudes.push('不信任对方');
+  if (dimensions.respect >= 0.75) attitudes.push('敬重对方');
+  else if (dimensions.respect <= 0.3) attitudes.push('看不起对方');
+  if (dimensions.intimacy >= 0.6) attitudes.push('与对方很亲近');
+  if (dimensions.attraction >= 0.5) attitudes.push('被对方吸引');
+  else if (dimensions.attraction <= -0.4) attitudes.push('对对方心存反感');
+  if (dimensions.influence >= 0.4) attitudes.push('在对方面前占上风');
+  else if (dimensions.influence <= -0.4) attitudes.push('容易被对方左右');
+  if (dimensions.dependence >= 0.6) attitudes.push('很依赖对方');
+
+  const isSeeded = relationship.tags.some(tag => tag === 'seed' || tag === 'seeded');
+  const note = isSeeded && relationship.notes && relationship.notes !== SEED_DEFAULT_NOTE
+    ? `（${relationship.notes}）`
+    : '';
+
+  if (relationship.type === RelationType.NEUTRAL && attitudes.length === 0 && !note) {
+    return '';
+  }
+  const attitudeText = attitudes.length > 0 ? `，你${attitudes.join('，')}` : '';
+  return `${RELATION_TYPE_LABELS[relationship.type]}${note}${attitudeText}`;
+}
+
+// 各关系维度的取值范围
+const DIMENSION_RANGES: Record<keyof RelationshipDimensions, [number, number]> = {
+  trust: [0, 1],
+  intimacy: [0, 1],
+  respect: [0, 1],
+  attraction: [-1, 1],
+  compatibility: [-1, 1],
+  influence: [-1, 1],
+  dependence: [0, 1],
+  stability: [0, 1]
+};
+
+/**
+ * 解析关系类型：接受 RelationType 的值（如 family）或中文名称（如 家人）
+ */
+export function parseRelationType(value: unknown): RelationType | null {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  const types = Object.values(RelationType);
+  return types.find(type => type === text.toLowerCase()) ||
+    types.find(type => RELATION_TYPE_LABELS[type] === text) ||
+    null;
+}
+
+/**
+ * 取出对象中的关系维度数值，截断到各自的取值范围
+ */
+function parseSeedDimensions(entry: Record<string, unknown>): Partial<RelationshipDimensions> {
+  const dimensions: Partial<RelationshipDimensions> = {};
+  for (const [key, [min, max]] of Object.entries(DIMENSION_RANGES) as [keyof RelationshipDimensions, [number, number]][]) {
+    const value = entry[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      dimensions[key] = Math.max(min, Math.min(max, value));
+    }
+  }
+  return dimensions;
+}
+
+/**
+ * 解析外部来源（如导入的角色卡）中的初始关系列表，格式与 CharacterRelationshipSeed 相同
+ * 缺少角色名或类型未知的项会被忽略
+ */
+export function parseRelationshipSeeds(raw: unknown): CharacterRelationshipSeed[] {
+  if (!Array.isArray(raw)) return [];
+
+  const seeds: CharacterRelationshipSeed[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Record<string, unknown>;
+    const characterName = typeof entry.characterName === 'string' ? entry.characterName.trim() : '';
+    const type = parseRelationType(entry.type);
+    if (!characterName || !type) continue;
+
+    const seed: CharacterRelationshipSeed = { characterName, type };
+    const dimensions = entry.dimensions && typeof entry.dimensions === 'object'
+      ? parseSeedDimensions(entry.dimensions as Record<string, unknown>)
+      : {};
+    if (Object.keys(dimensions).length > 0) seed.dimensions = dimensions;
+    if (typeof entry.note === 'string' && entry.note.trim()) seed.note = entry.note.trim();
+    seeds.push(seed);
+  }
+  return seeds;
+}
+
+/**
+ * 解析场景生成返回的角色关系列表（{ from, to, type, note, trust, ... }），按发起方角色名分组为初始关系
+ * 未知角色、未知类型和指向自己的关系会被忽略，维度数值截断到各自的取值范围
+ */
+export function parseGeneratedRelationshipSeeds(
+  raw: unknown,
+  characterNames: string[]
+): Map<string, CharacterRelationshipSeed[]> {
+  const seeds = new Map<string, CharacterRelationshipSeed[]>();
+  if (!Array.isArray(raw)) return seeds;
+
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Record<string, unknown>;
+    const from = typeof entry.from === 'string' ? entry.from.trim() : '';
+    const to = typeof entry.to === 'string' ? entry.to.trim() : '';
+    const type = parseRelationType(entry.type);
+    if (!type || from === to || !characterNames.includes(from) || !characterNames.includes(to)) continue;
+
+    const dimensions = parseSeedDimensions(entry);
+    const seed: CharacterRelationshipSeed = { characterName: to, type };
+    if (Object.keys(dimensions).length > 0) seed.dimensions = dimensions;
+    if (typeof entry.note === 'string' && entry.note.trim()) seed.note = entry.note.trim();
+    seeds.set(from, [...(seeds.get(from) || []), seed]);
+  }
+  return seeds;
+}
+
 /**
  * 关系行为分析结果
  */
@@ -76,6 +266,23 @@ interface RelationshipBehaviorAnalysis {
   reasoning: string;
 }
 
+/**
+ * 一条消息的关系处理结果
+ */
+export interface RelationshipProcessingResult {
+  analyses: RelationshipBehaviorAnalysis[];
+  relationships: Relationship[];           // 本条消息更新过的关系
+}
+
+/**
+ * 关系对接话意愿的影响
+ */
+export interface RelationshipSpeakingBias {
+  multiplier: number;                      // 乘到发言欲望分数上
+  stance: RelationshipStance;
+  reason: string;
+}
+
 /**
  * 关系记忆系统管理器
  */
@@ -84,7 +291,9 @@ export class RelationshipManager {
   private state: RelationshipManagerState;
   private relationshipMemories: Map<string, RelationshipMemory> = new Map();
   private relationshipNetwork: RelationshipNetwork;
-  private analysisCache: Map<string, RelationshipBehaviorAnalysis> = new Map();
+  private analysisCache: Map<string, RelationshipBehaviorAnalysis[]> = new Map();
+  private playerParticipantId: string | null = null; // 当前玩家角色的参与者ID
+  private playerName: string | null = null;
   
   // 中文关系行为词典
   private behaviorLexicon: Map<string, { 
@@ -161,13 +370,25 @@ export class RelationshipManager {
   }
 
   /**
-   * 分析消息中的关系行为
+   * 分析消息中的关系行为（只返回第一个对象）
    */
   public async analyzeRelationshipBehavior(
     message: Message,
     characters: AICharacter[],
     context?: Message[]
   ): Promise<RelationshipBehaviorAnalysis | null> {
+    const analyses = await this.analyzeRelationshipBehaviors(message, characters, context);
+    return analyses[0] || null;
+  }
+
+  /**
+   * 分析消息中发言者对每个对象的关系行为
+   */
+  public async analyzeRelationshipBehaviors(
+    message: Message,
+    characters: AICharacter[],
+    context?: Message[]
+  ): Promise<RelationshipBehaviorAnalysis[]> {
     const startTime = Date.now();
     
     try {
@@ -178,42 +399,15 @@ export class RelationshipManager {
         return this.analysisCache.get(cacheKey)!;
       }
 
-      // 确定发送者和接收者
-      const fromCharacter = characters.find(c => c.name === message.sender);
-      if (!fromCharacter || message.isPlayer) {
-        return null; // 只分析AI角色间的关系
+      // 确定发送者和接收者（玩家以玩家角色的参与者ID参与，未设置玩家角色时不分析玩家消息）
+      const fromParticipantId = this.resolveParticipantId(message, characters);
+      if (!fromParticipantId) {
+        return [];
       }
 
-      // 识别消息的目标角色（简化版）
-      let toCharacterId = '';
-      
-      // 检查@提及
-      if (message.mentionedCharacters && message.mentionedCharacters.length > 0) {
-        const mentionedCharacter = characters.find(c => 
-          message.mentionedCharacters!.includes(c.name)
-        );
-        if (mentionedCharacter) {
-          toCharacterId = mentionedCharacter.id;
-        }
-      }
-      
-      // 如果没有明确目标，选择最近发言的角色作为隐含目标
-      if (!toCharacterId && context && context.length > 0) {
-        const recentSpeakers = context
-          .slice(-3)
-          .filter(msg => !msg.isPlayer && msg.sender !== message.sender)
-          .map(msg => msg.sender);
-        
-        if (recentSpeakers.length > 0) {
-          const targetCharacter = characters.find(c => c.name === recentSpeakers[0]);
-          if (targetCharacter) {
-            toCharacterId = targetCharacter.id;
-          }
-        }
-      }
-
-      if (!toCharacterId) {
-        return null; // 无法确定目标角色
+      const addresseeIds = this.resolveAddresseeIds(message, characters, fromParticipantId, context);
+      if (addresseeIds.length === 0) {
+        return []; // 无法确定目标角色
       }
 
       // 分析行为模式
@@ -224,17 +418,19 @@ export class RelationshipManager {
         this.applyContextualAdjustment(behaviors, message, context);
       }
 
-      const analysis: RelationshipBehaviorAnalysis = {
+      const confidence = this.calculateBehaviorConfidence(message.text, behaviors);
+      const reasoning = this.generateBehaviorReasoning(message.text, behaviors);
+      const analyses: RelationshipBehaviorAnalysis[] = addresseeIds.map(toCharacterId => ({
         messageId: message.id,
-        fromCharacterId: fromCharacter.id,
+        fromCharacterId: fromParticipantId,
         toCharacterId,
-        behaviors,
-        confidence: this.calculateBehaviorConfidence(message.text, behaviors),
-        reasoning: this.generateBehaviorReasoning(message.text, behaviors)
-      };
+        behaviors: { ...behaviors },
+        confidence,
+        reasoning
+      }));
 
       // 缓存结果
-      this.analysisCache.set(cacheKey, analysis);
+      this.analysisCache.set(cacheKey, analyses);
       
       // 限制缓存大小
       if (this.analysisCache.size > this.config.performance.cacheSize) {
@@ -245,12 +441,208 @@ export class RelationshipManager {
       // 更新性能统计
       this.updatePerformanceStats(Date.now() - startTime);
 
-      return analysis;
+      return analyses;
 
     } catch (error) {
       console.error('关系行为分析失败:', error);
-      return null;
+      return [];
+    }
+  }
+
+  /**
+   * 识别消息的对象：@提及的角色 > 正文中点名的角色或玩家 > 最近发言的角色（或玩家）
+   */
+  private resolveAddresseeIds(
+    message: Message,
+    characters: AICharacter[],
+    fromParticipantId: string,
+    context?: Message[]
+  ): string[] {
+    const addresseeIds = new Set<string>();
+
+    // 检查@提及
+    if (message.mentionedCharacters && message.mentionedCharacters.length > 0) {
+      characters
+        .filter(c => message.mentionedCharacters!.includes(c.name))
+        .forEach(c => addresseeIds.add(c.id));
+    }
+
+    // 正文中直接点名
+    if (addresseeIds.size === 0) {
+      characters
+        .filter(c => c.name !== message.sender && message.text.includes(c.name))
+        .forEach(c => addresseeIds.add(c.id));
+      if (!message.isPlayer && this.playerParticipantId && this.playerName && message.text.includes(this.playerName)) {
+        addresseeIds.add(this.playerParticipantId);
+      }
+    }
+
+    // 如果没有明确目标，选择最近发言的角色（或玩家）作为隐含目标
+    if (addresseeIds.size === 0 && context && context.length > 0) {
+      const recentParticipant = context
+        .slice(-3)
+        .filter(msg => !msg.isNarration && msg.sender !== message.sender)
+        .map(msg => this.resolveParticipantId(msg, characters))
+        .find((participantId): participantId is string => !!participantId && participantId !== fromParticipantId);
+
+      if (recentParticipant) {
+        addresseeIds.add(recentParticipant);
+      }
+    }
+
+    addresseeIds.delete(fromParticipantId);
+    return Array.from(addresseeIds).slice(0, MAX_ADDRESSEES);
+  }
+
+  /**
+   * 处理一条新消息：更新发言者对每个对象的关系，以及对象对这次互动的反应
+   */
+  public async processMessage(
+    message: Message,
+    characters: AICharacter[],
+    context: Message[] = []
+  ): Promise<RelationshipProcessingResult> {
+    if (message.isNarration) {
+      return { analyses: [], relationships: [] };
+    }
+
+    const analyses = await this.analyzeRelationshipBehaviors(message, characters, context);
+    const relationships = new Set<Relationship>();
+
+    for (const analysis of analyses) {
+      await this.updateRelationship(analysis, message.text, message.id, message.timestamp);
+      const relationship = this.findRelationship(analysis.fromCharacterId, analysis.toCharacterId);
+      if (relationship) relationships.add(relationship);
+
+      // 双方共用的（互相认知的）关系已经更新过，不再重复计算
+      const reverse = this.findRelationship(analysis.toCharacterId, analysis.fromCharacterId);
+      if (reverse && reverse === relationship) continue;
+
+      const received = this.createReceivedAnalysis(analysis);
+      await this.updateRelationship(received, message.text, message.id, message.timestamp);
+      const receivedRelationship = this.findRelationship(received.fromCharacterId, received.toCharacterId);
+      if (receivedRelationship) relationships.add(receivedRelationship);
+    }
+
+    return { analyses, relationships: Array.from(relationships) };
+  }
+
+  /**
+   * 对象一方对这次互动的反应：被友好对待会更信任对方，被压制会减弱自己的影响力
+   */
+  private createReceivedAnalysis(analysis: RelationshipBehaviorAnalysis): RelationshipBehaviorAnalysis {
+    const { behaviors } = analysis;
+    return {
+      ...analysis,
+      fromCharacterId: analysis.toCharacterId,
+      toCharacterId: analysis.fromCharacterId,
+      behaviors: {
+        friendliness: behaviors.friendliness * RECEIVED_BEHAVIOR_WEIGHT,
+        hostility: behaviors.hostility * RECEIVED_BEHAVIOR_WEIGHT,
+        respect: behaviors.respect * RECEIVED_BEHAVIOR_WEIGHT,
+        intimacy: behaviors.intimacy * RECEIVED_BEHAVIOR_WEIGHT,
+        dominance: -behaviors.dominance * RECEIVED_BEHAVIOR_WEIGHT
+      },
+      reasoning: `对方${analysis.reasoning}`
+    };
+  }
+
+  /**
+   * 消息发送者的参与者ID：AI角色为角色ID，玩家为发送时所用玩家角色的参与者ID
+   */
+  private resolveParticipantId(message: Message, characters: AICharacter[]): string | null {
+    if (message.isPlayer) {
+      return message.personaId ? getPersonaParticipantId(message.personaId) : this.playerParticipantId;
+    }
+    return characters.find(c => c.name === message.sender)?.id || null;
+  }
+
+  /**
+   * 设置当前玩家角色：玩家作为独立参与者进入关系网络，并写入玩家角色与各角色的初始关系
+   */
+  public setPlayerPersona(persona: PlayerPersona, characters: Pick<AICharacter, 'id' | 'name'>[]): void {
+    const participantId = getPersonaParticipantId(persona.id);
+    this.playerParticipantId = participantId;
+    this.playerName = persona.name;
+
+    if (!this.relationshipMemories.has(participantId)) {
+      this.relationshipMemories.set(participantId, this.createCharacterRelationshipMemory(participantId));
+    }
+
+    for (const seed of persona.relationshipSeeds) {
+      const character = characters.find(c => c.name === seed.characterName);
+      if (character) {
+        this.seedRelationship(character.id, participantId, seed.type, { note: seed.note });
+      }
+    }
+  }
+
+  /**
+   * 写入角色之间的初始关系（各角色 relationshipSeeds 中按名字指向的其他角色）
+   * 预设关系双方共享，两边都设定了同一对角色时以后写入的为准
+   */
+  public seedCharacterRelationships(characters: Pick<AICharacter, 'id' | 'name' | 'relationshipSeeds'>[]): void {
+    for (const character of characters) {
+      for (const seed of character.relationshipSeeds || []) {
+        const target = characters.find(c => c.name === seed.characterName && c.id !== character.id);
+        if (target) {
+          this.seedRelationship(character.id, target.id, seed.type, { dimensions: seed.dimensions, note: seed.note });
+        }
+      }
+    }
+  }
+
+  /**
+   * 获取当前玩家角色的参与者ID
+   */
+  public getPlayerParticipantId(): string | null {
+    return this.playerParticipantId;
+  }
+
+  /**
+   * 写入预设的初始关系（双方互相认知）
+   * 已经在对话中发展过的关系不会被覆盖，只有尚未变化的预设关系会被更新
+   */
+  public seedRelationship(
+    fromId: string,
+    toId: string,
+    type: RelationType,
+    options: { dimensions?: Partial<RelationshipDimensions>; note?: string } = {}
+  ): Relationship {
+    const existing = this.findRelationship(fromId, toId);
+    if (existing && !existing.tags.includes('seed')) {
+      return existing;
+    }
+
+    const relationship = existing || this.createNewRelationship(fromId, toId);
+    relationship.type = type;
+    relationship.isMutual = true;
+    relationship.isDirectional = false;
+    relationship.dimensions = {
+      ...relationship.dimensions,
+      ...SEED_DIMENSIONS[type],
+      ...options.dimensions
+    };
+    this.normalizeDimensions(relationship.dimensions);
+    relationship.strength = this.calculateRelationshipStrength(relationship.dimensions);
+    relationship.status = RelationshipStatus.STABLE;
+    relationship.tags = ['seed'];
+    relationship.notes = options.note || SEED_DEFAULT_NOTE;
+    relationship.lastUpdated = new Date();
+
+    for (const participantId of [fromId, toId]) {
+      let memory = this.relationshipMemories.get(participantId);
+      if (!memory) {
+        memory = this.createCharacterRelationshipMemory(participantId);
+        this.relationshipMemories.set(participantId, memory);
+      }
+      memory.relationships.set(relationship.id, relationship);
+      this.updateRelationshipStatistics(memory);
     }
+    this.updateRelationshipNetwork(relationship);
+
+    console.log(`🌱 预设关系: ${fromId} <-> ${toId}, 类型: ${relationship.type}`);
+    return relationship;
   }
 
   /**
@@ -259,7 +651,8 @@ export class RelationshipManager {
   public async updateRelationship(
     analysis: RelationshipBehaviorAnalysis,
     triggerContext: string,
-    relatedMessageId?: string
+    relatedMessageId?: string,
+    occurredAt: Date = new Date()
   ): Promise<void> {
     const { fromCharacterId, toCharacterId, behaviors } = analysis;
     
@@ -269,12 +662,16 @@ export class RelationshipManager {
     
     if (!relationship) {
       relationship = this.createNewRelationship(fromCharacterId, toCharacterId);
+      relationship.establishedAt = occurredAt;
     }
 
     const previousState = { ...relationship };
 
     // 更新关系维度
-    this.updateRelationshipDimensions(relationship, behaviors);
+    this.updateRelationshipDimensions(relationship, behaviors, occurredAt);
+    
+    // 预设关系一旦在对话中发生变化，就不再被重新预设覆盖
+    relationship.tags = relationship.tags.map(tag => (tag === 'seed' ? 'seeded' : tag));
     
     // 重新评估关系类型和状态
     this.reassessRelationshipType(relationship);
@@ -288,7 +685,8 @@ export class RelationshipManager {
         triggerContext,
         previousState,
         relationship,
-        relatedMessageId
+        relatedMessageId,
+        occurredAt
       );
       
       // 更新角色记忆
@@ -586,7 +984,8 @@ export class RelationshipManager {
    */
   private updateRelationshipDimensions(
     relationship: Relationship, 
-    behaviors: RelationshipBehaviorAnalysis['behaviors']
+    behaviors: RelationshipBehaviorAnalysis['behaviors'],
+    occurredAt: Date
   ): void {
     const dimensions = relationship.dimensions;
     const updateRate = 0.1; // 更新速率，避免过度快速变化
@@ -625,8 +1024,8 @@ export class RelationshipManager {
     // 更新关系强度（基于多个维度的综合）
     relationship.strength = this.calculateRelationshipStrength(dimensions);
     
-    // 更新最后互动时间
-    relationship.lastInteraction = new Date();
+    // 更新最后互动时间（取消息的发送时间，按对话重新计算时结果不变）
+    relationship.lastInteraction = occurredAt;
     relationship.lastUpdated = new Date();
   }
 
@@ -760,7 +1159,8 @@ export class RelationshipManager {
     triggerContext: string,
     beforeState: Relationship,
     afterState: Relationship,
-    relatedMessageId?: string
+    relatedMessageId?: string,
+    occurredAt: Date = new Date()
   ): RelationshipEvent {
     // 计算变化向量
     const changeVector: Partial<RelationshipDimensions> = {};
@@ -806,7 +1206,7 @@ export class RelationshipManager {
       },
       impactScore,
       changeVector,
-      timestamp: new Date(),
+      timestamp: occurredAt,
       relatedMessageId,
       participantIds: [beforeState.fromCharacterId, beforeState.toCharacterId]
     };
@@ -1057,6 +1457,90 @@ export class RelationshipManager {
     this.state.lastUpdate = new Date();
   }
 
+  /**
+   * 获取一方对另一方的关系（互相认知的关系双方共用）
+   */
+  public getRelationshipBetween(fromId: string, toId: string): Relationship | null {
+    return this.findRelationship(fromId, toId);
+  }
+
+  /**
+   * 获取消息发送者的参与者ID
+   */
+  public getMessageParticipantId(message: Message, characters: AICharacter[]): string | null {
+    return message.isNarration ? null : this.resolveParticipantId(message, characters);
+  }
+
+  /**
+   * 生成写入角色提示词的关系描述
+   */
+  public describeRelationship(fromId: string, toId: string): string {
+    const relationship = this.findRelationship(fromId, toId);
+    return relationship ? describeRelationshipForPrompt(relationship) : '';
+  }
+
+  /**
+   * 情感上的亲近程度 [0, 1]：越信任、越亲密、越有好感，越容易被对方的情绪感染；没有关系时为 0
+   */
+  public getEmotionalCloseness(listenerId: string, speakerId: string): number {
+    const relationship = this.findRelationship(listenerId, speakerId);
+    if (!relationship) return 0;
+    const { trust, intimacy, attraction } = relationship.dimensions;
+    return Math.max(0, Math.min(1, trust * 0.4 + intimacy * 0.4 + Math.max(0, attraction) * 0.2));
+  }
+
+  /**
+   * 关系对接话意愿的影响：盟友更愿意接盟友的话，对手更容易插嘴，畏惧对方时不敢接话
+   */
+  public getSpeakingBias(characterId: string, speakerId: string): RelationshipSpeakingBias {
+    const relationship = this.findRelationship(characterId, speakerId);
+    const stance = getRelationshipStance(relationship);
+    if (!relationship || stance === 'neutral') {
+      return { multiplier: 1, stance, reason: '' };
+    }
+
+    const label = RELATION_TYPE_LABELS[relationship.type];
+    if (relationship.type === RelationType.FEAR) {
+      return { multiplier: FEAR_REPLY_MULTIPLIER, stance, reason: `与上一位发言者的关系为“${label}”，不敢接话` };
+    }
+    if (stance === 'ally') {
+      return {
+        multiplier: 1 + ALLY_REPLY_BONUS * relationship.strength,
+        stance,
+        reason: `与上一位发言者的关系为“${label}”，愿意接话`
+      };
+    }
+    return {
+      multiplier: 1 + RIVAL_INTERJECT_BONUS * (1 - relationship.dimensions.trust),
+      stance,
+      reason: `与上一位发言者的关系为“${label}”，忍不住插嘴`
+    };
+  }
+
+  /**
+   * 按各角色与上一位发言者的关系调整发言欲望
+   */
+  public applySpeakingBias(
+    desireResults: SpeakingDesireResult[],
+    speakerId: string | null
+  ): SpeakingDesireResult[] {
+    if (!speakerId) return desireResults;
+
+    return desireResults.map(result => {
+      if (result.characterId === speakerId) return result;
+      const bias = this.getSpeakingBias(result.characterId, speakerId);
+      if (bias.multiplier === 1) return result;
+
+      const desireScore = Math.max(0, Math.min(1, result.desireScore * bias.multiplier));
+      console.log(`🤝 关系影响发言欲望: ${result.characterId} ${result.desireScore.toFixed(3)} → ${desireScore.toFixed(3)}（${bias.reason}）`);
+      return {
+        ...result,
+        desireScore,
+        reasoning: `${result.reasoning}；${bias.reason}`
+      };
+    });
+  }
+
   /**
    * 获取角色关系记忆
    */
@@ -1064,6 +1548,13 @@ export class RelationshipManager {
     return this.relationshipMemories.get(characterId);
   }
 
+  /**
+   * 获取所有参与者的关系记忆
+   */
+  public getRelationshipMemories(): Map<string, RelationshipMemory> {
+    return this.relationshipMemories;
+  }
+
   /**
    * 获取管理器状态
    */
@@ -20,7 +20,7 @@ import { AICharacter } from '@/types/tavern';
 /**
  * 网络分析结果
  */
-interface NetworkAnalysisResult {
+export interface NetworkAnalysisResult {
   density: number;
   clustering: number;
   avgPathLength: number;
@@ -44,7 +44,7 @@ interface NetworkAnalysisResult {
 /**
  * 社交角色定义
  */
-enum SocialRole {
+export enum SocialRole {
   LEADER = 'leader',           // 领导者
   BRIDGE = 'bridge',           // 桥梁者  
   INFLUENCER = 'influencer',   // 影响者
@@ -54,11 +54,25 @@ enum SocialRole {
   MEDIATOR = 'mediator'        // 调解者
 }
 
+export const SOCIAL_ROLE_LABELS: Record<SocialRole, string> = {
+  [SocialRole.LEADER]: '领导者',
+  [SocialRole.BRIDGE]: '桥梁者',
+  [SocialRole.INFLUENCER]: '影响者',
+  [SocialRole.FOLLOWER]: '跟随者',
+  [SocialRole.ISOLATE]: '孤立者',
+  [SocialRole.CONNECTOR]: '连接者',
+  [SocialRole.MEDIATOR]: '调解者'
+};
+
+// 网络分析只用到关系记忆中的关系表，回放历史时可以传入重建出的关系
+type NetworkRelationshipSource = Pick<RelationshipMemory, 'relationships'>;
+
 /**
  * 关系网络分析器
  */
 export class RelationshipNetworkAnalyzer {
   private characters: Map<string, AICharacter> = new Map();
+  private extraParticipantIds: Set<string> = new Set(); // 角色以外的网络节点（如玩家角色）
   private cachedAnalysis: Map<string, NetworkAnalysisResult> = new Map();
   private lastAnalysisTime: Map<string, Date> = new Map();
   
@@ -84,7 +98,7 @@ export class RelationshipNetworkAnalyzer {
    */
   public async analyzeNetwork(
     network: RelationshipNetwork,
-    relationshipMemories: Map<string, RelationshipMemory>
+    relationshipMemories: Map<string, NetworkRelationshipSource>
   ): Promise<NetworkAnalysisResult> {
     console.log('🔍 开始网络分析...');
     
@@ -156,12 +170,12 @@ export class RelationshipNetworkAnalyzer {
    */
   private buildNetworkGraph(
     network: RelationshipNetwork,
-    relationshipMemories: Map<string, RelationshipMemory>
+    relationshipMemories: Map<string, NetworkRelationshipSource>
   ): Map<string, Map<string, Relationship>> {
     const graph = new Map<string, Map<string, Relationship>>();
     
     // 初始化所有节点
-    for (const characterId of this.characters.keys()) {
+    for (const characterId of [...this.characters.keys(), ...this.extraParticipantIds]) {
       graph.set(characterId, new Map());
     }
 
@@ -811,6 +825,13 @@ export class RelationshipNetworkAnalyzer {
     }
   }
 
+  /**
+   * 设置角色以外的网络参与者（如玩家角色的参与者ID）
+   */
+  public setExtraParticipants(participantIds: string[]): void {
+    this.extraParticipantIds = new Set(participantIds);
+  }
+
   /**
    * 获取网络统计信息
    */
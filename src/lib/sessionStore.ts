@@ -0,0 +1,381 @@
+import {
+  HistorySession,
+  TokenUsage,
+  StoredSessionRecord,
+  MessageTree,
+  CharacterStateSnapshot,
+  SESSION_SCHEMA_VERSION
+} from '@/types/session';
+import { Message, AICharacter } from '@/types/tavern';
+import { EmotionalState } from '@/types/emotion';
+import { ChapterSummary } from '@/types/summary';
+import { keyVault } from '@/lib/keyVault';
+import { DEFAULT_API_KEY_ALIAS } from '@/data/modelDefaults';
+import { MAIN_BRANCH_NAME } from '@/lib/conversationTree';
+
+// IndexedDB 数据库配置
+const DB_NAME = 'tavern-tales';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const META_STORE = 'meta';
+const LIVE_SESSION_KEY = 'liveSession';
+
+// 首个持久化版本：此前的会话只保存在内存中，所有记录都从 v2 起步
+const INITIAL_SESSION_SCHEMA_VERSION = 2;
+
+// 会话记录迁移函数：key 为迁移前的版本号，返回下一版本的记录
+type SessionMigration = (record: StoredSessionRecord) => StoredSessionRecord;
+
+const SESSION_MIGRATIONS: Record<number, SessionMigration> = {
+  // v2 -> v3：移除角色配置中的明文 API Key，改为引用密钥库别名
+  2: (record) => ({
+    ...record,
+    schemaVersion: 3,
+    characters: (record.characters || []).map(character => {
+      const modelConfig = character.modelConfig as Record<string, unknown> | undefined;
+      if (!modelConfig || !('apiKey' in modelConfig)) return character;
+      const { apiKey: _apiKey, ...rest } = modelConfig;
+      return {
+        ...character,
+        modelConfig: { ...rest, apiKeyAlias: rest.apiKeyAlias || DEFAULT_API_KEY_ALIAS }
+      };
+    })
+  }),
+  // v3 -> v4：补充对话章节摘要
+  3: (record) => ({
+    ...record,
+    schemaVersion: 4,
+    summaries: Array.isArray(record.summaries) ? record.summaries : []
+  }),
+  // v4 -> v5：线性对话转为只有主线的消息树
+  4: (record) => {
+    const messages = Array.isArray(record.messages) ? record.messages : [];
+    const nodes: Record<string, unknown> = {};
+    messages.forEach((message, index) => {
+      nodes[message.id as string] = {
+        message,
+        parentId: index > 0 ? messages[index - 1].id : null
+      };
+    });
+    const mainBranchId = `${record.id}-main`;
+
+    return {
+      ...record,
+      schemaVersion: 5,
+      messageTree: {
+        nodes,
+        branches: [{
+          id: mainBranchId,
+          name: MAIN_BRANCH_NAME,
+          headId: messages.length > 0 ? messages[messages.length - 1].id : null,
+          createdAt: record.timestamp
+        }],
+        activeBranchId: mainBranchId
+      }
+    };
+  }
+};
+
+/**
+ * 把旧版本的会话记录逐级迁移到当前版本
+ */
+export function migrateSessionRecord(record: StoredSessionRecord): StoredSessionRecord {
+  let migrated: StoredSessionRecord = {
+    ...record,
+    schemaVersion: record.schemaVersion || INITIAL_SESSION_SCHEMA_VERSION
+  };
+
+  while (migrated.schemaVersion < SESSION_SCHEMA_VERSION) {
+    const migration = SESSION_MIGRATIONS[migrated.schemaVersion];
+    if (!migration) {
+      throw new Error(`缺少会话记录迁移: v${migrated.schemaVersion}`);
+    }
+    migrated = migration(migrated);
+  }
+
+  return migrated;
+}
+
+/**
+ * 将会话转换为可持久化的记录（Date 统一转为 ISO 字符串，隐藏其中的 API Key）
+ */
+export function serializeSession(session: HistorySession): StoredSessionRecord {
+  const plain = keyVault.redactValue(JSON.parse(JSON.stringify(session)));
+  return {
+    ...plain,
+    schemaVersion: SESSION_SCHEMA_VERSION
+  };
+}
+
+/**
+ * 从持久化记录恢复会话，包括迁移和 Date 字段还原
+ */
+export function reviveSession(record: StoredSessionRecord): HistorySession {
+  const migrated = migrateSessionRecord(record);
+
+  return {
+    id: migrated.id,
+    name: migrated.name,
+    timestamp: reviveDate(migrated.timestamp),
+    messages: (migrated.messages || []).map(reviveMessage),
+    characters: (migrated.characters || []).map(reviveCharacter),
+    tokenUsage: (migrated.tokenUsage || []) as TokenUsage[],
+    sceneDescription: migrated.sceneDescription || '',
+    summaries: (migrated.summaries || []).map(reviveSummary),
+    messageTree: migrated.messageTree ? reviveMessageTree(migrated.messageTree) : undefined
+  };
+}
+
+function reviveDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  const date = new Date(value as string | number);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+function reviveMessage(record: Record<string, unknown>): Message {
+  const message = record as unknown as Message;
+  return {
+    ...message,
+    timestamp: reviveDate(message.timestamp),
+    emotionBefore: reviveEmotionalState(message.emotionBefore),
+    castEmotionsBefore: reviveEmotionMap(message.castEmotionsBefore),
+    alternates: Array.isArray(message.alternates)
+      ? message.alternates.map(alternate => ({
+          ...alternate,
+          timestamp: reviveDate(alternate.timestamp),
+          speakerEmotion: reviveEmotionalState(alternate.speakerEmotion),
+          castEmotions: reviveEmotionMap(alternate.castEmotions)
+        }))
+      : undefined
+  };
+}
+
+function reviveSummary(summary: Record<string, unknown>): ChapterSummary {
+  return {
+    ...(summary as unknown as ChapterSummary),
+    createdAt: reviveDate(summary.createdAt),
+    updatedAt: reviveDate(summary.updatedAt)
+  };
+}
+
+function reviveEmotionalState(state: EmotionalState | undefined): EmotionalState | undefined {
+  if (!state) return undefined;
+  return {
+    ...state,
+    timestamp: reviveDate(state.timestamp)
+  };
+}
+
+function reviveEmotionMap(
+  emotions: Record<string, EmotionalState> | undefined
+): Record<string, EmotionalState> | undefined {
+  if (!emotions) return undefined;
+  return Object.fromEntries(
+    Object.entries(emotions).map(([name, state]) => [name, reviveEmotionalState(state) as EmotionalState])
+  );
+}
+
+function reviveMessageTree(record: Record<string, unknown>): MessageTree {
+  const tree = record as unknown as MessageTree;
+  const nodes: MessageTree['nodes'] = {};
+  Object.entries(tree.nodes || {}).forEach(([nodeId, node]) => {
+    nodes[nodeId] = { ...node, message: reviveMessage(node.message as unknown as Record<string, unknown>) };
+  });
+
+  return {
+    ...tree,
+    nodes,
+    branches: (tree.branches || []).map(branch => ({
+      ...branch,
+      createdAt: reviveDate(branch.createdAt),
+      characterStates: branch.characterStates?.map(reviveCharacterState)
+    }))
+  };
+}
+
+function reviveCharacterState(state: CharacterStateSnapshot): CharacterStateSnapshot {
+  return {
+    ...state,
+    currentEmotionalState: reviveEmotionalState(state.currentEmotionalState),
+    emotionalHistory: Array.isArray(state.emotionalHistory)
+      ? state.emotionalHistory.map(reviveEmotionalState)
+      : state.emotionalHistory,
+    lastSpeakTime: state.lastSpeakTime ? reviveDate(state.lastSpeakTime) : undefined
+  };
+}
+
+function reviveCharacter(record: Record<string, unknown>): AICharacter {
+  const character = record as unknown as AICharacter;
+  return {
+    ...character,
+    currentEmotionalState: reviveEmotionalState(character.currentEmotionalState),
+    emotionalHistory: Array.isArray(character.emotionalHistory)
+      ? character.emotionalHistory.map(reviveEmotionalState)
+      : character.emotionalHistory
+  };
+}
+
+/**
+ * 会话持久化存储
+ * 历史会话列表与当前进行中的会话都保存在 IndexedDB 中
+ */
+export class SessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * 当前环境是否支持 IndexedDB
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => {
+        console.warn('⚠️ 会话数据库升级被其他标签页阻塞');
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private async runTransaction<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * 读取全部历史会话（按时间倒序）
+   */
+  async loadSessions(): Promise<HistorySession[]> {
+    if (!this.isAvailable()) return [];
+
+    try {
+      const records = await this.runTransaction<StoredSessionRecord[]>(
+        SESSION_STORE,
+        'readonly',
+        store => store.getAll()
+      );
+
+      const sessions: HistorySession[] = [];
+      for (const record of records) {
+        try {
+          sessions.push(reviveSession(record));
+        } catch (error) {
+          console.warn(`⚠️ 跳过无法恢复的历史会话 ${record?.id}:`, error);
+        }
+      }
+
+      return sessions.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    } catch (error) {
+      console.error('❌ 读取历史会话失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 保存（新增或覆盖）一个历史会话
+   */
+  async saveSession(session: HistorySession): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await this.runTransaction(SESSION_STORE, 'readwrite', store => store.put(serializeSession(session)));
+    } catch (error) {
+      console.error('❌ 保存历史会话失败:', error);
+    }
+  }
+
+  /**
+   * 删除历史会话
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await this.runTransaction(SESSION_STORE, 'readwrite', store => store.delete(sessionId));
+    } catch (error) {
+      console.error('❌ 删除历史会话失败:', error);
+    }
+  }
+
+  /**
+   * 读取上次关闭前正在进行的会话
+   */
+  async loadLiveSession(): Promise<HistorySession | null> {
+    if (!this.isAvailable()) return null;
+
+    try {
+      const entry = await this.runTransaction<{ key: string; value: StoredSessionRecord } | undefined>(
+        META_STORE,
+        'readonly',
+        store => store.get(LIVE_SESSION_KEY)
+      );
+      return entry?.value ? reviveSession(entry.value) : null;
+    } catch (error) {
+      console.error('❌ 读取当前会话失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 保存当前进行中的会话，用于刷新页面后恢复
+   */
+  async saveLiveSession(session: HistorySession): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await this.runTransaction(META_STORE, 'readwrite', store =>
+        store.put({ key: LIVE_SESSION_KEY, value: serializeSession(session) })
+      );
+    } catch (error) {
+      console.error('❌ 保存当前会话失败:', error);
+    }
+  }
+
+  /**
+   * 清除当前会话快照
+   */
+  async clearLiveSession(): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await this.runTransaction(META_STORE, 'readwrite', store => store.delete(LIVE_SESSION_KEY));
+    } catch (error) {
+      console.error('❌ 清除当前会话失败:', error);
+    }
+  }
+}
+
+// 导出单例实例
+export const sessionStore = new SessionStore();
@@ -0,0 +1,85 @@
+// 流式响应读取：SSE / NDJSON 通用解析，具体数据格式由各提供方适配器处理
+
+/**
+ * 判断一个错误是否由 AbortController 取消引起
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException
+    ? error.name === 'AbortError'
+    : error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 解析单个 SSE 事件的 data 字段（可能跨多行）
+ */
+function extractEventData(rawEvent: string): string | null {
+  const dataLines = rawEvent
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''));
+
+  return dataLines.length > 0 ? dataLines.join('\n') : null;
+}
+
+/**
+ * 逐条读取流式响应中的数据
+ * sse：按空行分隔事件，取 data 字段；ndjson：每行一个 JSON（Ollama 等本地服务）
+ * onData 返回 true 表示流已结束
+ */
+export async function readStreamEvents(
+  response: Response,
+  format: 'sse' | 'ndjson',
+  onData: (data: string) => boolean,
+  signal?: AbortSignal
+): Promise<{ aborted: boolean }> {
+  if (!response.body) {
+    return { aborted: false };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const separator = format === 'sse' ? /\r?\n\r?\n/ : /\r?\n/;
+  let buffer = '';
+
+  const handleRaw = (raw: string): boolean => {
+    const data = format === 'sse' ? extractEventData(raw) : raw.trim() || null;
+    return data === null ? false : onData(data);
+  };
+
+  try {
+    let done = false;
+    while (!done) {
+      if (signal?.aborted) {
+        await reader.cancel();
+        return { aborted: true };
+      }
+
+      const { value, done: streamDone } = await reader.read();
+      if (streamDone) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(separator);
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        if (handleRaw(rawEvent)) {
+          done = true;
+          break;
+        }
+      }
+    }
+
+    if (!done && buffer.trim()) {
+      handleRaw(buffer);
+    }
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) {
+      return { aborted: true };
+    }
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  return { aborted: false };
+}
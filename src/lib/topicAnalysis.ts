@@ -1,5 +1,8 @@
 // 主题相关性分析服务
 import { Message, AICharacter } from '@/types/tavern';
+import { LLMProviderType } from '@/types/llm';
+import { llmClient } from '@/lib/llmProviders';
+import { stripOocSegments } from '@/lib/messageMarkup';
 
 export interface TopicRelevanceResult {
   characterId: string;
@@ -8,8 +11,9 @@ export interface TopicRelevanceResult {
 }
 
 export interface TopicAnalysisConfig {
+  provider?: LLMProviderType;
   baseUrl: string;
-  apiKey: string;
+  apiKeyAlias?: string;
   modelName: string;
 }
 
@@ -21,13 +25,15 @@ export interface TopicAnalysisConfig {
 export function extractRecentTopics(messages: Message[]): string {
   if (messages.length === 0) return '暂无对话内容';
   
-  // 取最近5条消息进行主题分析
+  // 取最近5条消息进行主题分析，场外发言（OOC）不算作话题
   const recentMessages = messages.slice(-5);
   const topicContext = recentMessages
+    .map(msg => ({ sender: msg.sender, text: stripOocSegments(msg.text) }))
+    .filter(msg => msg.text)
     .map(msg => `${msg.sender}: ${msg.text}`)
     .join('\n');
     
-  return topicContext;
+  return topicContext || '暂无对话内容';
 }
 
 /**
@@ -78,32 +84,18 @@ ${topicContext}
 
 只返回JSON，不要其他内容。`;
 
-    const response = await fetch(`${config.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.modelName,
-        messages: [
-          {
-            role: 'user',
-            content: analysisPrompt
-          }
-        ],
-        temperature: 0.1, // 保持分析的一致性
-        max_tokens: 150,   // 限制token消耗
-        response_format: { type: "json_object" } // 确保返回JSON格式
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`API请求失败: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const resultText = data.choices[0]?.message?.content;
+    const response = await llmClient.complete(config, {
+      messages: [
+        {
+          role: 'user',
+          content: analysisPrompt
+        }
+      ],
+      temperature: 0.1, // 保持分析的一致性
+      maxTokens: 150,   // 限制token消耗
+      jsonMode: true    // 确保返回JSON格式
+    }, { logContext: { category: 'analysis', source: '主题分析' } });
+    const resultText = response.text;
     
     if (!resultText) {
       throw new Error('API返回内容为空');
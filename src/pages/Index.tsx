@@ -15,6 +15,18 @@ import ModelConfigPanel from '@/components/tavern/ModelConfigPanel';
 import CharacterPromptDialog from '@/components/tavern/CharacterPromptDialog';
 import HistoryPanel from '@/components/tavern/HistoryPanel';
 import SceneEditDialog from '@/components/tavern/SceneEditDialog';
+import KeyVaultDialog from '@/components/tavern/KeyVaultDialog';
+import LorebookEditor from '@/components/tavern/LorebookEditor';
+import PromptPipelineDialog from '@/components/tavern/PromptPipelineDialog';
+import LLMCallLogPanel from '@/components/tavern/LLMCallLogPanel';
+import RelationshipGraphPanel from '@/components/tavern/RelationshipGraphPanel';
+import EmotionClassifierDialog from '@/components/tavern/EmotionClassifierDialog';
+import PersonaManagerDialog from '@/components/tavern/PersonaManagerDialog';
+import { keyVault } from '@/lib/keyVault';
+import { lorebookStore } from '@/lib/lorebook';
+import { personaStore, getPersonaParticipantId } from '@/lib/persona';
+import { buildCharacterRequest, CharacterPromptContext } from '@/lib/characterPrompt';
+import { promptPipelineStore } from '@/lib/promptPipeline';
 
 import ContextManagerPanel from '@/components/tavern/ContextManagerPanel';
 import { batchAnalyzeTopicRelevance, TopicAnalysisConfig } from '@/lib/topicAnalysis';
@@ -50,52 +62,95 @@ import { useMessageSummarySystem } from '@/hooks/useMessageSummarySystem';
 import { useAutoConversationDebugger } from '@/hooks/useAutoConversationDebugger';
 import { useMultiResponseDisplay } from '@/hooks/useMultiResponseDisplay';
 import { estimateTokens } from '@/utils/tokenCounter';
+import { useBudget } from '@/hooks/useBudget';
+import { usePersonas } from '@/hooks/usePersonas';
+import { budgetManager } from '@/lib/budgetManager';
+import { ContextMemoryManager } from '@/lib/contextMemoryManager';
+import { RelationshipManager, parseGeneratedRelationshipSeeds } from '@/lib/relationshipManager';
+import {
+  narrator,
+  NARRATOR_NAME,
+  countMessagesSinceNarration,
+  pickNarratorEventKind,
+  createFallbackNarration,
+  createNarrationMessage,
+  replayNarrations
+} from '@/lib/narrator';
+import { NarratorConfig, NarratorEvent, defaultNarratorConfig } from '@/types/narrator';
+import { calculateCost, PricedModel } from '@/data/modelPricing';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { EmotionEngine } from '@/lib/emotionEngine';
-import { createDefaultEmotionalState, EmotionType } from '@/types/emotion';
-import { conversationEnhancer } from '@/lib/conversationPromptEnhancer';
+import { emotionClassifier } from '@/lib/emotionClassifier';
+import { createDefaultEmotionalState, EmotionType, EmotionalState, EmotionAnalysisResult } from '@/types/emotion';
 import InitialSetupDialog, { type ModelConfig as SetupModelConfig, type ScenarioConfig } from '@/components/tavern/InitialSetupDialog';
-
-// Token使用统计接口
-interface TokenUsage {
-  characterId: string;
-  characterName: string;
-  inputTokens: number;
-  outputTokens: number;
-  totalTokens: number;
-  apiCalls: number;
-  category: 'character' | 'system' | 'player' | 'analysis'; // 新增分类
-}
-
-// 历史会话接口
-interface HistorySession {
-  id: string;
-  name: string;
-  timestamp: Date;
-  messages: Message[];
-  characters: AICharacter[];
-  tokenUsage: TokenUsage[];
-}
+import { TokenUsage, HistorySession, MessageTree } from '@/types/session';
+import { CharacterRelationshipSeed } from '@/types/relationship';
+import { ChapterSummary } from '@/types/summary';
+import MemoryPanel from '@/components/tavern/MemoryPanel';
+import { sessionStore } from '@/lib/sessionStore';
+import { llmClient, getErrorMessage } from '@/lib/llmProviders';
+import { LLMMessage } from '@/types/llm';
+import { cleanCharacterReply, getOtherSpeakers } from '@/lib/promptAssembler';
+import {
+  appendAlternate,
+  selectAlternate,
+  editMessageText,
+  getActiveSpeakerEmotion,
+  getActiveCastEmotions,
+  captureCastEmotions,
+  applyCastEmotions,
+  truncateMessagesFrom,
+  getEmotionsBeforeRemoval,
+  rebuildSpeakerHistory
+} from '@/lib/messageAlternates';
+import {
+  createMessageTree,
+  getActiveBranch,
+  getBranchPath,
+  syncActiveBranch,
+  getCopyOnWriteIds,
+  storeActiveBranchState,
+  applyCharacterStates,
+  forkBranch,
+  switchBranch,
+  renameBranch,
+  pruneBranch,
+  mergeBranch
+} from '@/lib/conversationTree';
+import { ErrorToast } from '@/components/common/ErrorDisplay';
+import { ValidationUtils } from '@/utils/validation';
 
 const Index = () => {
   // 初始设置状态
   const [isInitialSetupOpen, setIsInitialSetupOpen] = useState<boolean>(true);
   const [isInitializing, setIsInitializing] = useState<boolean>(false);
   const [isSetupComplete, setIsSetupComplete] = useState<boolean>(false);
+  const [isRestoringSession, setIsRestoringSession] = useState<boolean>(true);
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [aiCharacters, setAiCharacters] = useState<AICharacter[]>([]);
+
+  // 最新的角色列表，记录消息前后在场角色的情感快照时使用
+  const aiCharactersRef = useRef(aiCharacters);
+  useEffect(() => {
+    aiCharactersRef.current = aiCharacters;
+  }, [aiCharacters]);
   
   // 情感分析引擎
   const emotionEngine = useRef(new EmotionEngine()).current;
   const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
   const [thinkingCharacterId, setThinkingCharacterId] = useState<string | null>(null);
+  const [regeneratingMessageId, setRegeneratingMessageId] = useState<string | null>(null);
   const [currentTurnAIIndex, setCurrentTurnAIIndex] = useState<number>(0);
   const [autoConversationTimer, setAutoConversationTimer] = useState<NodeJS.Timeout | null>(null);
   const [isAutoConversationActive, setIsAutoConversationActive] = useState<boolean>(true);
   const [speakerHistory, setSpeakerHistory] = useState<string[]>([]);
   const [lastPlayerMessageTime, setLastPlayerMessageTime] = useState<number | undefined>(undefined);
   
+  // 流式输出状态：正在生成中的回复文本及其取消控制器
+  const [streamingReply, setStreamingReply] = useState<{ characterId: string; text: string } | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  
   // 防止重复初始化的标志
   const hasInitialized = useRef<boolean>(false);
   
@@ -121,14 +176,51 @@ const Index = () => {
   const [isPromptDialogOpen, setIsPromptDialogOpen] = useState<boolean>(false);
   const [configuringCharacter, setConfiguringCharacter] = useState<AICharacter | null>(null);
   const [isGeneratingCharacters, setIsGeneratingCharacters] = useState<boolean>(false);
+  const [isImportingCard, setIsImportingCard] = useState<boolean>(false);
+  const cardFileInputRef = useRef<HTMLInputElement>(null);
+
+  // 页面级错误/提示（例如角色卡导入失败）
+  const [errorNotice, setErrorNotice] = useState<{ message: string; type: 'error' | 'warning' | 'info' } | null>(null);
+
+  // 费用预算：超出软预算暂停自动对话，超出硬预算拒绝新的模型请求
+  const { status: budgetStatus } = useBudget();
+
+  // 玩家角色：玩家消息以当前角色的名字发送
+  const { personas, activePersona } = usePersonas();
+
+  useEffect(() => {
+    if (budgetStatus.level === 'ok') return;
+    console.log(`💰 ${budgetStatus.reason}`);
+    setIsAutoConversationActive(false);
+    setErrorNotice({
+      message: budgetStatus.reason || '已达到预算上限',
+      type: budgetStatus.level === 'hard' ? 'error' : 'warning'
+    });
+  }, [budgetStatus.level, budgetStatus.reason]);
+
+  const isBlockedByBudget = useCallback(() => {
+    const status = budgetManager.getStatus();
+    if (status.level !== 'hard') return false;
+    setErrorNotice({ message: status.reason || '已达到预算上限', type: 'error' });
+    return true;
+  }, []);
 
   // 场景分析模型配置状态
-  const [sceneAnalysisConfig, setSceneAnalysisConfig] = useState({
+  const [sceneAnalysisConfig, setSceneAnalysisConfig] = useState<TopicAnalysisConfig>({
     baseUrl: sceneAnalysisDefaults.baseUrl,
-    apiKey: sceneAnalysisDefaults.apiKey,
+    apiKeyAlias: sceneAnalysisDefaults.apiKeyAlias,
     modelName: sceneAnalysisDefaults.modelName,
   });
   const [isSceneConfigDialogOpen, setIsSceneConfigDialogOpen] = useState<boolean>(false);
+  // 密钥库对话框：已创建但未解锁时启动即弹出
+  const [isKeyVaultOpen, setIsKeyVaultOpen] = useState<boolean>(() => keyVault.getStatus() === 'locked');
+  const [isLorebookOpen, setIsLorebookOpen] = useState<boolean>(false);
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState<boolean>(false);
+  const [isPromptPipelineOpen, setIsPromptPipelineOpen] = useState<boolean>(false);
+  const [isCallLogOpen, setIsCallLogOpen] = useState<boolean>(false);
+  const [isRelationshipGraphOpen, setIsRelationshipGraphOpen] = useState<boolean>(false);
+  const [isEmotionClassifierOpen, setIsEmotionClassifierOpen] = useState<boolean>(false);
+  const [isCharacterConfigOpen, setIsCharacterConfigOpen] = useState<boolean>(false);
 
   // 多AI响应配置状态
   const [multiResponseConfig, setMultiResponseConfig] = useState<MultiResponseConfig>(defaultMultiResponseConfig);
@@ -168,6 +260,8 @@ const Index = () => {
   // Token统计和历史会话状态
   const [currentTokenUsage, setCurrentTokenUsage] = useState<TokenUsage[]>([]);
   const [historySessions, setHistorySessions] = useState<HistorySession[]>([]);
+  // 当前会话的对话分支树，messages 始终是当前分支的路径（切换分支或保存时才写回树中）
+  const [messageTree, setMessageTree] = useState<MessageTree>(() => createMessageTree([]));
   const [isHistoryPanelCollapsed, setIsHistoryPanelCollapsed] = useState<boolean>(false);
 
   // 场景描述状态
@@ -180,6 +274,7 @@ const Index = () => {
   
   // 上下文管理系统状态
   const [isContextManagerOpen, setIsContextManagerOpen] = useState<boolean>(false);
+
   
   // 初始化增强AI响应系统和情感系统
   useEffect(() => {
@@ -254,7 +349,11 @@ const Index = () => {
   }, [aiCharacters]);
 
   // 更新Token使用统计
-  const updateTokenUsage = useCallback((characterId: string, characterName: string, inputTokens: number, outputTokens: number, category: 'character' | 'system' | 'player' | 'analysis' = 'character') => {
+  const updateTokenUsage = useCallback((characterId: string, characterName: string, inputTokens: number, outputTokens: number, category: 'character' | 'system' | 'player' | 'analysis' = 'character', model?: PricedModel) => {
+    // 玩家输入会计入角色请求的输入 token，不单独计费
+    const cost = model ? calculateCost(model, inputTokens, outputTokens) : 0;
+    budgetManager.recordCost(cost);
+
     setCurrentTokenUsage(prev => {
       const existingIndex = prev.findIndex(usage => usage.characterId === characterId && usage.category === category);
       if (existingIndex >= 0) {
@@ -265,6 +364,7 @@ const Index = () => {
           outputTokens: updated[existingIndex].outputTokens + outputTokens,
           totalTokens: updated[existingIndex].totalTokens + inputTokens + outputTokens,
           apiCalls: updated[existingIndex].apiCalls + 1,
+          cost: (updated[existingIndex].cost || 0) + cost,
         };
         return updated;
       } else {
@@ -276,19 +376,289 @@ const Index = () => {
           totalTokens: inputTokens + outputTokens,
           apiCalls: 1,
           category,
+          cost,
         }];
       }
     });
   }, []);
 
-  // 简单的Token估算函数（基于文本长度估算）
-  const estimateTokens = useCallback((text: string) => {
-    // 粗略估算：中文字符约1.5个token，英文单词约1个token
-    const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
-    const englishWords = text.split(/\s+/).filter(word => /[a-zA-Z]/.test(word)).length;
-    return Math.ceil(chineseChars * 1.5 + englishWords);
+  // 会话费用由当前会话的 Token 使用记录汇总，供预算检查使用
+  useEffect(() => {
+    budgetManager.setSessionCost(currentTokenUsage.reduce((sum, usage) => sum + (usage.cost || 0), 0));
+  }, [currentTokenUsage]);
+
+  // 模型情感分类的用量计入 Token 统计和预算
+  useEffect(() => emotionClassifier.onUsage((usage, config) => {
+    updateTokenUsage('emotion_classifier', '情感分类', usage.promptTokens, usage.completionTokens, 'analysis', config);
+  }), [updateTokenUsage]);
+
+  // 消息摘要系统：较早的对话自动整理为章节摘要，使用生成模型
+  const recordSummaryTokenUsage = useCallback((inputTokens: number, outputTokens: number) => {
+    updateTokenUsage('summary-system', '摘要系统', inputTokens, outputTokens, 'system', sceneAnalysisConfig);
+  }, [updateTokenUsage, sceneAnalysisConfig]);
+
+  const estimateSummaryTokens = useCallback(
+    (text: string) => estimateTokens(text, sceneAnalysisConfig.modelName),
+    [sceneAnalysisConfig.modelName]
+  );
+
+  const {
+    summaries: chapterSummaries,
+    isSummarizing,
+    summaryError,
+    pendingTokens: pendingSummaryTokens,
+    config: summaryConfig,
+    initializeSummarySystem,
+    restoreSummaries,
+    clearSummaries,
+    updateSummary,
+    regenerateSummary,
+    deleteLatestSummary,
+    getSummariesForPrompt
+  } = useMessageSummarySystem({
+    messages,
+    characters: aiCharacters,
+    enabled: summarySystemEnabled,
+    modelConfig: sceneAnalysisConfig,
+    estimateTokens: estimateSummaryTokens,
+    isBusy: !!thinkingCharacterId,
+    onTokenUsage: recordSummaryTokenUsage
+  });
+
+  // 旁白：按独立节奏推进场景，描述的环境与时间变化写入上下文记忆
+  const [narratorConfig, setNarratorConfig] = useState<NarratorConfig>(defaultNarratorConfig);
+  const [isNarrating, setIsNarrating] = useState<boolean>(false);
+  const [contextMemory, setContextMemory] = useState(() => new ContextMemoryManager([]));
+
+  // 人物关系：每条新消息都会更新发言者与对象之间的关系，关系写入角色提示词并影响发言者选择
+  const [relationshipManager, setRelationshipManager] = useState(() => new RelationshipManager([]));
+  const [relationshipVersion, setRelationshipVersion] = useState(0);
+  const relationshipProgressRef = useRef<{ manager: RelationshipManager; processedTexts: Map<string, string> } | null>(null);
+
+  // 加载会话、切换分支或删除消息后，按对话中的旁白重建场景上下文；
+  // 人物关系换用新的管理器，由下面的消息处理按对话重新计算
+  const resetSceneContext = useCallback((sessionMessages: Message[], characters: AICharacter[]) => {
+    const manager = new ContextMemoryManager(characters);
+    setContextMemory(manager);
+    replayNarrations(manager, sessionMessages, characters).catch(error => {
+      console.warn('⚠️ 重建场景上下文失败:', error);
+    });
+    setRelationshipManager(new RelationshipManager(characters));
   }, []);
 
+  // 初始关系只取决于角色名单和各自的预设关系，角色的情感、发言时间等变化时不重新写入
+  const relationshipSeedKey = JSON.stringify(aiCharacters.map(char => [char.id, char.name, char.relationshipSeeds || []]));
+  const seedCharacters = useMemo(
+    () => (JSON.parse(relationshipSeedKey) as [string, string, CharacterRelationshipSeed[]][])
+      .map(([id, name, relationshipSeeds]) => ({ id, name, relationshipSeeds })),
+    [relationshipSeedKey]
+  );
+
+  // 写入角色之间的初始关系；玩家角色作为独立参与者进入关系网络，并写入它与各角色的初始关系
+  useEffect(() => {
+    relationshipManager.seedCharacterRelationships(seedCharacters);
+    relationshipManager.setPlayerPersona(activePersona, seedCharacters);
+    setRelationshipVersion(version => version + 1);
+  }, [relationshipManager, activePersona, seedCharacters]);
+
+  // 依次处理尚未分析过的消息（玩家与角色发言，旁白除外）；
+  // 已分析过的消息被切换候选、编辑或删除后，关系无法局部撤销，换用新的管理器按当前对话重新计算
+  useEffect(() => {
+    if (relationshipProgressRef.current?.manager !== relationshipManager) {
+      relationshipProgressRef.current = { manager: relationshipManager, processedTexts: new Map() };
+    }
+    const { processedTexts } = relationshipProgressRef.current;
+    const currentTexts = new Map(messages.map(message => [message.id, message.text]));
+    const isOutdated = Array.from(processedTexts).some(([id, text]) => currentTexts.get(id) !== text);
+    if (isOutdated) {
+      setRelationshipManager(new RelationshipManager(aiCharacters));
+      return;
+    }
+
+    const pending = messages
+      .map((message, index) => ({ message, index }))
+      .filter(({ message }) => !message.isNarration && !processedTexts.has(message.id));
+    if (pending.length === 0) return;
+    pending.forEach(({ message }) => processedTexts.set(message.id, message.text));
+
+    const processPending = async () => {
+      for (const { message, index } of pending) {
+        await relationshipManager.processMessage(message, aiCharacters, messages.slice(Math.max(0, index - 5), index));
+      }
+      setRelationshipVersion(version => version + 1);
+    };
+    processPending().catch(error => {
+      console.warn('⚠️ 更新人物关系失败:', error);
+    });
+  }, [messages, relationshipManager, aiCharacters]);
+
+  // 角色提示词中的人物关系：同场角色名单，以及按名字查询的关系描述
+  // 关系在管理器内部更新，relationshipVersion 变化时重新生成描述函数，让提示词预览随之刷新
+  const [promptRelationshipContext, setPromptRelationshipContext] = useState<
+    Pick<CharacterPromptContext, 'participants' | 'describeRelationship'>
+  >({ participants: [] });
+  useEffect(() => {
+    const participantIds = new Map(aiCharacters.map(char => [char.name, char.id]));
+    participantIds.set(activePersona.name, getPersonaParticipantId(activePersona.id));
+    setPromptRelationshipContext({
+      participants: aiCharacters.map(char => char.name),
+      describeRelationship: (characterName: string, otherName: string) => {
+        const fromId = participantIds.get(characterName);
+        const toId = participantIds.get(otherName);
+        return fromId && toId ? relationshipManager.describeRelationship(fromId, toId) : '';
+      }
+    });
+  }, [relationshipManager, relationshipVersion, aiCharacters, activePersona]);
+
+  const addNarration = useCallback((event: NarratorEvent) => {
+    const narrationMessage = createNarrationMessage(uuidv4(), event);
+    setMessages(prevMessages => [...prevMessages, narrationMessage]);
+    contextMemory.recordSceneEvent(narrationMessage, event, aiCharacters).catch(error => {
+      console.warn('⚠️ 记录旁白场景事件失败:', error);
+    });
+  }, [contextMemory, aiCharacters]);
+
+  // 渲染角色提示词需要的场景信息（{{scene}}、{{time}}）与人物关系
+  const getPromptSceneContext = useCallback(() => ({
+    sceneDescription,
+    sceneTimeOfDay: contextMemory.getSceneState().timeOfDay,
+    ...promptRelationshipContext
+  }), [sceneDescription, contextMemory, promptRelationshipContext]);
+
+  // 生成一次旁白；定时触发时避开角色发言，并要求与上一次旁白之间有足够的对话
+  const runNarrator = useCallback(async (manual: boolean) => {
+    if (isNarrating || aiCharacters.length === 0) return;
+    if (!manual && (thinkingCharacterId || isMultiResponseActive)) return;
+    if (!manual && countMessagesSinceNarration(messages) < narratorConfig.minMessagesBetween) return;
+
+    const kind = pickNarratorEventKind(messages);
+    setIsNarrating(true);
+    try {
+      let event: NarratorEvent;
+      // 超出预算时不再调用模型，改用本地旁白
+      if (budgetManager.getStatus().level !== 'ok') {
+        event = createFallbackNarration(kind);
+      } else {
+        try {
+          const result = await narrator.narrate(sceneAnalysisConfig, {
+            sceneDescription,
+            messages,
+            kind,
+            participants: aiCharacters.map(char => char.name),
+            sceneState: contextMemory.getSceneState()
+          });
+          event = result.event;
+          const inputTokens = result.usage?.promptTokens
+            ?? estimateTokens(messages.slice(-8).map(message => message.text).join('\n'), sceneAnalysisConfig.modelName);
+          const outputTokens = result.usage?.completionTokens ?? estimateTokens(event.text, sceneAnalysisConfig.modelName);
+          updateTokenUsage('narrator', NARRATOR_NAME, inputTokens, outputTokens, 'system', sceneAnalysisConfig);
+        } catch (error) {
+          console.warn('⚠️ 旁白生成失败，使用本地旁白:', getErrorMessage(error));
+          event = createFallbackNarration(kind);
+        }
+      }
+      addNarration(event);
+      console.log(`📜 旁白（${kind}）:`, event.text);
+    } finally {
+      setIsNarrating(false);
+    }
+  }, [
+    isNarrating,
+    aiCharacters,
+    thinkingCharacterId,
+    isMultiResponseActive,
+    messages,
+    narratorConfig.minMessagesBetween,
+    sceneAnalysisConfig,
+    sceneDescription,
+    contextMemory,
+    updateTokenUsage,
+    addNarration
+  ]);
+
+  // 旁白定时器与自动对话定时器相互独立，只在自动对话进行时运行
+  const runNarratorRef = useRef(runNarrator);
+  useEffect(() => {
+    runNarratorRef.current = runNarrator;
+  }, [runNarrator]);
+
+  useEffect(() => {
+    if (!narratorConfig.enabled || !isAutoConversationActive) return;
+
+    const narratorTimer = setInterval(() => {
+      runNarratorRef.current(false);
+    }, narratorConfig.interval * 1000);
+
+    return () => clearInterval(narratorTimer);
+  }, [narratorConfig.enabled, narratorConfig.interval, isAutoConversationActive]);
+
+  const handleNarratorConfigChange = useCallback((changes: Partial<NarratorConfig>) => {
+    setNarratorConfig(prevConfig => ({ ...prevConfig, ...changes }));
+  }, []);
+
+  // 启动时从IndexedDB恢复历史会话和上次进行中的会话
+  useEffect(() => {
+    let cancelled = false;
+
+    const restorePersistedSessions = async () => {
+      const [storedSessions, liveSession] = await Promise.all([
+        sessionStore.loadSessions(),
+        sessionStore.loadLiveSession()
+      ]);
+      if (cancelled) return;
+
+      setHistorySessions(storedSessions);
+
+      if (liveSession && liveSession.characters.length > 0) {
+        setMessages(liveSession.messages);
+        setMessageTree(liveSession.messageTree ?? createMessageTree(liveSession.messages));
+        setAiCharacters(liveSession.characters);
+        setCurrentTokenUsage(liveSession.tokenUsage);
+        setSceneDescription(liveSession.sceneDescription || '');
+        restoreSummaries(liveSession.summaries || []);
+        resetSceneContext(liveSession.messages, liveSession.characters);
+        setSpeakerHistory([]);
+        // 恢复后先暂停自动对话，避免刷新页面即产生API调用
+        setIsAutoConversationActive(false);
+        setIsSetupComplete(true);
+        setIsInitialSetupOpen(false);
+        console.log('💾 已恢复上次会话:', liveSession.messages.length, '条消息');
+      }
+
+      setIsRestoringSession(false);
+    };
+
+    restorePersistedSessions().catch(error => {
+      console.error('❌ 恢复持久化会话失败:', error);
+      if (!cancelled) setIsRestoringSession(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreSummaries, resetSceneContext]);
+
+  // 当前会话变化后（防抖）写入IndexedDB
+  useEffect(() => {
+    if (isRestoringSession || !isSetupComplete) return;
+
+    const saveTimer = setTimeout(() => {
+      sessionStore.saveLiveSession({
+        id: 'live',
+        name: '当前会话',
+        timestamp: new Date(),
+        messages,
+        characters: aiCharacters,
+        tokenUsage: currentTokenUsage,
+        sceneDescription,
+        summaries: chapterSummaries,
+        messageTree: syncActiveBranch(messageTree, messages)
+      });
+    }, 500);
+
+    return () => clearTimeout(saveTimer);
+  }, [messages, messageTree, aiCharacters, currentTokenUsage, sceneDescription, chapterSummaries, isSetupComplete, isRestoringSession]);
+
   const addMessage = useCallback((text: string, sender: string, isPlayer: boolean, avatarColor?: string, emotionAnalysisResult?: any, updatedCharacter?: AICharacter) => {
     const newMessage: Message = {
       id: uuidv4(),
@@ -311,6 +681,98 @@ const Index = () => {
     }
   }, []);
 
+  // 计算角色说出一段回复后的情感状态（以 emotionBefore 为起点），不修改传入的角色
+  const computeReplyEmotion = useCallback((character: AICharacter, text: string, emotionBefore?: EmotionalState) => {
+    const emotionAnalysisResult = emotionClassifier.analyzeCached(text);
+    const updated = emotionEngine.updateCharacterEmotion(
+      { ...character, currentEmotionalState: emotionBefore, emotionalHistory: [...(character.emotionalHistory || [])] },
+      text,
+      emotionAnalysisResult,
+      'ai_response'
+    );
+    return { emotionAnalysisResult, speakerEmotion: updated.currentEmotionalState };
+  }, [emotionEngine]);
+
+  const applySpeakerEmotion = useCallback((characterName: string, emotion?: EmotionalState) => {
+    if (!emotion) return;
+    setAiCharacters(prevCharacters =>
+      prevCharacters.map(char =>
+        char.name === characterName ? { ...char, currentEmotionalState: emotion } : char
+      )
+    );
+  }, []);
+
+  // 一条消息之后的场景情感更新：发言者的情绪按关系亲近程度感染在场的其他角色，其余情绪向基线回落
+  const computeSceneEmotions = useCallback((characters: AICharacter[], speakerId: string, emotion: EmotionalState) =>
+    emotionEngine.applySceneEmotionTick(
+      characters,
+      speakerId,
+      emotion,
+      listenerId => relationshipManager.getEmotionalCloseness(listenerId, speakerId)
+    ), [emotionEngine, relationshipManager]);
+
+  const spreadSceneEmotion = useCallback((speakerId: string, emotion: EmotionalState) => {
+    setAiCharacters(prevCharacters => computeSceneEmotions(prevCharacters, speakerId, emotion));
+  }, [computeSceneEmotions]);
+
+  // 角色说出一段回复后在场各角色的情感状态：从 castBefore 出发，发言角色换成 speakerEmotion 后感染其他角色
+  const computeReplyCastEmotions = useCallback((castBefore: AICharacter[], character: AICharacter, speakerEmotion?: EmotionalState) => {
+    if (!speakerEmotion) return captureCastEmotions(castBefore);
+    const withSpeaker = castBefore.map(char =>
+      char.name === character.name ? { ...char, currentEmotionalState: speakerEmotion } : char
+    );
+    return captureCastEmotions(computeSceneEmotions(withSpeaker, character.id, speakerEmotion));
+  }, [computeSceneEmotions]);
+
+  // 添加角色回复：作为第一个候选保存，发言角色与在场其他角色的情感随回复内容更新，
+  // 更新前后的在场角色情感一起记录，切换候选、编辑和删除时据此恢复
+  const addCharacterReply = useCallback((character: AICharacter, text: string) => {
+    const castBefore = aiCharactersRef.current;
+    const emotionBefore = castBefore.find(char => char.id === character.id)?.currentEmotionalState ?? character.currentEmotionalState;
+    const { emotionAnalysisResult, speakerEmotion } = computeReplyEmotion(character, text, emotionBefore);
+    const castEmotions = computeReplyCastEmotions(castBefore, character, speakerEmotion);
+    const timestamp = new Date();
+    const newMessage: Message = {
+      id: uuidv4(),
+      sender: character.name,
+      text,
+      isPlayer: false,
+      timestamp,
+      avatarColor: character.avatarColor,
+      emotionAnalysisResult,
+      emotionBefore,
+      castEmotionsBefore: captureCastEmotions(castBefore),
+      alternates: [{ text, timestamp, emotionAnalysisResult, speakerEmotion, castEmotions }],
+      activeAlternate: 0,
+    };
+    setMessages((prevMessages) => [...prevMessages, newMessage]);
+    setAiCharacters(prevCharacters => applyCastEmotions(prevCharacters, castEmotions));
+  }, [computeReplyEmotion, computeReplyCastEmotions]);
+
+  // 一条角色回复之前的在场角色（旧消息没有快照时使用当前状态）
+  const getCastBefore = useCallback((message: Message) =>
+    message.castEmotionsBefore
+      ? applyCastEmotions(aiCharactersRef.current, message.castEmotionsBefore)
+      : aiCharactersRef.current, []);
+
+  // 切换或改写一条角色回复后写回情感：最新一条消息换成对应的在场角色情感，
+  // 较早的消息之后还有其他发言，只在它仍是该角色最新回复时更新发言角色自己
+  const applyMessageEmotions = useCallback((
+    target: Message,
+    index: number,
+    speakerEmotion?: EmotionalState,
+    castEmotions?: Record<string, EmotionalState>
+  ) => {
+    if (index === messages.length - 1 && castEmotions) {
+      setAiCharacters(prevCharacters => applyCastEmotions(prevCharacters, castEmotions));
+      return;
+    }
+    const isLatestReply = !messages.slice(index + 1).some(message => message.sender === target.sender);
+    if (isLatestReply) {
+      applySpeakerEmotion(target.sender, speakerEmotion);
+    }
+  }, [messages, applySpeakerEmotion]);
+
   // 更新角色最后发言时间
   const updateCharacterLastSpeakTime = useCallback((characterId: string) => {
     setAiCharacters(prevChars =>
@@ -322,6 +784,37 @@ const Index = () => {
     );
   }, []);
 
+  // 开始一次流式回复，返回传给 fetchAIResponse 的流式参数
+  const beginStreamingReply = useCallback((characterId: string) => {
+    streamAbortRef.current?.abort();
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setStreamingReply({ characterId, text: '' });
+
+    return {
+      signal: controller.signal,
+      onToken: (_delta: string, fullText: string) => {
+        if (!controller.signal.aborted) {
+          setStreamingReply({ characterId, text: fullText });
+        }
+      }
+    };
+  }, []);
+
+  // 结束流式回复，清理临时气泡
+  const endStreamingReply = useCallback(() => {
+    streamAbortRef.current = null;
+    setStreamingReply(null);
+  }, []);
+
+  // 用户中途取消当前回复
+  const handleCancelStreaming = useCallback(() => {
+    if (streamAbortRef.current) {
+      console.log('⏹️ 用户取消了当前回复的生成');
+      streamAbortRef.current.abort();
+    }
+  }, []);
+
   // 计算角色发言冷却权重
   const calculateCooldownWeight = useCallback((character: AICharacter): number => {
     if (!character.lastSpeakTime) {
@@ -356,12 +849,21 @@ const Index = () => {
     return 0.8 + timeWeight * 0.4; // 45秒后权重范围：0.8-1.2
   }, []);
 
-  // 智能发言者选择（整合冷却机制、历史惩罚、主题相关性和发言欲望）
-  const selectNextSpeakerIndex = useCallback(async (mentionedCharacters?: string[]) => {
+  // 智能发言者选择（整合冷却机制、历史惩罚、主题相关性、发言欲望和人物关系）
+  // lastSpeakerId：上一位发言者的参与者ID，默认取对话中最后一条非旁白消息的发送者
+  const selectNextSpeakerIndex = useCallback(async (mentionedCharacters?: string[], lastSpeakerId?: string | null) => {
     if (aiCharacters.length === 0) return 0;
     if (aiCharacters.length === 1) return 0;
 
     console.log('🧠 开始智能发言者选择v2.0...');
+
+    // 盟友更愿意接盟友的话，对手更容易插嘴
+    const lastSpokenMessage = [...messages].reverse().find(message => !message.isNarration);
+    const speakerId = lastSpeakerId !== undefined
+      ? lastSpeakerId
+      : lastSpokenMessage ? relationshipManager.getMessageParticipantId(lastSpokenMessage, aiCharacters) : null;
+    const applyRelationshipBias = (results: SpeakingDesireResult[]) =>
+      relationshipManager.applySpeakingBias(results, speakerId);
     
     // 如果有@提及，优先处理
     if (mentionedCharacters && mentionedCharacters.length > 0) {
@@ -379,9 +881,9 @@ const Index = () => {
           return selectedIndex;
         } else {
           // 多个被@角色，从中选择发言欲望最高的
-          const mentionedDesireResults = batchCalculateSpeakingDesire(
+          const mentionedDesireResults = applyRelationshipBias(batchCalculateSpeakingDesire(
             mentionedCharacterIndices.map(i => aiCharacters[i])
-          );
+          ));
           
           const bestMentioned = mentionedDesireResults
             .map((result, index) => ({ ...result, originalIndex: mentionedCharacterIndices[index] }))
@@ -395,11 +897,17 @@ const Index = () => {
 
     // 步骤1：分析主题相关性（如果有足够的对话内容）
     let topicRelevanceResults = [];
-    if (messages.length >= 3) { // 至少需要3条消息才进行主题分析
+    // 超出软预算后主题分析降级为本地规则，不再调用模型
+    const allowAnalysisCalls = budgetManager.getStatus().level === 'ok';
+    if (!allowAnalysisCalls) {
+      console.log('💰 已超出预算，跳过模型主题分析');
+    }
+    if (messages.length >= 3 && allowAnalysisCalls) { // 至少需要3条消息才进行主题分析
       try {
         const topicConfig: TopicAnalysisConfig = {
+          provider: sceneAnalysisConfig.provider,
           baseUrl: sceneAnalysisConfig.baseUrl,
-          apiKey: sceneAnalysisConfig.apiKey,
+          apiKeyAlias: sceneAnalysisConfig.apiKeyAlias,
           modelName: sceneAnalysisConfig.modelName
         };
         
@@ -408,9 +916,9 @@ const Index = () => {
         console.log('📊 主题相关性分析完成:', topicRelevanceResults);
         
         // 统计主题分析的Token使用
-        const analysisInputTokens = estimateTokens(messages.slice(-5).map(m => m.text).join(' '));
-        const analysisOutputTokens = estimateTokens(topicRelevanceResults.map(r => r.reasoningBrief).join(' '));
-        updateTokenUsage('topic_analysis', '主题分析', analysisInputTokens, analysisOutputTokens, 'analysis');
+        const analysisInputTokens = estimateTokens(messages.slice(-5).map(m => m.text).join(' '), topicConfig.modelName);
+        const analysisOutputTokens = estimateTokens(topicRelevanceResults.map(r => r.reasoningBrief).join(' '), topicConfig.modelName);
+        updateTokenUsage('topic_analysis', '主题分析', analysisInputTokens, analysisOutputTokens, 'analysis', topicConfig);
       } catch (error) {
         console.warn('⚠️ 主题相关性分析失败，使用回退机制:', error);
         // 继续使用默认值
@@ -418,7 +926,7 @@ const Index = () => {
     }
 
     // 步骤2：计算发言欲望分数
-    const speakingDesireResults = batchCalculateSpeakingDesire(aiCharacters, topicRelevanceResults);
+    const speakingDesireResults = applyRelationshipBias(batchCalculateSpeakingDesire(aiCharacters, topicRelevanceResults));
     console.log('💭 发言欲望分析完成:', speakingDesireResults);
 
     // 步骤3：使用新的智能选择算法
@@ -454,7 +962,7 @@ const Index = () => {
       
       return selectedIndex;
     }
-  }, [aiCharacters, speakerHistory, messages, sceneAnalysisConfig, calculateCooldownWeight, lastPlayerMessageTime]);
+  }, [aiCharacters, speakerHistory, messages, sceneAnalysisConfig, calculateCooldownWeight, lastPlayerMessageTime, relationshipManager]);
 
   // 回退的传统发言者选择方法
   const selectFallbackSpeaker = useCallback(() => {
@@ -577,6 +1085,12 @@ const Index = () => {
       return;
     }
 
+    if (budgetManager.getStatus().level !== 'ok') {
+      console.log('💰 已超出预算，自动对话保持暂停');
+      setIsAutoConversationActive(false);
+      return;
+    }
+
     if (thinkingCharacterId) {
       console.log('❌ 有角色正在思考中，停止执行:', thinkingCharacterId);
       return;
@@ -648,8 +1162,16 @@ const Index = () => {
           return;
         }
         let aiResponseText = null;
-        // 尝试用大模型API回复
-        aiResponseText = await fetchAIResponse(nextAI, messages, updateTokenUsage, estimateTokens, emotionEngine);
+        // 尝试用大模型API回复（流式输出）
+        const streamHandle = beginStreamingReply(nextAI.id);
+        aiResponseText = await fetchAIResponse(nextAI, messages, updateTokenUsage, estimateTokens, streamHandle, getSummariesForPrompt(), getPromptSceneContext());
+        endStreamingReply();
+        if (streamHandle.signal.aborted && !aiResponseText) {
+          console.log(`⏹️ ${nextAI.name} 的回复已取消，跳过本轮发言`);
+          setThinkingCharacterId(null);
+          startAutoConversation();
+          return;
+        }
         if (!aiResponseText) {
           // 回退本地responses
           aiResponseText = nextAI.responses[Math.floor(Math.random() * nextAI.responses.length)];
@@ -657,7 +1179,7 @@ const Index = () => {
         console.log(`✅ ${nextAI.name} (ID: ${nextAI.id}, Index: ${nextAIIndex}) 发言完成. Config:`, nextAI.modelConfig);
         
         // aiResponseText 现在是纯字符串，不需要额外处理
-        addMessage(aiResponseText, nextAI.name, false, nextAI.avatarColor);
+        addCharacterReply(nextAI, aiResponseText);
         updateCharacterLastSpeakTime(nextAI.id); // 更新最后发言时间
         setActiveSpeakerId(nextAI.id);
         setThinkingCharacterId(null);
@@ -681,9 +1203,13 @@ const Index = () => {
     aiCharacters,
     isAutoConversationActive,
     thinkingCharacterId,
-    addMessage,
+    addCharacterReply,
     selectNextSpeakerIndex,
     updateCharacterLastSpeakTime,
+    beginStreamingReply,
+    endStreamingReply,
+    getSummariesForPrompt,
+    getPromptSceneContext,
     // 移除 autoConversationTimer 依赖项，避免循环依赖
   ]);
 
@@ -830,13 +1356,22 @@ const Index = () => {
 
       // 生成AI响应
       let aiResponseText = null;
+      const streamHandle = beginStreamingReply(character.id);
       try {
-        aiResponseText = await fetchAIResponse(character, messages, updateTokenUsage, estimateTokens, emotionEngine);
+        aiResponseText = await fetchAIResponse(character, messages, updateTokenUsage, estimateTokens, streamHandle, getSummariesForPrompt(), getPromptSceneContext());
       } catch (error) {
         console.error(`${character.name} AI响应失败:`, error);
         // 标记响应错误
         markResponseError(character.id, `AI响应失败: ${error}`);
       }
+      endStreamingReply();
+      
+      if (streamHandle.signal.aborted && !aiResponseText) {
+        console.log(`⏹️ ${character.name} 的回复已取消，跳过该响应者`);
+        markResponseError(character.id, '用户取消了生成');
+        setThinkingCharacterId(null);
+        continue;
+      }
       
       if (!aiResponseText) {
         aiResponseText = character.responses[Math.floor(Math.random() * character.responses.length)];
@@ -847,7 +1382,7 @@ const Index = () => {
 
       if (aiResponseText) {
         // 添加响应消息
-        addMessage(aiResponseText, character.name, false, character.avatarColor);
+        addCharacterReply(character, aiResponseText);
         updateCharacterLastSpeakTime(character.id);
         setActiveSpeakerId(character.id);
         
@@ -891,14 +1426,17 @@ const Index = () => {
     aiCharacters, 
     messages, 
     updateTokenUsage, 
-    estimateTokens, 
-    addMessage, 
+    addCharacterReply, 
     updateCharacterLastSpeakTime, 
     multiResponseConfig.responseInterval,
     startMultiResponse,
     updateCurrentResponderIndex,
     markResponseCompleted,
-    markResponseError
+    markResponseError,
+    beginStreamingReply,
+    endStreamingReply,
+    getSummariesForPrompt,
+    getPromptSceneContext
   ]);
 
   // 执行多AI响应（简化为只有传统模式）
@@ -913,7 +1451,8 @@ const Index = () => {
   const executeSingleAIResponse = useCallback(async (playerMessage: string, mentionedCharacters?: string[]) => {
     console.log('🎯 执行单一AI响应模式');
     
-    const respondingAIIndex = await selectNextSpeakerIndex(mentionedCharacters);
+    // 玩家刚刚发言，按各角色与玩家的关系调整发言欲望
+    const respondingAIIndex = await selectNextSpeakerIndex(mentionedCharacters, relationshipManager.getPlayerParticipantId());
     const respondingAI = aiCharacters[respondingAIIndex];
 
     if (!respondingAI) {
@@ -929,13 +1468,23 @@ const Index = () => {
 
     setTimeout(async () => {
       let aiResponseText = null;
-              aiResponseText = await fetchAIResponse(respondingAI, messages, updateTokenUsage, estimateTokens, emotionEngine);
+      const streamHandle = beginStreamingReply(respondingAI.id);
+      aiResponseText = await fetchAIResponse(respondingAI, messages, updateTokenUsage, estimateTokens, streamHandle, getSummariesForPrompt(), getPromptSceneContext());
+      endStreamingReply();
+      if (streamHandle.signal.aborted && !aiResponseText) {
+        console.log(`⏹️ ${respondingAI.name} 的回复已取消`);
+        setThinkingCharacterId(null);
+        setTimeout(() => {
+          setIsAutoConversationActive(true);
+        }, 2000 + Math.random() * 1000);
+        return;
+      }
       if (!aiResponseText) {
         aiResponseText = respondingAI.responses[Math.floor(Math.random() * respondingAI.responses.length)];
       }
       console.log(`${respondingAI.name} (ID: ${respondingAI.id}, Index: ${respondingAIIndex}) is responding to player. Config:`, respondingAI.modelConfig);
       // aiResponseText 现在是纯字符串，直接使用
-      addMessage(aiResponseText, respondingAI.name, false, respondingAI.avatarColor);
+      addCharacterReply(respondingAI, aiResponseText);
       updateCharacterLastSpeakTime(respondingAI.id);
       setActiveSpeakerId(respondingAI.id);
       setThinkingCharacterId(null);
@@ -954,9 +1503,11 @@ const Index = () => {
         setIsAutoConversationActive(true); 
       }, 2000 + Math.random() * 1000); // 缩短延迟时间到2-3秒
     }, 1500 + Math.random() * 1000);
-  }, [selectNextSpeakerIndex, aiCharacters, messages, updateTokenUsage, estimateTokens, addMessage, updateCharacterLastSpeakTime]);
+  }, [selectNextSpeakerIndex, aiCharacters, messages, updateTokenUsage, addCharacterReply, updateCharacterLastSpeakTime, beginStreamingReply, endStreamingReply, getSummariesForPrompt, getPromptSceneContext, relationshipManager]);
 
   const handlePlayerMessage = useCallback(async (text: string, mentionResult?: import('@/lib/mentionParser').MentionParseResult) => {
+    if (isBlockedByBudget()) return;
+
     let wasAutoConversationActiveBeforePlayer = isAutoConversationActive; // Store current state
 
     if (autoConversationTimer) {
@@ -968,35 +1519,40 @@ const Index = () => {
       setThinkingCharacterId(null); 
     }
 
-    // 分析玩家消息的情感
-    const playerEmotionAnalysis = emotionEngine.analyzeText(text);
+    // 分析玩家消息的情感（开启模型分类时先用词典结果，模型结果返回后再更新）
+    const playerEmotionAnalysis = emotionClassifier.analyzeCached(text);
     console.log('😊 玩家消息情感分析:', playerEmotionAnalysis);
 
     // 创建消息，包含@提及信息和情感分析结果
     const newMessage = {
       id: crypto.randomUUID(),
-      sender: '玩家',
+      sender: activePersona.name,
       text,
       isPlayer: true,
+      personaId: activePersona.id,
       timestamp: new Date(),
       mentionedCharacters: mentionResult?.mentionedCharacters || [],
-      emotionAnalysisResult: playerEmotionAnalysis
+      emotionAnalysisResult: playerEmotionAnalysis,
+      castEmotionsBefore: captureCastEmotions(aiCharactersRef.current)
     };
     setMessages((prevMessages) => [...prevMessages, newMessage]);
     setActiveSpeakerId(null); 
 
-    // 更新所有角色的情感状态（情感传染）
-    setAiCharacters(prevCharacters => 
-      prevCharacters.map(character => {
-        const updatedCharacter = emotionEngine.updateCharacterEmotion(
-          character, 
-          text, 
-          playerEmotionAnalysis,
-          'player_message'
-        );
-        return updatedCharacter;
-      })
-    );
+    // 玩家的情绪按关系亲近程度感染在场角色
+    const playerParticipantId = relationshipManager.getPlayerParticipantId() || getPersonaParticipantId(activePersona.id);
+    if (emotionClassifier.isModelEnabled() && playerEmotionAnalysis.source !== 'llm') {
+      emotionClassifier.classify(text).then(result => {
+        if (result.source === 'llm') {
+          console.log('🎭 玩家消息模型情感分类:', result);
+          setMessages(prevMessages => prevMessages.map(message =>
+            message.id === newMessage.id ? { ...message, emotionAnalysisResult: result } : message
+          ));
+        }
+        spreadSceneEmotion(playerParticipantId, emotionEngine.createEmotionFromAnalysis(result, 'player_message'));
+      });
+    } else {
+      spreadSceneEmotion(playerParticipantId, emotionEngine.createEmotionFromAnalysis(playerEmotionAnalysis, 'player_message'));
+    }
 
     // 记录玩家消息时间
     setLastPlayerMessageTime(Date.now());
@@ -1017,8 +1573,9 @@ const Index = () => {
       try {
         // 评估多AI响应计划
         const topicConfig: TopicAnalysisConfig = {
+          provider: sceneAnalysisConfig.provider,
           baseUrl: sceneAnalysisConfig.baseUrl,
-          apiKey: sceneAnalysisConfig.apiKey,
+          apiKeyAlias: sceneAnalysisConfig.apiKeyAlias,
           modelName: sceneAnalysisConfig.modelName
         };
 
@@ -1028,7 +1585,8 @@ const Index = () => {
           text,
           mentionResult?.mentionedCharacters,
           multiResponseConfig,
-          topicConfig
+          topicConfig,
+          results => relationshipManager.applySpeakingBias(results, relationshipManager.getPlayerParticipantId())
         );
 
         if (shouldExecuteMultiResponse(responsePlan)) {
@@ -1053,15 +1611,215 @@ const Index = () => {
     aiCharacters,
     thinkingCharacterId,
     isAutoConversationActive,
+    activePersona,
     multiResponseConfig,
     sceneAnalysisConfig,
     messages,
-    estimateTokens,
     updateTokenUsage,
     executeMultiAIResponse,
-    executeSingleAIResponse
+    executeSingleAIResponse,
+    isBlockedByBudget,
+    relationshipManager,
+    spreadSceneEmotion
   ]);
 
+  // 改动一条已有消息，返回改动后的消息 ID；
+  // 消息也属于其他分支时改动的是它的副本，其他分支保留原来的对话
+  const updateMessage = useCallback((messageId: string, update: (message: Message) => Message): string => {
+    const copies = getCopyOnWriteIds(messageTree, messages, messages.findIndex(message => message.id === messageId));
+    setMessages(prevMessages => prevMessages.map(message => {
+      const changed = message.id === messageId ? update(message) : message;
+      const copyId = copies.get(message.id);
+      return copyId ? { ...changed, id: copyId } : changed;
+    }));
+    return copies.get(messageId) ?? messageId;
+  }, [messages, messageTree]);
+
+  // 重新生成最新一条角色回复，结果作为新的候选追加
+  const handleRegenerateMessage = useCallback(async (messageId: string) => {
+    const index = messages.findIndex(message => message.id === messageId);
+    const target = messages[index];
+    const character = target && aiCharacters.find(char => char.name === target.sender);
+    if (!target || target.isPlayer || !character || thinkingCharacterId) return;
+    if (isBlockedByBudget()) return;
+
+    forceCleanupTimers();
+    setIsAutoConversationActive(false);
+    setThinkingCharacterId(character.id);
+    setRegeneratingMessageId(messageId);
+    console.log(`🔁 重新生成 ${character.name} 的回复`);
+
+    const streamHandle = beginStreamingReply(character.id);
+    const text = await fetchAIResponse(character, messages.slice(0, index), updateTokenUsage, estimateTokens, streamHandle, getSummariesForPrompt(), getPromptSceneContext());
+    endStreamingReply();
+    setRegeneratingMessageId(null);
+    setThinkingCharacterId(null);
+
+    if (!text) {
+      if (!streamHandle.signal.aborted) {
+        setErrorNotice({ message: `${character.name} 的回复重新生成失败，已保留原回复`, type: 'warning' });
+      }
+      return;
+    }
+
+    const { emotionAnalysisResult, speakerEmotion } = computeReplyEmotion(character, text, target.emotionBefore);
+    const castEmotions = computeReplyCastEmotions(getCastBefore(target), character, speakerEmotion);
+    updateMessage(messageId, message =>
+      appendAlternate(message, { text, timestamp: new Date(), emotionAnalysisResult, speakerEmotion, castEmotions })
+    );
+    applyMessageEmotions(target, index, speakerEmotion, castEmotions);
+  }, [messages, aiCharacters, thinkingCharacterId, isBlockedByBudget, forceCleanupTimers, beginStreamingReply, endStreamingReply, updateTokenUsage, getSummariesForPrompt, getPromptSceneContext, computeReplyEmotion, computeReplyCastEmotions, getCastBefore, applyMessageEmotions, updateMessage]);
+
+  // 切换候选回复，发言角色（最新一条消息时还有受感染的其他角色）的情感状态随之切换
+  const handleSelectAlternate = useCallback((messageId: string, index: number) => {
+    const messageIndex = messages.findIndex(message => message.id === messageId);
+    const target = messages[messageIndex];
+    if (!target) return;
+
+    const selected = selectAlternate(target, index);
+    updateMessage(messageId, () => selected);
+    applyMessageEmotions(target, messageIndex, getActiveSpeakerEmotion(selected), getActiveCastEmotions(selected));
+  }, [messages, applyMessageEmotions, updateMessage]);
+
+  // 编辑消息内容；角色的最新一条回复被编辑时同步更新其情感状态
+  const handleEditMessage = useCallback((messageId: string, text: string) => {
+    const index = messages.findIndex(message => message.id === messageId);
+    const target = messages[index];
+    if (!target) return;
+
+    const character = !target.isPlayer ? aiCharacters.find(char => char.name === target.sender) : undefined;
+    const isLatestMessage = index === messages.length - 1;
+    if (character) {
+      const { emotionAnalysisResult, speakerEmotion } = computeReplyEmotion(character, text, target.emotionBefore);
+      const castEmotions = computeReplyCastEmotions(getCastBefore(target), character, speakerEmotion);
+      updateMessage(messageId, () => editMessageText(target, { text, emotionAnalysisResult, speakerEmotion, castEmotions }));
+      applyMessageEmotions(target, index, speakerEmotion, castEmotions);
+      return;
+    }
+
+    const emotionAnalysisResult = emotionClassifier.analyzeCached(text);
+    const editedId = updateMessage(messageId, () => editMessageText(target, { text, emotionAnalysisResult }));
+
+    // 最新一条玩家消息被编辑时，在场角色的情感从这条消息之前的状态按新内容重新感染
+    const respreadPlayerEmotion = (analysis: EmotionAnalysisResult) => {
+      if (!target.isPlayer || !isLatestMessage || !target.castEmotionsBefore) return;
+      const playerParticipantId = relationshipManager.getPlayerParticipantId() || getPersonaParticipantId(target.personaId || activePersona.id);
+      const castEmotions = captureCastEmotions(computeSceneEmotions(
+        applyCastEmotions(aiCharactersRef.current, target.castEmotionsBefore),
+        playerParticipantId,
+        emotionEngine.createEmotionFromAnalysis(analysis, 'player_message')
+      ));
+      setAiCharacters(prevCharacters => applyCastEmotions(prevCharacters, castEmotions));
+    };
+
+    if (emotionClassifier.isModelEnabled() && emotionAnalysisResult.source !== 'llm') {
+      emotionClassifier.classify(text).then(result => {
+        if (result.source === 'llm') {
+          setMessages(prevMessages => prevMessages.map(message =>
+            message.id === editedId && message.text === text ? { ...message, emotionAnalysisResult: result } : message
+          ));
+        }
+        respreadPlayerEmotion(result);
+      });
+    } else {
+      respreadPlayerEmotion(emotionAnalysisResult);
+    }
+  }, [messages, aiCharacters, emotionEngine, relationshipManager, activePersona.id, computeReplyEmotion, computeReplyCastEmotions, computeSceneEmotions, getCastBefore, applyMessageEmotions, updateMessage]);
+
+  // 从指定消息起删除对话，发言历史、角色情感、人物关系和章节摘要回到删除点之前
+  const handleDeleteFromMessage = useCallback((messageId: string) => {
+    const { kept, removed } = truncateMessagesFrom(messages, messageId);
+    if (removed.length === 0) return;
+
+    streamAbortRef.current?.abort();
+    forceCleanupTimers();
+    setIsAutoConversationActive(false);
+    setMessages(kept);
+    setActiveSpeakerId(null);
+    setSpeakerHistory(rebuildSpeakerHistory(kept, aiCharacters));
+
+    const restoredEmotions = getEmotionsBeforeRemoval(removed);
+    if (restoredEmotions.size > 0) {
+      setAiCharacters(prevCharacters =>
+        prevCharacters.map(char =>
+          restoredEmotions.has(char.name) ? { ...char, currentEmotionalState: restoredEmotions.get(char.name) } : char
+        )
+      );
+    }
+
+    const keptIds = new Set(kept.map(message => message.id));
+    restoreSummaries(chapterSummaries.filter(summary => keptIds.has(summary.endMessageId)));
+    if (removed.some(message => message.isNarration)) {
+      resetSceneContext(kept, aiCharacters);
+    } else {
+      // 被删除的回复不再影响人物关系，按保留的对话重新计算
+      setRelationshipManager(new RelationshipManager(aiCharacters));
+    }
+    console.log(`🗑️ 已删除 ${removed.length} 条消息`);
+  }, [messages, aiCharacters, chapterSummaries, forceCleanupTimers, restoreSummaries, resetSceneContext]);
+
+  // 载入消息树的当前分支：对话、角色状态、发言历史和章节摘要都换成该分支的；
+  // 人物关系由 resetSceneContext 换用新的管理器，按该分支的消息重新计算
+  const loadActiveBranch = useCallback((tree: MessageTree) => {
+    const branchMessages = getBranchPath(tree, tree.activeBranchId);
+    const branchCharacters = applyCharacterStates(aiCharacters, getActiveBranch(tree).characterStates);
+
+    streamAbortRef.current?.abort();
+    forceCleanupTimers();
+    setIsAutoConversationActive(false);
+    setMessageTree(tree);
+    setMessages(branchMessages);
+    setAiCharacters(branchCharacters);
+    setActiveSpeakerId(null);
+    setSpeakerHistory(rebuildSpeakerHistory(branchMessages, branchCharacters));
+
+    const branchMessageIds = new Set(branchMessages.map(message => message.id));
+    restoreSummaries(chapterSummaries.filter(summary => branchMessageIds.has(summary.endMessageId)));
+    resetSceneContext(branchMessages, branchCharacters);
+  }, [aiCharacters, chapterSummaries, forceCleanupTimers, restoreSummaries, resetSceneContext]);
+
+  // 从指定消息处分出新分支，原来的后续对话留在原分支中
+  const handleForkFromMessage = useCallback((messageId: string) => {
+    const forked = forkBranch(messageTree, messages, aiCharacters, messageId);
+    if (forked === messageTree) return;
+    loadActiveBranch(forked);
+    console.log('🌿 已分出新分支:', getActiveBranch(forked).name);
+  }, [messageTree, messages, aiCharacters, loadActiveBranch]);
+
+  const handleSwitchBranch = useCallback((branchId: string) => {
+    const switched = switchBranch(messageTree, messages, aiCharacters, branchId);
+    if (switched === messageTree) return;
+    loadActiveBranch(switched);
+    console.log('🔀 已切换到分支:', getActiveBranch(switched).name);
+  }, [messageTree, messages, aiCharacters, loadActiveBranch]);
+
+  const handleRenameBranch = useCallback((branchId: string, name: string) => {
+    setMessageTree(prevTree => renameBranch(prevTree, branchId, name));
+  }, []);
+
+  const handlePruneBranch = useCallback((branchId: string) => {
+    setMessageTree(prevTree => pruneBranch(prevTree, branchId));
+    console.log('✂️ 已删除分支:', branchId);
+  }, []);
+
+  // 合并分支，涉及当前分支时重新载入合并后的对话
+  const handleMergeBranch = useCallback((sourceId: string, targetId: string) => {
+    const merged = mergeBranch(storeActiveBranchState(messageTree, messages, aiCharacters), sourceId, targetId);
+    if (sourceId === messageTree.activeBranchId || targetId === messageTree.activeBranchId) {
+      loadActiveBranch(merged);
+    } else {
+      setMessageTree(merged);
+    }
+    console.log('🔗 已合并分支:', sourceId, '→', targetId);
+  }, [messageTree, messages, aiCharacters, loadActiveBranch]);
+
+  // 可以重新生成的消息：对话中最新的一条角色回复
+  const regenerableMessageId = useMemo(() => {
+    const lastMessage = messages[messages.length - 1];
+    if (!lastMessage || lastMessage.isPlayer) return null;
+    return aiCharacters.some(char => char.name === lastMessage.sender) ? lastMessage.id : null;
+  }, [messages, aiCharacters]);
+
   const toggleAutoConversation = () => {
     setIsAutoConversationActive(prevIsActive => {
       const newIsActive = !prevIsActive;
@@ -1100,7 +1858,7 @@ const Index = () => {
               modelConfig: { 
                 ...char.modelConfig,
                 baseUrl: char.modelConfig?.baseUrl || modelDefaults.baseUrl,
-                apiKey: char.modelConfig?.apiKey || modelDefaults.apiKey,
+                apiKeyAlias: char.modelConfig?.apiKeyAlias || modelDefaults.apiKeyAlias,
                 modelName: char.modelConfig?.modelName || modelDefaults.modelName,
                 prompt 
               } 
@@ -1112,6 +1870,27 @@ const Index = () => {
     console.log(`角色设定已保存 ${characterId}:`, prompt);
   };
 
+  // 从设定对话框切换到模型与初始关系配置，仍然配置同一个角色
+  const handleOpenCharacterConfig = () => {
+    setIsPromptDialogOpen(false);
+    setIsCharacterConfigOpen(true);
+  };
+
+  const handleCloseCharacterConfig = () => {
+    setIsCharacterConfigOpen(false);
+    setConfiguringCharacter(null);
+  };
+
+  const handleSaveCharacterConfig = (characterId: string, config: ModelConfig, relationshipSeeds: CharacterRelationshipSeed[]) => {
+    setAiCharacters(prevChars =>
+      prevChars.map(char =>
+        char.id === characterId ? { ...char, modelConfig: config, relationshipSeeds } : char
+      )
+    );
+    handleCloseCharacterConfig();
+    console.log(`🌱 角色配置与初始关系已保存 ${characterId}:`, relationshipSeeds);
+  };
+
   const handleUpdateCharacterConfig = (characterId: string, config: ModelConfig) => {
     setAiCharacters(prevChars =>
       prevChars.map(char =>
@@ -1122,35 +1901,31 @@ const Index = () => {
   };
 
   // 修改：根据场景自动生成角色（使用配置的模型参数）
-  async function generateCharactersFromScene(sceneDescription: string) {
+  async function generateCharactersFromScene(sceneDescription: string, analysisConfig: TopicAnalysisConfig = sceneAnalysisConfig) {
     try {
-      const res = await fetch(sceneAnalysisConfig.baseUrl + '/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${sceneAnalysisConfig.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: sceneAnalysisConfig.modelName,
-          messages: [
-            { role: 'system', content: sceneAnalysisDefaults.systemPrompt },
-            { role: 'user', content: `场景描述：${sceneDescription}` }
-          ],
-        }),
-      });
-      if (!res.ok) throw new Error('场景分析API请求失败');
-      const data = await res.json();
-      const content = data.choices?.[0]?.message?.content;
+      const result = await llmClient.complete(analysisConfig, {
+        messages: [
+          { role: 'system', content: sceneAnalysisDefaults.systemPrompt },
+          { role: 'user', content: `场景描述：${sceneDescription}` }
+        ],
+      }, { logContext: { category: 'system', source: '角色生成' } });
+      const content = result.text;
       if (!content) throw new Error('API返回内容为空');
       
       // 使用安全的JSON解析
       const { safeParseValidatedJSON } = await import('@/utils/jsonUtils');
-      const parsedData = safeParseValidatedJSON(
+      const parsedData = safeParseValidatedJSON<{ characters: { name: string }[]; relationships?: unknown }>(
         content, 
         ['characters'], 
         { characters: [] }
       );
-      return parsedData.characters || [];
+      const characters = parsedData.characters || [];
+      // 角色之间的初始关系挂到发起关系的角色上
+      const relationshipSeeds = parseGeneratedRelationshipSeeds(
+        parsedData.relationships,
+        characters.map(char => char.name)
+      );
+      return characters.map(char => ({ ...char, relationshipSeeds: relationshipSeeds.get(char.name) || [] }));
     } catch (e) {
       console.error('自动生成角色失败', e);
       return [];
@@ -1158,14 +1933,15 @@ const Index = () => {
   }
 
   const handleGenerateCharacters = async () => {
+    if (isBlockedByBudget()) return;
     setIsGeneratingCharacters(true);
     try {
       const generatedCharacters = await generateCharactersFromScene(sceneDescription);
       
       // 统计角色生成的Token使用
-      const generationInputTokens = estimateTokens(sceneDescription);
-      const generationOutputTokens = estimateTokens(JSON.stringify(generatedCharacters));
-      updateTokenUsage('character_generation', '角色生成', generationInputTokens, generationOutputTokens, 'system');
+      const generationInputTokens = estimateTokens(sceneDescription, sceneAnalysisConfig.modelName);
+      const generationOutputTokens = estimateTokens(JSON.stringify(generatedCharacters), sceneAnalysisConfig.modelName);
+      updateTokenUsage('character_generation', '角色生成', generationInputTokens, generationOutputTokens, 'system', sceneAnalysisConfig);
       
       if (generatedCharacters.length > 0) {
         const newCharacters = generatedCharacters.map((char: any, index: number) => ({
@@ -1181,8 +1957,9 @@ const Index = () => {
             "还有什么其他的吗？"
           ],
           modelConfig: {
+            provider: sceneAnalysisConfig.provider,
             baseUrl: sceneAnalysisConfig.baseUrl,
-            apiKey: sceneAnalysisConfig.apiKey,
+            apiKeyAlias: sceneAnalysisConfig.apiKeyAlias,
             modelName: sceneAnalysisConfig.modelName,
             prompt: char.prompt
           },
@@ -1196,7 +1973,8 @@ const Index = () => {
           interests: char.interests || ['一般话题'],
           speakingStyle: char.speakingStyle || 'reactive',
           socialRole: char.socialRole || 'customer',
-          emotionalState: char.emotionalState || 0.0
+          emotionalState: char.emotionalState || 0.0,
+          relationshipSeeds: char.relationshipSeeds
         }));
         
         // 先重置所有会话状态，然后设置新角色
@@ -1213,7 +1991,7 @@ const Index = () => {
         setTimeout(() => {
           try {
             if (newCharacters.length > 0) {
-              initializeSummarySystem(newCharacters);
+              initializeSummarySystem();
               console.log('✅ 摘要系统已重新初始化');
               hasInitialized.current = true;
             }
@@ -1241,6 +2019,57 @@ const Index = () => {
     }
   };
 
+  // 导入 SillyTavern 角色卡（.json / .png）
+  const handleImportCardClick = () => {
+    cardFileInputRef.current?.click();
+  };
+
+  const handleImportCardFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // 允许重复选择同一个文件
+    if (!file) return;
+
+    setIsImportingCard(true);
+    try {
+      const result = await importTavernCard(file);
+
+      if (!result.success || !result.character) {
+        setErrorNotice({
+          message: `角色卡导入失败：${ValidationUtils.formatErrors(result.errors)}`,
+          type: 'error'
+        });
+        return;
+      }
+
+      if (aiCharacters.some(char => char.name === result.character!.name)) {
+        setErrorNotice({ message: `角色「${result.character.name}」已存在，未重复导入`, type: 'warning' });
+        return;
+      }
+
+      // 导入的角色卡不包含模型连接信息，沿用生成模型的配置
+      const importedCharacter: AICharacter = {
+        ...result.character,
+        modelConfig: {
+          provider: sceneAnalysisConfig.provider,
+          baseUrl: sceneAnalysisConfig.baseUrl,
+          apiKeyAlias: sceneAnalysisConfig.apiKeyAlias,
+          modelName: sceneAnalysisConfig.modelName,
+          ...result.character.modelConfig
+        }
+      };
+
+      setAiCharacters(prevChars => [...prevChars, importedCharacter]);
+      addMessage(`📥 ${importedCharacter.name} 走进了酒馆。`, '系统', false, 'bg-blue-500');
+      addMessage(importedCharacter.greeting, importedCharacter.name, false, importedCharacter.avatarColor);
+
+      if (result.warnings.length > 0) {
+        setErrorNotice({ message: result.warnings.join('；'), type: 'warning' });
+      }
+    } finally {
+      setIsImportingCard(false);
+    }
+  };
+
   const handleOpenSceneConfigDialog = () => {
     console.log('🔧 打开配置生成模型对话框');
     setIsSceneConfigDialogOpen(true);
@@ -1251,7 +2080,7 @@ const Index = () => {
     setIsSceneConfigDialogOpen(false);
   };
 
-  const handleSaveSceneConfig = (config: { baseUrl: string; apiKey: string; modelName: string }) => {
+  const handleSaveSceneConfig = (config: TopicAnalysisConfig) => {
     setSceneAnalysisConfig(config);
     handleCloseSceneConfigDialog();
     console.log('场景分析模型配置已保存：', config);
@@ -1279,16 +2108,26 @@ const Index = () => {
       messages: [...messages],
       characters: [...aiCharacters],
       tokenUsage: [...currentTokenUsage],
+      sceneDescription,
+      summaries: [...chapterSummaries],
+      messageTree: storeActiveBranchState(messageTree, messages, aiCharacters),
     };
     
     setHistorySessions(prev => [newSession, ...prev]);
+    sessionStore.saveSession(newSession);
     console.log('当前会话已保存：', sessionName);
   };
 
   const handleLoadSession = (session: HistorySession) => {
     setMessages(session.messages);
+    setMessageTree(session.messageTree ?? createMessageTree(session.messages));
     setAiCharacters(session.characters);
     setCurrentTokenUsage(session.tokenUsage);
+    if (session.sceneDescription !== undefined) {
+      setSceneDescription(session.sceneDescription);
+    }
+    restoreSummaries(session.summaries || []);
+    resetSceneContext(session.messages, session.characters);
     setActiveSpeakerId(null);
     setThinkingCharacterId(null);
     setSpeakerHistory([]);
@@ -1309,6 +2148,7 @@ const Index = () => {
 
   const handleDeleteSession = (sessionId: string) => {
     setHistorySessions(prev => prev.filter(session => session.id !== sessionId));
+    sessionStore.deleteSession(sessionId);
     console.log('历史会话已删除：', sessionId);
   };
 
@@ -1330,15 +2170,25 @@ const Index = () => {
         messages: [...messages],
         characters: [...aiCharacters],
         tokenUsage: [...currentTokenUsage],
+        sceneDescription,
+        summaries: [...chapterSummaries],
+        messageTree: storeActiveBranchState(messageTree, messages, aiCharacters),
       };
       
       setHistorySessions(prev => [autoSavedSession, ...prev]);
+      sessionStore.saveSession(autoSavedSession);
       console.log('会话已自动保存：', sessionName);
     }
     
+    // 立即清除旧的会话快照，防止防抖保存之前刷新页面恢复出已重置的对话
+    sessionStore.clearLiveSession();
+
     // 重置所有状态
     setMessages([]);
+    setMessageTree(createMessageTree([]));
     setCurrentTokenUsage([]);
+    clearSummaries();
+    resetSceneContext([], aiCharacters);
     setActiveSpeakerId(null);
     setThinkingCharacterId(null);
     setSpeakerHistory([]);
@@ -1389,11 +2239,13 @@ const Index = () => {
     
     try {
       // 更新模型配置
-      setSceneAnalysisConfig({
+      const analysisConfig: TopicAnalysisConfig = {
+        provider: modelConfig.provider,
         baseUrl: modelConfig.baseUrl,
-        apiKey: modelConfig.apiKey,
+        apiKeyAlias: modelConfig.apiKeyAlias,
         modelName: modelConfig.modelName,
-      });
+      };
+      setSceneAnalysisConfig(analysisConfig);
 
       // 设置场景描述
       const finalSceneDescription = customSceneDescription || scenario?.setting || '';
@@ -1401,7 +2253,8 @@ const Index = () => {
 
       // 生成角色
       if (finalSceneDescription) {
-        const generatedCharacters = await generateCharactersFromScene(finalSceneDescription);
+        // 状态更新尚未生效，直接使用刚提交的配置
+        const generatedCharacters = await generateCharactersFromScene(finalSceneDescription, analysisConfig);
         if (generatedCharacters && generatedCharacters.length > 0) {
           // 处理生成的角色数据，添加ID和其他必要字段
           const newCharacters = generatedCharacters.map((char: any, index: number) => ({
@@ -1417,8 +2270,9 @@ const Index = () => {
               "还有什么其他的吗？"
             ],
             modelConfig: {
+              provider: modelConfig.provider,
               baseUrl: modelConfig.baseUrl,
-              apiKey: modelConfig.apiKey,
+              apiKeyAlias: modelConfig.apiKeyAlias,
               modelName: modelConfig.modelName,
               prompt: char.prompt
             },
@@ -1432,7 +2286,8 @@ const Index = () => {
             interests: char.interests || ['一般话题'],
             speakingStyle: char.speakingStyle || 'reactive',
             socialRole: char.socialRole || 'customer',
-            emotionalState: char.emotionalState || 0.0
+            emotionalState: char.emotionalState || 0.0,
+            relationshipSeeds: char.relationshipSeeds
           }));
           
           setAiCharacters(newCharacters);
@@ -1484,6 +2339,22 @@ const Index = () => {
     }
   };
 
+  // 正在流式生成的回复，以临时消息的形式显示在对话窗口中
+  const streamingMessage = useMemo<Message | null>(() => {
+    if (!streamingReply || !streamingReply.text || thinkingCharacterId !== streamingReply.characterId) {
+      return null;
+    }
+    const character = aiCharacters.find(char => char.id === streamingReply.characterId);
+    return {
+      id: `streaming_${streamingReply.characterId}`,
+      sender: character?.name || '',
+      text: streamingReply.text,
+      isPlayer: false,
+      timestamp: new Date(),
+      avatarColor: character?.avatarColor,
+    };
+  }, [streamingReply, thinkingCharacterId, aiCharacters]);
+
   // 对话框状态管理
   const [isMultiResponseConfigOpen, setIsMultiResponseConfigOpen] = useState<boolean>(false);
 
@@ -1491,7 +2362,7 @@ const Index = () => {
     <div className="min-h-screen flex bg-tavern-bg text-tavern-text">
       {/* 初始设置对话框 */}
       <InitialSetupDialog
-        isOpen={isInitialSetupOpen}
+        isOpen={isInitialSetupOpen && !isRestoringSession}
         onClose={() => {
           // 如果用户关闭对话框但没有完成设置，询问是否要退出应用
           if (!isSetupComplete) {
@@ -1517,6 +2388,12 @@ const Index = () => {
           onLoadSession={handleLoadSession}
           onDeleteSession={handleDeleteSession}
           onSaveCurrentSession={handleSaveCurrentSession}
+          messageTree={messageTree}
+          isBranchingDisabled={!!thinkingCharacterId || isMultiResponseActive}
+          onSwitchBranch={handleSwitchBranch}
+          onRenameBranch={handleRenameBranch}
+          onMergeBranch={handleMergeBranch}
+          onPruneBranch={handlePruneBranch}
         />
       </div>
 
@@ -1535,12 +2412,73 @@ const Index = () => {
             >
               {isGeneratingCharacters ? '正在生成角色...' : '🎭 生成新角色（重置会话）'}
             </Button>
+            <Button
+              onClick={handleImportCardClick}
+              disabled={isImportingCard}
+              className="bg-green-600 hover:bg-green-700 text-white font-semibold text-xs px-3 py-1"
+            >
+              {isImportingCard ? '正在导入...' : '📥 导入角色卡'}
+            </Button>
+            <input
+              ref={cardFileInputRef}
+              type="file"
+              accept=".png,.json,image/png,application/json"
+              className="hidden"
+              onChange={handleImportCardFile}
+            />
             <Button
               onClick={handleOpenSceneConfigDialog}
               className="bg-blue-600 hover:bg-blue-700 text-white font-semibold text-xs px-3 py-1"
             >
               ⚙️ 配置生成模型
             </Button>
+            <Button
+              onClick={() => setIsKeyVaultOpen(true)}
+              className="bg-slate-600 hover:bg-slate-700 text-white font-semibold text-xs px-3 py-1"
+            >
+              🔐 密钥管理
+            </Button>
+            <Button
+              onClick={() => setIsLorebookOpen(true)}
+              className="bg-amber-700 hover:bg-amber-800 text-white font-semibold text-xs px-3 py-1"
+            >
+              📚 世界设定
+            </Button>
+            <Button
+              onClick={() => setIsPromptPipelineOpen(true)}
+              className="bg-teal-700 hover:bg-teal-800 text-white font-semibold text-xs px-3 py-1"
+              title="调整提示词各部分的顺序与预算，查看实际发送的请求"
+            >
+              🧩 提示词管线
+            </Button>
+            <Button
+              onClick={() => setIsCallLogOpen(true)}
+              className="bg-slate-700 hover:bg-slate-800 text-white font-semibold text-xs px-3 py-1"
+              title="查看每次模型调用的请求、响应、耗时与错误"
+            >
+              🧾 调用日志
+            </Button>
+            <Button
+              onClick={() => setIsRelationshipGraphOpen(true)}
+              className="bg-rose-700 hover:bg-rose-800 text-white font-semibold text-xs px-3 py-1"
+              title="查看角色之间的关系网络、社群与关系变化过程"
+            >
+              🕸️ 关系网络
+            </Button>
+            <Button
+              onClick={() => setIsEmotionClassifierOpen(true)}
+              className="bg-pink-700 hover:bg-pink-800 text-white font-semibold text-xs px-3 py-1"
+              title="选择词典或模型判断台词情感，并用标注样本比较两者的准确率"
+            >
+              💓 情感分类
+            </Button>
+            <Button
+              onClick={() => setIsPersonaManagerOpen(true)}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold text-xs px-3 py-1"
+              title="切换或编辑你扮演的玩家角色"
+            >
+              🎭 {activePersona.name}
+            </Button>
             <Button
               onClick={handleResetCurrentSession}
               className="bg-red-600 hover:bg-red-700 text-white font-semibold text-xs px-3 py-1"
@@ -1588,7 +2526,20 @@ const Index = () => {
               🧠 上下文管理
             </Button>
           </div>
-        <ChatWindow messages={messages} />
+        <ChatWindow
+          messages={messages}
+          streamingMessage={streamingMessage}
+          onCancelStreaming={handleCancelStreaming}
+          regeneratingMessageId={regeneratingMessageId}
+          regenerableMessageId={regenerableMessageId}
+          isBusy={!!thinkingCharacterId || isMultiResponseActive}
+          onRegenerateMessage={handleRegenerateMessage}
+          onSelectAlternate={handleSelectAlternate}
+          onEditMessage={handleEditMessage}
+          onDeleteFromMessage={handleDeleteFromMessage}
+          onForkFromMessage={handleForkFromMessage}
+          personas={personas}
+        />
         
         {/* 多AI响应展示组件 */}
         {isMultiResponseActive && (
@@ -1612,6 +2563,10 @@ const Index = () => {
             onAvatarClick={handleOpenPromptDialog}
           isAutoConversationActive={isAutoConversationActive}
           onToggleAutoConversation={toggleAutoConversation}
+          narratorConfig={narratorConfig}
+          isNarrating={isNarrating}
+          onNarratorConfigChange={handleNarratorConfigChange}
+          onNarrateNow={() => runNarrator(true)}
         />
         <InputArea
           onSendMessage={handlePlayerMessage}
@@ -1626,6 +2581,17 @@ const Index = () => {
           isOpen={isPromptDialogOpen}
           onClose={handleClosePromptDialog}
           onSave={handleSavePrompt}
+          messages={messages}
+          summaries={getSummariesForPrompt()}
+          sceneContext={getPromptSceneContext()}
+          onOpenCharacterConfig={handleOpenCharacterConfig}
+        />
+        <CharacterConfigDialog
+          character={configuringCharacter}
+          isOpen={isCharacterConfigOpen}
+          onClose={handleCloseCharacterConfig}
+          onSave={handleSaveCharacterConfig}
+          otherCharacterNames={aiCharacters.filter(char => char.id !== configuringCharacter?.id).map(char => char.name)}
         />
         {/* 场景分析模型配置对话框 */}
         <SceneAnalysisConfigDialog
@@ -1634,6 +2600,42 @@ const Index = () => {
           onSave={handleSaveSceneConfig}
           currentConfig={sceneAnalysisConfig}
         />
+        {/* 密钥库管理对话框 */}
+        <KeyVaultDialog
+          isOpen={isKeyVaultOpen}
+          onClose={() => setIsKeyVaultOpen(false)}
+        />
+        <LorebookEditor
+          isOpen={isLorebookOpen}
+          onClose={() => setIsLorebookOpen(false)}
+        />
+        <PromptPipelineDialog
+          isOpen={isPromptPipelineOpen}
+          onClose={() => setIsPromptPipelineOpen(false)}
+        />
+        <LLMCallLogPanel
+          isOpen={isCallLogOpen}
+          onClose={() => setIsCallLogOpen(false)}
+          onResendUsage={(record, usage) =>
+            updateTokenUsage('call_log_resend', '调用日志重发', usage.promptTokens, usage.completionTokens, record.category, record.config)
+          }
+        />
+        <RelationshipGraphPanel
+          isOpen={isRelationshipGraphOpen}
+          onClose={() => setIsRelationshipGraphOpen(false)}
+          relationshipManager={relationshipManager}
+          relationshipVersion={relationshipVersion}
+          characters={aiCharacters}
+        />
+        <EmotionClassifierDialog
+          isOpen={isEmotionClassifierOpen}
+          onClose={() => setIsEmotionClassifierOpen(false)}
+        />
+        <PersonaManagerDialog
+          isOpen={isPersonaManagerOpen}
+          onClose={() => setIsPersonaManagerOpen(false)}
+          characterNames={aiCharacters.map(character => character.name)}
+        />
         {/* 场景编辑对话框 */}
         <SceneEditDialog
           isOpen={isSceneEditDialogOpen}
@@ -1664,12 +2666,38 @@ const Index = () => {
           isOpen={isContextManagerOpen}
           onClose={() => setIsContextManagerOpen(false)}
         />
+
+        {errorNotice && (
+          <ErrorToast
+            message={errorNotice.message}
+            type={errorNotice.type}
+            onClose={() => setErrorNotice(null)}
+          />
+        )}
       </div>
       
       {/* 右侧面板区域 */}
       <div className="h-screen flex flex-shrink-0">
         {/* 上下文管理面板已移至主界面中 */}
         
+        {/* 记忆摘要面板 */}
+        <div className="h-screen flex-shrink-0">
+          <MemoryPanel
+            isCollapsed={isMemoryPanelCollapsed}
+            onToggleCollapse={handleToggleMemoryPanel}
+            enabled={summarySystemEnabled}
+            onToggleEnabled={setSummarySystemEnabled}
+            summaries={chapterSummaries}
+            isSummarizing={isSummarizing}
+            summaryError={summaryError}
+            pendingTokens={pendingSummaryTokens}
+            tokenThreshold={summaryConfig.tokenThreshold}
+            onUpdateSummary={updateSummary}
+            onRegenerateSummary={regenerateSummary}
+            onDeleteLatestSummary={deleteLatestSummary}
+          />
+        </div>
+
         {/* 模型配置面板 */}
         <div className="h-screen flex-shrink-0">
           <ModelConfigPanel
@@ -1685,28 +2713,20 @@ const Index = () => {
 };
 
 // 增强版AI响应函数（集成动态上下文裁剪系统和情感分析）
-async function fetchAIResponse(character, messages, updateTokenUsageFn, estimateTokensFn, emotionEngine) {
+async function fetchAIResponse(
+  character,
+  messages,
+  updateTokenUsageFn,
+  estimateTokensFn,
+  streamOptions: { onToken?: (delta: string, fullText: string) => void; signal?: AbortSignal } = {},
+  summaries: ChapterSummary[] = [],
+  sceneContext: Omit<CharacterPromptContext, 'messages' | 'persona'> = {}
+) {
   try {
-    // 生成对话连贯性和剧情推进的增强提示词
-    const conversationEnhancement = conversationEnhancer.generateFullEnhancedPrompt(messages, character);
-    const topicContinuity = conversationEnhancer.checkTopicContinuity(messages, character);
-    
-    // 将增强提示词添加到角色的原始提示词中
-    const originalPrompt = character.modelConfig?.prompt || '';
-    const enhancedPrompt = originalPrompt + conversationEnhancement + topicContinuity;
-    
-    // 创建增强后的角色配置
-    const enhancedCharacter = {
-      ...character,
-      modelConfig: {
-        ...character.modelConfig,
-        prompt: enhancedPrompt
-      }
-    };
-
-    // 使用增强版AI响应函数，集成动态上下文裁剪系统
+    // 使用增强版AI响应函数，集成动态上下文裁剪系统；
+    // 角色设定、玩家角色、对话增强等内容块按提示词管线预设组装
     const result = await fetchEnhancedAIResponse(
-      enhancedCharacter,  // 使用增强后的角色配置
+      character,
       messages,
       updateTokenUsageFn,
       estimateTokensFn,
@@ -1715,12 +2735,24 @@ async function fetchAIResponse(character, messages, updateTokenUsageFn, estimate
         maxContextTokens: 4000,
         enablePersonalization: true,
         debugMode: false,
-        logContextInfo: true
+        logContextInfo: true,
+        stream: true,
+        onToken: streamOptions.onToken,
+        signal: streamOptions.signal,
+        summaries,
+        lorebook: lorebookStore.getLorebook(),
+        promptContext: {
+          messages,
+          persona: personaStore.getActivePersona(),
+          ...sceneContext
+        }
       }
     );
 
     if (!result.success) {
-      console.error('❌ 增强AI响应失败:', result.error);
+      if (!result.cancelled) {
+        console.error('❌ 增强AI响应失败:', result.error);
+      }
       return null;
     }
 
@@ -1736,6 +2768,11 @@ async function fetchAIResponse(character, messages, updateTokenUsageFn, estimate
       });
     }
 
+    // 记录本次注入的世界设定，编辑器中可以看到哪些条目被触发
+    if (result.contextInfo?.lorebook) {
+      lorebookStore.recordActivation(character.name, result.contextInfo.lorebook);
+    }
+
     // 记录性能信息
     if (result.performanceInfo) {
       console.log('⚡ 性能统计:', {
@@ -1746,36 +2783,24 @@ async function fetchAIResponse(character, messages, updateTokenUsageFn, estimate
       });
     }
 
-    // 对AI响应进行情感分析
-    if (result.response && emotionEngine) {
-      const aiEmotionAnalysis = emotionEngine.analyzeText(result.response);
-      console.log(`😊 ${character.name}的响应情感分析:`, aiEmotionAnalysis);
-      
-      // 更新角色的情感状态
-      const updatedCharacter = emotionEngine.updateCharacterEmotion(
-        character,
-        result.response,
-        aiEmotionAnalysis,
-        'ai_response'
-      );
-      
-      // 将额外信息存储到全局状态或其他地方，但只返回文本
-      // TODO: 可以考虑将情感分析和角色更新信息存储到其他地方
-      console.log('💾 存储情感分析结果:', aiEmotionAnalysis);
-      console.log('🔄 角色状态已更新:', updatedCharacter.name);
-      
-      return result.response;
+    // 开启模型情感分类时先对回复分类并写入缓存，addCharacterReply 随后按缓存结果计算发言角色的情感，
+    // 在场其他角色的情感随之更新
+    if (result.response) {
+      await emotionClassifier.classify(result.response);
     }
-
     return result.response;
   } catch (error) {
+    if (streamOptions.signal?.aborted) {
+      return null;
+    }
     console.error('❌ AI响应函数执行失败:', error);
     
     // 回退到原始实现（也包含对话增强）
     console.log('🔄 使用原始AI响应函数作为回退...');
     const config = {
+      provider: character.modelConfig?.provider,
       baseUrl: character.modelConfig?.baseUrl || modelDefaults.baseUrl,
-      apiKey: character.modelConfig?.apiKey || modelDefaults.apiKey,
+      apiKeyAlias: character.modelConfig?.apiKeyAlias || modelDefaults.apiKeyAlias,
       modelName: character.modelConfig?.modelName || modelDefaults.modelName,
       prompt: character.modelConfig?.prompt || '',
       temperature: character.modelConfig?.temperature ?? 0.7,
@@ -1785,60 +2810,64 @@ async function fetchAIResponse(character, messages, updateTokenUsageFn, estimate
       presencePenalty: character.modelConfig?.presencePenalty ?? 0.0,
     };
     
-    if (!config.baseUrl || !config.apiKey || !config.modelName) {
+    if (!llmClient.isConfigured(config)) {
       return null;
     }
     
     try {
-      // 即使在回退模式下，也添加对话增强提示词
-      const conversationEnhancement = conversationEnhancer.generateFullEnhancedPrompt(messages, character);
-      const topicContinuity = conversationEnhancer.checkTopicContinuity(messages, character);
-      const enhancedPrompt = config.prompt + conversationEnhancement + topicContinuity;
+      // 即使在回退模式下，也按提示词管线组装角色设定、玩家角色和对话增强内容
+      const preset = promptPipelineStore.getActivePreset();
+      const request = buildCharacterRequest(
+        character,
+        { messages, persona: personaStore.getActivePersona(), ...sceneContext },
+        { history: messages, preset }
+      );
+      promptPipelineStore.recordInspection({
+        characterName: character.name,
+        presetName: preset.name,
+        modelName: config.modelName,
+        blocks: request.blocks,
+        messages: request.messages,
+        totalTokens: request.totalTokens
+      });
       
-      const requestMessages = [
-        ...(enhancedPrompt ? [{ role: 'system', content: enhancedPrompt }] : []),
-        ...messages.map(m => ({ role: m.isPlayer ? 'user' : 'assistant', content: m.text }))
-      ];
+      const requestMessages: LLMMessage[] = request.messages;
+      const otherSpeakers = getOtherSpeakers(messages, character.name);
+      const onToken = streamOptions.onToken;
       
-      const requestBody = {
-        model: config.modelName,
-        messages: requestMessages,
-        temperature: config.temperature,
-        max_tokens: config.maxTokens,
-        top_p: config.topP,
-        frequency_penalty: config.frequencyPenalty,
-        presence_penalty: config.presencePenalty,
-      };
-
-      const res = await fetch(config.baseUrl + '/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${config.apiKey}`,
-        },
-        body: JSON.stringify(requestBody),
+      const streamResult = await llmClient.complete(config, { messages: requestMessages }, {
+        stream: true,
+        onToken: onToken && ((delta, fullText) => onToken(delta, cleanCharacterReply(fullText, character.name, otherSpeakers))),
+        signal: streamOptions.signal,
+        logContext: { category: 'character', source: '角色发言（回退）', characterName: character.name }
       });
-      
-      if (!res.ok) throw new Error('API请求失败');
-      const data = await res.json();
-      const responseContent = data.choices?.[0]?.message?.content || null;
+      const responseContent = cleanCharacterReply(streamResult.text || '', character.name, otherSpeakers) || null;
       
       // 记录Token使用
       if (responseContent && updateTokenUsageFn && estimateTokensFn) {
-        let inputTokens = data.usage?.prompt_tokens;
-        let outputTokens = data.usage?.completion_tokens;
+        let inputTokens = streamResult.usage?.promptTokens;
+        let outputTokens = streamResult.usage?.completionTokens;
         
         if (!inputTokens || !outputTokens) {
-          const inputText = requestMessages.map(m => m.text || '').join(' ');
-          inputTokens = estimateTokensFn(inputText);
-          outputTokens = estimateTokensFn(responseContent);
+          const inputText = requestMessages.map(m => m.content || '').join(' ');
+          inputTokens = estimateTokensFn(inputText, config.modelName);
+          outputTokens = estimateTokensFn(responseContent, config.modelName);
         }
         
-        updateTokenUsageFn(character.id, character.name, inputTokens, outputTokens, 'character');
+        updateTokenUsageFn(character.id, character.name, inputTokens, outputTokens, 'character', config);
+      }
+      
+      // 回退路径同样对最终文本做情感分析（结果写入分类缓存）
+      if (responseContent) {
+        const aiEmotionAnalysis = await emotionClassifier.classify(responseContent);
+        console.log(`😊 ${character.name}的响应情感分析:`, aiEmotionAnalysis);
       }
       
       return responseContent;
     } catch (e) {
+      if (streamOptions.signal?.aborted) {
+        return null;
+      }
       console.error('回退AI响应也失败了:', e);
       return null;
     }
@@ -0,0 +1,32 @@
+// 费用与预算类型定义
+
+// 模型单价（美元 / 百万 token）
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// 预算配置，金额单位为美元，0 表示不限制
+export interface BudgetConfig {
+  sessionSoftLimit: number;    // 单个会话软预算：暂停自动对话，主题分析改用本地规则
+  sessionHardLimit: number;    // 单个会话硬预算：拒绝新的模型请求
+  dailySoftLimit: number;      // 每日软预算
+  dailyHardLimit: number;      // 每日硬预算
+}
+
+export const defaultBudgetConfig: BudgetConfig = {
+  sessionSoftLimit: 0,
+  sessionHardLimit: 0,
+  dailySoftLimit: 0,
+  dailyHardLimit: 0
+};
+
+// 预算状态：正常 / 超出软预算 / 超出硬预算
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  sessionCost: number;
+  dailyCost: number;
+  reason?: string;             // 超出预算时给用户看的说明
+}
@@ -1,3 +1,5 @@
+import { LLMProviderType } from './llm';
+
 // 基础情感类型（基于Russell情感环形模型）
 export enum EmotionType {
   EXCITED = 'excited',      // 兴奋（高唤醒+积极）
@@ -44,6 +46,20 @@ export interface EmotionAnalysisResult {
   intensity: number;        // 计算出的强度
   valence: number;          // 计算出的效价
   arousal: number;          // 计算出的唤醒度
+  source?: EmotionClassifierMode; // 分类来源，旧结果没有该字段
+}
+
+// 情感分类方式：lexicon 只用本地关键词词典；llm 调用模型分类，离线、超出预算或调用失败时回退到词典
+export type EmotionClassifierMode = 'lexicon' | 'llm';
+
+// 模型情感分类配置
+export interface EmotionClassifierConfig {
+  mode: EmotionClassifierMode;
+  provider?: LLMProviderType;
+  baseUrl: string;
+  apiKeyAlias?: string;
+  modelName: string;
+  batchSize: number;        // 一次调用最多分类的文本条数
 }
 
 // 情感配置选项
@@ -52,6 +68,7 @@ export interface EmotionConfig {
   contagionStrength: number; // 情感传染强度
   personalityInfluence: number; // 个性影响强度
   baselineReturnRate: number; // 基线回归速率
+  idleDecayPerMessage: number; // 每条消息后未发言角色向基线回落的比例
 }
 
 // 默认情感配置
@@ -59,7 +76,8 @@ export const DEFAULT_EMOTION_CONFIG: EmotionConfig = {
   decayRate: 0.1,
   contagionStrength: 0.3,
   personalityInfluence: 0.5,
-  baselineReturnRate: 0.05
+  baselineReturnRate: 0.05,
+  idleDecayPerMessage: 0.08
 };
 
 // 创建默认情感状态的工具函数
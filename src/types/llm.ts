@@ -0,0 +1,95 @@
+// LLM 提供方抽象层类型定义
+
+import type { TokenUsageCategory } from './session';
+
+// 支持的提供方类型
+export type LLMProviderType = 'openai' | 'anthropic' | 'gemini' | 'ollama' | 'mock';
+
+// 统一的对话消息格式
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// 统一的请求参数（由 ModelConfig 与调用方参数合并而来）
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  jsonMode?: boolean;            // 要求模型只返回 JSON
+}
+
+// 统一的 Token 用量
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// 统一的停止原因
+export type LLMStopReason = 'stop' | 'length' | 'content_filter' | 'cancelled' | 'unknown';
+
+// 统一的响应结果
+export interface LLMResponse {
+  text: string;
+  usage?: LLMUsage;
+  stopReason: LLMStopReason;
+  rawStopReason?: string;        // 提供方返回的原始停止原因
+  aborted: boolean;              // 是否被调用方取消（text 为已收到的部分内容）
+  provider: LLMProviderType;
+  model: string;
+}
+
+// 调用日志中记录的调用来源
+export interface LLMCallLogContext {
+  category: TokenUsageCategory;  // 与 Token 统计的分类一致
+  source: string;                // 调用用途，例如「角色发言」「主题分析」
+  characterName?: string;
+  resentFromId?: string;         // 从调用日志重发时的原调用 ID
+}
+
+// 调用选项
+export interface LLMCallOptions {
+  stream?: boolean;
+  onToken?: (delta: string, fullText: string) => void;
+  signal?: AbortSignal;
+  timeout?: number;              // 毫秒，每次请求等待响应的上限（流式请求到输出开始为止），超时视为可重试的 API 错误
+  logContext?: LLMCallLogContext;
+}
+
+// 已发出的 HTTP 请求描述
+export interface LLMHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+// 流式数据块解析出的增量信息
+export interface LLMStreamDelta {
+  text?: string;
+  usage?: Partial<LLMUsage>;
+  rawStopReason?: string;
+  done?: boolean;
+}
+
+// 提供方适配器
+export interface LLMProviderAdapter {
+  type: LLMProviderType;
+  label: string;
+  requiresApiKey: boolean;
+  streamFormat: 'sse' | 'ndjson';
+  defaultBaseUrl: string;
+  buildRequest(
+    config: { baseUrl: string; apiKey?: string; modelName: string },
+    request: LLMRequest,
+    stream: boolean
+  ): LLMHttpRequest;
+  parseResponse(data: Record<string, unknown>): LLMStreamDelta;
+  parseStreamChunk(data: Record<string, unknown>): LLMStreamDelta;
+  normalizeStopReason(raw?: string): LLMStopReason;
+  extractErrorMessage(data: unknown): string | undefined;
+  transport?: (url: string, init: RequestInit) => Promise<Response>; // 替代 fetch（模拟后端使用）
+}
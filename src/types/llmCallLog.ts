@@ -0,0 +1,41 @@
+import { ModelConfig } from './tavern';
+import { LLMCallLogContext, LLMProviderType, LLMRequest, LLMStopReason, LLMUsage } from './llm';
+
+// 调用状态
+export type LLMCallStatus = 'pending' | 'success' | 'error' | 'cancelled';
+
+// 一次失败后重试的记录
+export interface LLMCallRetry {
+  attempt: number;       // 失败的是第几次尝试（从 1 开始）
+  error: string;
+  statusCode?: number;
+  delayMs: number;       // 下一次尝试前的等待时间
+  timestamp: Date;
+}
+
+// 调用日志中的一条记录
+export interface LLMCallRecord extends LLMCallLogContext {
+  id: string;
+  status: LLMCallStatus;
+  startedAt: Date;
+  latencyMs?: number;
+  provider: LLMProviderType;
+  model: string;
+  stream: boolean;
+  config: ModelConfig;   // 只包含密钥别名，不含密钥本身
+  request: LLMRequest;   // 合并了模型配置中生成参数后的完整请求
+  response?: string;     // 模型返回的原始文本（取消时为已收到的部分）
+  stopReason?: LLMStopReason;
+  usage?: LLMUsage;
+  usageEstimated: boolean; // 接口没有返回用量时按文本估算
+  error?: string;
+  statusCode?: number;
+  retries: LLMCallRetry[];
+}
+
+// 调用日志的筛选条件
+export interface LLMCallFilter {
+  category: LLMCallLogContext['category'] | 'all';
+  status: LLMCallStatus | 'all';
+  query: string;         // 匹配角色名、用途、模型和请求/响应内容
+}
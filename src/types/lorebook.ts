@@ -0,0 +1,53 @@
+// 世界设定（Lorebook）类型定义
+
+// 一条世界设定：地点、势力、物品等长期事实，只在对话提到触发词时注入提示词
+export interface LorebookEntry {
+  id: string;
+  title: string;
+  keywords: string[];          // 触发词，写成 /正则/flags 时按正则匹配
+  content: string;
+  priority: number;            // 超出 token 预算时优先保留数值大的条目
+  scanDepth: number;           // 扫描最近多少条消息
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 世界设定全局配置
+export interface LorebookSettings {
+  enabled: boolean;
+  tokenBudget: number;         // 每次请求注入的设定最多占用的 token 数，0 表示不限制
+  useChineseSegmentation: boolean; // 额外用中文分词提取的关键词做模糊匹配
+}
+
+export const defaultLorebookSettings: LorebookSettings = {
+  enabled: true,
+  tokenBudget: 600,
+  useChineseSegmentation: false
+};
+
+export interface Lorebook {
+  entries: LorebookEntry[];
+  settings: LorebookSettings;
+}
+
+// 条目的触发方式：普通关键词 / 正则 / 中文分词模糊匹配
+export type LorebookMatchType = 'keyword' | 'regex' | 'segmentation';
+
+// 一次请求中被触发的条目
+export interface LorebookEntryActivation {
+  entryId: string;
+  title: string;
+  matchedKeyword: string;
+  matchType: LorebookMatchType;
+  priority: number;
+  tokens: number;
+}
+
+// 一次请求的设定注入结果，随 contextInfo 返回
+export interface LorebookActivation {
+  injected: LorebookEntryActivation[];
+  skipped: LorebookEntryActivation[]; // 已触发但超出 token 预算未注入
+  totalTokens: number;
+  tokenBudget: number;
+}
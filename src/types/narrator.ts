@@ -0,0 +1,26 @@
+// 旁白（主持人）类型定义
+
+// 旁白事件类型：环境变化、时间流逝、随机事件
+export type NarratorEventKind = 'environment' | 'time' | 'random';
+
+// 旁白生成的一次场景事件
+export interface NarratorEvent {
+  kind: NarratorEventKind;
+  text: string;                                        // 旁白描述
+  timeOfDay?: 'morning' | 'afternoon' | 'evening' | 'night'; // 时间流逝后的时段
+  weather?: 'sunny' | 'cloudy' | 'rainy' | 'stormy' | 'snowy';
+  impact?: 'low' | 'medium' | 'high';                  // 事件对场景的影响程度
+}
+
+// 旁白配置
+export interface NarratorConfig {
+  enabled: boolean;
+  interval: number;            // 旁白节奏（秒），与自动对话定时器相互独立
+  minMessagesBetween: number;  // 两次旁白之间至少间隔的对话条数，避免冷场时连续旁白
+}
+
+export const defaultNarratorConfig: NarratorConfig = {
+  enabled: false,
+  interval: 90,
+  minMessagesBetween: 4
+};
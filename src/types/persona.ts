@@ -0,0 +1,25 @@
+// 玩家角色（Persona）类型定义
+
+import { RelationType } from './relationship';
+
+// 玩家角色与某个 AI 角色的初始关系
+export interface PersonaRelationshipSeed {
+  characterName: string;       // 按角色名匹配，换场景后同名角色同样生效
+  type: RelationType;
+  note?: string;               // 关系背景，例如「多年前救过他一命」
+}
+
+// 玩家在对话中扮演的身份
+export interface PlayerPersona {
+  id: string;
+  name: string;
+  description: string;         // 外貌、身份、性格等，注入角色的系统提示词
+  avatar?: string;             // 头像图片的 data URL，未设置时显示名字首字
+  avatarColor: string;
+  relationshipSeeds: PersonaRelationshipSeed[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 默认玩家角色，保持旧版「玩家」的称呼
+export const DEFAULT_PERSONA_ID = 'default';
@@ -0,0 +1,57 @@
+import { LLMMessage } from './llm';
+
+// 提示词管线中的内容块
+export type PromptBlockId =
+  | 'character'     // 角色设定（渲染模板宏后的角色 Prompt）
+  | 'persona'       // 玩家角色
+  | 'relationship'  // 人物关系
+  | 'scene'         // 场景与时段
+  | 'coherence'     // 对话连贯性与剧情推进
+  | 'format'        // 回复格式要求
+  | 'emotion'       // 情感状态
+  | 'summary'       // 前情提要（章节摘要）
+  | 'lorebook';     // 被触发的世界设定
+
+// 内容块的注入位置：系统提示词、对话开头的 user 消息、或距对话末尾 depth 条处的系统消息
+export type PromptBlockRole = 'system' | 'user' | 'depth';
+
+export interface PromptBlockConfig {
+  id: PromptBlockId;
+  enabled: boolean;
+  role: PromptBlockRole;
+  depth: number;         // role 为 depth 时生效，0 表示放在最后一条消息之后
+  tokenBudget: number;   // 0 表示不限制，超出时截断
+}
+
+// 管线预设，blocks 的顺序即注入顺序
+export interface PromptPipelinePreset {
+  id: string;
+  name: string;
+  blocks: PromptBlockConfig[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 单个内容块在某次请求中的组装结果
+export interface PromptBlockResult {
+  id: PromptBlockId;
+  role: PromptBlockRole;
+  depth: number;
+  enabled: boolean;
+  content: string;
+  tokens: number;
+  originalTokens: number; // 截断前的 Token 数
+  truncated: boolean;
+}
+
+// 检查器中的一次请求记录
+export interface PromptPipelineInspection {
+  id: string;
+  timestamp: Date;
+  characterName: string;
+  presetName: string;
+  modelName: string;
+  blocks: PromptBlockResult[];
+  messages: LLMMessage[];   // 最终发送的请求消息
+  totalTokens: number;
+}
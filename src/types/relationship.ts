@@ -33,6 +33,28 @@ export enum RelationType {
   COMPLEX = 'complex'                // 复杂关系（多种类型混合）
 }
 
+/**
+ * 关系类型的中文名称
+ */
+export const RELATION_TYPE_LABELS: Record<RelationType, string> = {
+  [RelationType.FRIENDSHIP]: '朋友',
+  [RelationType.ROMANTIC]: '恋人',
+  [RelationType.MENTOR_STUDENT]: '师徒',
+  [RelationType.ALLIANCE]: '盟友',
+  [RelationType.FAMILY]: '家人',
+  [RelationType.RESPECT]: '敬重',
+  [RelationType.RIVALRY]: '对手',
+  [RelationType.HATRED]: '仇人',
+  [RelationType.SUSPICION]: '互不信任',
+  [RelationType.CONTEMPT]: '轻视',
+  [RelationType.FEAR]: '畏惧',
+  [RelationType.NEUTRAL]: '陌生人',
+  [RelationType.ACQUAINTANCE]: '熟人',
+  [RelationType.PROFESSIONAL]: '工作关系',
+  [RelationType.CUSTOMER]: '主顾',
+  [RelationType.COMPLEX]: '复杂关系'
+};
+
 /**
  * 关系强度等级
  */
@@ -100,6 +122,17 @@ export interface RelationshipDimensions {
   stability: number;       // 稳定性 [0, 1]
 }
 
+/**
+ * 角色与另一角色的初始关系（场景生成或角色配置中设定）
+ * 按对方角色名匹配，随角色一起保存在会话中
+ */
+export interface CharacterRelationshipSeed {
+  characterName: string;
+  type: RelationType;
+  dimensions?: Partial<RelationshipDimensions>; // 未设置的维度取该关系类型的默认值
+  note?: string;                                // 关系背景，例如「同父异母的兄妹」
+}
+
 /**
  * 关系核心接口
  * 描述两个角色间的关系状态
@@ -207,6 +240,28 @@ export interface RelationshipNode {
   lastUpdated: Date;
 }
 
+/**
+ * 网络社群：通过强关系相连的一组角色
+ */
+export interface NetworkCommunity {
+  id: string;
+  members: string[];                       // 成员参与者ID
+  strength: number;                        // 社群内部平均关系强度 [0, 1]
+  type: string;                            // pair / small_group / medium_group / large_group
+  createdAt: Date;
+}
+
+/**
+ * 网络团体：两两之间都有关系的完全子图
+ */
+export interface NetworkClique {
+  id: string;
+  members: string[];
+  size: number;
+  strength: number;                        // 团体内平均关系强度 [0, 1]
+  type: string;                            // 目前只检测三角形（triangle）
+}
+
 /**
  * 关系网络图
  * 完整的角色关系网络表示
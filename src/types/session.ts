@@ -0,0 +1,80 @@
+import { Message, AICharacter } from './tavern';
+import { ChapterSummary } from './summary';
+
+// Token使用分类
+export type TokenUsageCategory = 'character' | 'system' | 'player' | 'analysis';
+
+// Token使用统计接口
+export interface TokenUsage {
+  characterId: string;
+  characterName: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  apiCalls: number;
+  category: TokenUsageCategory;
+  cost?: number;               // 累计费用（美元），旧会话没有该字段
+}
+
+// 分支保存的角色状态：情感状态与情感记忆
+// 人物关系不在此保存：它只取决于分支上的对话、角色名单和预设关系，载入分支时按该分支的消息重新计算
+export type CharacterStateSnapshot = Pick<
+  AICharacter,
+  'id' | 'currentEmotionalState' | 'emotionalHistory' | 'emotionalMemory' | 'lastSpeakTime'
+>;
+
+// 对话树中的一条消息，parentId 为 null 表示对话的第一条消息
+export interface MessageNode {
+  message: Message;
+  parentId: string | null;
+  mergedFromId?: string;       // 合并分支时复制而来的原消息 ID
+}
+
+// 对话分支：从根消息到 headId 的一条路径
+export interface ConversationBranch {
+  id: string;
+  name: string;
+  headId: string | null;       // 分支最后一条消息，空分支为 null
+  createdAt: Date;
+  parentBranchId?: string;     // 从哪个分支分出
+  forkMessageId?: string;      // 分出时所在的消息
+  characterStates?: CharacterStateSnapshot[]; // 离开该分支时的角色状态，当前分支以实时状态为准
+}
+
+// 会话的消息树（多个分支共享相同的前缀消息）
+export interface MessageTree {
+  nodes: Record<string, MessageNode>;
+  branches: ConversationBranch[];
+  activeBranchId: string;
+}
+
+// 历史会话接口
+export interface HistorySession {
+  id: string;
+  name: string;
+  timestamp: Date;
+  messages: Message[];
+  characters: AICharacter[];
+  tokenUsage: TokenUsage[];
+  sceneDescription?: string;   // 会话对应的场景描述（schema v2 起）
+  summaries?: ChapterSummary[]; // 对话章节摘要（schema v4 起）
+  messageTree?: MessageTree;   // 对话分支树（schema v5 起），messages 为当前分支的路径
+}
+
+// 当前会话存储结构的版本号，修改持久化结构时递增并补充迁移
+export const SESSION_SCHEMA_VERSION = 5;
+
+// 持久化到 IndexedDB 的会话记录（Date 字段以 ISO 字符串保存）
+export interface StoredSessionRecord {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  timestamp: string;
+  messages: Record<string, unknown>[];
+  characters: Record<string, unknown>[];
+  tokenUsage: Partial<TokenUsage>[];
+  sceneDescription?: string;
+  summaries?: Record<string, unknown>[];
+  messageTree?: Record<string, unknown>;
+  [key: string]: unknown;
+}
@@ -0,0 +1,29 @@
+// 对话章节摘要类型定义
+
+// 一段较早对话的章节摘要
+export interface ChapterSummary {
+  id: string;
+  chapter: number;             // 章节序号，从 1 开始
+  title: string;
+  content: string;
+  startMessageId: string;      // 覆盖的第一条消息
+  endMessageId: string;        // 覆盖的最后一条消息
+  messageCount: number;
+  sourceTokens: number;        // 被摘要的原始对话估算 token 数
+  createdAt: Date;
+  updatedAt: Date;
+  isEdited?: boolean;          // 是否被用户手动修改过
+}
+
+// 摘要系统配置
+export interface SummaryConfig {
+  tokenThreshold: number;      // 未摘要的较早对话超过该 token 数时生成新章节
+  keepRecentMessages: number;  // 始终保留原文、不参与摘要的最近消息数
+  maxSummaryLength: number;    // 单个章节摘要的最大字数
+}
+
+export const defaultSummaryConfig: SummaryConfig = {
+  tokenThreshold: 1500,
+  keepRecentMessages: 12,
+  maxSummaryLength: 300
+};
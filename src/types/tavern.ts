@@ -1,8 +1,12 @@
 import { EmotionalMemory, EmotionalState, EmotionType, EmotionAnalysisResult } from './emotion';
+import { LLMProviderType } from './llm';
+import { NarratorEvent } from './narrator';
+import { CharacterRelationshipSeed } from './relationship';
 
 export interface ModelConfig {
+  provider?: LLMProviderType; // 接口类型，未设置时根据 baseUrl 推断
   baseUrl?: string;
-  apiKey?: string;
+  apiKeyAlias?: string;       // 密钥库中的密钥别名，密钥本身不随配置保存
   modelName?: string;
   prompt?: string;
   temperature?: number;
@@ -18,6 +22,7 @@ export interface AICharacter {
   avatarColor: string; // Tailwind color class, e.g., 'bg-red-500'
   placeholderIcon?: string; // URL or path to an icon if we use images later
   greeting: string;
+  alternateGreetings?: string[]; // 备选开场白（来自导入的角色卡）
   responses: string[]; // A list of possible responses
   modelConfig?: ModelConfig; // New field for model configuration
   
@@ -40,17 +45,40 @@ export interface AICharacter {
   currentEmotionalState?: EmotionalState;  // 当前情感状态
   emotionalHistory?: EmotionalState[];     // 情感历史记录
   baselineEmotion?: EmotionType;           // 角色的基线情感类型
+
+  relationshipSeeds?: CharacterRelationshipSeed[]; // 与其他角色的初始关系
+}
+
+// 角色回复的一个候选版本（重新生成时追加，可左右切换）
+export interface MessageAlternate {
+  text: string;
+  timestamp: Date;
+  emotionAnalysisResult?: EmotionAnalysisResult;
+  speakerEmotion?: EmotionalState;  // 选中该候选后发言角色的情感状态
+  castEmotions?: Record<string, EmotionalState>; // 选中该候选后在场各角色（按名称）的情感状态，含受感染的听者
 }
 
 export interface Message {
   id: string;
-  sender: string; // 'Player' or AICharacter.name
+  sender: string; // 玩家角色名（旧消息为'玩家'） or AICharacter.name
   text: string;
   isPlayer: boolean;
   timestamp: Date;
   avatarColor?: string; // For AI messages
+  personaId?: string;   // 玩家消息发送时使用的玩家角色
   
   // 情感分析相关字段
   emotionAnalysisResult?: EmotionAnalysisResult; // 消息的情感分析结果
+
+  // 候选回复：text 与 emotionAnalysisResult 始终对应当前选中的候选
+  alternates?: MessageAlternate[];
+  activeAlternate?: number;
+  emotionBefore?: EmotionalState;   // 发言角色在这条回复之前的情感状态，切换候选时据此重算
+  castEmotionsBefore?: Record<string, EmotionalState>; // 这条消息之前在场各角色（按名称）的情感状态，编辑、删除时据此恢复
+  isEdited?: boolean;               // 是否被用户手动修改过
+
+  // 旁白消息（sender 为旁白名称，不属于任何角色）
+  isNarration?: boolean;
+  narratorEvent?: Omit<NarratorEvent, 'text'>; // 旁白事件信息，描述文本即消息内容
 }
 
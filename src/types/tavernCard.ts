@@ -0,0 +1,97 @@
+// SillyTavern 角色卡格式定义（Character Card V1 / V2 / V3）
+import { AICharacter, ModelConfig } from './tavern';
+import { CharacterRelationshipSeed } from './relationship';
+
+// V1：所有字段位于顶层
+export interface TavernCardV1 {
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  first_mes: string;
+  mes_example: string;
+}
+
+// 角色书条目（V2 起）
+export interface TavernCharacterBookEntry {
+  keys: string[];
+  content: string;
+  extensions: Record<string, unknown>;
+  enabled: boolean;
+  insertion_order: number;
+  case_sensitive?: boolean;
+  name?: string;
+  priority?: number;
+  id?: number;
+  comment?: string;
+  selective?: boolean;
+  secondary_keys?: string[];
+  constant?: boolean;
+  position?: 'before_char' | 'after_char';
+}
+
+export interface TavernCharacterBook {
+  name?: string;
+  description?: string;
+  scan_depth?: number;
+  token_budget?: number;
+  recursive_scanning?: boolean;
+  extensions: Record<string, unknown>;
+  entries: TavernCharacterBookEntry[];
+}
+
+// V2 数据主体
+export interface TavernCardV2Data extends TavernCardV1 {
+  creator_notes: string;
+  system_prompt: string;
+  post_history_instructions: string;
+  alternate_greetings: string[];
+  character_book?: TavernCharacterBook;
+  tags: string[];
+  creator: string;
+  character_version: string;
+  extensions: Record<string, unknown>;
+}
+
+export interface TavernCardV2 {
+  spec: 'chara_card_v2';
+  spec_version: '2.0';
+  data: TavernCardV2Data;
+}
+
+// V3 在 V2 基础上扩展，导入时只使用与 V2 兼容的字段
+export interface TavernCardV3Data extends TavernCardV2Data {
+  nickname?: string;
+  group_only_greetings?: string[];
+  creation_date?: number;
+  modification_date?: number;
+}
+
+export interface TavernCardV3 {
+  spec: 'chara_card_v3';
+  spec_version: string;
+  data: TavernCardV3Data;
+}
+
+export type TavernCardVersion = 'v1' | 'v2' | 'v3';
+
+export type TavernCard = TavernCardV1 | TavernCardV2 | TavernCardV3;
+
+// 本应用在角色卡 extensions 中使用的命名空间
+export const TAVERN_TALES_EXTENSION_KEY = 'tavern_tales';
+
+// 导出时写入 extensions.tavern_tales 的应用专属字段，导入时据此无损还原角色
+export interface TavernTalesCardExtension {
+  version: 1;
+  prompt?: string;
+  avatarColor?: string;
+  personality?: AICharacter['personality'];
+  interests?: string[];
+  speakingStyle?: AICharacter['speakingStyle'];
+  socialRole?: AICharacter['socialRole'];
+  baselineEmotion?: AICharacter['baselineEmotion'];
+  responses?: string[];
+  relationshipSeeds?: CharacterRelationshipSeed[]; // 与其他角色的初始关系（按角色名）
+  // 只包含生成参数，不包含接口类型、模型名、baseUrl、密钥别名等本机连接信息
+  generation?: Omit<ModelConfig, 'provider' | 'modelName' | 'baseUrl' | 'apiKeyAlias' | 'prompt'>;
+}
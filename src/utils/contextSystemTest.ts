@@ -28,7 +28,7 @@ export class ContextSystemTest {
         avatarColor: '#3B82F6',
         modelConfig: {
           baseUrl: 'https://api.openai.com/v1',
-          apiKey: 'test-key',
+          apiKeyAlias: 'test',
           modelName: 'gpt-3.5-turbo',
           prompt: '你是艾莉娅，一位聪明的法师。',
           temperature: 0.7,
@@ -43,7 +43,7 @@ export class ContextSystemTest {
         avatarColor: '#EF4444',
         modelConfig: {
           baseUrl: 'https://api.openai.com/v1',
-          apiKey: 'test-key',
+          apiKeyAlias: 'test',
           modelName: 'gpt-3.5-turbo',
           prompt: '你是雷克斯，一位勇敢的战士。',
           temperature: 0.8,
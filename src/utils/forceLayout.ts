@@ -0,0 +1,155 @@
+/**
+ * 力导向布局与凸包
+ */
+
+const CENTER_GRAVITY = 4;
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+  weight: number;        // 边的权重 [0, 1]，越大两端越靠近
+}
+
+export interface ForceLayoutOptions {
+  width: number;
+  height: number;
+  iterations?: number;
+  padding?: number;      // 节点与画布边缘的最小距离
+}
+
+/**
+ * Fruchterman-Reingold 力导向布局
+ * 初始位置均匀分布在圆上，结果只由节点顺序和边决定，同样的输入得到同样的布局
+ * @returns 节点ID到坐标的映射
+ */
+export function computeForceLayout(
+  nodeIds: string[],
+  edges: LayoutEdge[],
+  options: ForceLayoutOptions
+): Map<string, LayoutPoint> {
+  const { width, height, iterations = 200, padding = 40 } = options;
+  const positions = new Map<string, LayoutPoint>();
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  if (nodeIds.length === 0) return positions;
+  if (nodeIds.length === 1) {
+    positions.set(nodeIds[0], { x: centerX, y: centerY });
+    return positions;
+  }
+
+  const radius = Math.min(width, height) / 2 - padding;
+  nodeIds.forEach((id, index) => {
+    const angle = (2 * Math.PI * index) / nodeIds.length;
+    positions.set(id, { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) });
+  });
+
+  // 理想边长
+  const k = Math.sqrt(((width - padding * 2) * (height - padding * 2)) / nodeIds.length);
+  const validEdges = edges.filter(edge =>
+    edge.source !== edge.target && positions.has(edge.source) && positions.has(edge.target)
+  );
+  let temperature = width / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = new Map<string, LayoutPoint>(nodeIds.map(id => [id, { x: 0, y: 0 }]));
+
+    // 所有节点之间相互排斥
+    for (let i = 0; i < nodeIds.length; i++) {
+      for (let j = i + 1; j < nodeIds.length; j++) {
+        const a = positions.get(nodeIds[i])!;
+        const b = positions.get(nodeIds[j])!;
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        let distance = Math.hypot(dx, dy);
+        if (distance < 0.01) {
+          // 重合时按顺序错开，避免方向不确定
+          dx = 0.01 * (i + 1);
+          dy = 0.01 * (j + 1);
+          distance = Math.hypot(dx, dy);
+        }
+        const force = (k * k) / distance;
+        const da = displacement.get(nodeIds[i])!;
+        const db = displacement.get(nodeIds[j])!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    // 有关系的节点相互吸引，关系越强越近
+    for (const edge of validEdges) {
+      const a = positions.get(edge.source)!;
+      const b = positions.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = ((distance * distance) / k) * (0.5 + edge.weight);
+      const da = displacement.get(edge.source)!;
+      const db = displacement.get(edge.target)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    }
+
+    // 按当前温度限制位移，并保持在画布内；弱引力把孤立节点拉向中心，避免贴边
+    for (const id of nodeIds) {
+      const position = positions.get(id)!;
+      const delta = displacement.get(id)!;
+      delta.x -= (position.x - centerX) * CENTER_GRAVITY * k / radius;
+      delta.y -= (position.y - centerY) * CENTER_GRAVITY * k / radius;
+      const length = Math.hypot(delta.x, delta.y);
+      if (length > 0) {
+        const step = Math.min(length, temperature);
+        position.x += (delta.x / length) * step;
+        position.y += (delta.y / length) * step;
+      }
+      position.x = Math.max(padding, Math.min(width - padding, position.x));
+      position.y = Math.max(padding, Math.min(height - padding, position.y));
+    }
+
+    temperature -= cooling;
+  }
+
+  return positions;
+}
+
+function cross(o: LayoutPoint, a: LayoutPoint, b: LayoutPoint): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+/**
+ * 凸包（Andrew 单调链算法）
+ * @returns 按逆时针排列的凸包顶点；少于 3 个点时原样返回
+ */
+export function convexHull(points: LayoutPoint[]): LayoutPoint[] {
+  if (points.length < 3) return [...points];
+
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const lower: LayoutPoint[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: LayoutPoint[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
@@ -0,0 +1,164 @@
+/**
+ * PNG 数据块读写工具
+ * 用于从角色卡 PNG 中提取 tEXt / iTXt 文本块，以及导出时写入角色卡数据
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * 检查数据是否以 PNG 文件签名开头
+ */
+export function isPng(bytes: Uint8Array): boolean {
+  if (bytes.length < PNG_SIGNATURE.length) return false;
+  return PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * 拆分 PNG 的所有数据块
+ */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) {
+    throw new Error('不是有效的PNG文件');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+
+    if (dataEnd + 4 > bytes.length) {
+      throw new Error(`PNG数据块 ${type} 已损坏`);
+    }
+
+    chunks.push({ type, data: bytes.subarray(dataStart, dataEnd) });
+    offset = dataEnd + 4; // 跳过 CRC
+
+    if (type === 'IEND') break;
+  }
+
+  return chunks;
+}
+
+/**
+ * 读取 PNG 中所有未压缩的文本块（tEXt，以及未压缩的 iTXt）
+ * @returns 关键字到文本内容的映射
+ */
+export function readPngTextChunks(bytes: Uint8Array): Record<string, string> {
+  const latin1 = new TextDecoder('latin1');
+  const utf8 = new TextDecoder('utf-8');
+  const texts: Record<string, string> = {};
+
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type === 'tEXt') {
+      const separator = chunk.data.indexOf(0);
+      if (separator < 0) continue;
+      const keyword = latin1.decode(chunk.data.subarray(0, separator));
+      texts[keyword] = latin1.decode(chunk.data.subarray(separator + 1));
+    } else if (chunk.type === 'iTXt') {
+      // 结构：keyword\0 compressionFlag compressionMethod languageTag\0 translatedKeyword\0 text
+      const keywordEnd = chunk.data.indexOf(0);
+      if (keywordEnd < 0) continue;
+      const compressed = chunk.data[keywordEnd + 1] === 1;
+      if (compressed) continue;
+
+      const languageEnd = chunk.data.indexOf(0, keywordEnd + 3);
+      const translatedEnd = languageEnd < 0 ? -1 : chunk.data.indexOf(0, languageEnd + 1);
+      if (translatedEnd < 0) continue;
+
+      const keyword = latin1.decode(chunk.data.subarray(0, keywordEnd));
+      texts[keyword] = utf8.decode(chunk.data.subarray(translatedEnd + 1));
+    }
+  }
+
+  return texts;
+}
+
+// CRC32 查找表（PNG 数据块校验使用）
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+/**
+ * 计算 CRC32 校验值
+ */
+export function crc32(bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 编码单个 PNG 数据块（长度 + 类型 + 数据 + CRC）
+ */
+function encodeChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * 向 PNG 写入 tEXt 文本块（放在 IEND 之前），同名关键字的旧文本块会被替换
+ * 文本必须是 latin1 范围内的字符（角色卡使用 base64，满足该要求）
+ */
+export function writePngTextChunk(bytes: Uint8Array, keyword: string, text: string): Uint8Array {
+  const encoder = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0) & 0xff);
+  const keywordBytes = encoder(keyword);
+  const textBytes = encoder(text);
+  const data = new Uint8Array(keywordBytes.length + 1 + textBytes.length);
+  data.set(keywordBytes, 0);
+  data.set(textBytes, keywordBytes.length + 1);
+
+  const latin1 = new TextDecoder('latin1');
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type === 'tEXt') {
+      const separator = chunk.data.indexOf(0);
+      if (separator >= 0 && latin1.decode(chunk.data.subarray(0, separator)) === keyword) {
+        continue;
+      }
+    }
+    if (chunk.type === 'IEND') {
+      parts.push(encodeChunk('tEXt', data));
+    }
+    parts.push(encodeChunk(chunk.type, chunk.data));
+  }
+
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
@@ -0,0 +1,187 @@
+/**
+ * SillyTavern 角色卡导出工具
+ * 将 AICharacter 导出为 Character Card V2 的 JSON，或内嵌 chara 文本块的 PNG
+ */
+
+import { AICharacter } from '../types/tavern';
+import {
+  TavernCardV2,
+  TavernTalesCardExtension,
+  TAVERN_TALES_EXTENSION_KEY
+} from '../types/tavernCard';
+import { writePngTextChunk } from './pngChunks';
+
+export type TavernCardExportFormat = 'json' | 'png';
+
+// 头像尺寸（SillyTavern 常用 400x600 竖版卡面）
+const AVATAR_WIDTH = 400;
+const AVATAR_HEIGHT = 600;
+
+// Tailwind 颜色（500 色阶）到十六进制的映射，用于绘制头像
+const TAILWIND_HUES: Record<string, string> = {
+  slate: '#64748b', gray: '#6b7280', zinc: '#71717a', stone: '#78716c',
+  red: '#ef4444', orange: '#f97316', amber: '#f59e0b', yellow: '#eab308',
+  lime: '#84cc16', green: '#22c55e', emerald: '#10b981', teal: '#14b8a6',
+  cyan: '#06b6d4', sky: '#0ea5e9', blue: '#3b82f6', indigo: '#6366f1',
+  violet: '#8b5cf6', purple: '#a855f7', fuchsia: '#d946ef', pink: '#ec4899',
+  rose: '#f43f5e'
+};
+
+/**
+ * 将 avatarColor（如 'bg-red-700'）近似换算为十六进制颜色
+ * 色阶高于 500 时加深，低于 500 时变浅
+ */
+export function avatarColorToHex(avatarColor: string): string {
+  const match = avatarColor.match(/bg-([a-z]+)-(\d{2,3})/);
+  const base = (match && TAILWIND_HUES[match[1]]) || TAILWIND_HUES.gray;
+  const shade = match ? parseInt(match[2], 10) : 500;
+  const factor = Math.max(-0.8, Math.min(0.6, (shade - 500) / 500));
+
+  const channels = [1, 3, 5].map(index => parseInt(base.slice(index, index + 2), 16));
+  const adjusted = channels.map(channel =>
+    factor >= 0
+      ? Math.round(channel * (1 - factor))
+      : Math.round(channel + (255 - channel) * -factor)
+  );
+  return `#${adjusted.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * 将 AICharacter 转换为 Character Card V2
+ */
+export function characterToTavernCard(character: AICharacter): TavernCardV2 {
+  // 接口类型、模型名与连接信息只在本机有效，导入方使用自己的默认模型
+  const {
+    provider: _provider,
+    modelName: _modelName,
+    baseUrl: _baseUrl,
+    apiKeyAlias: _apiKeyAlias,
+    prompt,
+    ...generation
+  } = character.modelConfig || {};
+
+  const extension: TavernTalesCardExtension = {
+    version: 1,
+    prompt,
+    avatarColor: character.avatarColor,
+    personality: character.personality,
+    interests: character.interests,
+    speakingStyle: character.speakingStyle,
+    socialRole: character.socialRole,
+    baselineEmotion: character.baselineEmotion,
+    responses: character.responses,
+    relationshipSeeds: character.relationshipSeeds,
+    generation
+  };
+
+  return {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+      name: character.name,
+      description: prompt || '',
+      personality: '',
+      scenario: '',
+      first_mes: character.greeting,
+      mes_example: '',
+      creator_notes: '由 Tavern Tales 导出',
+      system_prompt: '',
+      post_history_instructions: '',
+      alternate_greetings: character.alternateGreetings || [],
+      tags: character.interests || [],
+      creator: 'Tavern Tales',
+      character_version: '1.0',
+      extensions: {
+        [TAVERN_TALES_EXTENSION_KEY]: JSON.parse(JSON.stringify(extension))
+      }
+    }
+  };
+}
+
+/**
+ * 将 UTF-8 文本编码为 base64（PNG tEXt 块只能容纳 latin1 字符）
+ */
+function encodeBase64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  const step = 0x8000;
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+}
+
+/**
+ * 用 canvas 根据 avatarColor 生成头像图片
+ */
+async function renderAvatarPng(character: AICharacter): Promise<Uint8Array> {
+  const canvas = document.createElement('canvas');
+  canvas.width = AVATAR_WIDTH;
+  canvas.height = AVATAR_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('浏览器不支持 canvas，无法生成头像');
+  }
+
+  const color = avatarColorToHex(character.avatarColor);
+  const gradient = context.createLinearGradient(0, 0, 0, AVATAR_HEIGHT);
+  gradient.addColorStop(0, color);
+  gradient.addColorStop(1, avatarColorToHex(character.avatarColor.replace(/-(\d{2,3})$/, '-900')));
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, AVATAR_WIDTH, AVATAR_HEIGHT);
+
+  context.fillStyle = 'rgba(255, 255, 255, 0.92)';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.font = 'bold 180px sans-serif';
+  context.fillText(Array.from(character.name)[0] || '?', AVATAR_WIDTH / 2, AVATAR_HEIGHT / 2 - 30);
+  context.font = '36px sans-serif';
+  context.fillText(character.name, AVATAR_WIDTH / 2, AVATAR_HEIGHT - 90, AVATAR_WIDTH - 40);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('头像图片生成失败');
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * 导出为 V2 角色卡 JSON
+ */
+export function exportTavernCardJson(character: AICharacter): Blob {
+  const card = characterToTavernCard(character);
+  return new Blob([JSON.stringify(card, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * 导出为内嵌 chara 文本块的 V2 角色卡 PNG
+ */
+export async function exportTavernCardPng(character: AICharacter): Promise<Blob> {
+  const card = characterToTavernCard(character);
+  const avatar = await renderAvatarPng(character);
+  const png = writePngTextChunk(avatar, 'chara', encodeBase64Utf8(JSON.stringify(card)));
+  return new Blob([png], { type: 'image/png' });
+}
+
+/**
+ * 导出角色卡并触发浏览器下载
+ */
+export async function downloadTavernCard(
+  character: AICharacter,
+  format: TavernCardExportFormat
+): Promise<void> {
+  const blob = format === 'png'
+    ? await exportTavernCardPng(character)
+    : exportTavernCardJson(character);
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${character.name.replace(/[\\/:*?"<>|]/g, '_')}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  console.log(`📤 已导出角色卡: ${character.name} (${format})`);
+}
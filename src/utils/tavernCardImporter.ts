@@ -0,0 +1,315 @@
+/**
+ * SillyTavern 角色卡导入工具
+ * 支持 Character Card V1 / V2 / V3，文件格式为 JSON 或内嵌 tEXt 块的 PNG
+ */
+
+import { AICharacter, ModelConfig } from '../types/tavern';
+import {
+  TavernCardV2Data,
+  TavernCardVersion,
+  TavernTalesCardExtension,
+  TAVERN_TALES_EXTENSION_KEY
+} from '../types/tavernCard';
+import { ValidationError, ErrorType, ErrorSeverity } from '../types/error';
+import { ErrorHandler } from '../lib/errorHandler';
+import { personaStore } from '../lib/persona';
+import { parseRelationshipSeeds } from '../lib/relationshipManager';
+import { ValidationUtils, ValidationRules } from './validation';
+import { isPng, readPngTextChunks } from './pngChunks';
+
+// 导入结果
+export interface TavernCardImportResult {
+  success: boolean;
+  character?: AICharacter;
+  cardVersion?: TavernCardVersion;
+  errors: ValidationError[];
+  warnings: string[];
+}
+
+// 角色 prompt 中保留统一写法的 {{user}} 宏，请求时替换为当前玩家角色的名字
+const USER_MACRO = '{{user}}';
+
+// 导入角色的头像颜色候选
+const AVATAR_COLORS = [
+  'bg-red-500', 'bg-blue-500', 'bg-green-500', 'bg-yellow-500', 'bg-purple-500',
+  'bg-pink-500', 'bg-indigo-500', 'bg-orange-500', 'bg-teal-500'
+];
+
+const DEFAULT_RESPONSES = [
+  "让我想想...",
+  "这很有趣。",
+  "继续说。",
+  "嗯，我明白了。",
+  "还有什么其他的吗？"
+];
+
+/**
+ * 创建一个导入阶段的校验错误
+ */
+function createImportError(message: string, field?: string, originalError?: unknown): ValidationError {
+  const error = ErrorHandler.createError(
+    ErrorType.VALIDATION_ERROR,
+    ErrorSeverity.LOW,
+    message,
+    originalError,
+    'TavernCardImporter'
+  ) as ValidationError;
+  error.field = field;
+  error.userMessage = message;
+  return error;
+}
+
+/**
+ * 将 PNG 中 base64 编码的角色卡解码为 UTF-8 文本
+ */
+function decodeBase64Utf8(base64: string): string {
+  const binary = atob(base64.trim());
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/**
+ * 从文件内容中取出角色卡 JSON 文本
+ * PNG 优先读取 V3 的 ccv3 块，其次是 chara 块
+ */
+function extractCardJson(bytes: Uint8Array): string {
+  if (!isPng(bytes)) {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+
+  const texts = readPngTextChunks(bytes);
+  const encoded = texts['ccv3'] ?? texts['chara'];
+  if (!encoded) {
+    throw new Error('PNG 中没有找到角色卡数据（chara / ccv3）');
+  }
+  return decodeBase64Utf8(encoded);
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * 将不同版本的角色卡统一为 V2 数据结构
+ */
+function normalizeCard(raw: Record<string, unknown>): { data: TavernCardV2Data; version: TavernCardVersion } {
+  let version: TavernCardVersion = 'v1';
+  let source: Record<string, unknown> = raw;
+
+  if (raw.spec === 'chara_card_v3' || raw.spec === 'chara_card_v2') {
+    version = raw.spec === 'chara_card_v3' ? 'v3' : 'v2';
+    source = (raw.data && typeof raw.data === 'object' ? raw.data : {}) as Record<string, unknown>;
+  }
+
+  return {
+    version,
+    data: {
+      name: asString(source.name).trim(),
+      description: asString(source.description),
+      personality: asString(source.personality),
+      scenario: asString(source.scenario),
+      first_mes: asString(source.first_mes),
+      mes_example: asString(source.mes_example),
+      creator_notes: asString(source.creator_notes),
+      system_prompt: asString(source.system_prompt),
+      post_history_instructions: asString(source.post_history_instructions),
+      alternate_greetings: asStringArray(source.alternate_greetings),
+      tags: asStringArray(source.tags),
+      creator: asString(source.creator),
+      character_version: asString(source.character_version),
+      extensions: (source.extensions && typeof source.extensions === 'object'
+        ? source.extensions
+        : {}) as Record<string, unknown>
+    }
+  };
+}
+
+/**
+ * 校验角色卡内容
+ */
+function validateCard(data: TavernCardV2Data): { errors: ValidationError[]; warnings: string[] } {
+  const results = ValidationUtils.validateMultiple(data as unknown as Record<string, unknown>, {
+    name: [
+      ValidationRules.required('角色卡缺少角色名称'),
+      ValidationRules.maxLength(50, '角色名称不能超过50个字符')
+    ],
+    first_mes: [
+      ValidationUtils.createCustomRule(
+        'hasContent',
+        () => Boolean(data.first_mes.trim() || data.description.trim() || data.personality.trim()),
+        '角色卡缺少开场白和角色描述'
+      )
+    ]
+  });
+
+  const warnings = ValidationUtils.getAllWarnings(results);
+  if (!data.first_mes.trim()) {
+    warnings.push('角色卡没有开场白，将使用默认问候语');
+  }
+
+  return { errors: ValidationUtils.getAllErrors(results), warnings };
+}
+
+/**
+ * 替换角色卡中常见的名称宏
+ */
+function replaceNameMacros(text: string, characterName: string, userName: string): string {
+  return text
+    .replace(/\{\{char\}\}|<BOT>/gi, characterName)
+    .replace(/\{\{user\}\}|<USER>/gi, userName);
+}
+
+/**
+ * 由角色卡的设定字段拼接角色 prompt
+ */
+function buildCharacterPrompt(data: TavernCardV2Data): string {
+  const sections: [string, string][] = [
+    ['系统指令', data.system_prompt],
+    ['角色设定', data.description],
+    ['性格', data.personality],
+    ['场景', data.scenario],
+    ['对话示例', data.mes_example],
+    ['补充指令', data.post_history_instructions]
+  ];
+
+  const body = sections
+    .filter(([, content]) => content.trim())
+    .map(([title, content]) => `【${title}】\n${replaceNameMacros(content.trim(), data.name, USER_MACRO)}`)
+    .join('\n\n');
+
+  return `你是${data.name}。\n\n${body}`.trim();
+}
+
+/**
+ * 根据角色名称稳定地选择头像颜色
+ */
+function pickAvatarColor(name: string): string {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return AVATAR_COLORS[hash % AVATAR_COLORS.length];
+}
+
+/**
+ * 读取本应用导出时写入的扩展字段（由其他工具制作的角色卡没有该字段）
+ */
+function readAppExtension(extensions: Record<string, unknown>): TavernTalesCardExtension | null {
+  const extension = extensions[TAVERN_TALES_EXTENSION_KEY];
+  if (!extension || typeof extension !== 'object' || Array.isArray(extension)) {
+    return null;
+  }
+  return extension as TavernTalesCardExtension;
+}
+
+/**
+ * 将统一后的角色卡数据转换为 AICharacter
+ */
+function cardToCharacter(data: TavernCardV2Data): AICharacter {
+  // 开场白直接显示在对话中，使用导入时的玩家角色名字
+  const playerName = personaStore.getActivePersona().name;
+  const greeting = replaceNameMacros(data.first_mes.trim(), data.name, playerName) || `你好，我是${data.name}。`;
+  const alternateGreetings = data.alternate_greetings
+    .map(text => replaceNameMacros(text.trim(), data.name, playerName))
+    .filter(Boolean);
+
+  const extension = readAppExtension(data.extensions);
+  const responses = asStringArray(extension?.responses);
+  const interests = asStringArray(extension?.interests);
+  const relationshipSeeds = parseRelationshipSeeds(extension?.relationshipSeeds);
+
+  // 较早导出的角色卡带有接口类型和模型名，与本机的默认地址、密钥不匹配，导入时丢弃
+  const {
+    provider: _provider,
+    modelName: _modelName,
+    baseUrl: _baseUrl,
+    apiKeyAlias: _apiKeyAlias,
+    ...generation
+  } = (extension?.generation || {}) as Partial<ModelConfig>;
+
+  return {
+    id: `imported_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: data.name,
+    avatarColor: asString(extension?.avatarColor) || pickAvatarColor(data.name),
+    greeting,
+    alternateGreetings: alternateGreetings.length > 0 ? alternateGreetings : undefined,
+    responses: responses.length > 0 ? responses : [...DEFAULT_RESPONSES],
+    modelConfig: {
+      ...generation,
+      prompt: asString(extension?.prompt) || buildCharacterPrompt(data)
+    },
+    personality: extension?.personality || {
+      extroversion: 0.5,
+      curiosity: 0.5,
+      talkativeness: 0.5,
+      reactivity: 0.5
+    },
+    interests: interests.length > 0
+      ? interests
+      : data.tags.length > 0 ? data.tags.slice(0, 8) : ['一般话题'],
+    speakingStyle: extension?.speakingStyle || 'reactive',
+    socialRole: extension?.socialRole || 'observer',
+    baselineEmotion: extension?.baselineEmotion,
+    relationshipSeeds: relationshipSeeds.length > 0 ? relationshipSeeds : undefined
+  };
+}
+
+/**
+ * 解析已读取的角色卡字节内容
+ */
+export function parseTavernCard(bytes: Uint8Array): TavernCardImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(extractCardJson(bytes));
+  } catch (error) {
+    const message = error instanceof SyntaxError
+      ? '角色卡 JSON 格式错误'
+      : error instanceof Error ? error.message : '无法读取角色卡';
+    return { success: false, errors: [createImportError(message, 'file', error)], warnings: [] };
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, errors: [createImportError('角色卡内容不是有效的对象', 'file')], warnings: [] };
+  }
+
+  const { data, version } = normalizeCard(raw as Record<string, unknown>);
+  const { errors, warnings } = validateCard(data);
+
+  if (errors.length > 0) {
+    return { success: false, cardVersion: version, errors, warnings };
+  }
+
+  return {
+    success: true,
+    character: cardToCharacter(data),
+    cardVersion: version,
+    errors: [],
+    warnings
+  };
+}
+
+/**
+ * 导入 SillyTavern 角色卡文件（.json / .png）
+ */
+export async function importTavernCard(file: File): Promise<TavernCardImportResult> {
+  console.log(`📥 导入角色卡: ${file.name}`);
+
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(await file.arrayBuffer());
+  } catch (error) {
+    return { success: false, errors: [createImportError('无法读取角色卡文件', 'file', error)], warnings: [] };
+  }
+
+  const result = parseTavernCard(bytes);
+  if (result.success) {
+    console.log(`✅ 角色卡导入成功: ${result.character?.name} (${result.cardVersion})`);
+  } else {
+    console.warn('⚠️ 角色卡导入失败:', ValidationUtils.formatErrors(result.errors));
+  }
+  return result;
+}
@@ -0,0 +1,183 @@
+/**
+ * Token 计数工具
+ * OpenAI 系列模型使用真实的 BPE 词表精确计数，其他模型按模型族的经验比例估算。
+ * 词表体积较大，首次使用时按需加载；加载完成前先返回估算值，之后自动切换为精确计数。
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+
+// 拥有公开 BPE 词表的编码
+export type BPEEncodingName = 'o200k_base' | 'cl100k_base';
+
+// 只能估算的模型族
+export type HeuristicFamily = 'deepseek' | 'claude' | 'gemini' | 'qwen' | 'llama' | 'generic';
+
+export type TokenizerFamily = BPEEncodingName | HeuristicFamily;
+
+// 估算参数：每个中日韩字符折合的 token 数，以及其他字符平均多少个折合一个 token
+interface HeuristicProfile {
+  cjkTokensPerChar: number;
+  charsPerToken: number;
+}
+
+// 经验比例，来自各家文档给出的换算说明与抽样对比；OpenAI 两项仅在词表加载前使用
+const HEURISTIC_PROFILES: Record<TokenizerFamily, HeuristicProfile> = {
+  o200k_base: { cjkTokensPerChar: 0.9, charsPerToken: 4.5 },
+  cl100k_base: { cjkTokensPerChar: 1.4, charsPerToken: 4.5 },
+  deepseek: { cjkTokensPerChar: 0.6, charsPerToken: 3.3 },
+  claude: { cjkTokensPerChar: 1.2, charsPerToken: 3.5 },
+  gemini: { cjkTokensPerChar: 0.8, charsPerToken: 4 },
+  qwen: { cjkTokensPerChar: 0.7, charsPerToken: 4 },
+  llama: { cjkTokensPerChar: 1, charsPerToken: 4 },
+  generic: { cjkTokensPerChar: 1.2, charsPerToken: 3.5 }
+};
+
+// 模型名匹配规则，按顺序取第一个命中的
+const MODEL_FAMILY_RULES: Array<[RegExp, TokenizerFamily]> = [
+  [/gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt|(^|\/)o[134](-|$)/i, 'o200k_base'],
+  [/gpt-4|gpt-3\.5|text-embedding/i, 'cl100k_base'],
+  [/deepseek/i, 'deepseek'],
+  [/claude/i, 'claude'],
+  [/gemini|gemma/i, 'gemini'],
+  [/qwen|qwq/i, 'qwen'],
+  [/llama|mistral|mixtral/i, 'llama']
+];
+
+// 每条对话消息的格式开销（角色标记、分隔符），以及回复起始标记
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+const CACHE_LIMIT = 2000;
+const CJK_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/g;
+
+const encoders = new Map<BPEEncodingName, Tiktoken>();
+const loadingEncoders = new Map<BPEEncodingName, Promise<Tiktoken | null>>();
+const tokenCountCache = new Map<string, number>();
+
+function isBPEEncoding(family: TokenizerFamily): family is BPEEncodingName {
+  return family === 'o200k_base' || family === 'cl100k_base';
+}
+
+async function importRanks(encoding: BPEEncodingName) {
+  switch (encoding) {
+    case 'o200k_base':
+      return (await import('js-tiktoken/ranks/o200k_base')).default;
+    case 'cl100k_base':
+      return (await import('js-tiktoken/ranks/cl100k_base')).default;
+  }
+}
+
+function loadEncoder(encoding: BPEEncodingName): Promise<Tiktoken | null> {
+  const existing = loadingEncoders.get(encoding);
+  if (existing) return existing;
+
+  const loading = importRanks(encoding)
+    .then(ranks => {
+      const encoder = new Tiktoken(ranks);
+      encoders.set(encoding, encoder);
+      // 估算值已失效
+      clearTokenCountCache();
+      console.log(`🔢 已加载 ${encoding} 词表`);
+      return encoder;
+    })
+    .catch(error => {
+      console.warn(`⚠️ 加载 ${encoding} 词表失败，继续使用估算:`, error);
+      loadingEncoders.delete(encoding);
+      return null;
+    });
+
+  loadingEncoders.set(encoding, loading);
+  return loading;
+}
+
+function heuristicCount(text: string, family: TokenizerFamily): number {
+  const profile = HEURISTIC_PROFILES[family];
+  const cjkCount = text.match(CJK_PATTERN)?.length || 0;
+  // 连续空白通常会被合并为一个 token
+  const otherCount = text.replace(CJK_PATTERN, '').replace(/\s+/g, ' ').length;
+  return Math.ceil(cjkCount * profile.cjkTokensPerChar + otherCount / profile.charsPerToken);
+}
+
+/**
+ * 根据模型名判断使用的分词方式，未知模型按通用比例估算
+ */
+export function getTokenizerFamily(modelName?: string): TokenizerFamily {
+  if (!modelName) return 'generic';
+  const rule = MODEL_FAMILY_RULES.find(([pattern]) => pattern.test(modelName));
+  return rule ? rule[1] : 'generic';
+}
+
+/**
+ * 预先加载模型对应的词表，非 OpenAI 模型无需加载
+ * @returns 是否可以精确计数
+ */
+export async function preloadTokenizer(modelName?: string): Promise<boolean> {
+  const family = getTokenizerFamily(modelName);
+  if (!isBPEEncoding(family)) return false;
+  return (await loadEncoder(family)) !== null;
+}
+
+/**
+ * 当前模型的计数是否为精确值
+ */
+export function isExactTokenizerReady(modelName?: string): boolean {
+  const family = getTokenizerFamily(modelName);
+  return isBPEEncoding(family) && encoders.has(family);
+}
+
+/**
+ * 计算文本的 token 数
+ * 词表尚未加载时返回估算值并在后台开始加载
+ * @param text 文本
+ * @param modelName 模型名，省略时按通用比例估算
+ */
+export function estimateTokens(text: string, modelName?: string): number {
+  if (!text) return 0;
+
+  const family = getTokenizerFamily(modelName);
+  const cacheKey = `${family}\u0000${text}`;
+  const cached = tokenCountCache.get(cacheKey);
+  if (cached !== undefined) {
+    // 重新插入以保持最近使用顺序
+    tokenCountCache.delete(cacheKey);
+    tokenCountCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  let count: number;
+  const encoder = isBPEEncoding(family) ? encoders.get(family) : undefined;
+  if (encoder) {
+    // 把文本中的特殊标记当作普通文本计数，而不是抛出异常
+    count = encoder.encode(text, [], []).length;
+  } else {
+    count = heuristicCount(text, family);
+    if (isBPEEncoding(family)) {
+      void loadEncoder(family);
+    }
+  }
+
+  tokenCountCache.set(cacheKey, count);
+  if (tokenCountCache.size > CACHE_LIMIT) {
+    const oldestKey = tokenCountCache.keys().next().value;
+    if (oldestKey !== undefined) tokenCountCache.delete(oldestKey);
+  }
+  return count;
+}
+
+/**
+ * 计算一组对话消息的 token 数，包含每条消息的格式开销
+ */
+export function estimateMessageTokens(messages: Array<{ content: string }>, modelName?: string): number {
+  if (messages.length === 0) return 0;
+  return messages.reduce(
+    (total, message) => total + TOKENS_PER_MESSAGE + estimateTokens(message.content, modelName),
+    TOKENS_PER_REPLY
+  );
+}
+
+/**
+ * 清空计数缓存
+ */
+export function clearTokenCountCache(): void {
+  tokenCountCache.clear();
+}